@@ -0,0 +1,44 @@
+-- Full-text indexes behind the q parameter of list endpoints. Prisma cannot model FTS5
+-- virtual tables, so they only exist here and are kept in sync by triggers.
+
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE "UserSearch" USING fts5("id" UNINDEXED, "name", "email", tokenize = 'unicode61 remove_diacritics 2');
+
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE "RoleSearch" USING fts5("id" UNINDEXED, "name", "description", tokenize = 'unicode61 remove_diacritics 2');
+
+-- Backfill
+INSERT INTO "UserSearch" ("id", "name", "email") SELECT "id", COALESCE("name", ''), "email" FROM "User";
+
+-- Backfill
+INSERT INTO "RoleSearch" ("id", "name", "description") SELECT "id", "name", COALESCE("description", '') FROM "Role";
+
+-- CreateTrigger
+CREATE TRIGGER "User_search_insert" AFTER INSERT ON "User" BEGIN
+    INSERT INTO "UserSearch" ("id", "name", "email") VALUES (NEW."id", COALESCE(NEW."name", ''), NEW."email");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "User_search_update" AFTER UPDATE OF "name", "email" ON "User" BEGIN
+    UPDATE "UserSearch" SET "name" = COALESCE(NEW."name", ''), "email" = NEW."email" WHERE "id" = OLD."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "User_search_delete" AFTER DELETE ON "User" BEGIN
+    DELETE FROM "UserSearch" WHERE "id" = OLD."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Role_search_insert" AFTER INSERT ON "Role" BEGIN
+    INSERT INTO "RoleSearch" ("id", "name", "description") VALUES (NEW."id", NEW."name", COALESCE(NEW."description", ''));
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Role_search_update" AFTER UPDATE OF "name", "description" ON "Role" BEGIN
+    UPDATE "RoleSearch" SET "name" = NEW."name", "description" = COALESCE(NEW."description", '') WHERE "id" = OLD."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Role_search_delete" AFTER DELETE ON "Role" BEGIN
+    DELETE FROM "RoleSearch" WHERE "id" = OLD."id";
+END;
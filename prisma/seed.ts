@@ -1,4 +1,5 @@
-import { Prisma, PrismaClient, Role, User } from '@generated'
+import { Category, Prisma, PrismaClient, Role, User } from '@generated'
+import { hashPassword } from '~/auth/password'
 
 const databaseUrl = 'file:./prisma/dev.db'
 
@@ -6,25 +7,250 @@ console.log(`Database url: ${databaseUrl}`)
 
 const prisma = new PrismaClient()
 
-type RoleCreateInput = Prisma.RoleCreateInput
+type RoleDefinition = Pick<Prisma.RoleCreateInput, 'name' | 'description'> & { parent?: string }
 type UserCreateManyInput = Prisma.UserCreateManyInput
+type SeedUserInput = UserCreateManyInput & { password: string; roleIds: string[] }
 
-const roleDefinitions: RoleCreateInput[] = [
-  { name: 'ADMIN', description: 'Administrator role' },
-  { name: 'PRODUCT_MANAGER', description: 'Product Manager role' },
-  { name: 'USER', description: 'Regular user role' }
+// Subcategories are nested under their parent's definition
+interface CategoryDefinition {
+  name: string
+  slug: string
+  description: string
+  children?: CategoryDefinition[]
+}
+
+type ProductDefinition = Omit<Prisma.ProductCreateManyInput, 'categoryId'> & { category: string }
+
+type CommentDefinition = Pick<Prisma.CommentCreateManyInput, 'content' | 'rating'> & {
+  product: string
+  author: string
+}
+
+interface PermissionDefinition {
+  action: string | string[]
+  subject: string | string[]
+  conditions?: Prisma.InputJsonObject
+}
+
+// Parents are listed before their children: ADMIN inherits PRODUCT_MANAGER, which inherits USER
+const roleDefinitions: RoleDefinition[] = [
+  { name: 'USER', description: 'Regular user role' },
+  { name: 'PRODUCT_MANAGER', description: 'Product Manager role', parent: 'USER' },
+  { name: 'ADMIN', description: 'Administrator role', parent: 'PRODUCT_MANAGER' }
 ]
 
+// Rules each role adds on top of the ones it inherits; ${user.id} is resolved at request time
+const permissionDefinitions: Record<string, PermissionDefinition[]> = {
+  ADMIN: [{ action: 'manage', subject: 'all' }],
+  PRODUCT_MANAGER: [
+    { action: ['create', 'read', 'update', 'delete'], subject: ['Category', 'Product'] },
+    { action: 'read', subject: ['User', 'Profile', 'Order'] }
+  ],
+  USER: [
+    { action: 'read', subject: ['Category', 'Product', 'Comment'] },
+    {
+      action: ['read', 'update'],
+      subject: ['Profile', 'Settings'],
+      conditions: { userId: '${user.id}' }
+    },
+    { action: 'create', subject: 'Comment' },
+    { action: ['update', 'delete'], subject: 'Comment', conditions: { userId: '${user.id}' } },
+    { action: ['create', 'read'], subject: 'Order', conditions: { userId: '${user.id}' } },
+    { action: 'delete', subject: 'Order', conditions: { userId: '${user.id}', status: 'PENDING' } },
+    {
+      action: ['create', 'read', 'update', 'delete'],
+      subject: 'Cart',
+      conditions: { userId: '${user.id}' }
+    }
+  ]
+}
+
+const categoryDefinitions: CategoryDefinition[] = [
+  {
+    name: 'Electronics',
+    slug: 'electronics',
+    description: 'Electronic devices and gadgets',
+    children: [
+      { name: 'Computers', slug: 'computers', description: 'Laptops, desktops and accessories' },
+      { name: 'Audio', slug: 'audio', description: 'Headphones, speakers and microphones' }
+    ]
+  },
+  { name: 'Clothing', slug: 'clothing', description: 'Fashion and apparel' },
+  {
+    name: 'Books',
+    slug: 'books',
+    description: 'Books and literature',
+    children: [
+      { name: 'Programming', slug: 'programming', description: 'Software development books' }
+    ]
+  },
+  { name: 'Home & Garden', slug: 'home-garden', description: 'Home improvement and gardening' }
+]
+
+// Prices are in cents
+const productDefinitions: ProductDefinition[] = [
+  {
+    name: 'Laptop Pro 15"',
+    slug: 'laptop-pro-15',
+    description: 'High-performance laptop with 16GB RAM and 512GB SSD',
+    price: 129999,
+    stock: 15,
+    category: 'computers'
+  },
+  {
+    name: 'Mechanical Keyboard',
+    slug: 'mechanical-keyboard',
+    description: 'Tenkeyless keyboard with hot-swappable switches',
+    price: 8999,
+    stock: 40,
+    category: 'computers'
+  },
+  {
+    name: 'Wireless Headphones',
+    slug: 'wireless-headphones',
+    description: 'Noise-cancelling Bluetooth headphones with 30-hour battery',
+    price: 19999,
+    stock: 45,
+    category: 'audio'
+  },
+  {
+    name: 'Portable Speaker',
+    slug: 'portable-speaker',
+    description: 'Waterproof speaker, not released yet',
+    price: 7999,
+    stock: 0,
+    isActive: false,
+    category: 'audio'
+  },
+  {
+    name: 'Smart Watch',
+    slug: 'smart-watch',
+    description: 'Fitness tracker with heart rate monitor and GPS',
+    price: 29999,
+    stock: 30,
+    category: 'electronics'
+  },
+  {
+    name: 'Cotton T-Shirt',
+    slug: 'cotton-t-shirt',
+    description: 'Comfortable 100% organic cotton t-shirt',
+    price: 2499,
+    stock: 100,
+    category: 'clothing'
+  },
+  {
+    name: 'Denim Jeans',
+    slug: 'denim-jeans',
+    description: 'Classic fit denim jeans with stretch comfort',
+    price: 5999,
+    stock: 75,
+    category: 'clothing'
+  },
+  {
+    name: 'Winter Jacket',
+    slug: 'winter-jacket',
+    description: 'Waterproof insulated jacket for cold weather',
+    price: 14999,
+    stock: 0,
+    category: 'clothing'
+  },
+  {
+    name: 'TypeScript Handbook',
+    slug: 'typescript-handbook',
+    description: 'Complete guide to TypeScript programming',
+    price: 3999,
+    stock: 50,
+    category: 'programming'
+  },
+  {
+    name: 'Clean Code',
+    slug: 'clean-code',
+    description: 'A handbook of agile software craftsmanship',
+    price: 4499,
+    stock: 35,
+    category: 'programming'
+  },
+  {
+    name: 'World Atlas',
+    slug: 'world-atlas',
+    description: 'Illustrated atlas with 200 detailed maps',
+    price: 3499,
+    stock: 12,
+    category: 'books'
+  },
+  {
+    name: 'LED Desk Lamp',
+    slug: 'led-desk-lamp',
+    description: 'Adjustable LED lamp with USB charging port',
+    price: 3499,
+    stock: 60,
+    category: 'home-garden'
+  },
+  {
+    name: 'Plant Starter Kit',
+    slug: 'plant-starter-kit',
+    description: 'Complete kit for growing herbs indoors',
+    price: 2999,
+    stock: 80,
+    category: 'home-garden'
+  }
+]
+
+// Products by slug, authors by email
+const commentDefinitions: CommentDefinition[] = [
+  {
+    product: 'wireless-headphones',
+    author: 'user@example.com',
+    content: 'Great noise cancelling, the battery easily lasts a week of commutes',
+    rating: 5
+  },
+  {
+    product: 'wireless-headphones',
+    author: 'manager@example.com',
+    content: 'Comfortable, but the case is bulky',
+    rating: 4
+  },
+  {
+    product: 'clean-code',
+    author: 'user@example.com',
+    content: 'Does the chapter on comments still apply to TypeScript?',
+    rating: null
+  },
+  {
+    product: 'cotton-t-shirt',
+    author: 'admin@example.com',
+    content: 'Shrank a size after the first wash',
+    rating: 2
+  }
+]
+
+const toArray = (value: string | string[]): string[] => (Array.isArray(value) ? value : [value])
+
 const clearDatabase = async (): Promise<void> => {
   console.log('🧹 Clearing existing data...')
 
   try {
     await prisma.$transaction(async tx => {
+      // Orders restrict the deletion of their products and customers, their items cascade
+      const orders = await tx.order.deleteMany()
+      console.log(`Orders deleted: ${orders.count}`)
+
+      // Products first, categories restrict the deletion of their products and subcategories
+      const products = await tx.product.deleteMany()
+      console.log(`Products deleted: ${products.count}`)
+
+      await tx.category.updateMany({ data: { parentId: null } })
+      const categories = await tx.category.deleteMany()
+      console.log(`Categories deleted: ${categories.count}`)
+
       const users = await tx.user.deleteMany()
       console.log(`Users deleted: ${users.count}`)
 
       const roles = await tx.role.deleteMany()
       console.log(`Roles deleted: ${roles.count}`)
+
+      const permissions = await tx.permission.deleteMany()
+      console.log(`Permissions deleted: ${permissions.count}`)
     })
   } catch (error) {
     console.error('❌ Clearing database failed:', error)
@@ -32,9 +258,17 @@ const clearDatabase = async (): Promise<void> => {
 }
 
 const seedRoles = async (): Promise<Role[]> => {
-  const roles = await Promise.all(
-    roleDefinitions.map(roleData => prisma.role.create({ data: roleData }))
-  )
+  const roles: Role[] = []
+
+  // Sequential so each parent exists before its children
+  for (const { parent, ...roleData } of roleDefinitions) {
+    const parentRole = roles.find(role => role.name === parent)
+    const role = await prisma.role.create({
+      data: { ...roleData, ...(parentRole && { parentRole: { connect: { id: parentRole.id } } }) }
+    })
+
+    roles.push(role)
+  }
 
   console.log(
     'Roles created:',
@@ -44,30 +278,76 @@ const seedRoles = async (): Promise<Role[]> => {
   return roles
 }
 
+const seedPermissions = async (roles: Role[]): Promise<number> => {
+  // One Permission row per (action, subject) pair keeps rules easy to edit individually
+  const permissions = roles.flatMap(role =>
+    (permissionDefinitions[role.name] ?? []).flatMap(({ action, subject, conditions }) =>
+      toArray(action).flatMap(actionName =>
+        toArray(subject).map(subjectName => ({
+          action: actionName,
+          subject: subjectName,
+          conditions,
+          roles: { create: { role: { connect: { id: role.id } } } }
+        }))
+      )
+    )
+  )
+
+  const createdPermissions = await Promise.all(
+    permissions.map(permission => prisma.permission.create({ data: permission }))
+  )
+
+  return createdPermissions.length
+}
+
 const seedUsers = async (roles: Role[]): Promise<User[]> => {
   const adminRole = roles.find(role => role.name === 'ADMIN')!
   const managerRole = roles.find(role => role.name === 'PRODUCT_MANAGER')!
   const userRole = roles.find(role => role.name === 'USER')!
 
-  const users: UserCreateManyInput[] = [
+  const users: SeedUserInput[] = [
     {
       email: 'admin@example.com',
       name: 'Admin User',
-      roleId: adminRole.id
+      emailVerified: true,
+      roleIds: [adminRole.id],
+      password: 'admin123'
     },
     {
       email: 'manager@example.com',
       name: 'Manager User',
-      roleId: managerRole.id
+      emailVerified: true,
+      roleIds: [managerRole.id],
+      password: 'manager123'
     },
     {
       email: 'user@example.com',
       name: 'Regular User',
-      roleId: userRole.id
+      emailVerified: true,
+      roleIds: [userRole.id],
+      password: 'user123'
     }
   ]
 
-  const createdUsers = await Promise.all(users.map(user => prisma.user.create({ data: user })))
+  // Better Auth keeps email/password credentials in a 'credential' account keyed by the user id
+  const createdUsers = await Promise.all(
+    users.map(async ({ password, roleIds, ...user }) => {
+      const createdUser = await prisma.user.create({
+        data: { ...user, roles: { create: roleIds.map(roleId => ({ roleId })) } }
+      })
+
+      await prisma.account.create({
+        data: {
+          userId: createdUser.id,
+          accountId: createdUser.id,
+          providerId: 'credential',
+          password: await hashPassword(password)
+        }
+      })
+
+      return createdUser
+    })
+  )
 
   console.log(
     'Users created:',
@@ -77,14 +357,78 @@ const seedUsers = async (roles: Role[]): Promise<User[]> => {
   return createdUsers
 }
 
+const seedCategories = async (): Promise<Category[]> => {
+  const categories: Category[] = []
+
+  // Sequential so each parent exists before its children
+  const createTree = async (definitions: CategoryDefinition[], parentId?: string) => {
+    for (const { children, ...categoryData } of definitions) {
+      const category = await prisma.category.create({ data: { ...categoryData, parentId } })
+
+      categories.push(category)
+      await createTree(children ?? [], category.id)
+    }
+  }
+
+  await createTree(categoryDefinitions)
+
+  console.log(
+    'Categories created:',
+    categories.map(category => category.name)
+  )
+
+  return categories
+}
+
+const seedProducts = async (categories: Category[]): Promise<number> => {
+  const { count } = await prisma.product.createMany({
+    data: productDefinitions.map(({ category, ...product }) => ({
+      ...product,
+      categoryId: categories.find(({ slug }) => slug === category)!.id
+    }))
+  })
+
+  return count
+}
+
+const seedComments = async (users: User[]): Promise<number> => {
+  const products = await prisma.product.findMany({ select: { id: true, slug: true } })
+
+  const { count } = await prisma.comment.createMany({
+    data: commentDefinitions.map(({ product, author, ...comment }) => ({
+      ...comment,
+      productId: products.find(({ slug }) => slug === product)!.id,
+      userId: users.find(({ email }) => email === author)!.id
+    }))
+  })
+
+  return count
+}
+
 const seedDatabase = async (): Promise<void> => {
   console.log('👤 Seeding roles...')
   const roles = await seedRoles()
   console.log(`Created ${roles.length} roles`)
 
+  console.log('🔐 Seeding permissions...')
+  const permissionCount = await seedPermissions(roles)
+  console.log(`Created ${permissionCount} permissions`)
+
   console.log('👤 Seeding users...')
   const users = await seedUsers(roles)
   console.log(`Created ${users.length} users`)
+
+  console.log('📁 Seeding categories...')
+  const categories = await seedCategories()
+  console.log(`Created ${categories.length} categories`)
+
+  console.log('📦 Seeding products...')
+  const productCount = await seedProducts(categories)
+  console.log(`Created ${productCount} products`)
+
+  console.log('💬 Seeding comments...')
+  const commentCount = await seedComments(users)
+  console.log(`Created ${commentCount} comments`)
 }
 
 const main = async (): Promise<void> => {
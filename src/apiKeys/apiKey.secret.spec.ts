@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  generateApiKey,
+  getBearerApiKey,
+  hashApiKeySecret,
+  parseApiKey,
+  verifyApiKeySecret
+} from './apiKey.secret'
+
+describe('apiKey.secret', () => {
+  it('should generate keys that parse back into their parts', () => {
+    const { key, prefix, secret } = generateApiKey()
+
+    expect(key).toStartWith('nak_')
+    expect(parseApiKey(key)).toEqual({ prefix, secret })
+  })
+
+  it('should not parse malformed keys', () => {
+    expect(parseApiKey('nak_short_secret')).toBeNull()
+    expect(parseApiKey(`sk_${'a'.repeat(12)}_${'b'.repeat(43)}`)).toBeNull()
+  })
+
+  it('should verify a secret against its argon2id hash only', async () => {
+    const { secret } = generateApiKey()
+    const secretHash = await hashApiKeySecret(secret)
+
+    expect(secretHash).toStartWith('$argon2id$')
+    expect(secretHash).not.toContain(secret)
+    expect(await verifyApiKeySecret(secret, secretHash)).toBe(true)
+    expect(await verifyApiKeySecret(generateApiKey().secret, secretHash)).toBe(false)
+  })
+
+  it('should not match a malformed hash', async () => {
+    expect(await verifyApiKeySecret(generateApiKey().secret, 'not-a-hash')).toBe(false)
+  })
+
+  it('should only read API keys from a bearer authorization header', () => {
+    const { key } = generateApiKey()
+
+    expect(getBearerApiKey(new Headers({ authorization: `Bearer ${key}` }))).toBe(key)
+    expect(getBearerApiKey(new Headers({ authorization: 'Bearer some-jwt' }))).toBeNull()
+    expect(getBearerApiKey(new Headers())).toBeNull()
+    expect(getBearerApiKey(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,51 @@
+import { hash, verify } from 'argon2'
+import { randomBytes } from 'node:crypto'
+import { ARGON2_OPTIONS } from '~/auth/password'
+
+// Keys look like "nak_<prefix>_<secret>": the prefix finds the row, the secret proves ownership
+export const API_KEY_PREFIX = 'nak_'
+
+const PREFIX_BYTES = 6
+const SECRET_BYTES = 32
+const API_KEY_PATTERN = /^nak_([0-9a-f]{12})_([\w-]{43})$/
+
+export interface ApiKeyParts {
+  prefix: string
+  secret: string
+}
+
+export const generateApiKey = (): ApiKeyParts & { key: string } => {
+  const prefix = randomBytes(PREFIX_BYTES).toString('hex')
+  const secret = randomBytes(SECRET_BYTES).toString('base64url')
+
+  return { key: `${API_KEY_PREFIX}${prefix}_${secret}`, prefix, secret }
+}
+
+export const parseApiKey = (key: string): ApiKeyParts | null => {
+  const match = API_KEY_PATTERN.exec(key)
+
+  return match ? { prefix: match[1], secret: match[2] } : null
+}
+
+// Hashed like user passwords, so a leaked table does not hand out working keys
+export const hashApiKeySecret = (secret: string): Promise<string> => hash(secret, ARGON2_OPTIONS)
+
+export const verifyApiKeySecret = async (secret: string, secretHash: string): Promise<boolean> => {
+  try {
+    return await verify(secretHash, secret)
+  } catch {
+    // A hash argon2 cannot parse never matches
+    return false
+  }
+}
+
+// Extracts an API key from an "Authorization: Bearer <key>" header
+export const getBearerApiKey = (headers: Headers | undefined): string | null => {
+  const authorization = headers?.get('authorization')
+
+  if (!authorization?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return null
+  }
+
+  return authorization.slice('Bearer '.length).trim()
+}
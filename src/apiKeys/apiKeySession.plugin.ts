@@ -0,0 +1,73 @@
+import type { BetterAuthPlugin } from 'better-auth'
+import { createAuthMiddleware } from 'better-auth/api'
+import { PrismaService } from '~/database/prisma.service'
+import { getBearerApiKey, parseApiKey, verifyApiKeySecret } from './apiKey.secret'
+
+// lastUsedAt is only refreshed once per minute to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60_000
+
+/**
+ * Lets `getSession` resolve "Authorization: Bearer nak_..." headers, so API keys go
+ * through the same global AuthGuard as cookie sessions. The returned session
+ * carries the key id and scopes, which PoliciesGuard intersects with the owner's
+ * abilities. Invalid keys resolve to no session, i.e. a 401.
+ */
+export const apiKeySession = (prisma: PrismaService) =>
+  ({
+    id: 'api-key-session',
+    hooks: {
+      before: [
+        {
+          matcher: context =>
+            context.path === '/get-session' && getBearerApiKey(context.headers) !== null,
+          handler: createAuthMiddleware(async context => {
+            const parts = parseApiKey(getBearerApiKey(context.headers) ?? '')
+            const apiKey = parts
+              ? await prisma.apiKey.findUnique({
+                  where: { prefix: parts.prefix },
+                  include: { user: true }
+                })
+              : null
+            const now = new Date()
+
+            if (
+              !parts ||
+              !apiKey ||
+              apiKey.revokedAt ||
+              (apiKey.expiresAt && apiKey.expiresAt <= now) ||
+              !apiKey.user.isActive ||
+              !(await verifyApiKeySecret(parts.secret, apiKey.secretHash))
+            ) {
+              return null
+            }
+
+            if (
+              !apiKey.lastUsedAt ||
+              now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+            ) {
+              await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } })
+            }
+
+            const { user, ...key } = apiKey
+
+            return {
+              user,
+              session: {
+                id: key.id,
+                userId: user.id,
+                // The key itself is a credential and is never echoed back
+                token: '',
+                expiresAt: key.expiresAt ?? new Date(now.getTime() + LAST_USED_RESOLUTION_MS),
+                ipAddress: null,
+                userAgent: context.headers?.get('user-agent') ?? null,
+                createdAt: key.createdAt,
+                updatedAt: key.updatedAt,
+                apiKeyId: key.id,
+                scopes: key.scopes as string[]
+              }
+            }
+          })
+        }
+      ]
+    }
+  }) satisfies BetterAuthPlugin
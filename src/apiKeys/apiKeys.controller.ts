@@ -0,0 +1,66 @@
+import { Body, Controller, Delete, Get, Param, Post } from '@nestjs/common'
+import { Session } from '@thallesp/nestjs-better-auth'
+import { Audit } from '~/auditLogs/decorators/audit.decorator'
+import type { AuthSession } from '~/auth/auth.config'
+import type { ApiKeySessionFields } from '~/auth/interfaces/authenticatedRequest.interface'
+import { LoggerService } from '~/common/logger.service'
+import { ApiKeysService } from './apiKeys.service'
+import { CreateApiKeyDto } from './dto/createApiKey.dto'
+
+type ApiKeysSession = { user: AuthSession['user']; session: ApiKeySessionFields }
+
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    private readonly logger: LoggerService
+  ) {}
+
+  // Every signed-in user manages their own keys, no policy needed. Without a policy
+  // ApiKeyAccessGuard refuses API keys here, so a leaked key cannot mint new ones
+
+  @Post()
+  @Audit('createApiKey', 'ApiKey')
+  async create(@Session() authSession: ApiKeysSession, @Body() dto: CreateApiKeyDto) {
+    const { user } = authSession
+    const apiKey = await this.apiKeysService.create(user.id, dto)
+
+    this.logger.info('API key created', {
+      action: 'createApiKey',
+      userId: user.id,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes
+    })
+
+    return apiKey
+  }
+
+  @Get()
+  findMine(@Session() authSession: ApiKeysSession) {
+    const { user } = authSession
+
+    return this.apiKeysService.findForUser(user.id)
+  }
+
+  @Post(':id/rotate')
+  @Audit('rotateApiKey', 'ApiKey', 'id')
+  async rotate(@Session() authSession: ApiKeysSession, @Param('id') id: string) {
+    const { user } = authSession
+    const apiKey = await this.apiKeysService.rotate(user.id, id)
+
+    this.logger.info('API key rotated', { action: 'rotateApiKey', userId: user.id, apiKeyId: id })
+
+    return apiKey
+  }
+
+  @Delete(':id')
+  @Audit('revokeApiKey', 'ApiKey', 'id')
+  async revoke(@Session() authSession: ApiKeysSession, @Param('id') id: string) {
+    const { user } = authSession
+    const apiKey = await this.apiKeysService.revoke(user.id, id)
+
+    this.logger.info('API key revoked', { action: 'revokeApiKey', userId: user.id, apiKeyId: id })
+
+    return apiKey
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { APP_GUARD } from '@nestjs/core'
+import { CommonModule } from '~/common/common.module'
+import { ApiKeysController } from './apiKeys.controller'
+import { ApiKeysService } from './apiKeys.service'
+import { ApiKeyAccessGuard } from './guards/apiKeyAccess.guard'
+
+@Module({
+  imports: [CommonModule],
+  controllers: [ApiKeysController],
+  // Registered after AuthModule so the session is resolved first
+  providers: [ApiKeysService, { provide: APP_GUARD, useClass: ApiKeyAccessGuard }]
+})
+export class ApiKeysModule {}
@@ -0,0 +1,117 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { PrismaService } from '~/database/prisma.service'
+import { parseApiKey, verifyApiKeySecret } from './apiKey.secret'
+import { ApiKeysService } from './apiKeys.service'
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService
+  const storedKey = {
+    id: 'key-1',
+    name: 'CI',
+    prefix: '0123456789ab',
+    scopes: ['read:Product'],
+    lastUsedAt: null,
+    expiresAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }
+  const mockPrismaService = {
+    apiKey: {
+      create: mock<(args: { data: Record<string, unknown> }) => Promise<unknown>>(({ data }) =>
+        Promise.resolve({ ...storedKey, ...data })
+      ),
+      findMany: mock(() => Promise.resolve([storedKey])),
+      findFirst: mock<() => Promise<unknown>>(() => Promise.resolve({ id: 'key-1' })),
+      update: mock<(args: { data: Record<string, unknown> }) => Promise<unknown>>(({ data }) =>
+        Promise.resolve({ ...storedKey, ...data })
+      )
+    }
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ApiKeysService, { provide: PrismaService, useValue: mockPrismaService }]
+    }).compile()
+
+    service = module.get<ApiKeysService>(ApiKeysService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.apiKey.findFirst.mockImplementation(() => Promise.resolve({ id: 'key-1' }))
+  })
+
+  describe('create', () => {
+    it('should return the plaintext key once and only store its hash', async () => {
+      const apiKey = await service.create('user-1', {
+        name: 'CI',
+        scopes: ['read:Product', 'read:Product']
+      })
+      const parts = parseApiKey(apiKey.key)
+      const { data } = mockPrismaService.apiKey.create.mock.calls[0][0]
+
+      expect(parts).not.toBeNull()
+      expect(data).toMatchObject({
+        userId: 'user-1',
+        prefix: parts?.prefix,
+        scopes: ['read:Product'],
+        expiresAt: null
+      })
+      expect(await verifyApiKeySecret(parts?.secret ?? '', data.secretHash as string)).toBe(true)
+      expect(JSON.stringify(data)).not.toContain(parts?.secret)
+    })
+
+    it('should reject an expiry in the past', async () => {
+      const error = await service
+        .create('user-1', { name: 'CI', scopes: ['read:Product'], expiresAt: '2000-01-01' })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+      expect(mockPrismaService.apiKey.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findForUser', () => {
+    it('should only list the keys of the user without their secret hash', async () => {
+      await service.findForUser('user-1')
+
+      expect(mockPrismaService.apiKey.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user-1' } })
+      )
+      expect(mockPrismaService.apiKey.findMany.mock.calls[0]).not.toContain('secretHash')
+    })
+  })
+
+  describe('rotate', () => {
+    it('should replace the prefix and secret of an owned key', async () => {
+      const apiKey = await service.rotate('user-1', 'key-1')
+      const { data } = mockPrismaService.apiKey.update.mock.calls[0][0]
+
+      expect(mockPrismaService.apiKey.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'key-1', userId: 'user-1', revokedAt: null } })
+      )
+      expect(data.prefix).toBe(parseApiKey(apiKey.key)?.prefix)
+      expect(data.prefix).not.toBe(storedKey.prefix)
+    })
+
+    it('should throw NotFoundException for a key the user does not own', async () => {
+      mockPrismaService.apiKey.findFirst.mockImplementation(() => Promise.resolve(null))
+
+      const error = await service.rotate('user-2', 'key-1').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(NotFoundException)
+      expect(mockPrismaService.apiKey.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('revoke', () => {
+    it('should mark the key as revoked', async () => {
+      const apiKey = await service.revoke('user-1', 'key-1')
+
+      expect(apiKey.revokedAt).toBeInstanceOf(Date)
+    })
+  })
+})
@@ -0,0 +1,118 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common'
+import { withCode } from '~/common/errors/errorCatalog'
+import { PrismaService } from '~/database/prisma.service'
+import { generateApiKey, hashApiKeySecret } from './apiKey.secret'
+import { CreateApiKeyDto } from './dto/createApiKey.dto'
+
+// The secret hash never leaves the server
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true
+} as const
+
+export interface ApiKeySummary {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  lastUsedAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Returned once on creation and rotation: the plaintext key cannot be recovered afterwards
+export type IssuedApiKey = ApiKeySummary & { key: string }
+
+type ApiKeyRecord = Omit<ApiKeySummary, 'scopes'> & { scopes: unknown }
+
+const toSummary = ({ scopes, ...apiKey }: ApiKeyRecord): ApiKeySummary => ({
+  ...apiKey,
+  scopes: scopes as string[]
+})
+
+@Injectable()
+export class ApiKeysService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(userId: string, dto: CreateApiKeyDto): Promise<IssuedApiKey> {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null
+
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException(withCode('EXPIRY_IN_PAST', 'expiresAt must be in the future'))
+    }
+
+    const { key, prefix, secret } = generateApiKey()
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: dto.name,
+        prefix,
+        secretHash: await hashApiKeySecret(secret),
+        scopes: [...new Set(dto.scopes)],
+        expiresAt
+      },
+      select: apiKeySelect
+    })
+
+    return { ...toSummary(apiKey), key }
+  }
+
+  async findForUser(userId: string): Promise<ApiKeySummary[]> {
+    const apiKeys = await this.prisma.apiKey.findMany({
+      where: { userId },
+      select: apiKeySelect,
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return apiKeys.map(toSummary)
+  }
+
+  // Replaces the credential in place: the old key stops working immediately
+  async rotate(userId: string, id: string): Promise<IssuedApiKey> {
+    await this.findActive(userId, id)
+
+    const { key, prefix, secret } = generateApiKey()
+    const apiKey = await this.prisma.apiKey.update({
+      where: { id },
+      data: { prefix, secretHash: await hashApiKeySecret(secret), lastUsedAt: null },
+      select: apiKeySelect
+    })
+
+    return { ...toSummary(apiKey), key }
+  }
+
+  async revoke(userId: string, id: string): Promise<ApiKeySummary> {
+    await this.findActive(userId, id)
+
+    const apiKey = await this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: apiKeySelect
+    })
+
+    return toSummary(apiKey)
+  }
+
+  // Scoped by user so nobody can act on a key they do not own
+  private async findActive(userId: string, id: string) {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id, userId, revokedAt: null },
+      select: { id: true }
+    })
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID "${id}" not found`)
+    }
+
+    return apiKey
+  }
+}
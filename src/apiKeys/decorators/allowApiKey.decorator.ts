@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common'
+
+export const ALLOW_API_KEY_KEY = 'allow_api_key'
+
+// Lets API keys reach a route without @CheckPolicies, which their scopes cannot restrict
+export const AllowApiKey = () => SetMetadata(ALLOW_API_KEY_KEY, true)
@@ -0,0 +1,32 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength
+} from 'class-validator'
+import { SCOPE_PATTERN } from '~/casl/scopes'
+
+export class CreateApiKeyDto {
+  @IsString()
+  @MaxLength(100)
+  name!: string
+
+  // Each scope is "<action>:<subject>", e.g. "read:Product" or "manage:all"
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @Matches(SCOPE_PATTERN, {
+    each: true,
+    message: 'each scope must look like "<action>:<subject>" (e.g. read:Product)'
+  })
+  scopes!: string[]
+
+  // Omit for a key that never expires
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  expiresAt?: string
+}
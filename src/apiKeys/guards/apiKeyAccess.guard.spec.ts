@@ -0,0 +1,45 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { describe, expect, it } from 'bun:test'
+import { CHECK_POLICIES_KEY } from '~/casl/decorators/checkPolicies.decorator'
+import { ALLOW_API_KEY_KEY } from '../decorators/allowApiKey.decorator'
+import { ApiKeyAccessGuard } from './apiKeyAccess.guard'
+
+describe('ApiKeyAccessGuard', () => {
+  const buildContext = (apiKeyId?: string): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ session: { user: {}, session: { apiKeyId } } })
+      })
+    }) as unknown as ExecutionContext
+
+  const buildGuard = (metadata: Record<string, unknown> = {}): ApiKeyAccessGuard => {
+    const reflector = {
+      getAllAndOverride: (key: string) => metadata[key]
+    } as unknown as Reflector
+
+    return new ApiKeyAccessGuard(reflector)
+  }
+
+  it('should refuse API keys on routes without policies', () => {
+    expect(() => buildGuard().canActivate(buildContext('key-1'))).toThrow(ForbiddenException)
+  })
+
+  it('should let API keys through where policies apply their scopes', () => {
+    const guard = buildGuard({ [CHECK_POLICIES_KEY]: [() => true] })
+
+    expect(guard.canActivate(buildContext('key-1'))).toBe(true)
+  })
+
+  it('should let API keys through on routes that opt in', () => {
+    const guard = buildGuard({ [ALLOW_API_KEY_KEY]: true })
+
+    expect(guard.canActivate(buildContext('key-1'))).toBe(true)
+  })
+
+  it('should ignore sessions without an API key', () => {
+    expect(buildGuard().canActivate(buildContext())).toBe(true)
+  })
+})
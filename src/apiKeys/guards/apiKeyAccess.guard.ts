@@ -0,0 +1,44 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { CHECK_POLICIES_KEY } from '~/casl/decorators/checkPolicies.decorator'
+import type { PolicyHandler } from '~/casl/interfaces/policyHandler.interface'
+import { withCode } from '~/common/errors/errorCatalog'
+import { ALLOW_API_KEY_KEY } from '../decorators/allowApiKey.decorator'
+
+/**
+ * Scopes only narrow the ability checked by @CheckPolicies, so an API key is
+ * refused on every other route: the self-service ones (sessions, linked
+ * accounts, two-factor, API keys themselves) would otherwise let a read-only
+ * key take over its owner's account. Routes opt in with @AllowApiKey().
+ */
+@Injectable()
+export class ApiKeyAccessGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { session } = context.switchToHttp().getRequest<AuthenticatedRequest>()
+
+    // Guard: signed in with a session cookie, or anonymous
+    if (!session?.session.apiKeyId) {
+      return true
+    }
+
+    const targets = [context.getHandler(), context.getClass()]
+    const policyHandlers =
+      this.reflector.getAllAndOverride<PolicyHandler[] | undefined>(CHECK_POLICIES_KEY, targets) ??
+      []
+    const allowed = this.reflector.getAllAndOverride<boolean | undefined>(
+      ALLOW_API_KEY_KEY,
+      targets
+    )
+
+    if (policyHandlers.length === 0 && !allowed) {
+      throw new ForbiddenException(
+        withCode('API_KEY_NOT_ALLOWED', 'This action requires an interactive session')
+      )
+    }
+
+    return true
+  }
+}
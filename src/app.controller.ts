@@ -6,52 +6,46 @@ import {
   NotFoundException,
   Param
 } from '@nestjs/common'
+import { AllowAnonymous } from '@thallesp/nestjs-better-auth'
 import { AppService } from './app.service'
-import { LoggerService } from './common/logger.service'
 
 @Controller()
 export class AppController {
-  constructor(
-    private readonly appService: AppService,
-    private readonly logger: LoggerService
-  ) {}
+  constructor(private readonly appService: AppService) {}
 
   @Get()
+  @AllowAnonymous()
   getHello(): { message: string } {
     return this.appService.getHello()
   }
 
-  @Get('roles')
-  async getRoles() {
-    const roles = await this.appService.getRoles()
-
-    this.logger.info('Roles retrieved', { action: 'getRoles', roles })
-
-    return roles
-  }
-
   // Error handling demo endpoints
   @Get('demo/not-found')
+  @AllowAnonymous()
   demoNotFound(): never {
     throw new NotFoundException('This resource does not exist')
   }
 
   @Get('demo/bad-request')
+  @AllowAnonymous()
   demoBadRequest(): never {
     throw new BadRequestException('Invalid input parameters')
   }
 
   @Get('demo/server-error')
+  @AllowAnonymous()
   demoServerError(): never {
     throw new InternalServerErrorException('Something went wrong on the server')
   }
 
   @Get('demo/unexpected-error')
+  @AllowAnonymous()
   demoUnexpectedError(): never {
     throw new Error('Unexpected error occurred')
   }
 
   @Get('demo/throw-string')
+  @AllowAnonymous()
   demoThrowString(): never {
     // Intentionally throwing a non-Error object to test error handling robustness
     // eslint-disable-next-line @typescript-eslint/only-throw-error
@@ -59,6 +53,7 @@ export class AppController {
   }
 
   @Get('demo/user/:id')
+  @AllowAnonymous()
   demoUserNotFound(@Param('id') id: string) {
     const validId = '123'
 
@@ -1,12 +1,51 @@
 import { Module } from '@nestjs/common'
 import { ConfigModule } from '@nestjs/config'
+import { ScheduleModule } from '@nestjs/schedule'
+import { ApiKeysModule } from './apiKeys/apiKeys.module'
 import { AppController } from './app.controller'
 import { AppService } from './app.service'
+import { AuditLogsModule } from './auditLogs/auditLogs.module'
+import { AuthModule } from './auth/auth.module'
+import { CartsModule } from './carts/carts.module'
+import { CaslModule } from './casl/casl.module'
+import { CategoriesModule } from './categories/categories.module'
+import { CommentsModule } from './comments/comments.module'
 import { CommonModule } from './common/common.module'
 import { DatabaseModule } from './database/database.module'
+import { ImpersonationModule } from './impersonation/impersonation.module'
+import { LoggingModule } from './logging/logging.module'
+import { OrdersModule } from './orders/orders.module'
+import { ProductsModule } from './products/products.module'
+import { RateLimitModule } from './rateLimit/rateLimit.module'
+import { RolesModule } from './roles/roles.module'
+import { SessionsModule } from './sessions/sessions.module'
+import { TwoFactorModule } from './twoFactor/twoFactor.module'
+import { UsersModule } from './users/users.module'
 
 @Module({
-  imports: [ConfigModule.forRoot({ isGlobal: true }), DatabaseModule, CommonModule],
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    // First, so the log output is configured before other modules start logging
+    LoggingModule,
+    ScheduleModule.forRoot(),
+    DatabaseModule,
+    CommonModule,
+    RateLimitModule,
+    AuthModule,
+    TwoFactorModule,
+    ApiKeysModule,
+    CaslModule,
+    RolesModule,
+    SessionsModule,
+    UsersModule,
+    ImpersonationModule,
+    CategoriesModule,
+    ProductsModule,
+    CommentsModule,
+    OrdersModule,
+    CartsModule,
+    AuditLogsModule
+  ],
   controllers: [AppController],
   providers: [AppService]
 })
@@ -0,0 +1,17 @@
+import { Controller, Get, Query } from '@nestjs/common'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { AuditLogsService } from './auditLogs.service'
+import { ListAuditLogsQueryDto } from './dto/listAuditLogsQuery.dto'
+
+@Controller('audit-logs')
+@RequireVerifiedEmail()
+export class AuditLogsController {
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  @Get()
+  @CheckPolicies(ability => ability.can('read', 'AuditLog'))
+  findAll(@Query() query: ListAuditLogsQueryDto) {
+    return this.auditLogsService.findAll(query)
+  }
+}
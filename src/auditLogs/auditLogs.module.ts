@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { APP_INTERCEPTOR } from '@nestjs/core'
+import { CommonModule } from '~/common/common.module'
+import { AuditLogsController } from './auditLogs.controller'
+import { AuditLogsService } from './auditLogs.service'
+import { AuditInterceptor } from './interceptors/audit.interceptor'
+
+@Module({
+  imports: [CommonModule],
+  controllers: [AuditLogsController],
+  providers: [AuditLogsService, { provide: APP_INTERCEPTOR, useClass: AuditInterceptor }]
+})
+export class AuditLogsModule {}
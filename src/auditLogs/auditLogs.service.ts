@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common'
+import type { AuditLog, Prisma } from '@generated'
+import { PrismaService } from '~/database/prisma.service'
+import type { SnapshotDiff } from './auditSnapshots'
+import { ListAuditLogsQueryDto } from './dto/listAuditLogsQuery.dto'
+
+const DEFAULT_PAGE_SIZE = 20
+
+export interface AuditEntry extends SnapshotDiff {
+  actorId: string | null
+  action: string
+  subjectType: string
+  subjectId: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  requestId: string | null
+}
+
+export interface PaginatedAuditLogs {
+  data: AuditLog[]
+  meta: {
+    total: number
+    limit: number
+    page: number | null
+    nextCursor: string | null
+  }
+}
+
+@Injectable()
+export class AuditLogsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async record({ before, after, ...entry }: AuditEntry): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        ...entry,
+        // Json columns take undefined rather than null to stay empty
+        before: (before ?? undefined) as Prisma.InputJsonValue | undefined,
+        after: (after ?? undefined) as Prisma.InputJsonValue | undefined
+      }
+    })
+  }
+
+  // Newest first by default, paginated like GET /users
+  async findAll(query: ListAuditLogsQueryDto): Promise<PaginatedAuditLogs> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE
+    const order = query.order ?? 'desc'
+    const where: Prisma.AuditLogWhereInput = {
+      ...(query.actorId && { actorId: query.actorId }),
+      ...(query.action && { action: query.action }),
+      ...(query.subjectType && { subjectType: query.subjectType }),
+      ...(query.subjectId && { subjectId: query.subjectId }),
+      ...((query.from || query.to) && {
+        createdAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to })
+        }
+      })
+    }
+    const pagination: Pick<Prisma.AuditLogFindManyArgs, 'cursor' | 'skip'> = query.cursor
+      ? { cursor: { id: query.cursor }, skip: 1 }
+      : { skip: ((query.page ?? 1) - 1) * limit }
+
+    // One extra row tells whether another page exists; id breaks createdAt ties
+    const [total, entries] = await this.prisma.$transaction([
+      this.prisma.auditLog.count({ where }),
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ createdAt: order }, { id: order }],
+        take: limit + 1,
+        ...pagination
+      })
+    ])
+    const pageEntries = entries.slice(0, limit)
+    const hasMore = entries.length > limit
+
+    return {
+      data: pageEntries,
+      meta: {
+        total,
+        limit,
+        page: query.cursor ? null : (query.page ?? 1),
+        nextCursor: hasMore ? (pageEntries.at(-1)?.id ?? null) : null
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'bun:test'
+import { diffSnapshots } from './auditSnapshots'
+
+describe('diffSnapshots', () => {
+  it('should keep only the fields that changed', () => {
+    const diff = diffSnapshots(
+      { name: 'EDITOR', description: 'Old', parentRoleId: null },
+      { name: 'EDITOR', description: 'New', parentRoleId: 'role-1' }
+    )
+
+    expect(diff).toEqual({
+      before: { description: 'Old', parentRoleId: null },
+      after: { description: 'New', parentRoleId: 'role-1' }
+    })
+  })
+
+  it('should compare dates and nested values by content', () => {
+    const bannedAt = new Date('2025-01-01T00:00:00Z')
+    const diff = diffSnapshots(
+      { bannedAt, roles: [{ role: { name: 'USER' } }] },
+      { bannedAt: new Date(bannedAt), roles: [{ role: { name: 'ADMIN' } }] }
+    )
+
+    expect(diff).toEqual({
+      before: { roles: [{ role: { name: 'USER' } }] },
+      after: { roles: [{ role: { name: 'ADMIN' } }] }
+    })
+  })
+
+  it('should keep the whole snapshot on creation and deletion', () => {
+    const role = { name: 'EDITOR', createdAt: new Date('2025-01-01T00:00:00Z') }
+
+    expect(diffSnapshots(null, role)).toEqual({
+      before: null,
+      after: { name: 'EDITOR', createdAt: '2025-01-01T00:00:00.000Z' }
+    })
+    expect(diffSnapshots(role, null).after).toBeNull()
+  })
+
+  it('should give an empty diff when nothing changed', () => {
+    expect(diffSnapshots({ name: 'USER' }, { name: 'USER' })).toEqual({ before: null, after: null })
+  })
+
+  it('should redact sensitive fields like the logger does', () => {
+    const diff = diffSnapshots(null, { name: 'ci', prefix: 'abc', secretHash: 'deadbeefcafe' })
+
+    expect(diff.after).toEqual({ name: 'ci', prefix: 'abc', secretHash: 'dead******' })
+  })
+})
@@ -0,0 +1,82 @@
+import { sanitize } from '~/common/sanitize'
+import { PrismaService } from '~/database/prisma.service'
+
+type SnapshotLoader = (prisma: PrismaService, id: string) => Promise<object | null>
+
+// Fields compared for each audited subject; hashes and tokens are never selected
+const snapshotLoaders = {
+  User: (prisma, id) =>
+    prisma.user.findUnique({
+      where: { id },
+      select: {
+        name: true,
+        email: true,
+        emailVerified: true,
+        image: true,
+        isActive: true,
+        bannedAt: true,
+        roles: { select: { expiresAt: true, role: { select: { name: true } } } }
+      }
+    }),
+  Role: (prisma, id) =>
+    prisma.role.findUnique({
+      where: { id },
+      select: { name: true, description: true, parentRoleId: true }
+    }),
+  Session: (prisma, id) =>
+    prisma.session.findUnique({
+      where: { id },
+      select: { userId: true, expiresAt: true, ipAddress: true, userAgent: true }
+    }),
+  ApiKey: (prisma, id) =>
+    prisma.apiKey.findUnique({
+      where: { id },
+      select: { name: true, prefix: true, scopes: true, expiresAt: true, revokedAt: true }
+    })
+} satisfies Record<string, SnapshotLoader>
+
+export type AuditSubject = keyof typeof snapshotLoaders
+
+type Snapshot = Record<string, unknown>
+
+export interface SnapshotDiff {
+  before: Snapshot | null
+  after: Snapshot | null
+}
+
+export const loadSnapshot = (
+  prisma: PrismaService,
+  subject: AuditSubject,
+  id: string
+): Promise<object | null> => (snapshotLoaders[subject] as SnapshotLoader)(prisma, id)
+
+// Round-trips through JSON so dates compare and get stored as strings
+const normalize = (snapshot: object | null): Snapshot | null =>
+  snapshot && (sanitize(JSON.parse(JSON.stringify(snapshot))) as Snapshot)
+
+const pick = (snapshot: Snapshot, keys: string[]): Snapshot =>
+  Object.fromEntries(keys.map(key => [key, snapshot[key] ?? null]))
+
+/**
+ * Keeps only the fields that differ between two snapshots. A missing side
+ * (creation or deletion) keeps the other one whole; identical snapshots give
+ * an empty diff, for actions such as revocations that change no audited field.
+ */
+export const diffSnapshots = (before: object | null, after: object | null): SnapshotDiff => {
+  const previous = normalize(before)
+  const next = normalize(after)
+
+  // Guard: created or deleted subject
+  if (!previous || !next) {
+    return { before: previous, after: next }
+  }
+
+  const keys = [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+  const changed = keys.filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]))
+
+  if (changed.length === 0) {
+    return { before: null, after: null }
+  }
+
+  return { before: pick(previous, changed), after: pick(next, changed) }
+}
@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common'
+import type { AuditSubject } from '../auditSnapshots'
+
+export const AUDIT_KEY = 'audit'
+
+export interface AuditOptions {
+  action: string
+  subject: AuditSubject
+  // Route parameter holding the subject id; without it the id of the returned record is used
+  idParam?: string
+}
+
+// Records a successful call of the handler in the audit log, see AuditInterceptor
+export const Audit = (action: string, subject: AuditSubject, idParam?: string) =>
+  SetMetadata(AUDIT_KEY, { action, subject, idParam } satisfies AuditOptions)
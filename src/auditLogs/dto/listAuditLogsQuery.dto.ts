@@ -0,0 +1,54 @@
+import { Type } from 'class-transformer'
+import { IsDate, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator'
+
+export class ListAuditLogsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number
+
+  // Id of the last entry of the previous page; takes precedence over page
+  @IsOptional()
+  @IsString()
+  cursor?: string
+
+  @IsOptional()
+  @IsString()
+  actorId?: string
+
+  @IsOptional()
+  @IsString()
+  action?: string
+
+  @IsOptional()
+  @IsString()
+  subjectType?: string
+
+  @IsOptional()
+  @IsString()
+  subjectId?: string
+
+  // Inclusive bounds on createdAt, as ISO 8601 dates
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date
+
+  // Sort direction on createdAt
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc'
+}
@@ -0,0 +1,129 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { describe, expect, it, mock } from 'bun:test'
+import type { Request } from 'express'
+import { lastValueFrom, of, throwError } from 'rxjs'
+import type { LoggerService } from '~/common/logger.service'
+import { runWithRequestContext } from '~/common/requestContext'
+import type { PrismaService } from '~/database/prisma.service'
+import type { AuditEntry, AuditLogsService } from '../auditLogs.service'
+import type { AuditOptions } from '../decorators/audit.decorator'
+import { AuditInterceptor } from './audit.interceptor'
+
+describe('AuditInterceptor', () => {
+  const buildContext = (params: Record<string, string> = {}): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          params,
+          ip: '10.0.0.1',
+          user: { id: 'admin-1' },
+          get: (header: string) =>
+            ({ 'user-agent': 'curl/8.5.0', 'x-request-id': 'client id' })[header]
+        })
+      })
+    }) as unknown as ExecutionContext
+
+  const buildInterceptor = (
+    options: AuditOptions | undefined,
+    snapshots: (object | null)[],
+    record = mock<(entry: AuditEntry) => Promise<void>>(() => Promise.resolve())
+  ) => {
+    const findUnique = mock(() => Promise.resolve(snapshots.shift() ?? null))
+    const logger = { error: mock(() => {}) }
+    const interceptor = new AuditInterceptor(
+      { get: () => options } as unknown as Reflector,
+      { role: { findUnique } } as unknown as PrismaService,
+      { record } as unknown as AuditLogsService,
+      logger as unknown as LoggerService
+    )
+
+    return { interceptor, record, findUnique, logger }
+  }
+
+  const handler = (result: unknown): CallHandler => ({ handle: () => of(result) })
+
+  it('should record the change with its request details', async () => {
+    const { interceptor, record } = buildInterceptor(
+      { action: 'updateRole', subject: 'Role', idParam: 'id' },
+      [{ description: 'Old' }, { description: 'New' }]
+    )
+
+    // The raw header failed validation, the middleware resolved another id
+    const result = await runWithRequestContext({} as Request, 'request-1', async () =>
+      lastValueFrom(
+        await interceptor.intercept(buildContext({ id: 'role-1' }), handler({ id: 'role-1' }))
+      )
+    )
+
+    expect(result).toEqual({ id: 'role-1' })
+    expect(record).toHaveBeenCalledWith({
+      actorId: 'admin-1',
+      action: 'updateRole',
+      subjectType: 'Role',
+      subjectId: 'role-1',
+      before: { description: 'Old' },
+      after: { description: 'New' },
+      ipAddress: '10.0.0.1',
+      userAgent: 'curl/8.5.0',
+      requestId: 'request-1'
+    })
+  })
+
+  it('should take the id of a created subject from the result', async () => {
+    const { interceptor, record } = buildInterceptor({ action: 'createRole', subject: 'Role' }, [
+      { name: 'EDITOR' }
+    ])
+
+    await lastValueFrom(await interceptor.intercept(buildContext(), handler({ id: 'role-2' })))
+
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subjectId: 'role-2',
+        before: null,
+        after: { name: 'EDITOR' },
+        // Outside of a request context, whatever the header says
+        requestId: null
+      })
+    )
+  })
+
+  it('should not record failed calls', async () => {
+    const { interceptor, record } = buildInterceptor(
+      { action: 'deleteRole', subject: 'Role', idParam: 'id' },
+      [{ name: 'ADMIN' }]
+    )
+    const failing: CallHandler = { handle: () => throwError(() => new Error('Role in use')) }
+
+    const error = await lastValueFrom(
+      await interceptor.intercept(buildContext({ id: 'role-1' }), failing)
+    ).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(Error)
+    expect(record).not.toHaveBeenCalled()
+  })
+
+  it('should keep the response when the entry cannot be written', async () => {
+    const { interceptor, logger } = buildInterceptor(
+      { action: 'createRole', subject: 'Role' },
+      [],
+      mock(() => Promise.reject(new Error('Database unavailable')))
+    )
+
+    const result = await lastValueFrom(
+      await interceptor.intercept(buildContext(), handler({ id: 'role-2' }))
+    )
+
+    expect(result).toEqual({ id: 'role-2' })
+    expect(logger.error).toHaveBeenCalled()
+  })
+
+  it('should leave handlers without @Audit alone', async () => {
+    const { interceptor, findUnique } = buildInterceptor(undefined, [])
+
+    await lastValueFrom(await interceptor.intercept(buildContext({ id: 'x' }), handler('ok')))
+
+    expect(findUnique).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,81 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { mergeMap, type Observable } from 'rxjs'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { LoggerService } from '~/common/logger.service'
+import { getRequestContext } from '~/common/requestContext'
+import { PrismaService } from '~/database/prisma.service'
+import { AuditLogsService } from '../auditLogs.service'
+import { diffSnapshots, loadSnapshot } from '../auditSnapshots'
+import { AUDIT_KEY, type AuditOptions } from '../decorators/audit.decorator'
+
+const idOf = (result: unknown): string | null => {
+  const id = (result as { id?: unknown } | null)?.id
+
+  return typeof id === 'string' ? id : null
+}
+
+/**
+ * Writes an audit entry after each successful call of a handler marked
+ * @Audit, with the subject as it was before and after the call. Failed calls
+ * changed nothing and are not recorded; a failed write is logged but does
+ * not fail a change that already happened.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+    private readonly auditLogsService: AuditLogsService,
+    private readonly logger: LoggerService
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const options = this.reflector.get<AuditOptions | undefined>(AUDIT_KEY, context.getHandler())
+
+    // Guard: handler not audited
+    if (!options) {
+      return next.handle()
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>()
+    const paramId = options.idParam ? request.params[options.idParam] : undefined
+    const before = paramId ? await loadSnapshot(this.prisma, options.subject, paramId) : null
+
+    return next.handle().pipe(
+      mergeMap(async (result: unknown) => {
+        await this.record(options, request, paramId ?? idOf(result), before)
+
+        return result
+      })
+    )
+  }
+
+  private async record(
+    options: AuditOptions,
+    request: AuthenticatedRequest,
+    subjectId: string | null,
+    before: object | null
+  ): Promise<void> {
+    try {
+      const after = subjectId ? await loadSnapshot(this.prisma, options.subject, subjectId) : null
+
+      await this.auditLogsService.record({
+        actorId: request.user?.id ?? null,
+        action: options.action,
+        subjectType: options.subject,
+        subjectId,
+        ...diffSnapshots(before, after),
+        ipAddress: request.ip ?? null,
+        userAgent: request.get('user-agent') ?? null,
+        requestId: getRequestContext()?.requestId ?? null
+      })
+    } catch (error) {
+      this.logger.error('Audit log entry could not be written', {
+        action: options.action,
+        subjectId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  ServiceUnavailableException
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { withCode } from '~/common/errors/errorCatalog'
+import { LoggerService } from '~/common/logger.service'
+import { PrismaService } from '~/database/prisma.service'
+import { MAILER, type Mailer, type MailMessage } from '~/mail/mailer.interface'
+import type { AuthUser } from './auth.config'
+import { hashPassword } from './password'
+import { VerificationService } from './verification.service'
+
+const DEFAULT_EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000
+const DEFAULT_PASSWORD_RESET_TTL_MS = 60 * 60 * 1000
+
+const INVALID_TOKEN_MESSAGE = 'Invalid or expired token'
+
+/**
+ * Email verification and password reset. Both flows mail a single-use link
+ * built from APP_URL (the front-end) and consume the token it carries.
+ */
+@Injectable()
+export class AccountService {
+  private readonly appUrl: string
+  private readonly emailVerificationTtl: number
+  private readonly passwordResetTtl: number
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly verificationService: VerificationService,
+    @Inject(MAILER) private readonly mailer: Mailer,
+    private readonly logger: LoggerService,
+    config: ConfigService
+  ) {
+    this.appUrl =
+      config.get<string>('APP_URL') ??
+      config.get<string>('BETTER_AUTH_URL') ??
+      'http://localhost:3000'
+    this.emailVerificationTtl = Number(
+      config.get<string>('EMAIL_VERIFICATION_TTL_MS') ?? DEFAULT_EMAIL_VERIFICATION_TTL_MS
+    )
+    this.passwordResetTtl = Number(
+      config.get<string>('PASSWORD_RESET_TTL_MS') ?? DEFAULT_PASSWORD_RESET_TTL_MS
+    )
+  }
+
+  async sendVerificationEmail(user: Pick<AuthUser, 'id' | 'email' | 'emailVerified'>) {
+    if (user.emailVerified) {
+      throw new ConflictException(
+        withCode('AUTH_EMAIL_ALREADY_VERIFIED', 'Email address is already verified')
+      )
+    }
+
+    const token = await this.verificationService.issue(
+      'email-verification',
+      user.id,
+      this.emailVerificationTtl
+    )
+    const link = `${this.appUrl}/verify-email?token=${token}`
+    const sent = await this.deliver({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Confirm your email address by opening this link:\n\n${link}\n\nThe link expires in ${this.formatTtl(this.emailVerificationTtl)}.`
+    })
+
+    if (!sent) {
+      throw new ServiceUnavailableException(
+        withCode('MAIL_DELIVERY_FAILED', 'The email could not be sent, please try again later')
+      )
+    }
+
+    return { sent: true }
+  }
+
+  async verifyEmail(token: string) {
+    const userId = await this.verificationService.consume('email-verification', token)
+
+    if (!userId) {
+      throw new BadRequestException(withCode('AUTH_INVALID_TOKEN', INVALID_TOKEN_MESSAGE))
+    }
+
+    await this.prisma.user.update({ where: { id: userId }, data: { emailVerified: true } })
+
+    this.logger.info('Email verified', { action: 'verifyEmail', userId })
+
+    return { verified: true }
+  }
+
+  /**
+   * Always resolves the same way so the endpoint does not reveal which emails
+   * have an account.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({ where: { email }, select: { id: true } })
+
+    if (!user) {
+      return
+    }
+
+    const token = await this.verificationService.issue(
+      'password-reset',
+      user.id,
+      this.passwordResetTtl
+    )
+    const link = `${this.appUrl}/reset-password?token=${token}`
+
+    await this.deliver({
+      to: email,
+      subject: 'Reset your password',
+      text: `Choose a new password by opening this link:\n\n${link}\n\nThe link expires in ${this.formatTtl(this.passwordResetTtl)}. If you did not ask for a reset, ignore this email.`
+    })
+  }
+
+  /**
+   * Replaces the credential password and signs the user out everywhere.
+   */
+  async resetPassword(token: string, password: string) {
+    const userId = await this.verificationService.consume('password-reset', token)
+
+    if (!userId) {
+      throw new BadRequestException(withCode('AUTH_INVALID_TOKEN', INVALID_TOKEN_MESSAGE))
+    }
+
+    const passwordHash = await hashPassword(password)
+    const account = await this.prisma.account.findFirst({
+      where: { userId, providerId: 'credential' },
+      select: { id: true }
+    })
+
+    // Users who only signed in through OAuth so far get a credential account
+    await this.prisma.$transaction([
+      account
+        ? this.prisma.account.update({
+            where: { id: account.id },
+            data: { password: passwordHash }
+          })
+        : this.prisma.account.create({
+            data: { userId, accountId: userId, providerId: 'credential', password: passwordHash }
+          }),
+      this.prisma.session.deleteMany({ where: { userId } })
+    ])
+
+    this.logger.info('Password reset', { action: 'resetPassword', userId })
+
+    return { success: true }
+  }
+
+  // Delivery failures are logged rather than thrown so callers decide how visible they are
+  private async deliver(message: MailMessage): Promise<boolean> {
+    try {
+      await this.mailer.send(message)
+
+      return true
+    } catch (error) {
+      this.logger.error('Email delivery failed', {
+        action: 'sendEmail',
+        subject: message.subject,
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return false
+    }
+  }
+
+  private formatTtl(ttlMs: number): string {
+    const minutes = Math.round(ttlMs / 60_000)
+
+    return minutes % 60 === 0 ? `${minutes / 60} hour(s)` : `${minutes} minute(s)`
+  }
+}
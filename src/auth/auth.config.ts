@@ -0,0 +1,115 @@
+import { ConfigService } from '@nestjs/config'
+import { betterAuth, BetterAuthOptions } from 'better-auth'
+import { prismaAdapter } from 'better-auth/adapters/prisma'
+import { APIError } from 'better-auth/api'
+import { genericOAuth } from 'better-auth/plugins'
+import { apiKeySession } from '~/apiKeys/apiKeySession.plugin'
+import { cartMerge } from '~/carts/cartMerge.plugin'
+import { RoleName } from '~/common/enums/role.enum'
+import { PrismaService } from '~/database/prisma.service'
+import { impersonation } from '~/impersonation/impersonation.plugin'
+import { loginLockout } from '~/rateLimit/loginLockout.plugin'
+import {
+  loadLockoutPolicy,
+  loadRateLimitOptions,
+  toBetterAuthRateLimit
+} from '~/rateLimit/rateLimit.config'
+import { twoFactorChallenge } from '~/twoFactor/twoFactor.plugin'
+import { buildOidcProviders, buildSocialProviders } from './oauth.providers'
+import { hashPassword, verifyPassword } from './password'
+
+export const BETTER_AUTH = Symbol('BETTER_AUTH')
+
+export const createBetterAuth = (
+  prisma: PrismaService,
+  config: ConfigService,
+  database: BetterAuthOptions['database'] = prismaAdapter(prisma, { provider: 'sqlite' })
+) => {
+  return betterAuth({
+    database,
+    secret: config.get<string>('BETTER_AUTH_SECRET'),
+    baseURL: config.get<string>('BETTER_AUTH_URL'),
+    trustedOrigins: config.get<string>('ALLOWED_ORIGINS')?.split(',') ?? ['http://localhost:3000'],
+    emailAndPassword: {
+      enabled: true,
+      autoSignIn: false,
+      password: {
+        hash: hashPassword,
+        verify: verifyPassword
+      }
+    },
+    socialProviders: buildSocialProviders(config),
+    account: {
+      // Providers are never trusted blindly: they must report the email as verified
+      accountLinking: { enabled: true, trustedProviders: [] }
+    },
+    rateLimit: toBetterAuthRateLimit(loadRateLimitOptions(config)),
+    plugins: [
+      apiKeySession(prisma),
+      loginLockout(prisma, loadLockoutPolicy(config)),
+      twoFactorChallenge(prisma),
+      impersonation(),
+      cartMerge(prisma),
+      genericOAuth({ config: buildOidcProviders(config) })
+    ],
+    databaseHooks: {
+      user: {
+        create: {
+          // New accounts always start with the default USER role
+          after: async user => {
+            const role = await prisma.role.findUnique({ where: { name: RoleName.USER } })
+
+            if (role) {
+              await prisma.userRole.create({ data: { userId: user.id, roleId: role.id } })
+            }
+          }
+        }
+      },
+      account: {
+        create: {
+          // Only link a provider to an existing user whose own email was verified, so
+          // whoever registered an address first cannot take over its OAuth sign-ins
+          before: async account => {
+            if (account.providerId === 'credential') {
+              return
+            }
+
+            const user = await prisma.user.findUnique({
+              where: { id: account.userId },
+              select: { emailVerified: true, _count: { select: { accounts: true } } }
+            })
+
+            if (user && !user.emailVerified && user._count.accounts > 0) {
+              throw new APIError('FORBIDDEN', {
+                message: 'Verify your email before linking another sign-in method',
+                code: 'ACCOUNT_NOT_LINKED'
+              })
+            }
+          }
+        }
+      },
+      session: {
+        create: {
+          // Deactivated users keep their credentials but can no longer open a session
+          before: async session => {
+            const user = await prisma.user.findUnique({
+              where: { id: session.userId },
+              select: { isActive: true }
+            })
+
+            if (user?.isActive === false) {
+              throw new APIError('FORBIDDEN', {
+                message: 'This account has been deactivated',
+                code: 'ACCOUNT_DEACTIVATED'
+              })
+            }
+          }
+        }
+      }
+    }
+  })
+}
+
+export type BetterAuth = ReturnType<typeof createBetterAuth>
+export type AuthSession = BetterAuth['$Infer']['Session']
+export type AuthUser = AuthSession['user']
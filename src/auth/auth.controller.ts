@@ -0,0 +1,186 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  Res
+} from '@nestjs/common'
+import { AllowAnonymous, Session } from '@thallesp/nestjs-better-auth'
+import { fromNodeHeaders } from 'better-auth/node'
+import type { Request, Response } from 'express'
+import { AllowApiKey } from '~/apiKeys/decorators/allowApiKey.decorator'
+import { RateLimit } from '~/rateLimit/decorators/rateLimit.decorator'
+import { AllowWithoutTwoFactor } from '~/twoFactor/decorators/allowWithoutTwoFactor.decorator'
+import type { TwoFactorChallenge } from '~/twoFactor/twoFactor.plugin'
+import type { AuthSession, AuthUser } from './auth.config'
+import { AccountService } from './account.service'
+import { AuthService } from './auth.service'
+import { ConnectedAccountsService } from './connectedAccounts.service'
+import { ForgotPasswordDto } from './dto/forgotPassword.dto'
+import { LoginDto } from './dto/login.dto'
+import { RegisterDto } from './dto/register.dto'
+import { ResetPasswordDto } from './dto/resetPassword.dto'
+import { StartOAuthDto } from './dto/startOAuth.dto'
+import { VerifyEmailDto } from './dto/verifyEmail.dto'
+import { VerifyTwoFactorDto } from './dto/verifyTwoFactor.dto'
+
+@Controller('auth')
+@AllowWithoutTwoFactor()
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly accountService: AccountService,
+    private readonly connectedAccountsService: ConnectedAccountsService
+  ) {}
+
+  @Post('register')
+  @AllowAnonymous()
+  @RateLimit('auth')
+  async register(@Body() dto: RegisterDto): Promise<AuthUser> {
+    const { data } = await this.authService.register(dto)
+
+    // Registration succeeds even if the email cannot be sent, it can be requested again
+    await this.accountService.sendVerificationEmail(data).catch(() => undefined)
+
+    return data
+  }
+
+  @Post('login')
+  @AllowAnonymous()
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.OK)
+  async login(
+    @Body() dto: LoginDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response
+  ): Promise<AuthUser | TwoFactorChallenge> {
+    const { data, cookies } = await this.authService.login(dto, fromNodeHeaders(request.headers))
+
+    response.setHeader('Set-Cookie', cookies)
+
+    return data
+  }
+
+  // Second step of the sign-in for users with 2FA enabled
+  @Post('2fa/verify')
+  @AllowAnonymous()
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.OK)
+  async verifyTwoFactor(
+    @Body() dto: VerifyTwoFactorDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response
+  ): Promise<AuthUser> {
+    const { data, cookies } = await this.authService.verifyTwoFactor(
+      dto,
+      fromNodeHeaders(request.headers)
+    )
+
+    response.setHeader('Set-Cookie', cookies)
+
+    return data
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response
+  ): Promise<{ success: boolean }> {
+    const { data, cookies } = await this.authService.logout(fromNodeHeaders(request.headers))
+
+    response.setHeader('Set-Cookie', cookies)
+
+    return data
+  }
+
+  // Lets an API key tell whose it is
+  @Get('me')
+  @AllowApiKey()
+  me(@Session() { user, session }: AuthSession) {
+    return {
+      user,
+      session: {
+        id: session.id,
+        expiresAt: session.expiresAt,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        // Set while an administrator acts as this user, so clients can show it
+        impersonatedBy: session.impersonatedBy ?? null
+      }
+    }
+  }
+
+  @Post('verify-email/send')
+  @HttpCode(HttpStatus.OK)
+  sendVerificationEmail(@Session() { user }: AuthSession) {
+    return this.accountService.sendVerificationEmail(user)
+  }
+
+  @Post('verify-email')
+  @AllowAnonymous()
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.OK)
+  verifyEmail(@Body() dto: VerifyEmailDto) {
+    return this.accountService.verifyEmail(dto.token)
+  }
+
+  @Post('forgot-password')
+  @AllowAnonymous()
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() dto: ForgotPasswordDto) {
+    await this.accountService.requestPasswordReset(dto.email)
+
+    return { message: 'If an account exists for this email, a reset link has been sent' }
+  }
+
+  @Post('reset-password')
+  @AllowAnonymous()
+  @RateLimit('auth')
+  @HttpCode(HttpStatus.OK)
+  resetPassword(@Body() dto: ResetPasswordDto) {
+    return this.accountService.resetPassword(dto.token, dto.password)
+  }
+
+  @Get('providers')
+  @AllowAnonymous()
+  async providers() {
+    return { providers: await this.authService.getOAuthProviders() }
+  }
+
+  @Post('oauth/:providerId')
+  @AllowAnonymous()
+  @HttpCode(HttpStatus.OK)
+  async startOAuth(
+    @Param('providerId') providerId: string,
+    @Body() dto: StartOAuthDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response
+  ): Promise<{ url: string }> {
+    const { data, cookies } = await this.authService.startOAuth(
+      providerId,
+      dto,
+      fromNodeHeaders(request.headers)
+    )
+
+    response.setHeader('Set-Cookie', cookies)
+
+    return data
+  }
+
+  @Get('accounts')
+  connectedAccounts(@Session() { user }: AuthSession) {
+    return this.connectedAccountsService.findForUser(user.id)
+  }
+
+  @Delete('accounts/:providerId')
+  unlinkAccount(@Session() { user }: AuthSession, @Param('providerId') providerId: string) {
+    return this.connectedAccountsService.unlink(user.id, providerId)
+  }
+}
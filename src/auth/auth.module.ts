@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common'
+import { APP_GUARD } from '@nestjs/core'
+import { AuthModule as NestBetterAuthModule } from '@thallesp/nestjs-better-auth'
+import { CommonModule } from '~/common/common.module'
+import { MailModule } from '~/mail/mail.module'
+import { AccountService } from './account.service'
+import { BETTER_AUTH, type BetterAuth } from './auth.config'
+import { AuthController } from './auth.controller'
+import { AuthService } from './auth.service'
+import { BetterAuthModule } from './betterAuth.module'
+import { ConnectedAccountsService } from './connectedAccounts.service'
+import { EmailVerifiedGuard } from './guards/emailVerified.guard'
+import { VerificationService } from './verification.service'
+
+@Module({
+  imports: [
+    BetterAuthModule,
+    CommonModule,
+    MailModule,
+    // Mounts the Better Auth handler on /api/auth/* and registers its session guard globally
+    NestBetterAuthModule.forRootAsync({
+      imports: [BetterAuthModule],
+      inject: [BETTER_AUTH],
+      useFactory: (auth: BetterAuth) => ({ auth }),
+      disableTrustedOriginsCors: true
+    })
+  ],
+  controllers: [AuthController],
+  providers: [
+    AuthService,
+    AccountService,
+    ConnectedAccountsService,
+    VerificationService,
+    { provide: APP_GUARD, useClass: EmailVerifiedGuard }
+  ]
+})
+export class AuthModule {}
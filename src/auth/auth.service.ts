@@ -0,0 +1,126 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { LoggerService } from '~/common/logger.service'
+import type { TwoFactorChallenge } from '~/twoFactor/twoFactor.plugin'
+import { BETTER_AUTH, type AuthUser, type BetterAuth } from './auth.config'
+import { callAuthApi } from './callAuthApi'
+import { LoginDto } from './dto/login.dto'
+import { RegisterDto } from './dto/register.dto'
+import { StartOAuthDto } from './dto/startOAuth.dto'
+import { VerifyTwoFactorDto } from './dto/verifyTwoFactor.dto'
+
+export interface AuthResult<T> {
+  data: T
+  cookies: string[]
+}
+
+@Injectable()
+export class AuthService {
+  constructor(
+    @Inject(BETTER_AUTH) private readonly auth: BetterAuth,
+    private readonly logger: LoggerService
+  ) {}
+
+  async register(dto: RegisterDto): Promise<AuthResult<AuthUser>> {
+    const { headers, response } = await callAuthApi(() =>
+      this.auth.api.signUpEmail({
+        body: { email: dto.email, password: dto.password, name: dto.name ?? '' },
+        returnHeaders: true
+      })
+    )
+
+    this.logger.info('User registered', { action: 'register', userId: response.user.id })
+
+    return { data: response.user as AuthUser, cookies: headers.getSetCookie() }
+  }
+
+  // Users with 2FA enabled get a challenge instead of a session, see verifyTwoFactor
+  async login(
+    dto: LoginDto,
+    requestHeaders: Headers
+  ): Promise<AuthResult<AuthUser | TwoFactorChallenge>> {
+    const { headers, response } = await callAuthApi(() =>
+      this.auth.api.signInEmail({
+        body: { email: dto.email, password: dto.password },
+        headers: requestHeaders,
+        returnHeaders: true
+      })
+    )
+    const result = response as typeof response | TwoFactorChallenge
+
+    if ('twoFactorRequired' in result) {
+      this.logger.info('Two-factor challenge issued', { action: 'login', email: dto.email })
+
+      return { data: result, cookies: headers.getSetCookie() }
+    }
+
+    this.logger.info('User logged in', { action: 'login', userId: result.user.id })
+
+    return { data: result.user as AuthUser, cookies: headers.getSetCookie() }
+  }
+
+  async verifyTwoFactor(
+    dto: VerifyTwoFactorDto,
+    requestHeaders: Headers
+  ): Promise<AuthResult<AuthUser>> {
+    const { headers, response } = await callAuthApi(() =>
+      this.auth.api.verifyTwoFactor({
+        body: { challengeToken: dto.challengeToken, code: dto.code },
+        headers: requestHeaders,
+        returnHeaders: true
+      })
+    )
+
+    this.logger.info('User logged in', {
+      action: 'login',
+      userId: response.user.id,
+      secondFactor: response.method
+    })
+
+    return { data: response.user as AuthUser, cookies: headers.getSetCookie() }
+  }
+
+  async logout(requestHeaders: Headers): Promise<AuthResult<{ success: boolean }>> {
+    const { headers, response } = await callAuthApi(() =>
+      this.auth.api.signOut({ headers: requestHeaders, returnHeaders: true })
+    )
+
+    this.logger.info('User logged out', { action: 'logout' })
+
+    return { data: response, cookies: headers.getSetCookie() }
+  }
+
+  // Ids of the configured OAuth providers, built-in and OpenID Connect ones alike
+  async getOAuthProviders(): Promise<string[]> {
+    const { socialProviders } = await this.auth.$context
+
+    return socialProviders.map(provider => provider.id)
+  }
+
+  /**
+   * Returns the provider's authorization URL. The state cookie set here must be
+   * sent back to the callback (/api/auth/callback/:id for built-in providers,
+   * /api/auth/oauth2/callback/:id for OpenID Connect ones).
+   */
+  async startOAuth(
+    providerId: string,
+    dto: StartOAuthDto,
+    requestHeaders: Headers
+  ): Promise<AuthResult<{ url: string }>> {
+    const isBuiltIn = providerId in (this.auth.options.socialProviders ?? {})
+    const { headers, response } = await callAuthApi(() =>
+      isBuiltIn
+        ? this.auth.api.signInSocial({
+            body: { provider: providerId as 'github', ...dto, disableRedirect: true },
+            headers: requestHeaders,
+            returnHeaders: true
+          })
+        : this.auth.api.signInWithOAuth2({
+            body: { providerId, ...dto, disableRedirect: true },
+            headers: requestHeaders,
+            returnHeaders: true
+          })
+    )
+
+    return { data: { url: response.url ?? '' }, cookies: headers.getSetCookie() }
+  }
+}
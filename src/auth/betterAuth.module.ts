@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { PrismaService } from '~/database/prisma.service'
+import { BETTER_AUTH, createBetterAuth } from './auth.config'
+
+@Module({
+  providers: [
+    {
+      provide: BETTER_AUTH,
+      useFactory: (prisma: PrismaService, config: ConfigService) =>
+        createBetterAuth(prisma, config),
+      inject: [PrismaService, ConfigService]
+    }
+  ],
+  exports: [BETTER_AUTH]
+})
+export class BetterAuthModule {}
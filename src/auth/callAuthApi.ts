@@ -0,0 +1,51 @@
+import { HttpException } from '@nestjs/common'
+import { APIError } from 'better-auth/api'
+import type { ErrorCode } from '~/common/errors/errorCatalog'
+import { TooManyRequestsException } from '~/common/exceptions/tooManyRequests.exception'
+
+// Codes Better Auth and our plugins put on APIError, translated to the error catalog;
+// Better Auth derives most of them from its messages
+const AUTH_ERROR_CODES: Record<string, ErrorCode> = {
+  INVALID_EMAIL_OR_PASSWORD: 'AUTH_INVALID_CREDENTIALS',
+  INVALID_PASSWORD: 'AUTH_INVALID_CREDENTIALS',
+  USER_ALREADY_EXISTS: 'AUTH_USER_ALREADY_EXISTS',
+  USER_ALREADY_EXISTS_USE_ANOTHER_EMAIL: 'AUTH_USER_ALREADY_EXISTS',
+  EMAIL_NOT_VERIFIED: 'AUTH_EMAIL_NOT_VERIFIED',
+  INVALID_TOKEN: 'AUTH_INVALID_TOKEN',
+  ACCOUNT_DEACTIVATED: 'AUTH_ACCOUNT_DEACTIVATED',
+  ACCOUNT_LOCKED: 'AUTH_ACCOUNT_LOCKED',
+  ACCOUNT_NOT_LINKED: 'AUTH_ACCOUNT_NOT_LINKED',
+  INVALID_TWO_FACTOR_CODE: 'AUTH_TWO_FACTOR_INVALID_CODE',
+  INVALID_TWO_FACTOR_CHALLENGE: 'AUTH_TWO_FACTOR_INVALID_CHALLENGE',
+  ALREADY_IMPERSONATING: 'IMPERSONATION_ALREADY_ACTIVE',
+  NOT_IMPERSONATING: 'IMPERSONATION_NOT_ACTIVE'
+}
+
+const toErrorCode = (code: string | undefined): string | undefined =>
+  (code && AUTH_ERROR_CODES[code]) ?? code
+
+// Better Auth reports failures as APIError; rethrow them as Nest exceptions so
+// HttpExceptionFilter renders them with the right status code
+export const callAuthApi = async <T>(call: () => Promise<T>): Promise<T> => {
+  try {
+    return await call()
+  } catch (error) {
+    // Keep the lockout's Retry-After so the filter can send it on
+    if (error instanceof APIError && error.statusCode === 429) {
+      throw new TooManyRequestsException(
+        Number(new Headers(error.headers).get('Retry-After') ?? 1),
+        error.body?.message,
+        toErrorCode(error.body?.code)
+      )
+    }
+
+    if (error instanceof APIError) {
+      throw new HttpException(
+        { message: error.body?.message ?? error.message, code: toErrorCode(error.body?.code) },
+        error.statusCode
+      )
+    }
+
+    throw error
+  }
+}
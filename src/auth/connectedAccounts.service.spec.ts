@@ -0,0 +1,92 @@
+import { ConflictException, NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { LoggerService } from '~/common/logger.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ConnectedAccountsService } from './connectedAccounts.service'
+
+describe('ConnectedAccountsService', () => {
+  let service: ConnectedAccountsService
+  const timestamps = { createdAt: new Date(), updatedAt: new Date() }
+  const credentialAccount = {
+    id: 'account-1',
+    providerId: 'credential',
+    accountId: 'user-1',
+    scope: null,
+    ...timestamps
+  }
+  const githubAccount = {
+    id: 'account-2',
+    providerId: 'github',
+    accountId: '42',
+    scope: 'read:user,user:email',
+    ...timestamps
+  }
+  const mockPrismaService = {
+    account: {
+      findMany: mock<() => Promise<unknown[]>>(() =>
+        Promise.resolve([credentialAccount, githubAccount])
+      ),
+      deleteMany: mock(() => Promise.resolve({ count: 1 }))
+    }
+  }
+  const mockLoggerService = { info: mock(() => {}) }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConnectedAccountsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LoggerService, useValue: mockLoggerService }
+      ]
+    }).compile()
+
+    service = module.get<ConnectedAccountsService>(ConnectedAccountsService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.account.findMany.mockImplementation(() =>
+      Promise.resolve([credentialAccount, githubAccount])
+    )
+  })
+
+  describe('findForUser', () => {
+    it('should never select tokens or password hashes', async () => {
+      await service.findForUser('user-1')
+
+      expect(mockPrismaService.account.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1' },
+          select: expect.not.objectContaining({ password: true, accessToken: true }) as object
+        })
+      )
+    })
+  })
+
+  describe('unlink', () => {
+    it('should delete the account of the given provider', async () => {
+      const account = await service.unlink('user-1', 'github')
+
+      expect(account).toEqual(githubAccount)
+      expect(mockPrismaService.account.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'account-2', userId: 'user-1' }
+      })
+    })
+
+    it('should throw NotFoundException when the provider is not linked', async () => {
+      const error = await service.unlink('user-1', 'google').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(NotFoundException)
+    })
+
+    it('should refuse to unlink the last sign-in method', async () => {
+      mockPrismaService.account.findMany.mockImplementation(() => Promise.resolve([githubAccount]))
+
+      const error = await service.unlink('user-1', 'github').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPrismaService.account.deleteMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common'
+import { withCode } from '~/common/errors/errorCatalog'
+import { LoggerService } from '~/common/logger.service'
+import { PrismaService } from '~/database/prisma.service'
+
+// Provider tokens and password hashes never leave the server
+const connectedAccountSelect = {
+  id: true,
+  providerId: true,
+  accountId: true,
+  scope: true,
+  createdAt: true,
+  updatedAt: true
+} as const
+
+export interface ConnectedAccount {
+  id: string
+  providerId: string
+  accountId: string
+  scope: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Sign-in methods attached to a user: the "credential" account holds the
+ * password, every other account is an OAuth provider.
+ */
+@Injectable()
+export class ConnectedAccountsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService
+  ) {}
+
+  findForUser(userId: string): Promise<ConnectedAccount[]> {
+    return this.prisma.account.findMany({
+      where: { userId },
+      select: connectedAccountSelect,
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  async unlink(userId: string, providerId: string): Promise<ConnectedAccount> {
+    const accounts = await this.findForUser(userId)
+    const account = accounts.find(candidate => candidate.providerId === providerId)
+
+    if (!account) {
+      throw new NotFoundException(`No "${providerId}" account is linked`)
+    }
+
+    // Guard: the user would be locked out of their own account
+    if (accounts.length === 1) {
+      throw new ConflictException(
+        withCode('AUTH_LAST_SIGN_IN_METHOD', 'Cannot unlink the last sign-in method')
+      )
+    }
+
+    await this.prisma.account.deleteMany({ where: { id: account.id, userId } })
+
+    this.logger.info('Account unlinked', { action: 'unlinkAccount', userId, providerId })
+
+    return account
+  }
+}
@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common'
+import type { AuthUser } from '../auth.config'
+import type { AuthenticatedRequest } from '../interfaces/authenticatedRequest.interface'
+
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser | null => {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>()
+
+    return request.user ?? null
+  }
+)
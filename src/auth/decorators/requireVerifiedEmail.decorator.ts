@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common'
+
+export const REQUIRE_VERIFIED_EMAIL_KEY = 'require_verified_email'
+
+// Only enforced when REQUIRE_EMAIL_VERIFICATION=true
+export const RequireVerifiedEmail = () => SetMetadata(REQUIRE_VERIFIED_EMAIL_KEY, true)
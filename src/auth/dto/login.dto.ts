@@ -0,0 +1,10 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator'
+
+export class LoginDto {
+  @IsEmail()
+  email!: string
+
+  @IsString()
+  @IsNotEmpty()
+  password!: string
+}
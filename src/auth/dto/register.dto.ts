@@ -0,0 +1,16 @@
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength, MinLength } from 'class-validator'
+
+export class RegisterDto {
+  @IsEmail()
+  email!: string
+
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password!: string
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string
+}
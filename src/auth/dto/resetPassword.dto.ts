@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator'
+
+export class ResetPasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  token!: string
+
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password!: string
+}
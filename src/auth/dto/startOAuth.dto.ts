@@ -0,0 +1,12 @@
+import { IsOptional, IsString } from 'class-validator'
+
+// Both URLs must belong to a trusted origin, Better Auth rejects anything else
+export class StartOAuthDto {
+  @IsOptional()
+  @IsString()
+  callbackURL?: string
+
+  @IsOptional()
+  @IsString()
+  errorCallbackURL?: string
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+export class VerifyTwoFactorDto {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken!: string
+
+  // A 6-digit TOTP code or a backup code
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code!: string
+}
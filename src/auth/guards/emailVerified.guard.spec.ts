@@ -0,0 +1,44 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Reflector } from '@nestjs/core'
+import { describe, expect, it } from 'bun:test'
+import { EmailVerifiedGuard } from './emailVerified.guard'
+
+describe('EmailVerifiedGuard', () => {
+  const buildContext = (user: { emailVerified: boolean } | null): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) })
+    }) as unknown as ExecutionContext
+
+  const buildGuard = (enabled: boolean, required: boolean): EmailVerifiedGuard => {
+    const reflector = { getAllAndOverride: () => required } as unknown as Reflector
+
+    return new EmailVerifiedGuard(
+      reflector,
+      new ConfigService({ REQUIRE_EMAIL_VERIFICATION: String(enabled) })
+    )
+  }
+
+  it('should block unverified users on marked routes when enabled', () => {
+    const guard = buildGuard(true, true)
+
+    expect(() => guard.canActivate(buildContext({ emailVerified: false }))).toThrow(
+      ForbiddenException
+    )
+    expect(guard.canActivate(buildContext({ emailVerified: true }))).toBe(true)
+  })
+
+  it('should let everyone through when the feature is disabled', () => {
+    const guard = buildGuard(false, true)
+
+    expect(guard.canActivate(buildContext({ emailVerified: false }))).toBe(true)
+  })
+
+  it('should ignore routes that are not marked', () => {
+    const guard = buildGuard(true, false)
+
+    expect(guard.canActivate(buildContext({ emailVerified: false }))).toBe(true)
+  })
+})
@@ -0,0 +1,45 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Reflector } from '@nestjs/core'
+import { withCode } from '~/common/errors/errorCatalog'
+import { REQUIRE_VERIFIED_EMAIL_KEY } from '../decorators/requireVerifiedEmail.decorator'
+import type { AuthenticatedRequest } from '../interfaces/authenticatedRequest.interface'
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  private readonly enabled: boolean
+
+  constructor(
+    private readonly reflector: Reflector,
+    config: ConfigService
+  ) {
+    this.enabled = config.get<string>('REQUIRE_EMAIL_VERIFICATION') === 'true'
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<boolean | undefined>(
+      REQUIRE_VERIFIED_EMAIL_KEY,
+      [context.getHandler(), context.getClass()]
+    )
+
+    // Guard: feature disabled or route not marked as sensitive
+    if (!this.enabled || !required) {
+      return true
+    }
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>()
+
+    // Guard: anonymous access is the session guard's concern
+    if (!user) {
+      return true
+    }
+
+    if (!user.emailVerified) {
+      throw new ForbiddenException(
+        withCode('AUTH_EMAIL_NOT_VERIFIED', 'Verify your email address to perform this action')
+      )
+    }
+
+    return true
+  }
+}
@@ -0,0 +1,15 @@
+import type { Request } from 'express'
+import type { AuthSession, AuthUser } from '../auth.config'
+
+// Extra session fields set when the request authenticated with an API key
+export interface ApiKeySessionFields {
+  apiKeyId?: string
+  scopes?: string[]
+}
+
+// Shape of the request once Better Auth's AuthGuard has resolved the session
+// (the guard stores the whole `{ user, session }` result on `request.session`)
+export interface AuthenticatedRequest extends Request {
+  session?: { user: AuthUser; session: AuthSession['session'] & ApiKeySessionFields } | null
+  user?: AuthUser | null
+}
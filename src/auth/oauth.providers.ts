@@ -0,0 +1,40 @@
+import { ConfigService } from '@nestjs/config'
+import type { BetterAuthOptions } from 'better-auth'
+import type { GenericOAuthConfig } from 'better-auth/plugins'
+
+export const GOOGLE_DISCOVERY_URL = 'https://accounts.google.com/.well-known/openid-configuration'
+
+// GitHub is plain OAuth 2.0, so it uses Better Auth's built-in provider
+export const buildSocialProviders = (
+  config: ConfigService
+): BetterAuthOptions['socialProviders'] => {
+  const clientId = config.get<string>('GITHUB_CLIENT_ID')
+
+  return clientId
+    ? { github: { clientId, clientSecret: config.get<string>('GITHUB_CLIENT_SECRET') ?? '' } }
+    : {}
+}
+
+/**
+ * Google speaks OpenID Connect and is configured through its discovery document.
+ * Pointing GOOGLE_DISCOVERY_URL at a local mock OIDC server stubs the provider
+ * out without network access.
+ */
+export const buildOidcProviders = (config: ConfigService): GenericOAuthConfig[] => {
+  const clientId = config.get<string>('GOOGLE_CLIENT_ID')
+
+  if (!clientId) {
+    return []
+  }
+
+  return [
+    {
+      providerId: 'google',
+      clientId,
+      clientSecret: config.get<string>('GOOGLE_CLIENT_SECRET') ?? '',
+      discoveryUrl: config.get<string>('GOOGLE_DISCOVERY_URL') ?? GOOGLE_DISCOVERY_URL,
+      scopes: ['openid', 'email', 'profile'],
+      pkce: true
+    }
+  ]
+}
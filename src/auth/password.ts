@@ -0,0 +1,23 @@
+import { hash, verify } from 'argon2'
+
+// OWASP recommended minimum for argon2id
+export const ARGON2_OPTIONS = {
+  memoryCost: 19456,
+  timeCost: 2,
+  hashLength: 32,
+  parallelism: 1
+}
+
+export const hashPassword = async (password: string): Promise<string> => {
+  return await hash(password, ARGON2_OPTIONS)
+}
+
+export const verifyPassword = async ({
+  hash: passwordHash,
+  password
+}: {
+  hash: string
+  password: string
+}): Promise<boolean> => {
+  return await verify(passwordHash, password)
+}
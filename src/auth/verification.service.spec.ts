@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { PrismaService } from '~/database/prisma.service'
+import { VerificationService } from './verification.service'
+
+describe('VerificationService', () => {
+  let service: VerificationService
+  let stored: { id: string; identifier: string; value: string; expiresAt: Date } | null
+  const mockPrismaService = {
+    verification: {
+      create: mock(({ data }: { data: Omit<NonNullable<typeof stored>, 'id'> }) => {
+        stored = { id: 'verification-1', ...data }
+        return Promise.resolve(stored)
+      }),
+      findFirst: mock(
+        ({ where }: { where: { value: string; identifier: { startsWith: string } } }) =>
+          Promise.resolve(
+            stored?.value === where.value &&
+              stored.identifier.startsWith(where.identifier.startsWith)
+              ? stored
+              : null
+          )
+      ),
+      deleteMany: mock(() => {
+        const count = stored ? 1 : 0
+        stored = null
+        return Promise.resolve({ count })
+      })
+    },
+    $transaction: mock((operations: Promise<unknown>[]) => Promise.all(operations))
+  }
+
+  beforeEach(() => {
+    stored = null
+    service = new VerificationService(mockPrismaService as unknown as PrismaService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+  })
+
+  it('should only store a hash of the token', async () => {
+    const token = await service.issue('email-verification', 'user-1', 60_000)
+
+    expect(token.length).toBeGreaterThanOrEqual(43)
+    expect(stored?.identifier).toBe('email-verification:user-1')
+    expect(stored?.value).toMatch(/^[0-9a-f]{64}$/)
+    expect(stored?.value).not.toContain(token)
+  })
+
+  it('should replace earlier tokens for the same purpose and user', async () => {
+    await service.issue('password-reset', 'user-1', 60_000)
+
+    expect(mockPrismaService.verification.deleteMany).toHaveBeenCalledWith({
+      where: { identifier: 'password-reset:user-1' }
+    })
+  })
+
+  it('should consume a token exactly once', async () => {
+    const token = await service.issue('email-verification', 'user-1', 60_000)
+
+    expect(await service.consume('email-verification', token)).toBe('user-1')
+    expect(await service.consume('email-verification', token)).toBeNull()
+  })
+
+  it('should reject expired tokens', async () => {
+    const token = await service.issue('email-verification', 'user-1', -1)
+
+    expect(await service.consume('email-verification', token)).toBeNull()
+  })
+
+  it('should reject tokens issued for another purpose', async () => {
+    const token = await service.issue('email-verification', 'user-1', 60_000)
+
+    expect(await service.consume('password-reset', token)).toBeNull()
+  })
+})
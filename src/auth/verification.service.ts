@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common'
+import { createHash, randomBytes } from 'node:crypto'
+import { PrismaService } from '~/database/prisma.service'
+
+export type VerificationPurpose = 'email-verification' | 'password-reset'
+
+const TOKEN_BYTES = 32
+
+// Tokens carry 256 bits of entropy, so a fast hash is enough and keeps lookups by value possible
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex')
+
+@Injectable()
+export class VerificationService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Issues a new single-use token; only its hash is stored. Earlier tokens issued
+   * for the same purpose and user stop working.
+   */
+  async issue(purpose: VerificationPurpose, userId: string, ttlMs: number): Promise<string> {
+    const token = randomBytes(TOKEN_BYTES).toString('base64url')
+    const identifier = `${purpose}:${userId}`
+
+    await this.prisma.$transaction([
+      this.prisma.verification.deleteMany({ where: { identifier } }),
+      this.prisma.verification.create({
+        data: { identifier, value: hashToken(token), expiresAt: new Date(Date.now() + ttlMs) }
+      })
+    ])
+
+    return token
+  }
+
+  /**
+   * Consumes a token and returns the id of the user it was issued for, or null
+   * when the token is unknown, expired or already used.
+   */
+  async consume(purpose: VerificationPurpose, token: string): Promise<string | null> {
+    const verification = await this.prisma.verification.findFirst({
+      where: { value: hashToken(token), identifier: { startsWith: `${purpose}:` } }
+    })
+
+    if (!verification) {
+      return null
+    }
+
+    // Only the request that actually deletes the row may use it
+    const { count } = await this.prisma.verification.deleteMany({
+      where: { id: verification.id }
+    })
+
+    if (count === 0 || verification.expiresAt <= new Date()) {
+      return null
+    }
+
+    return verification.identifier.slice(purpose.length + 1)
+  }
+}
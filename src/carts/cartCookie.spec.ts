@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'bun:test'
+import { CART_COOKIE, readCartId, signCartId } from './cartCookie'
+
+describe('cart cookie', () => {
+  const secret = 'test-secret'
+
+  it('should read back a signed cart id', () => {
+    const header = `theme=dark; ${CART_COOKIE}=${signCartId('cart-1', secret)}`
+
+    expect(readCartId(header, secret)).toBe('cart-1')
+  })
+
+  it('should ignore tampered or foreign cookies', () => {
+    const [, signature] = signCartId('cart-1', secret).split('.')
+
+    expect(readCartId(`${CART_COOKIE}=cart-2.${signature}`, secret)).toBeNull()
+    expect(readCartId(`${CART_COOKIE}=${signCartId('cart-1', 'other-secret')}`, secret)).toBeNull()
+    expect(readCartId(`${CART_COOKIE}=cart-1`, secret)).toBeNull()
+  })
+
+  it('should ignore requests without the cookie', () => {
+    expect(readCartId(undefined, secret)).toBeNull()
+    expect(readCartId('theme=dark', secret)).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { parseCookies } from 'better-auth/cookies'
+
+// Holds the anonymous visitor's cart id, cleared once the cart is merged on sign-in
+export const CART_COOKIE = 'cart_id'
+
+export const CART_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+const signatureOf = (cartId: string, secret: string): string =>
+  createHmac('sha256', secret).update(cartId).digest('base64url')
+
+export const signCartId = (cartId: string, secret: string): string =>
+  `${cartId}.${signatureOf(cartId, secret)}`
+
+// The cart id from a Cookie header, or null when missing or tampered with
+export const readCartId = (
+  cookieHeader: string | null | undefined,
+  secret: string
+): string | null => {
+  const value = cookieHeader ? parseCookies(cookieHeader).get(CART_COOKIE) : undefined
+  const separator = value?.lastIndexOf('.') ?? -1
+
+  // Guard: no cookie, or not an "id.signature" value
+  if (!value || separator <= 0) {
+    return null
+  }
+
+  const cartId = value.slice(0, separator)
+  const signature = Buffer.from(value.slice(separator + 1))
+  const expected = Buffer.from(signatureOf(cartId, secret))
+
+  return signature.length === expected.length && timingSafeEqual(signature, expected)
+    ? cartId
+    : null
+}
@@ -0,0 +1,37 @@
+import type { BetterAuthPlugin } from 'better-auth'
+import { createAuthMiddleware } from 'better-auth/api'
+import { PrismaService } from '~/database/prisma.service'
+import { CART_COOKIE, readCartId } from './cartCookie'
+import { mergeAnonymousCart } from './cartMerge'
+
+/**
+ * Merges the visitor's anonymous cart into their own cart whenever a session
+ * is opened, whichever sign-in method was used, then drops the cart cookie.
+ */
+export const cartMerge = (prisma: PrismaService) =>
+  ({
+    id: 'cart-merge',
+    hooks: {
+      after: [
+        {
+          matcher: () => true,
+          handler: createAuthMiddleware(async context => {
+            const newSession = context.context.newSession
+            const cartId = readCartId(context.headers?.get('cookie'), context.context.secret)
+
+            // Guard: no sign-in, no anonymous cart, or an administrator impersonating someone
+            if (
+              !newSession ||
+              !cartId ||
+              (newSession.session as { impersonatedBy?: string | null }).impersonatedBy
+            ) {
+              return
+            }
+
+            await mergeAnonymousCart(prisma, cartId, newSession.user.id)
+            context.setCookie(CART_COOKIE, '', { path: '/', maxAge: 0 })
+          })
+        }
+      ]
+    }
+  }) satisfies BetterAuthPlugin
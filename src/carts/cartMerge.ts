@@ -0,0 +1,40 @@
+import { PrismaService } from '~/database/prisma.service'
+
+/**
+ * Moves an anonymous cart into the user's cart, adding up the quantities of
+ * products found in both. A user without a cart simply takes over the
+ * anonymous one. Quantities above the stock are reported on the next read.
+ */
+export const mergeAnonymousCart = (
+  prisma: PrismaService,
+  anonymousCartId: string,
+  userId: string
+): Promise<void> =>
+  prisma.$transaction(async tx => {
+    const anonymousCart = await tx.cart.findFirst({
+      where: { id: anonymousCartId, userId: null },
+      include: { items: true }
+    })
+
+    // Guard: already merged, or the cart belongs to someone
+    if (!anonymousCart) {
+      return
+    }
+
+    const userCart = await tx.cart.findUnique({ where: { userId } })
+
+    if (!userCart) {
+      await tx.cart.update({ where: { id: anonymousCart.id }, data: { userId } })
+      return
+    }
+
+    for (const { productId, quantity, unitPrice } of anonymousCart.items) {
+      await tx.cartItem.upsert({
+        where: { cartId_productId: { cartId: userCart.id, productId } },
+        create: { cartId: userCart.id, productId, quantity, unitPrice },
+        update: { quantity: { increment: quantity } }
+      })
+    }
+
+    await tx.cart.delete({ where: { id: anonymousCart.id } })
+  })
@@ -0,0 +1,111 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Req, Res } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { AllowAnonymous, Session } from '@thallesp/nestjs-better-auth'
+import type { Response } from 'express'
+import type { AuthSession } from '~/auth/auth.config'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { CaslAbilityFactory } from '~/casl/caslAbility.factory'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { CART_COOKIE, CART_COOKIE_MAX_AGE_SECONDS, readCartId, signCartId } from './cartCookie'
+import { type CartOwner, CartsService } from './carts.service'
+import { AddCartItemDto } from './dto/addCartItem.dto'
+import { CheckoutDto } from './dto/checkout.dto'
+import { UpdateCartItemDto } from './dto/updateCartItem.dto'
+
+// Anonymous visitors get a cart too, so every route but checkout works without a session
+@Controller('cart')
+export class CartsController {
+  constructor(
+    private readonly cartsService: CartsService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly config: ConfigService,
+    private readonly logger: LoggerService
+  ) {}
+
+  @Get()
+  @AllowAnonymous()
+  async getCart(@Req() request: AuthenticatedRequest) {
+    return this.cartsService.getCart(await this.ownerOf(request))
+  }
+
+  @Post('items')
+  @AllowAnonymous()
+  async addItem(
+    @Body() dto: AddCartItemDto,
+    @Req() request: AuthenticatedRequest,
+    @Res({ passthrough: true }) response: Response
+  ) {
+    const owner = await this.ownerOf(request)
+    const cart = await this.cartsService.addItem(owner, dto)
+
+    // A visitor's first item creates their cart, the cookie is how they find it again
+    if (!owner.userId && cart.id && cart.id !== owner.anonymousCartId) {
+      response.cookie(CART_COOKIE, signCartId(cart.id, this.cookieSecret()), {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: this.config.get<string>('NODE_ENV') === 'production',
+        path: '/',
+        maxAge: CART_COOKIE_MAX_AGE_SECONDS * 1000
+      })
+    }
+
+    return cart
+  }
+
+  @Patch('items/:itemId')
+  @AllowAnonymous()
+  async updateItem(
+    @Param('itemId') itemId: string,
+    @Body() dto: UpdateCartItemDto,
+    @Req() request: AuthenticatedRequest
+  ) {
+    return this.cartsService.updateItem(await this.ownerOf(request), itemId, dto)
+  }
+
+  @Delete('items/:itemId')
+  @AllowAnonymous()
+  async removeItem(@Param('itemId') itemId: string, @Req() request: AuthenticatedRequest) {
+    return this.cartsService.removeItem(await this.ownerOf(request), itemId)
+  }
+
+  @Post('checkout')
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('create', 'Order'))
+  async checkout(
+    @Session() { user }: AuthSession,
+    @Body() dto: CheckoutDto,
+    @Req() request: AuthenticatedRequest
+  ) {
+    const owner = await this.ownerOf(request)
+    const order = await this.cartsService.checkout({ ...owner, userId: user.id }, dto)
+
+    this.logger.info('Cart checked out', {
+      action: 'checkout',
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      total: order.total
+    })
+
+    return order
+  }
+
+  // The cookie is ignored once signed in, the anonymous cart was merged on sign-in
+  private async ownerOf(request: AuthenticatedRequest): Promise<CartOwner> {
+    const userId = request.user?.id ?? null
+    const cookieHeader = request.headers.cookie
+
+    return {
+      userId,
+      anonymousCartId:
+        !userId && cookieHeader ? readCartId(cookieHeader, this.cookieSecret()) : null,
+      ability: await this.caslAbilityFactory.createForRequest(request)
+    }
+  }
+
+  // Same secret Better Auth signs its cookies with, the cart merge hook verifies with it
+  private cookieSecret(): string {
+    return this.config.getOrThrow<string>('BETTER_AUTH_SECRET')
+  }
+}
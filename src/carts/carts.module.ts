@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { CaslModule } from '~/casl/casl.module'
+import { CommonModule } from '~/common/common.module'
+import { OrdersModule } from '~/orders/orders.module'
+import { CartsController } from './carts.controller'
+import { CartsService } from './carts.service'
+
+@Module({
+  imports: [CaslModule, CommonModule, OrdersModule],
+  controllers: [CartsController],
+  providers: [CartsService]
+})
+export class CartsModule {}
@@ -0,0 +1,199 @@
+import { createMongoAbility } from '@casl/ability'
+import { ConflictException, ForbiddenException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import type { AppAbility } from '~/casl/casl.types'
+import { PrismaService } from '~/database/prisma.service'
+import { OrdersService } from '~/orders/orders.service'
+import { type CartOwner, CartsService } from './carts.service'
+
+describe('CartsService', () => {
+  let service: CartsService
+  const laptop = {
+    id: 'laptop',
+    name: 'Laptop',
+    slug: 'laptop',
+    price: 100000,
+    stock: 5,
+    isActive: true
+  }
+  const buildItem = (overrides: object = {}) => ({
+    id: 'item-1',
+    cartId: 'cart-1',
+    productId: 'laptop',
+    quantity: 2,
+    unitPrice: 100000,
+    product: laptop,
+    ...overrides
+  })
+  const buildCart = (userId: string | null, ...items: object[]) => ({
+    id: 'cart-1',
+    userId,
+    items: items.length > 0 ? items : [buildItem()]
+  })
+  // Same rules as the seeded USER role, once interpolated for user-1
+  const customer: CartOwner = {
+    userId: 'user-1',
+    anonymousCartId: null,
+    ability: createMongoAbility<AppAbility>([
+      {
+        action: ['create', 'read', 'update', 'delete'],
+        subject: 'Cart',
+        conditions: { userId: 'user-1' }
+      }
+    ])
+  }
+  const visitor: CartOwner = {
+    userId: null,
+    anonymousCartId: 'cart-1',
+    ability: createMongoAbility<AppAbility>([])
+  }
+  const mockPrismaService = {
+    cart: {
+      findFirst: mock<() => Promise<unknown>>(() => Promise.resolve(buildCart('user-1'))),
+      findUniqueOrThrow: mock<() => Promise<unknown>>(() => Promise.resolve(buildCart('user-1'))),
+      create: mock(() => Promise.resolve({ id: 'cart-2', userId: null, items: [] }))
+    },
+    cartItem: {
+      findUnique: mock<() => Promise<unknown>>(() =>
+        Promise.resolve({ ...buildItem(), cart: { id: 'cart-1', userId: 'user-2' } })
+      ),
+      upsert: mock(() => Promise.resolve({})),
+      update: mock(() => Promise.resolve({})),
+      delete: mock(() => Promise.resolve({})),
+      deleteMany: mock(() => Promise.resolve({ count: 1 }))
+    },
+    product: {
+      findFirst: mock(() => Promise.resolve(laptop))
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const mockOrdersService = {
+    create: mock(() => Promise.resolve({ id: 'order-1' }))
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CartsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: OrdersService, useValue: mockOrdersService }
+      ]
+    }).compile()
+
+    service = module.get<CartsService>(CartsService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.cart.findFirst.mockImplementation(() => Promise.resolve(buildCart('user-1')))
+    mockPrismaService.cartItem.findUnique.mockImplementation(() =>
+      Promise.resolve({ ...buildItem(), cart: { id: 'cart-1', userId: 'user-2' } })
+    )
+  })
+
+  describe('getCart', () => {
+    it('should flag unavailable products, missing stock and price changes', async () => {
+      mockPrismaService.cart.findFirst.mockResolvedValueOnce(
+        buildCart(
+          'user-1',
+          buildItem({ quantity: 6, unitPrice: 90000 }),
+          buildItem({ id: 'item-2', product: { ...laptop, id: 'mouse', isActive: false } })
+        )
+      )
+
+      const cart = await service.getCart(customer)
+
+      expect(cart.items.map(({ issues }) => issues)).toEqual([
+        [
+          { code: 'INSUFFICIENT_STOCK', available: 5 },
+          { code: 'PRICE_CHANGED', previousUnitPrice: 90000 }
+        ],
+        [{ code: 'UNAVAILABLE' }]
+      ])
+      expect(cart).toMatchObject({ total: 600000, checkoutReady: false })
+      expect(mockPrismaService.cartItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { unitPrice: 100000 }
+      })
+    })
+
+    it('should return an empty cart to visitors without a cookie', async () => {
+      const cart = await service.getCart({ ...visitor, anonymousCartId: null })
+
+      expect(cart).toEqual({ id: null, items: [], total: 0, checkoutReady: false })
+      expect(mockPrismaService.cart.findFirst).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('addItem', () => {
+    it('should create a cart for a visitor without one', async () => {
+      await service.addItem(
+        { ...visitor, anonymousCartId: null },
+        {
+          productId: 'laptop',
+          quantity: 1
+        }
+      )
+
+      expect(mockPrismaService.cart.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { userId: null } })
+      )
+    })
+
+    it('should not put more in the cart than the stock', () => {
+      expect(service.addItem(customer, { productId: 'laptop', quantity: 4 })).rejects.toThrow(
+        ConflictException
+      )
+    })
+  })
+
+  describe('ownership', () => {
+    it("should forbid touching an item of someone else's cart", () => {
+      expect(service.removeItem(customer, 'item-1')).rejects.toThrow(ForbiddenException)
+    })
+
+    it('should only let visitors touch the anonymous cart of their cookie', async () => {
+      mockPrismaService.cartItem.findUnique.mockResolvedValue({
+        ...buildItem(),
+        cart: { id: 'cart-1', userId: null }
+      })
+
+      await service.removeItem(visitor, 'item-1')
+
+      expect(
+        service.removeItem({ ...visitor, anonymousCartId: 'cart-9' }, 'item-1')
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+
+  describe('checkout', () => {
+    it('should order the cart items and empty the cart', async () => {
+      await service.checkout(customer as CartOwner & { userId: string }, {
+        shippingAddress: '1 Main Street'
+      })
+
+      expect(mockOrdersService.create).toHaveBeenCalledWith('user-1', {
+        items: [{ productId: 'laptop', quantity: 2 }],
+        shippingAddress: '1 Main Street',
+        simulatePaymentFailure: undefined
+      })
+      expect(mockPrismaService.cartItem.deleteMany).toHaveBeenCalledWith({
+        where: { cartId: 'cart-1' }
+      })
+    })
+
+    it('should send the customer back to the cart when a price changed', async () => {
+      mockPrismaService.cart.findFirst.mockResolvedValueOnce(
+        buildCart('user-1', buildItem({ unitPrice: 90000 }))
+      )
+
+      const error = await service
+        .checkout(customer as CartOwner & { userId: string }, { shippingAddress: '1 Main Street' })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockOrdersService.create).not.toHaveBeenCalled()
+    })
+  })
+})
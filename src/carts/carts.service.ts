@@ -0,0 +1,268 @@
+import { subject } from '@casl/ability'
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException
+} from '@nestjs/common'
+import type { Prisma } from '@generated'
+import type { Action, AppAbility } from '~/casl/casl.types'
+import { withCode } from '~/common/errors/errorCatalog'
+import { PrismaService } from '~/database/prisma.service'
+import { type OrderWithItems, OrdersService } from '~/orders/orders.service'
+import { AddCartItemDto } from './dto/addCartItem.dto'
+import { CheckoutDto } from './dto/checkout.dto'
+import { UpdateCartItemDto } from './dto/updateCartItem.dto'
+
+const cartInclude = {
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, slug: true, price: true, stock: true, isActive: true }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  }
+} satisfies Prisma.CartInclude
+
+type CartWithItems = Prisma.CartGetPayload<{ include: typeof cartInclude }>
+
+// Why an item cannot be checked out as is; a price change only needs to be acknowledged
+export type CartIssue =
+  | { code: 'UNAVAILABLE' }
+  | { code: 'INSUFFICIENT_STOCK'; available: number }
+  | { code: 'PRICE_CHANGED'; previousUnitPrice: number }
+
+export interface CartItemView {
+  id: string
+  product: { id: string; name: string; slug: string }
+  quantity: number
+  // Current price, in cents
+  unitPrice: number
+  lineTotal: number
+  issues: CartIssue[]
+}
+
+export interface CartView {
+  // Null until the first item is added
+  id: string | null
+  items: CartItemView[]
+  total: number
+  checkoutReady: boolean
+}
+
+// Who is asking: the signed-in user, or the anonymous visitor holding the cart cookie
+export interface CartOwner {
+  userId: string | null
+  anonymousCartId: string | null
+  ability: AppAbility
+}
+
+const EMPTY_CART: CartView = { id: null, items: [], total: 0, checkoutReady: false }
+
+@Injectable()
+export class CartsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ordersService: OrdersService
+  ) {}
+
+  async getCart(owner: CartOwner): Promise<CartView> {
+    const cart = await this.findCart(owner, 'read')
+
+    return cart ? this.revalidate(cart) : EMPTY_CART
+  }
+
+  async addItem(owner: CartOwner, { productId, quantity }: AddCartItemDto): Promise<CartView> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, isActive: true }
+    })
+
+    if (!product) {
+      throw new NotFoundException(`Product "${productId}" not found`)
+    }
+
+    const cart = (await this.findCart(owner, 'update')) ?? (await this.createCart(owner))
+    const inCart = cart.items.find(item => item.productId === productId)?.quantity ?? 0
+
+    this.ensureInStock(product, inCart + quantity)
+    await this.prisma.cartItem.upsert({
+      where: { cartId_productId: { cartId: cart.id, productId } },
+      create: { cartId: cart.id, productId, quantity, unitPrice: product.price },
+      update: { quantity: { increment: quantity }, unitPrice: product.price }
+    })
+
+    return this.revalidate(await this.loadCart(cart.id))
+  }
+
+  async updateItem(
+    owner: CartOwner,
+    itemId: string,
+    { quantity }: UpdateCartItemDto
+  ): Promise<CartView> {
+    const item = await this.findItemOrThrow(owner, itemId)
+
+    this.ensureInStock(item.product, quantity)
+    await this.prisma.cartItem.update({
+      where: { id: itemId },
+      data: { quantity, unitPrice: item.product.price }
+    })
+
+    return this.revalidate(await this.loadCart(item.cartId))
+  }
+
+  async removeItem(owner: CartOwner, itemId: string): Promise<CartView> {
+    const item = await this.findItemOrThrow(owner, itemId)
+
+    await this.prisma.cartItem.delete({ where: { id: itemId } })
+
+    return this.revalidate(await this.loadCart(item.cartId))
+  }
+
+  /**
+   * Turns the cart into an order, whose items freeze the prices. The cart is
+   * checked again first: any issue, including a price the customer has not
+   * seen yet, sends them back to review it rather than charging a surprise.
+   */
+  async checkout(owner: CartOwner & { userId: string }, dto: CheckoutDto): Promise<OrderWithItems> {
+    const cart = await this.findCart(owner, 'update')
+
+    if (!cart || cart.items.length === 0) {
+      throw new BadRequestException(withCode('CART_EMPTY', 'Your cart is empty'))
+    }
+
+    const { checkoutReady } = await this.revalidate(cart)
+
+    if (!checkoutReady) {
+      throw new ConflictException(
+        withCode('CART_CHANGED', 'Your cart changed since you last saw it, review it first')
+      )
+    }
+
+    const order = await this.ordersService.create(owner.userId, {
+      items: cart.items.map(({ productId, quantity }) => ({ productId, quantity })),
+      shippingAddress: dto.shippingAddress,
+      simulatePaymentFailure: dto.simulatePaymentFailure
+    })
+
+    await this.prisma.cartItem.deleteMany({ where: { cartId: cart.id } })
+
+    return order
+  }
+
+  private async findCart(owner: CartOwner, action: Action): Promise<CartWithItems | null> {
+    const where = owner.userId
+      ? { userId: owner.userId }
+      : owner.anonymousCartId
+        ? { id: owner.anonymousCartId, userId: null }
+        : null
+
+    // Guard: anonymous visitor without a cart yet
+    if (!where) {
+      return null
+    }
+
+    const cart = await this.prisma.cart.findFirst({ where, include: cartInclude })
+
+    if (cart) {
+      this.authorize(cart, owner, action)
+    }
+
+    return cart
+  }
+
+  private async createCart(owner: CartOwner): Promise<CartWithItems> {
+    this.authorize({ id: null, userId: owner.userId }, owner, 'create')
+
+    return this.prisma.cart.create({ data: { userId: owner.userId }, include: cartInclude })
+  }
+
+  private async loadCart(id: string): Promise<CartWithItems> {
+    return this.prisma.cart.findUniqueOrThrow({ where: { id }, include: cartInclude })
+  }
+
+  private async findItemOrThrow(owner: CartOwner, itemId: string) {
+    const item = await this.prisma.cartItem.findUnique({
+      where: { id: itemId },
+      include: { cart: true, product: true }
+    })
+
+    if (!item) {
+      throw new NotFoundException(`Cart item "${itemId}" not found`)
+    }
+
+    this.authorize(item.cart, owner, 'update')
+
+    return item
+  }
+
+  // User carts go through the permission rules, anonymous ones need their signed cookie
+  private authorize(
+    cart: { id: string | null; userId: string | null },
+    owner: CartOwner,
+    action: Action
+  ): void {
+    const allowed = cart.userId
+      ? owner.ability.can(action, subject('Cart', { userId: cart.userId }))
+      : !owner.userId && (cart.id === null || cart.id === owner.anonymousCartId)
+
+    if (!allowed) {
+      throw new ForbiddenException(
+        withCode('PERMISSION_DENIED', 'You can only access your own cart')
+      )
+    }
+  }
+
+  private ensureInStock(product: { name: string; stock: number }, quantity: number): void {
+    if (quantity > product.stock) {
+      throw new ConflictException(
+        withCode('INSUFFICIENT_STOCK', `Only ${product.stock} "${product.name}" left in stock`)
+      )
+    }
+  }
+
+  // Checks every item against the catalog; the new prices are stored so each change shows once
+  private async revalidate(cart: CartWithItems): Promise<CartView> {
+    const items = cart.items.map(({ id, quantity, unitPrice, product }): CartItemView => {
+      const issues: CartIssue[] = []
+
+      if (!product.isActive) {
+        issues.push({ code: 'UNAVAILABLE' })
+      } else if (quantity > product.stock) {
+        issues.push({ code: 'INSUFFICIENT_STOCK', available: product.stock })
+      }
+
+      if (unitPrice !== product.price) {
+        issues.push({ code: 'PRICE_CHANGED', previousUnitPrice: unitPrice })
+      }
+
+      return {
+        id,
+        product: { id: product.id, name: product.name, slug: product.slug },
+        quantity,
+        unitPrice: product.price,
+        lineTotal: product.price * quantity,
+        issues
+      }
+    })
+    const repriced = cart.items.filter(({ unitPrice, product }) => unitPrice !== product.price)
+
+    if (repriced.length > 0) {
+      await this.prisma.$transaction(
+        repriced.map(({ id, product }) =>
+          this.prisma.cartItem.update({ where: { id }, data: { unitPrice: product.price } })
+        )
+      )
+    }
+
+    return {
+      id: cart.id,
+      items,
+      total: items
+        .filter(({ issues }) => !issues.some(({ code }) => code === 'UNAVAILABLE'))
+        .reduce((sum, { lineTotal }) => sum + lineTotal, 0),
+      checkoutReady: items.length > 0 && items.every(({ issues }) => issues.length === 0)
+    }
+  }
+}
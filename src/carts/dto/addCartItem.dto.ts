@@ -0,0 +1,12 @@
+import { IsInt, IsString, Max, Min } from 'class-validator'
+
+export class AddCartItemDto {
+  @IsString()
+  productId!: string
+
+  // Added to the quantity already in the cart
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  quantity!: number
+}
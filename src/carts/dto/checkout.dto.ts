@@ -0,0 +1,13 @@
+import { IsBoolean, IsOptional, IsString, MaxLength, MinLength } from 'class-validator'
+
+export class CheckoutDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  shippingAddress!: string
+
+  // Makes the fake payment decline the charge
+  @IsOptional()
+  @IsBoolean()
+  simulatePaymentFailure?: boolean
+}
@@ -0,0 +1,8 @@
+import { IsInt, Max, Min } from 'class-validator'
+
+export class UpdateCartItemDto {
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  quantity!: number
+}
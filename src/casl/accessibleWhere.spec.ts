@@ -0,0 +1,59 @@
+import { createMongoAbility } from '@casl/ability'
+import { describe, expect, it } from 'bun:test'
+import { accessibleWhere } from './accessibleWhere'
+import type { AppAbility } from './casl.types'
+import type { AppRawRule } from './permissions.service'
+
+describe('accessibleWhere', () => {
+  const abilityOf = (rules: AppRawRule[]) => createMongoAbility<AppAbility>(rules)
+
+  it('should match every record for unconditional rules', () => {
+    const ability = abilityOf([{ action: 'manage', subject: 'all' }])
+
+    expect(accessibleWhere(ability, 'update', 'Comment')).toEqual({})
+  })
+
+  it('should turn rule conditions into alternatives', () => {
+    const ability = abilityOf([
+      { action: 'update', subject: 'Comment', conditions: { userId: 'user-1' } },
+      { action: 'update', subject: 'Order', conditions: { status: { $in: ['PENDING'] } } },
+      {
+        action: 'update',
+        subject: 'Comment',
+        conditions: { rating: { $gte: 4 }, productId: 'product-1' }
+      }
+    ])
+
+    expect(accessibleWhere(ability, 'update', 'Comment')).toEqual({
+      OR: [{ rating: { gte: 4 }, productId: 'product-1' }, { userId: 'user-1' }]
+    })
+    expect(accessibleWhere(ability, 'update', 'Order')).toEqual({
+      OR: [{ status: { in: ['PENDING'] } }]
+    })
+  })
+
+  it('should exclude records matched by inverted rules', () => {
+    const ability = abilityOf([
+      { action: 'read', subject: 'Comment' },
+      { action: 'read', subject: 'Comment', inverted: true, conditions: { rating: 1 } }
+    ])
+
+    expect(accessibleWhere(ability, 'read', 'Comment')).toEqual({
+      AND: [{ NOT: { rating: 1 } }]
+    })
+  })
+
+  it('should match nothing when the action is not allowed', () => {
+    const ability = abilityOf([{ action: 'read', subject: 'Comment' }])
+
+    expect(accessibleWhere(ability, 'delete', 'Comment')).toEqual({ OR: [] })
+  })
+
+  it('should refuse operators Prisma has no equivalent for', () => {
+    const ability = abilityOf([
+      { action: 'read', subject: 'Comment', conditions: { content: { $regex: 'spam' } } }
+    ])
+
+    expect(() => accessibleWhere(ability, 'read', 'Comment')).toThrow('$regex')
+  })
+})
@@ -0,0 +1,65 @@
+import { rulesToQuery } from '@casl/ability/extra'
+import type { Action, AppAbility, SubjectName } from './casl.types'
+
+// Mongo-style operators rule conditions may use, with their Prisma equivalent
+const OPERATORS: Record<string, string> = {
+  $eq: 'equals',
+  $ne: 'not',
+  $in: 'in',
+  $nin: 'notIn',
+  $gt: 'gt',
+  $gte: 'gte',
+  $lt: 'lt',
+  $lte: 'lte'
+}
+
+const isOperatorObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  Object.keys(value).every(key => key.startsWith('$'))
+
+const toPrismaCondition = (conditions: object): object =>
+  Object.fromEntries(
+    Object.entries(conditions).map(([field, value]) => {
+      if (!isOperatorObject(value)) {
+        return [field, value]
+      }
+
+      const operators = Object.entries(value).map(([operator, operand]) => {
+        const prismaOperator = OPERATORS[operator]
+
+        if (!prismaOperator) {
+          throw new Error(`Condition operator "${operator}" cannot be turned into a Prisma filter`)
+        }
+
+        return [prismaOperator, operand]
+      })
+
+      return [field, Object.fromEntries(operators)]
+    })
+  )
+
+/**
+ * Prisma where clause matching the records the ability allows the action on,
+ * so list queries apply the same rule conditions as single-record checks.
+ * When nothing is allowed it returns { OR: [] }, which Prisma matches to no row.
+ */
+export const accessibleWhere = (
+  ability: AppAbility,
+  action: Action,
+  subjectType: SubjectName
+): object => {
+  const query = rulesToQuery(ability, action, subjectType, rule =>
+    rule.inverted
+      ? { NOT: toPrismaCondition(rule.conditions ?? {}) }
+      : toPrismaCondition(rule.conditions ?? {})
+  )
+
+  if (!query) {
+    return { OR: [] }
+  }
+
+  return { ...(query.$or && { OR: query.$or }), ...(query.$and && { AND: query.$and }) }
+}
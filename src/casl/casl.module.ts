@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common'
+import { APP_GUARD } from '@nestjs/core'
+import { CaslAbilityFactory } from './caslAbility.factory'
+import { PoliciesGuard } from './guards/policies.guard'
+import { PermissionsService } from './permissions.service'
+
+@Module({
+  providers: [
+    CaslAbilityFactory,
+    PermissionsService,
+    { provide: APP_GUARD, useClass: PoliciesGuard }
+  ],
+  exports: [CaslAbilityFactory, PermissionsService]
+})
+export class CaslModule {}
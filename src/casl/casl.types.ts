@@ -0,0 +1,55 @@
+import type { ForcedSubject, MongoAbility } from '@casl/ability'
+import type { AuditLog, Category, Product, Role, Session, User } from '@generated'
+
+// 'manage' is a special action that represents any action; 'impersonate' only applies to User
+export const ACTIONS = ['manage', 'create', 'read', 'update', 'delete', 'impersonate'] as const
+
+export type Action = (typeof ACTIONS)[number]
+
+interface OwnedRecord {
+  userId: string
+}
+
+// Shape of each subject, used by CASL to type rule conditions
+interface SubjectRecords {
+  User: User
+  Role: Role
+  Session: Session
+  Profile: OwnedRecord
+  Settings: OwnedRecord
+  Category: Category
+  Product: Product
+  Comment: OwnedRecord
+  Order: OwnedRecord & { status: string }
+  // userId is null for anonymous carts, which only their signed cookie gives access to
+  Cart: { userId: string | null }
+  AuditLog: AuditLog
+}
+
+export type SubjectName = keyof SubjectRecords
+
+// Runtime list of subjects; typing it as a Record makes the compiler flag a missing one
+const subjectFlags: Record<SubjectName, true> = {
+  User: true,
+  Role: true,
+  Session: true,
+  Profile: true,
+  Settings: true,
+  Category: true,
+  Product: true,
+  Comment: true,
+  Order: true,
+  Cart: true,
+  AuditLog: true
+}
+
+export const SUBJECT_NAMES = Object.keys(subjectFlags) as SubjectName[]
+
+type TaggedSubject = {
+  [K in SubjectName]: SubjectRecords[K] & ForcedSubject<K>
+}[SubjectName]
+
+// 'all' represents any subject
+export type AppSubject = SubjectName | TaggedSubject | 'all'
+
+export type AppAbility = MongoAbility<[Action, AppSubject]>
@@ -0,0 +1,193 @@
+import { subject } from '@casl/ability'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import type { AuthUser } from '~/auth/auth.config'
+import { PrismaService } from '~/database/prisma.service'
+import { CaslAbilityFactory } from './caslAbility.factory'
+import { PermissionsService } from './permissions.service'
+
+describe('CaslAbilityFactory', () => {
+  let factory: CaslAbilityFactory
+  const permissionsByRole: Record<string, Record<string, unknown>[]> = {
+    'role-admin': [{ action: 'manage', subject: 'all', conditions: null }],
+    'role-manager': [
+      { action: 'update', subject: 'Product', conditions: null },
+      { action: 'read', subject: 'User', conditions: null }
+    ],
+    'role-user': [
+      { action: 'read', subject: 'Product', conditions: null },
+      { action: 'update', subject: 'Comment', conditions: { userId: '${user.id}' } },
+      {
+        action: 'delete',
+        subject: 'Order',
+        conditions: { userId: '${user.id}', status: 'PENDING' }
+      },
+      { action: 'read', subject: 'User', conditions: null, fields: ['id', 'name'] },
+      { action: 'read', subject: 'Session', conditions: null, inverted: true }
+    ],
+    'role-auditor': [{ action: 'read', subject: 'Session', conditions: null }]
+  }
+  let assignments: { userId: string; roleId: string; expiresAt: Date | null }[] = []
+  const mockPrismaService = {
+    userRole: {
+      findMany: mock(
+        ({ where }: { where: { userId: string; OR: [unknown, { expiresAt: { gt: Date } }] } }) =>
+          Promise.resolve(
+            assignments.filter(
+              assignment =>
+                assignment.userId === where.userId &&
+                (assignment.expiresAt === null || assignment.expiresAt > where.OR[1].expiresAt.gt)
+            )
+          )
+      )
+    },
+    role: {
+      findUnique: mock(() => Promise.resolve({ parentRoleId: null }))
+    },
+    permission: {
+      findMany: mock(({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(permissionsByRole[where.roles.some.roleId] ?? [])
+      )
+    }
+  }
+
+  const buildUser = (...roleIds: string[]): AuthUser => {
+    assignments = roleIds.map(roleId => ({ userId: 'user-1', roleId, expiresAt: null }))
+
+    return { id: 'user-1', email: 'user@example.com' } as AuthUser
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CaslAbilityFactory,
+        PermissionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: new ConfigService() }
+      ]
+    }).compile()
+
+    factory = module.get<CaslAbilityFactory>(CaslAbilityFactory)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+  })
+
+  it('should compile a manage-all rule for ADMIN', async () => {
+    const ability = await factory.createForUser(buildUser('role-admin'))
+
+    expect(ability.can('manage', 'all')).toBe(true)
+    expect(ability.can('delete', 'Role')).toBe(true)
+  })
+
+  it('should only grant the stored actions to PRODUCT_MANAGER', async () => {
+    const ability = await factory.createForUser(buildUser('role-manager'))
+
+    expect(ability.can('update', 'Product')).toBe(true)
+    expect(ability.can('read', 'User')).toBe(true)
+    expect(ability.can('read', 'Role')).toBe(false)
+    expect(ability.can('update', 'User')).toBe(false)
+  })
+
+  it('should resolve ${user.id} placeholders against the current user', async () => {
+    const ability = await factory.createForUser(buildUser('role-user'))
+
+    expect(ability.can('read', 'Product')).toBe(true)
+    expect(ability.can('update', subject('Comment', { userId: 'user-1' }))).toBe(true)
+    expect(ability.can('update', subject('Comment', { userId: 'user-2' }))).toBe(false)
+    expect(ability.can('delete', subject('Order', { userId: 'user-1', status: 'SHIPPED' }))).toBe(
+      false
+    )
+  })
+
+  it('should apply field lists and inverted rules', async () => {
+    const ability = await factory.createForUser(buildUser('role-user'))
+
+    expect(ability.can('read', 'User', 'name')).toBe(true)
+    expect(ability.can('read', 'User', 'email')).toBe(false)
+    expect(ability.can('read', 'Session')).toBe(false)
+  })
+
+  it('should give no abilities to anonymous users', async () => {
+    const ability = await factory.createForUser(null)
+
+    expect(ability.rules).toHaveLength(0)
+    expect(mockPrismaService.permission.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should give no abilities to users without a role', async () => {
+    const ability = await factory.createForUser(buildUser())
+
+    expect(ability.rules).toHaveLength(0)
+    expect(mockPrismaService.permission.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should grant the union of every active role', async () => {
+    const ability = await factory.createForUser(buildUser('role-user', 'role-manager'))
+
+    expect(ability.can('update', 'Product')).toBe(true)
+    expect(ability.can('update', subject('Comment', { userId: 'user-1' }))).toBe(true)
+    expect(ability.can('read', 'Role')).toBe(false)
+  })
+
+  it("should not let one role's inverted rules cancel another role's grants", async () => {
+    const ability = await factory.createForUser(buildUser('role-auditor', 'role-user'))
+
+    expect(ability.can('read', 'Session')).toBe(true)
+  })
+
+  it('should ignore expired role assignments', async () => {
+    const user = buildUser('role-user')
+    assignments.push({
+      userId: 'user-1',
+      roleId: 'role-admin',
+      expiresAt: new Date(Date.now() - 1000)
+    })
+
+    const ability = await factory.createForUser(user)
+
+    expect(ability.can('read', 'Product')).toBe(true)
+    expect(ability.can('delete', 'Role')).toBe(false)
+  })
+
+  it('should honour role assignments until they expire', async () => {
+    const user = buildUser()
+    assignments.push({
+      userId: 'user-1',
+      roleId: 'role-admin',
+      expiresAt: new Date(Date.now() + 60_000)
+    })
+
+    const ability = await factory.createForUser(user)
+
+    expect(ability.can('delete', 'Role')).toBe(true)
+  })
+
+  it('should give no abilities to roles without permissions', async () => {
+    const ability = await factory.createForUser(buildUser('role-custom'))
+
+    expect(ability.rules).toHaveLength(0)
+  })
+
+  it('should restrict an API key to the intersection of its scopes and the owner roles', async () => {
+    const ability = await factory.createForUser(buildUser('role-admin'), ['read:Product'])
+
+    expect(ability.can('read', 'Product')).toBe(true)
+    expect(ability.can('update', 'Product')).toBe(false)
+    expect(ability.can('delete', 'Role')).toBe(false)
+  })
+
+  it('should not let scopes grant more than the owner roles', async () => {
+    const ability = await factory.createForUser(buildUser('role-user'), [
+      'manage:Product',
+      'update:Comment'
+    ])
+
+    expect(ability.can('read', 'Product')).toBe(true)
+    expect(ability.can('update', 'Product')).toBe(false)
+    expect(ability.can('update', subject('Comment', { userId: 'user-1' }))).toBe(true)
+    expect(ability.can('update', subject('Comment', { userId: 'user-2' }))).toBe(false)
+  })
+})
@@ -0,0 +1,37 @@
+import { createMongoAbility } from '@casl/ability'
+import { Injectable } from '@nestjs/common'
+import type { AuthUser } from '~/auth/auth.config'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import type { AppAbility } from './casl.types'
+import { PermissionsService } from './permissions.service'
+import { intersectWithScopes } from './scopes'
+
+@Injectable()
+export class CaslAbilityFactory {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  /**
+   * Builds the ability of a user from their active roles. When `scopes` is given
+   * (API key requests), the ability is further limited to those scopes.
+   */
+  async createForUser(user: AuthUser | null | undefined, scopes?: string[]): Promise<AppAbility> {
+    // Guard: anonymous users get no abilities
+    if (!user) {
+      return createMongoAbility<AppAbility>([])
+    }
+
+    // Users without an active role end up with an empty rule set
+    const roleIds = await this.permissionsService.getActiveRoleIds(user.id)
+    const rules = this.permissionsService.interpolate(
+      await this.permissionsService.getRulesForRoles(roleIds),
+      { user }
+    )
+
+    return createMongoAbility<AppAbility>(scopes ? intersectWithScopes(rules, scopes) : rules)
+  }
+
+  // Ability of whoever sent the request, limited to the API key scopes if any
+  createForRequest(request: AuthenticatedRequest): Promise<AppAbility> {
+    return this.createForUser(request.user, request.session?.session.scopes)
+  }
+}
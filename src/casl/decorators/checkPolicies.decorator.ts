@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common'
+import type { PolicyHandler } from '../interfaces/policyHandler.interface'
+
+export const CHECK_POLICIES_KEY = 'check_policy'
+
+export const CheckPolicies = (...handlers: PolicyHandler[]) =>
+  SetMetadata(CHECK_POLICIES_KEY, handlers)
@@ -0,0 +1,60 @@
+import { createMongoAbility } from '@casl/ability'
+import { ExecutionContext, ForbiddenException } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { CaslAbilityFactory } from '../caslAbility.factory'
+import type { AppAbility } from '../casl.types'
+import type { PolicyHandler } from '../interfaces/policyHandler.interface'
+import { PoliciesGuard } from './policies.guard'
+
+describe('PoliciesGuard', () => {
+  let guard: PoliciesGuard
+  let handlers: PolicyHandler[] | undefined
+  const ability = createMongoAbility<AppAbility>([{ action: 'read', subject: 'Role' }])
+  const mockReflector = {
+    getAllAndOverride: mock(() => handlers)
+  }
+  const mockAbilityFactory = {
+    createForRequest: mock(() => Promise.resolve(ability))
+  }
+  const context = {
+    getHandler: () => () => {},
+    getClass: () => class {},
+    switchToHttp: () => ({ getRequest: () => ({ user: { id: 'user-1' } }) })
+  } as unknown as ExecutionContext
+
+  beforeEach(() => {
+    handlers = undefined
+    guard = new PoliciesGuard(
+      mockReflector as unknown as Reflector,
+      mockAbilityFactory as unknown as CaslAbilityFactory
+    )
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+  })
+
+  it('should allow routes without policies', async () => {
+    expect(await guard.canActivate(context)).toBe(true)
+    expect(mockAbilityFactory.createForRequest).not.toHaveBeenCalled()
+  })
+
+  it('should allow when every callback policy passes', async () => {
+    handlers = [a => a.can('read', 'Role')]
+
+    expect(await guard.canActivate(context)).toBe(true)
+  })
+
+  it('should support class-based policy handlers', async () => {
+    handlers = [{ handle: a => a.can('read', 'Role') }]
+
+    expect(await guard.canActivate(context)).toBe(true)
+  })
+
+  it('should throw ForbiddenException when a policy fails', () => {
+    handlers = [a => a.can('read', 'Role'), a => a.can('delete', 'Role')]
+
+    expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException)
+  })
+})
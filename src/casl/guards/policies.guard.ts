@@ -0,0 +1,50 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { withCode } from '~/common/errors/errorCatalog'
+import { CaslAbilityFactory } from '../caslAbility.factory'
+import type { AppAbility } from '../casl.types'
+import { CHECK_POLICIES_KEY } from '../decorators/checkPolicies.decorator'
+import type { PolicyHandler } from '../interfaces/policyHandler.interface'
+
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly caslAbilityFactory: CaslAbilityFactory
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policyHandlers =
+      this.reflector.getAllAndOverride<PolicyHandler[] | undefined>(CHECK_POLICIES_KEY, [
+        context.getHandler(),
+        context.getClass()
+      ]) ?? []
+
+    // Guard: routes without declared policies are not restricted here
+    if (policyHandlers.length === 0) {
+      return true
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>()
+    const ability = await this.caslAbilityFactory.createForRequest(request)
+
+    const isAllowed = policyHandlers.every(handler => this.execPolicyHandler(handler, ability))
+
+    if (!isAllowed) {
+      throw new ForbiddenException(
+        withCode('PERMISSION_DENIED', 'You do not have permission to perform this action')
+      )
+    }
+
+    return true
+  }
+
+  private execPolicyHandler(handler: PolicyHandler, ability: AppAbility): boolean {
+    if (typeof handler === 'function') {
+      return handler(ability)
+    }
+
+    return handler.handle(ability)
+  }
+}
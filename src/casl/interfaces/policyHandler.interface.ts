@@ -0,0 +1,9 @@
+import type { AppAbility } from '../casl.types'
+
+export interface IPolicyHandler {
+  handle(ability: AppAbility): boolean
+}
+
+export type PolicyHandlerCallback = (ability: AppAbility) => boolean
+
+export type PolicyHandler = IPolicyHandler | PolicyHandlerCallback
@@ -0,0 +1,140 @@
+import { ConfigService } from '@nestjs/config'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { PrismaService } from '~/database/prisma.service'
+import { PermissionsService } from './permissions.service'
+
+describe('PermissionsService', () => {
+  let service: PermissionsService
+  const rulesByRole: Record<string, Record<string, unknown>[]> = {
+    'role-user': [{ action: 'read', subject: 'Product', conditions: null }],
+    'role-manager': [{ action: 'update', subject: 'Product', conditions: null }],
+    'role-admin': [{ action: 'read', subject: 'Session', conditions: null, inverted: true }]
+  }
+  const parents: Record<string, string | null> = {
+    'role-manager': 'role-user',
+    'role-admin': 'role-manager'
+  }
+  const mockPrismaService = {
+    permission: {
+      findMany: mock(({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(
+          rulesByRole[where.roles.some.roleId] ?? [
+            { action: 'update', subject: 'Comment', conditions: { userId: '${user.id}' } }
+          ]
+        )
+      )
+    },
+    role: {
+      findUnique: mock(({ where }: { where: { id: string } }) =>
+        Promise.resolve({ parentRoleId: parents[where.id] ?? null })
+      )
+    }
+  }
+
+  beforeEach(() => {
+    service = new PermissionsService(
+      mockPrismaService as unknown as PrismaService,
+      new ConfigService({ PERMISSIONS_CACHE_TTL_MS: '60000' })
+    )
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+  })
+
+  describe('getRulesForRole', () => {
+    it('should query permissions linked to the role', async () => {
+      const rules = await service.getRulesForRole('role-1')
+
+      expect(rules).toEqual([
+        { action: 'update', subject: 'Comment', conditions: { userId: '${user.id}' } }
+      ])
+      expect(mockPrismaService.permission.findMany).toHaveBeenCalledWith({
+        where: { roles: { some: { roleId: 'role-1' } } },
+        orderBy: { createdAt: 'asc' }
+      })
+    })
+
+    it('should cache rules per role', async () => {
+      await service.getRulesForRole('role-1')
+      await service.getRulesForRole('role-1')
+      await service.getRulesForRole('role-2')
+
+      expect(mockPrismaService.permission.findMany).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reload rules after invalidation', async () => {
+      await service.getRulesForRole('role-1')
+      service.invalidate('role-1')
+      await service.getRulesForRole('role-1')
+
+      expect(mockPrismaService.permission.findMany).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reload expired entries', async () => {
+      service = new PermissionsService(
+        mockPrismaService as unknown as PrismaService,
+        new ConfigService({ PERMISSIONS_CACHE_TTL_MS: '0' })
+      )
+
+      await service.getRulesForRole('role-1')
+      await service.getRulesForRole('role-1')
+
+      expect(mockPrismaService.permission.findMany).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('role hierarchy', () => {
+    it('should list the role followed by its ancestors', async () => {
+      const chain = await service.getRoleChain('role-admin')
+
+      expect(chain).toEqual(['role-admin', 'role-manager', 'role-user'])
+    })
+
+    it('should put inherited rules before the role own rules', async () => {
+      const rules = await service.getRulesForRole('role-admin')
+
+      expect(rules).toEqual([
+        { action: 'read', subject: 'Product' },
+        { action: 'update', subject: 'Product' },
+        { action: 'read', subject: 'Session', inverted: true }
+      ])
+    })
+
+    it('should stop at a cycle instead of looping', async () => {
+      parents['role-user'] = 'role-admin'
+
+      const chain = await service.getRoleChain('role-admin')
+
+      expect(chain).toEqual(['role-admin', 'role-manager', 'role-user'])
+      delete parents['role-user']
+    })
+
+    it('should share cached ancestors between roles', async () => {
+      await service.getRulesForRole('role-admin')
+      await service.getRulesForRole('role-manager')
+
+      expect(mockPrismaService.permission.findMany).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('interpolate', () => {
+    it('should replace placeholders without mutating the cached templates', async () => {
+      const templates = await service.getRulesForRole('role-1')
+
+      const rules = service.interpolate(templates, { user: { id: 'user-1' } })
+
+      expect(rules[0].conditions).toEqual({ userId: 'user-1' })
+      expect(templates[0].conditions).toEqual({ userId: '${user.id}' })
+    })
+
+    it('should resolve placeholders nested in operators', () => {
+      const rules = service.interpolate(
+        [{ action: 'read', subject: 'Order', conditions: { userId: { $in: ['${user.id}'] } } }],
+        { user: { id: 'user-1' } }
+      )
+
+      expect(rules[0].conditions).toEqual({ userId: { $in: ['user-1'] } })
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import type { RawRuleOf } from '@casl/ability'
+import type { Permission, Prisma } from '@generated'
+import { Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { PrismaService } from '~/database/prisma.service'
+import type { AppAbility } from './casl.types'
+
+export type AppRawRule = RawRuleOf<AppAbility>
+
+export interface PermissionContext {
+  user: { id: string }
+}
+
+interface CacheEntry {
+  rules: AppRawRule[]
+  parentRoleId: string | null
+  expiresAt: number
+}
+
+const DEFAULT_CACHE_TTL_MS = 60_000
+
+// Role assignments without an expiry date, or whose expiry is still in the future
+export const activeRoleAssignment = (now = new Date()): Prisma.UserRoleWhereInput => ({
+  OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+})
+
+// Matches a whole-string placeholder such as "${user.id}"
+const PLACEHOLDER_PATTERN = /^\$\{([\w.]+)\}$/
+
+@Injectable()
+export class PermissionsService {
+  private readonly cache = new Map<string, CacheEntry>()
+  private readonly cacheTtl: number
+
+  constructor(
+    private readonly prisma: PrismaService,
+    config: ConfigService
+  ) {
+    this.cacheTtl = Number(config.get<string>('PERMISSIONS_CACHE_TTL_MS') ?? DEFAULT_CACHE_TTL_MS)
+  }
+
+  /**
+   * Returns the effective rule templates of a role: the rules inherited from its
+   * parent chain followed by its own, so a role can override what it inherits.
+   * Templates still contain their ${...} placeholders.
+   */
+  async getRulesForRole(roleId: string): Promise<AppRawRule[]> {
+    const chain = await this.loadChain(roleId)
+
+    return chain.reverse().flatMap(({ entry }) => entry.rules)
+  }
+
+  /**
+   * Returns the role id followed by its ancestors, closest parent first.
+   */
+  async getRoleChain(roleId: string): Promise<string[]> {
+    const chain = await this.loadChain(roleId)
+
+    return chain.map(link => link.roleId)
+  }
+
+  /**
+   * Returns the union of the rule templates of several roles.
+   * CASL gives precedence to later rules, so roles holding inverted rules go first:
+   * a role's `cannot` still restricts its own `can`, but never what another role grants.
+   */
+  async getRulesForRoles(roleIds: string[]): Promise<AppRawRule[]> {
+    const rulesPerRole = await Promise.all(roleIds.map(roleId => this.getRulesForRole(roleId)))
+    const hasInverted = (rules: AppRawRule[]) => rules.some(rule => rule.inverted)
+
+    return rulesPerRole
+      .sort((left, right) => Number(hasInverted(right)) - Number(hasInverted(left)))
+      .flat()
+  }
+
+  async getActiveRoleIds(userId: string): Promise<string[]> {
+    const assignments = await this.prisma.userRole.findMany({
+      where: { userId, ...activeRoleAssignment() },
+      select: { roleId: true },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return assignments.map(assignment => assignment.roleId)
+  }
+
+  /**
+   * Drops cached rules for one role, or for every role when no id is given.
+   * Must be called whenever a role's permissions or parent change; descendants
+   * pick up the change automatically since chains are resolved on read.
+   */
+  invalidate(roleId?: string): void {
+    if (roleId) {
+      this.cache.delete(roleId)
+      return
+    }
+
+    this.cache.clear()
+  }
+
+  interpolate(rules: AppRawRule[], context: PermissionContext): AppRawRule[] {
+    return rules.map(rule =>
+      rule.conditions
+        ? { ...rule, conditions: this.interpolateValue(rule.conditions, context) as object }
+        : rule
+    )
+  }
+
+  // Stops at the first repeated role so a corrupted hierarchy cannot loop forever
+  private async loadChain(roleId: string): Promise<{ roleId: string; entry: CacheEntry }[]> {
+    const chain: { roleId: string; entry: CacheEntry }[] = []
+    let currentId: string | null = roleId
+
+    while (currentId && !chain.some(link => link.roleId === currentId)) {
+      const entry = await this.loadRole(currentId)
+
+      chain.push({ roleId: currentId, entry })
+      currentId = entry.parentRoleId
+    }
+
+    return chain
+  }
+
+  // Own rules and parent of a single role, cached per role so hierarchy changes stay cheap
+  private async loadRole(roleId: string): Promise<CacheEntry> {
+    const cached = this.cache.get(roleId)
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached
+    }
+
+    const [permissions, role] = await Promise.all([
+      this.prisma.permission.findMany({
+        where: { roles: { some: { roleId } } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.prisma.role.findUnique({ where: { id: roleId }, select: { parentRoleId: true } })
+    ])
+    const entry = {
+      rules: permissions.map(permission => this.toRawRule(permission)),
+      parentRoleId: role?.parentRoleId ?? null,
+      expiresAt: Date.now() + this.cacheTtl
+    }
+
+    this.cache.set(roleId, entry)
+
+    return entry
+  }
+
+  private toRawRule(permission: Permission): AppRawRule {
+    return {
+      action: permission.action,
+      subject: permission.subject,
+      ...(permission.conditions !== null && { conditions: permission.conditions }),
+      ...(Array.isArray(permission.fields) && { fields: permission.fields as string[] }),
+      ...(permission.inverted && { inverted: true }),
+      ...(permission.reason && { reason: permission.reason })
+    } as AppRawRule
+  }
+
+  private interpolateValue(value: unknown, context: PermissionContext): unknown {
+    if (typeof value === 'string') {
+      const match = PLACEHOLDER_PATTERN.exec(value)
+
+      return match ? this.resolvePath(context, match[1]) : value
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.interpolateValue(item, context))
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, nested]) => [key, this.interpolateValue(nested, context)])
+      )
+    }
+
+    return value
+  }
+
+  private resolvePath(context: PermissionContext, path: string): unknown {
+    return path
+      .split('.')
+      .reduce<unknown>(
+        (current, segment) =>
+          typeof current === 'object' && current !== null
+            ? (current as Record<string, unknown>)[segment]
+            : undefined,
+        context
+      )
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test'
+import type { AppRawRule } from './permissions.service'
+import { intersectWithScopes, parseScope } from './scopes'
+
+describe('scopes', () => {
+  describe('parseScope', () => {
+    it('should split a scope into action and subject', () => {
+      expect(parseScope('read:Product')).toEqual({ action: 'read', subject: 'Product' })
+      expect(parseScope('manage:all')).toEqual({ action: 'manage', subject: 'all' })
+    })
+
+    it('should reject unknown actions and subjects', () => {
+      expect(parseScope('publish:Product')).toBeNull()
+      expect(parseScope('read:Spaceship')).toBeNull()
+      expect(parseScope('read')).toBeNull()
+    })
+  })
+
+  describe('intersectWithScopes', () => {
+    it('should narrow a manage-all rule to the scopes', () => {
+      const rules: AppRawRule[] = [{ action: 'manage', subject: 'all' }]
+
+      expect(intersectWithScopes(rules, ['read:Product', 'update:Comment'])).toEqual([
+        { action: 'read', subject: 'Product' },
+        { action: 'update', subject: 'Comment' }
+      ])
+    })
+
+    it('should keep conditions and fields of the narrowed rules', () => {
+      const rules: AppRawRule[] = [
+        { action: 'update', subject: 'Comment', conditions: { userId: 'user-1' }, fields: ['body'] }
+      ]
+
+      expect(intersectWithScopes(rules, ['manage:Comment'])).toEqual(rules)
+    })
+
+    it('should drop rules no scope overlaps with', () => {
+      const rules: AppRawRule[] = [
+        { action: 'read', subject: 'Product' },
+        { action: 'delete', subject: 'User' }
+      ]
+
+      expect(intersectWithScopes(rules, ['read:all'])).toEqual([
+        { action: 'read', subject: 'Product' }
+      ])
+    })
+
+    it('should keep inverted rules as they are', () => {
+      const rules: AppRawRule[] = [{ action: 'read', subject: 'Session', inverted: true }]
+
+      expect(intersectWithScopes(rules, ['read:Product'])).toEqual(rules)
+    })
+
+    it('should grant nothing without a valid scope', () => {
+      expect(intersectWithScopes([{ action: 'manage', subject: 'all' }], ['bogus'])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import type { AppRawRule } from './permissions.service'
+import { ACTIONS, SUBJECT_NAMES } from './casl.types'
+
+// A scope grants one action on one subject, e.g. "read:Product" or "manage:all"
+export interface Scope {
+  action: string
+  subject: string
+}
+
+export const SCOPE_PATTERN = new RegExp(
+  `^(${ACTIONS.join('|')}):(${[...SUBJECT_NAMES, 'all'].join('|')})$`
+)
+
+export const parseScope = (scope: string): Scope | null => {
+  const match = SCOPE_PATTERN.exec(scope)
+
+  return match ? { action: match[1], subject: match[2] } : null
+}
+
+// The narrower of two actions or subjects, given that 'manage' and 'all' match anything
+const narrow = (left: string, right: string, wildcard: string): string | null => {
+  if (left === wildcard) {
+    return right
+  }
+
+  return right === wildcard || left === right ? left : null
+}
+
+const toArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value])
+
+/**
+ * Restricts rules to what the scopes allow, so the resulting ability is the
+ * intersection of both. Each granting rule is narrowed to every scope it
+ * overlaps with, keeping its conditions and fields; inverted rules only take
+ * permissions away and are kept as they are.
+ */
+export const intersectWithScopes = (rules: AppRawRule[], scopes: string[]): AppRawRule[] => {
+  const parsedScopes = scopes.map(parseScope).filter((scope): scope is Scope => scope !== null)
+
+  return rules.flatMap(rule => {
+    if (rule.inverted) {
+      return [rule]
+    }
+
+    return parsedScopes.flatMap(scope =>
+      toArray(rule.action).flatMap(ruleAction =>
+        toArray(rule.subject ?? 'all').flatMap(ruleSubject => {
+          const action = narrow(String(ruleAction), scope.action, 'manage')
+          const subject = narrow(String(ruleSubject), scope.subject, 'all')
+
+          return action && subject ? [{ ...rule, action, subject } as AppRawRule] : []
+        })
+      )
+    )
+  })
+}
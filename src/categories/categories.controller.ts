@@ -0,0 +1,69 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post } from '@nestjs/common'
+import { AllowAnonymous } from '@thallesp/nestjs-better-auth'
+import { AllowApiKey } from '~/apiKeys/decorators/allowApiKey.decorator'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { CategoriesService } from './categories.service'
+import { CreateCategoryDto } from './dto/createCategory.dto'
+import { UpdateCategoryDto } from './dto/updateCategory.dto'
+
+@Controller('categories')
+export class CategoriesController {
+  constructor(
+    private readonly categoriesService: CategoriesService,
+    private readonly logger: LoggerService
+  ) {}
+
+  @Get()
+  @AllowAnonymous()
+  @AllowApiKey()
+  findAll() {
+    return this.categoriesService.findAll()
+  }
+
+  // Accepts the id or the slug
+  @Get(':idOrSlug')
+  @AllowAnonymous()
+  @AllowApiKey()
+  findOne(@Param('idOrSlug') idOrSlug: string) {
+    return this.categoriesService.findOne(idOrSlug)
+  }
+
+  @Post()
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('create', 'Category'))
+  async create(@Body() dto: CreateCategoryDto) {
+    const category = await this.categoriesService.create(dto)
+
+    this.logger.info('Category created', {
+      action: 'createCategory',
+      categoryId: category.id,
+      slug: category.slug
+    })
+
+    return category
+  }
+
+  @Patch(':id')
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('update', 'Category'))
+  async update(@Param('id') id: string, @Body() dto: UpdateCategoryDto) {
+    const category = await this.categoriesService.update(id, dto)
+
+    this.logger.info('Category updated', { action: 'updateCategory', categoryId: id })
+
+    return category
+  }
+
+  @Delete(':id')
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('delete', 'Category'))
+  async remove(@Param('id') id: string) {
+    const category = await this.categoriesService.remove(id)
+
+    this.logger.warn('Category deleted', { action: 'deleteCategory', categoryId: id })
+
+    return category
+  }
+}
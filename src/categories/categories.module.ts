@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { CommonModule } from '~/common/common.module'
+import { CategoriesController } from './categories.controller'
+import { CategoriesService } from './categories.service'
+
+@Module({
+  imports: [CommonModule],
+  controllers: [CategoriesController],
+  providers: [CategoriesService],
+  exports: [CategoriesService]
+})
+export class CategoriesModule {}
@@ -0,0 +1,107 @@
+import { BadRequestException, ConflictException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { PrismaService } from '~/database/prisma.service'
+import { CategoriesService } from './categories.service'
+
+describe('CategoriesService', () => {
+  let service: CategoriesService
+  // electronics > computers > laptops, electronics > audio, books
+  const tree = [
+    { id: 'electronics', parentId: null },
+    { id: 'computers', parentId: 'electronics' },
+    { id: 'laptops', parentId: 'computers' },
+    { id: 'audio', parentId: 'electronics' },
+    { id: 'books', parentId: null }
+  ]
+  const findNode = (id: string) => tree.find(node => node.id === id)
+  const mockPrismaService = {
+    category: {
+      findMany: mock(() => Promise.resolve(tree)),
+      findFirst: mock(({ where }: { where: { OR: { id: string }[] } }) =>
+        Promise.resolve(findNode(where.OR[0].id) ?? null)
+      ),
+      findUnique: mock<(args: { where: { id?: string; slug?: string } }) => Promise<unknown>>(
+        ({ where }) => Promise.resolve(where.id ? (findNode(where.id) ?? null) : null)
+      ),
+      count: mock(() => Promise.resolve(0)),
+      create: mock(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'new', ...data })
+      ),
+      update: mock(() => Promise.resolve({})),
+      delete: mock(() => Promise.resolve({ id: 'books' }))
+    },
+    product: {
+      count: mock(() => Promise.resolve(0))
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CategoriesService, { provide: PrismaService, useValue: mockPrismaService }]
+    }).compile()
+
+    service = module.get<CategoriesService>(CategoriesService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.product.count.mockImplementation(() => Promise.resolve(0))
+  })
+
+  describe('findSubtreeIds', () => {
+    it('should return the category and all its descendants', async () => {
+      const ids = await service.findSubtreeIds('electronics')
+
+      expect(ids.sort()).toEqual(['audio', 'computers', 'electronics', 'laptops'])
+    })
+  })
+
+  describe('create', () => {
+    it('should derive the slug from the name', async () => {
+      await service.create({ name: 'Home & Garden' })
+
+      expect(mockPrismaService.category.create).toHaveBeenCalledWith({
+        data: { name: 'Home & Garden', slug: 'home-garden' }
+      })
+    })
+
+    it('should reject a name no slug can be derived from', async () => {
+      const error = await service.create({ name: '***' }).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+    })
+  })
+
+  describe('update', () => {
+    it('should refuse to move a category below its own descendant', async () => {
+      const error = await service
+        .update('electronics', { parentId: 'laptops' })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+      expect(mockPrismaService.category.update).not.toHaveBeenCalled()
+    })
+
+    it('should allow moving a category to another branch', async () => {
+      await service.update('laptops', { parentId: 'electronics' })
+
+      expect(mockPrismaService.category.update).toHaveBeenCalledWith({
+        where: { id: 'laptops' },
+        data: { parentId: 'electronics' }
+      })
+    })
+  })
+
+  describe('remove', () => {
+    it('should refuse to delete a category that still has products', async () => {
+      mockPrismaService.product.count.mockImplementation(() => Promise.resolve(3))
+
+      const error = await service.remove('books').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPrismaService.category.delete).not.toHaveBeenCalled()
+    })
+  })
+})
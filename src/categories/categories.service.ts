@@ -0,0 +1,185 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException
+} from '@nestjs/common'
+import type { Category } from '@generated'
+import { withCode } from '~/common/errors/errorCatalog'
+import { slugify } from '~/common/slug'
+import { PrismaService } from '~/database/prisma.service'
+import { CreateCategoryDto } from './dto/createCategory.dto'
+import { UpdateCategoryDto } from './dto/updateCategory.dto'
+
+const relativeSelect = { id: true, name: true, slug: true } as const
+
+export type CategoryWithProductCount = Category & { productCount: number }
+
+@Injectable()
+export class CategoriesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Flat list, clients rebuild the tree from parentId; only active products are counted
+  async findAll(): Promise<CategoryWithProductCount[]> {
+    const categories = await this.prisma.category.findMany({
+      include: { _count: { select: { products: { where: { isActive: true } } } } },
+      orderBy: { name: 'asc' }
+    })
+
+    return categories.map(({ _count, ...category }) => ({
+      ...category,
+      productCount: _count.products
+    }))
+  }
+
+  async findOne(idOrSlug: string) {
+    const category = await this.prisma.category.findFirst({
+      where: { OR: [{ id: idOrSlug }, { slug: idOrSlug }] },
+      include: {
+        parent: { select: relativeSelect },
+        children: { select: relativeSelect, orderBy: { name: 'asc' } }
+      }
+    })
+
+    if (!category) {
+      throw new NotFoundException(`Category "${idOrSlug}" not found`)
+    }
+
+    return category
+  }
+
+  /**
+   * Returns the id of the category and of every category below it, so that
+   * browsing a parent also lists the products of its subcategories.
+   */
+  async findSubtreeIds(idOrSlug: string): Promise<string[]> {
+    const { id } = await this.findOne(idOrSlug)
+    const categories = await this.prisma.category.findMany({
+      select: { id: true, parentId: true }
+    })
+    const subtreeIds = [id]
+
+    for (let index = 0; index < subtreeIds.length; index++) {
+      const children = categories.filter(category => category.parentId === subtreeIds[index])
+
+      subtreeIds.push(...children.map(child => child.id))
+    }
+
+    return subtreeIds
+  }
+
+  async create(dto: CreateCategoryDto): Promise<Category> {
+    const slug = dto.slug ?? slugify(dto.name)
+
+    await this.ensureSlugIsAvailable(slug)
+    await this.ensureValidParent(null, dto.parentId)
+
+    return this.prisma.category.create({ data: { ...dto, slug } })
+  }
+
+  async update(id: string, dto: UpdateCategoryDto): Promise<Category> {
+    const category = await this.findCategoryOrThrow(id)
+
+    if (dto.slug && dto.slug !== category.slug) {
+      await this.ensureSlugIsAvailable(dto.slug)
+    }
+
+    if (dto.parentId !== undefined && dto.parentId !== category.parentId) {
+      await this.ensureValidParent(id, dto.parentId)
+    }
+
+    return this.prisma.category.update({ where: { id }, data: dto })
+  }
+
+  // Products and subcategories must be moved or deleted first
+  async remove(id: string): Promise<Category> {
+    const category = await this.findCategoryOrThrow(id)
+    const [children, products] = await this.prisma.$transaction([
+      this.prisma.category.count({ where: { parentId: id } }),
+      this.prisma.product.count({ where: { categoryId: id } })
+    ])
+
+    if (children > 0 || products > 0) {
+      throw new ConflictException(
+        withCode(
+          'CATEGORY_IN_USE',
+          `Category "${category.name}" still has ${children} subcategories and ${products} products`
+        )
+      )
+    }
+
+    return this.prisma.category.delete({ where: { id } })
+  }
+
+  private async findCategoryOrThrow(id: string): Promise<Category> {
+    const category = await this.prisma.category.findUnique({ where: { id } })
+
+    if (!category) {
+      throw new NotFoundException(`Category "${id}" not found`)
+    }
+
+    return category
+  }
+
+  private async ensureSlugIsAvailable(slug: string): Promise<void> {
+    if (!slug) {
+      throw new BadRequestException(
+        withCode('SLUG_REQUIRED', 'A slug cannot be derived from this name, provide one')
+      )
+    }
+
+    const existing = await this.prisma.category.findUnique({ where: { slug } })
+
+    if (existing) {
+      throw new ConflictException(
+        withCode('CATEGORY_SLUG_TAKEN', `Category slug "${slug}" is already in use`)
+      )
+    }
+  }
+
+  // Same rules as the role hierarchy: the parent must exist and must not sit below the category
+  private async ensureValidParent(
+    categoryId: string | null,
+    parentId: string | null | undefined
+  ): Promise<void> {
+    // Guard: top-level categories are always valid
+    if (!parentId) {
+      return
+    }
+
+    if (parentId === categoryId) {
+      throw new BadRequestException(
+        withCode('CATEGORY_PARENT_INVALID', 'A category cannot be its own parent')
+      )
+    }
+
+    const parent = await this.prisma.category.findUnique({ where: { id: parentId } })
+
+    if (!parent) {
+      throw new BadRequestException(
+        withCode('CATEGORY_PARENT_INVALID', `Parent category "${parentId}" not found`)
+      )
+    }
+
+    const visited = new Set<string>([parentId])
+    let ancestorId = parent.parentId
+
+    while (categoryId && ancestorId && !visited.has(ancestorId)) {
+      if (ancestorId === categoryId) {
+        throw new BadRequestException(
+          withCode(
+            'CATEGORY_PARENT_INVALID',
+            `Category "${parent.name}" is below this category; the tree cannot contain cycles`
+          )
+        )
+      }
+
+      visited.add(ancestorId)
+      const ancestor = await this.prisma.category.findUnique({
+        where: { id: ancestorId },
+        select: { parentId: true }
+      })
+      ancestorId = ancestor?.parentId ?? null
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator'
+import { SLUG_PATTERN } from '~/common/slug'
+
+export class CreateCategoryDto {
+  @IsString()
+  @MaxLength(100)
+  name!: string
+
+  // Derived from the name when omitted
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @Matches(SLUG_PATTERN, { message: 'slug must be lowercase words separated by dashes' })
+  slug?: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string
+
+  // Omit for a top-level category
+  @IsOptional()
+  @IsString()
+  parentId?: string
+}
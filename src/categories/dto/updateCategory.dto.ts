@@ -0,0 +1,26 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator'
+import { SLUG_PATTERN } from '~/common/slug'
+
+export class UpdateCategoryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string
+
+  // Not derived again when the name changes, so existing links keep working
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @Matches(SLUG_PATTERN, { message: 'slug must be lowercase words separated by dashes' })
+  slug?: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string
+
+  // null moves the category to the top level
+  @IsOptional()
+  @IsString()
+  parentId?: string | null
+}
@@ -0,0 +1,111 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query, Req } from '@nestjs/common'
+import { AllowAnonymous, Session } from '@thallesp/nestjs-better-auth'
+import { AllowApiKey } from '~/apiKeys/decorators/allowApiKey.decorator'
+import type { AuthSession } from '~/auth/auth.config'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { CaslAbilityFactory } from '~/casl/caslAbility.factory'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { CommentsService } from './comments.service'
+import { CreateCommentDto } from './dto/createComment.dto'
+import { ListCommentsQueryDto } from './dto/listCommentsQuery.dto'
+import { UpdateCommentDto } from './dto/updateComment.dto'
+
+@Controller('comments')
+export class CommentsController {
+  constructor(
+    private readonly commentsService: CommentsService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly logger: LoggerService
+  ) {}
+
+  @Get()
+  @CheckPolicies(ability => ability.can('read', 'Comment'))
+  async findAll(@Query() query: ListCommentsQueryDto, @Req() request: AuthenticatedRequest) {
+    return this.commentsService.findAll(
+      query,
+      await this.caslAbilityFactory.createForRequest(request)
+    )
+  }
+
+  // Accepts the product id or slug; signed-in callers also get their permissions on each comment
+  @Get('product/:productId')
+  @AllowAnonymous()
+  @AllowApiKey()
+  async findForProduct(
+    @Param('productId') productId: string,
+    @Query() query: ListCommentsQueryDto,
+    @Req() request: AuthenticatedRequest
+  ) {
+    return this.commentsService.findForProduct(
+      productId,
+      query,
+      await this.caslAbilityFactory.createForRequest(request)
+    )
+  }
+
+  @Post()
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('create', 'Comment'))
+  async create(
+    @Session() { user }: AuthSession,
+    @Body() dto: CreateCommentDto,
+    @Req() request: AuthenticatedRequest
+  ) {
+    const comment = await this.commentsService.create(
+      user.id,
+      dto,
+      await this.caslAbilityFactory.createForRequest(request)
+    )
+
+    this.logger.info('Comment created', {
+      action: 'createComment',
+      commentId: comment.id,
+      productId: comment.productId
+    })
+
+    return comment
+  }
+
+  @Patch(':id')
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('update', 'Comment'))
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateCommentDto,
+    @Req() request: AuthenticatedRequest
+  ) {
+    const comment = await this.commentsService.update(
+      id,
+      dto,
+      await this.caslAbilityFactory.createForRequest(request)
+    )
+
+    this.logger.info('Comment updated', {
+      action: 'updateComment',
+      commentId: id,
+      moderated: comment.userId !== request.user?.id
+    })
+
+    return comment
+  }
+
+  @Delete(':id')
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('delete', 'Comment'))
+  async remove(@Param('id') id: string, @Req() request: AuthenticatedRequest) {
+    const comment = await this.commentsService.remove(
+      id,
+      await this.caslAbilityFactory.createForRequest(request)
+    )
+
+    this.logger.warn('Comment deleted', {
+      action: 'deleteComment',
+      commentId: id,
+      moderated: comment.userId !== request.user?.id
+    })
+
+    return comment
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { CaslModule } from '~/casl/casl.module'
+import { CommonModule } from '~/common/common.module'
+import { ProductsModule } from '~/products/products.module'
+import { CommentsController } from './comments.controller'
+import { CommentsService } from './comments.service'
+
+@Module({
+  imports: [CaslModule, CommonModule, ProductsModule],
+  controllers: [CommentsController],
+  providers: [CommentsService]
+})
+export class CommentsModule {}
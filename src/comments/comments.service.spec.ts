@@ -0,0 +1,148 @@
+import { createMongoAbility } from '@casl/ability'
+import { ForbiddenException, NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import type { AppAbility } from '~/casl/casl.types'
+import { ListQueryService } from '~/common/listQuery/listQuery.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ProductsService } from '~/products/products.service'
+import { CommentsService } from './comments.service'
+import { ListCommentsQueryDto } from './dto/listCommentsQuery.dto'
+
+describe('CommentsService', () => {
+  let service: CommentsService
+  const timestamps = { createdAt: new Date(), updatedAt: new Date() }
+  const ownComment = {
+    id: 'comment-1',
+    content: 'Great sound',
+    rating: 5,
+    productId: 'product-1',
+    userId: 'user-1',
+    user: { id: 'user-1', name: 'User' },
+    ...timestamps
+  }
+  const otherComment = {
+    ...ownComment,
+    id: 'comment-2',
+    userId: 'user-2',
+    user: { id: 'user-2', name: 'Other' }
+  }
+  // Same rules as the seeded USER role, once interpolated for user-1
+  const userAbility = createMongoAbility<AppAbility>([
+    { action: 'read', subject: 'Comment' },
+    { action: 'create', subject: 'Comment' },
+    { action: ['update', 'delete'], subject: 'Comment', conditions: { userId: 'user-1' } }
+  ])
+  const adminAbility = createMongoAbility<AppAbility>([{ action: 'manage', subject: 'all' }])
+  const mockPrismaService = {
+    comment: {
+      count: mock(() => Promise.resolve(2)),
+      findMany: mock(() => Promise.resolve([ownComment, otherComment])),
+      findUnique: mock<() => Promise<unknown>>(() => Promise.resolve(otherComment)),
+      create: mock(({ data }: { data: object }) => Promise.resolve({ ...ownComment, ...data })),
+      update: mock(({ data }: { data: object }) => Promise.resolve({ ...otherComment, ...data })),
+      delete: mock(() => Promise.resolve(otherComment))
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const mockProductsService = {
+    findOne: mock(() => Promise.resolve({ id: 'product-1' }))
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ProductsService, useValue: mockProductsService },
+        ListQueryService
+      ]
+    }).compile()
+
+    service = module.get<CommentsService>(CommentsService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.comment.findUnique.mockImplementation(() => Promise.resolve(otherComment))
+  })
+
+  describe('findAll', () => {
+    it('should tell on each comment whether the caller can edit it', async () => {
+      const page = await service.findAll(new ListCommentsQueryDto(), userAbility)
+
+      expect(page.data.map(({ id, permissions }) => ({ id, permissions }))).toEqual([
+        { id: 'comment-1', permissions: { update: true, delete: true } },
+        { id: 'comment-2', permissions: { update: false, delete: false } }
+      ])
+    })
+
+    it('should narrow editable lists with the permission conditions', async () => {
+      const query = Object.assign(new ListCommentsQueryDto(), { editable: true })
+
+      await service.findAll(query, userAbility)
+
+      expect(mockPrismaService.comment.count).toHaveBeenCalledWith({
+        where: { AND: [{ AND: [{}, { OR: [{ userId: 'user-1' }] }] }] }
+      })
+    })
+
+    it('should match nothing when the caller cannot read comments', async () => {
+      await service.findAll(new ListCommentsQueryDto(), createMongoAbility<AppAbility>([]))
+
+      expect(mockPrismaService.comment.count).toHaveBeenCalledWith({
+        where: { AND: [{ OR: [] }] }
+      })
+    })
+  })
+
+  describe('findForProduct', () => {
+    it('should only list comments of a visible product', async () => {
+      await service.findForProduct('studio-headphones', new ListCommentsQueryDto(), userAbility)
+
+      expect(mockProductsService.findOne).toHaveBeenCalledWith('studio-headphones', {
+        includeInactive: false
+      })
+      expect(mockPrismaService.comment.count).toHaveBeenCalledWith({
+        where: { AND: [{ productId: 'product-1' }] }
+      })
+    })
+  })
+
+  describe('update', () => {
+    it("should forbid editing someone else's comment", async () => {
+      const error = await service
+        .update('comment-2', { content: 'Edited' }, userAbility)
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ForbiddenException)
+      expect(mockPrismaService.comment.update).not.toHaveBeenCalled()
+    })
+
+    it('should let administrators moderate any comment', async () => {
+      const comment = await service.update('comment-2', { rating: null }, adminAbility)
+
+      expect(comment).toMatchObject({ id: 'comment-2', rating: null })
+    })
+
+    it('should report unknown comments as missing', () => {
+      mockPrismaService.comment.findUnique.mockImplementation(() => Promise.resolve(null))
+
+      expect(service.update('missing', {}, adminAbility)).rejects.toThrow(NotFoundException)
+    })
+  })
+
+  describe('remove', () => {
+    it('should let authors delete their own comment', async () => {
+      mockPrismaService.comment.findUnique.mockImplementation(() => Promise.resolve(ownComment))
+
+      await service.remove('comment-1', userAbility)
+
+      expect(mockPrismaService.comment.delete).toHaveBeenCalledWith({ where: { id: 'comment-1' } })
+    })
+
+    it("should forbid deleting someone else's comment", () => {
+      expect(service.remove('comment-2', userAbility)).rejects.toThrow(ForbiddenException)
+    })
+  })
+})
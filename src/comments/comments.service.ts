@@ -0,0 +1,139 @@
+import { subject } from '@casl/ability'
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common'
+import type { Comment, Prisma } from '@generated'
+import { accessibleWhere } from '~/casl/accessibleWhere'
+import type { AppAbility } from '~/casl/casl.types'
+import { withCode } from '~/common/errors/errorCatalog'
+import { ListQueryService, type Page } from '~/common/listQuery/listQuery.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ProductsService } from '~/products/products.service'
+import { CreateCommentDto } from './dto/createComment.dto'
+import { ListCommentsQueryDto } from './dto/listCommentsQuery.dto'
+import { UpdateCommentDto } from './dto/updateComment.dto'
+
+const commentInclude = {
+  user: { select: { id: true, name: true } }
+} satisfies Prisma.CommentInclude
+
+type CommentWithAuthor = Prisma.CommentGetPayload<{ include: typeof commentInclude }>
+
+// What the caller may do with each comment, so clients only offer actions that will succeed
+export type CommentView = CommentWithAuthor & {
+  permissions: { update: boolean; delete: boolean }
+}
+
+@Injectable()
+export class CommentsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly listQueryService: ListQueryService,
+    private readonly productsService: ProductsService
+  ) {}
+
+  /**
+   * Lists the comments the ability can read, newest first by default. With
+   * `editable`, the list is further narrowed to the comments it can update,
+   * using the same rule conditions as the single-record checks.
+   */
+  async findAll(query: ListCommentsQueryDto, ability: AppAbility): Promise<Page<CommentView>> {
+    const readable = accessibleWhere(ability, 'read', 'Comment')
+    const where = query.editable
+      ? { AND: [readable, accessibleWhere(ability, 'update', 'Comment')] }
+      : readable
+
+    return this.list(query, where as Prisma.CommentWhereInput, ability)
+  }
+
+  // Public list of an active product's comments; accepts the product id or slug
+  async findForProduct(
+    idOrSlug: string,
+    query: ListCommentsQueryDto,
+    ability: AppAbility
+  ): Promise<Page<CommentView>> {
+    const product = await this.productsService.findOne(idOrSlug, { includeInactive: false })
+
+    return this.list(query, { productId: product.id }, ability)
+  }
+
+  async create(userId: string, dto: CreateCommentDto, ability: AppAbility): Promise<CommentView> {
+    // Comments can only be added to products the public can see
+    await this.productsService.findOne(dto.productId, { includeInactive: false })
+
+    const comment = await this.prisma.comment.create({
+      data: { ...dto, userId },
+      include: commentInclude
+    })
+
+    return this.toView(comment, ability)
+  }
+
+  async update(id: string, dto: UpdateCommentDto, ability: AppAbility): Promise<CommentView> {
+    await this.findAuthorizedOrThrow(id, 'update', ability)
+
+    const comment = await this.prisma.comment.update({
+      where: { id },
+      data: dto,
+      include: commentInclude
+    })
+
+    return this.toView(comment, ability)
+  }
+
+  async remove(id: string, ability: AppAbility): Promise<Comment> {
+    await this.findAuthorizedOrThrow(id, 'delete', ability)
+
+    return this.prisma.comment.delete({ where: { id } })
+  }
+
+  private async list(
+    query: ListCommentsQueryDto,
+    where: Prisma.CommentWhereInput,
+    ability: AppAbility
+  ): Promise<Page<CommentView>> {
+    const list = await this.listQueryService.prepare<
+      Prisma.CommentWhereInput,
+      Prisma.CommentOrderByWithRelationInput
+    >(query, { defaultSort: '-createdAt', where })
+
+    const [total, comments] = await this.prisma.$transaction([
+      this.prisma.comment.count({ where: list.where }),
+      this.prisma.comment.findMany({ ...list.args, include: commentInclude })
+    ])
+
+    return list.toPage(
+      comments.map(comment => this.toView(comment, ability)),
+      total
+    )
+  }
+
+  // Record-level check: the route policy only tells the action is allowed on some comments
+  private async findAuthorizedOrThrow(
+    id: string,
+    action: 'update' | 'delete',
+    ability: AppAbility
+  ): Promise<Comment> {
+    const comment = await this.prisma.comment.findUnique({ where: { id } })
+
+    if (!comment) {
+      throw new NotFoundException(`Comment "${id}" not found`)
+    }
+
+    if (ability.cannot(action, subject('Comment', { ...comment }))) {
+      throw new ForbiddenException(
+        withCode('PERMISSION_DENIED', `You can only ${action} your own comments`)
+      )
+    }
+
+    return comment
+  }
+
+  private toView(comment: CommentWithAuthor, ability: AppAbility): CommentView {
+    // A copy, as subject() tags the object it is given
+    const record = subject('Comment', { ...comment })
+
+    return {
+      ...comment,
+      permissions: { update: ability.can('update', record), delete: ability.can('delete', record) }
+    }
+  }
+}
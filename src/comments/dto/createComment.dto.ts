@@ -0,0 +1,18 @@
+import { IsInt, IsOptional, IsString, Max, MaxLength, Min, MinLength } from 'class-validator'
+
+export class CreateCommentDto {
+  @IsString()
+  productId!: string
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  content!: string
+
+  // 1 to 5 stars; comments without a rating do not count towards the product average
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating?: number
+}
@@ -0,0 +1,42 @@
+import { Transform, Type } from 'class-transformer'
+import { IsBoolean, IsInt, IsOptional, IsString, Max, Min } from 'class-validator'
+import { Filter, Sortable } from '~/common/listQuery/listQuery.decorators'
+import { ListQueryDto } from '~/common/listQuery/listQuery.dto'
+import { toBoolean } from '~/common/transforms/toBoolean.transform'
+
+@Sortable('createdAt', 'rating')
+export class ListCommentsQueryDto extends ListQueryDto {
+  @Filter('eq')
+  @IsOptional()
+  @IsString()
+  productId?: string
+
+  // Author of the comment
+  @Filter('eq')
+  @IsOptional()
+  @IsString()
+  userId?: string
+
+  // Rating range, inclusive; comments without a rating never match
+  @Filter('gte', { field: 'rating' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  minRating?: number
+
+  @Filter('lte', { field: 'rating' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  maxRating?: number
+
+  // Only the comments the caller may edit, resolved from their permission conditions
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  editable?: boolean
+}
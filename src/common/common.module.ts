@@ -1,8 +1,17 @@
-import { Module } from '@nestjs/common'
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common'
+import { ListQueryService } from './listQuery/listQuery.service'
 import { LoggerService } from './logger.service'
+import { RequestContextMiddleware } from './middleware/requestContext.middleware'
 
 @Module({
-  providers: [{ provide: LoggerService, useFactory: () => new LoggerService('CommonModule') }],
-  exports: [LoggerService]
+  providers: [
+    { provide: LoggerService, useFactory: () => new LoggerService('CommonModule') },
+    ListQueryService
+  ],
+  exports: [LoggerService, ListQueryService]
 })
-export class CommonModule {}
+export class CommonModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RequestContextMiddleware).forRoutes('*path')
+  }
+}
@@ -0,0 +1,5 @@
+export enum RoleName {
+  ADMIN = 'ADMIN',
+  PRODUCT_MANAGER = 'PRODUCT_MANAGER',
+  USER = 'USER'
+}
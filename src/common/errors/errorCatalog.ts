@@ -0,0 +1,103 @@
+import { HttpStatus } from '@nestjs/common'
+
+interface ErrorDefinition {
+  title: string
+}
+
+/**
+ * Every code a client can receive in the `code` member of an error response.
+ * Codes are part of the API contract: add new ones, never rename or reuse one.
+ * The title is the same for every occurrence, the detail explains the case.
+ */
+export const ERROR_CATALOG = {
+  // Used when an exception is thrown without a code of its own
+  BAD_REQUEST: { title: 'Bad request' },
+  VALIDATION_FAILED: { title: 'The request contains invalid fields' },
+  UNAUTHENTICATED: { title: 'Authentication required' },
+  FORBIDDEN: { title: 'Forbidden' },
+  NOT_FOUND: { title: 'Resource not found' },
+  CONFLICT: { title: 'Conflict with the current state of the resource' },
+  UNPROCESSABLE: { title: 'The request cannot be processed' },
+  RATE_LIMITED: { title: 'Too many requests' },
+  INTERNAL_ERROR: { title: 'Internal server error' },
+  SERVICE_UNAVAILABLE: { title: 'Service temporarily unavailable' },
+
+  // Database errors a service did not turn into a domain error of its own
+  RECORD_ALREADY_EXISTS: { title: 'Record already exists' },
+  RECORD_NOT_FOUND: { title: 'Record not found' },
+  RECORD_IN_USE: { title: 'Record still referenced' },
+  RELATED_RECORD_NOT_FOUND: { title: 'Referenced record not found' },
+  RECORD_INVALID: { title: 'Value rejected by the database' },
+  DATABASE_UNAVAILABLE: { title: 'Database temporarily unavailable' },
+
+  AUTH_INVALID_CREDENTIALS: { title: 'Invalid email or password' },
+  AUTH_USER_ALREADY_EXISTS: { title: 'An account already exists for this email' },
+  AUTH_EMAIL_NOT_VERIFIED: { title: 'Email address not verified' },
+  AUTH_EMAIL_ALREADY_VERIFIED: { title: 'Email address already verified' },
+  AUTH_INVALID_TOKEN: { title: 'Invalid or expired token' },
+  AUTH_ACCOUNT_DEACTIVATED: { title: 'Account deactivated' },
+  AUTH_ACCOUNT_LOCKED: { title: 'Account temporarily locked' },
+  AUTH_ACCOUNT_NOT_LINKED: { title: 'Sign-in method not linked to the account' },
+  AUTH_LAST_SIGN_IN_METHOD: { title: 'Last sign-in method' },
+  AUTH_TWO_FACTOR_REQUIRED: { title: 'Two-factor authentication required' },
+  AUTH_TWO_FACTOR_ALREADY_ENABLED: { title: 'Two-factor authentication already enabled' },
+  AUTH_TWO_FACTOR_INVALID_CODE: { title: 'Invalid two-factor code' },
+  AUTH_TWO_FACTOR_INVALID_CHALLENGE: { title: 'Invalid or expired two-factor challenge' },
+  MAIL_DELIVERY_FAILED: { title: 'Email could not be sent' },
+
+  PERMISSION_DENIED: { title: 'Permission denied' },
+  API_KEY_NOT_ALLOWED: { title: 'Not allowed with an API key' },
+  IMPERSONATION_NOT_ALLOWED: { title: 'Impersonation not allowed' },
+  IMPERSONATION_ALREADY_ACTIVE: { title: 'Already impersonating a user' },
+  IMPERSONATION_NOT_ACTIVE: { title: 'Not impersonating a user' },
+  EXPIRY_IN_PAST: { title: 'Expiry date in the past' },
+
+  ROLE_NAME_TAKEN: { title: 'Role name already in use' },
+  ROLE_PROTECTED: { title: 'Built-in role' },
+  ROLE_PARENT_INVALID: { title: 'Invalid parent role' },
+  USER_EMAIL_TAKEN: { title: 'Email address already in use' },
+  USER_SELF_ACTION: { title: 'Not allowed on your own account' },
+  USER_HAS_ORDERS: { title: 'User has orders' },
+
+  SLUG_REQUIRED: { title: 'Slug required' },
+  CATEGORY_SLUG_TAKEN: { title: 'Category slug already in use' },
+  CATEGORY_PARENT_INVALID: { title: 'Invalid parent category' },
+  CATEGORY_IN_USE: { title: 'Category still in use' },
+  PRODUCT_SLUG_TAKEN: { title: 'Product slug already in use' },
+  PRODUCT_CATEGORY_INVALID: { title: 'Invalid product category' },
+  PRODUCT_IN_USE: { title: 'Product still in use' },
+  PRODUCT_UNAVAILABLE: { title: 'Product unavailable' },
+  INSUFFICIENT_STOCK: { title: 'Insufficient stock' },
+
+  ORDER_STATUS_TRANSITION_INVALID: { title: 'Order status change not allowed' },
+  ORDER_CHANGED: { title: 'Order changed in the meantime' },
+  PAYMENT_DECLINED: { title: 'Payment declined' },
+  CART_EMPTY: { title: 'Cart is empty' },
+  CART_CHANGED: { title: 'Cart changed since last viewed' },
+
+  LIST_INVALID_CURSOR: { title: 'Invalid list cursor' },
+  LIST_SEARCH_UNSUPPORTED: { title: 'Search not supported' }
+} satisfies Record<string, ErrorDefinition>
+
+export type ErrorCode = keyof typeof ERROR_CATALOG
+
+// Body for Nest's HTTP exceptions: new ConflictException(withCode('USER_HAS_ORDERS', '...'))
+export const withCode = (code: ErrorCode, message: string) => ({ code, message })
+
+export const isErrorCode = (code: unknown): code is ErrorCode =>
+  typeof code === 'string' && Object.hasOwn(ERROR_CATALOG, code)
+
+const STATUS_CODES: Partial<Record<HttpStatus, ErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: 'BAD_REQUEST',
+  [HttpStatus.UNAUTHORIZED]: 'UNAUTHENTICATED',
+  [HttpStatus.FORBIDDEN]: 'FORBIDDEN',
+  [HttpStatus.NOT_FOUND]: 'NOT_FOUND',
+  [HttpStatus.CONFLICT]: 'CONFLICT',
+  [HttpStatus.UNPROCESSABLE_ENTITY]: 'UNPROCESSABLE',
+  [HttpStatus.TOO_MANY_REQUESTS]: 'RATE_LIMITED',
+  [HttpStatus.SERVICE_UNAVAILABLE]: 'SERVICE_UNAVAILABLE'
+}
+
+// Generic code for an exception thrown without one
+export const errorCodeForStatus = (status: number): ErrorCode =>
+  STATUS_CODES[status as HttpStatus] ?? (status < 500 ? 'BAD_REQUEST' : 'INTERNAL_ERROR')
@@ -0,0 +1,12 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+// HttpExceptionFilter turns retryAfterSeconds into the Retry-After header
+export class TooManyRequestsException extends HttpException {
+  constructor(
+    readonly retryAfterSeconds: number,
+    message = 'Too many requests, please try again later',
+    code?: string
+  ) {
+    super({ message, ...(code && { code }) }, HttpStatus.TOO_MANY_REQUESTS)
+  }
+}
@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common'
+import type { ValidationError } from 'class-validator'
+import type { ErrorCode } from '~/common/errors/errorCatalog'
+
+export interface FieldError {
+  // Dotted path from the body or query root, e.g. items.0.quantity
+  field: string
+  // class-validator constraint name, e.g. isEmail or min
+  constraint: string
+  detail: string
+}
+
+interface FlatError extends FieldError {
+  // The message ValidationPipe's default factory would have produced
+  legacyMessage: string
+}
+
+const toFlatErrors = (error: ValidationError, parentPath?: string): FlatError[] =>
+  Object.entries(error.constraints ?? {}).map(([constraint, detail]) => ({
+    field: parentPath ? `${parentPath}.${error.property}` : error.property,
+    constraint,
+    detail,
+    legacyMessage: parentPath ? `${parentPath}.${detail}` : detail
+  }))
+
+// Same walk as ValidationPipe's default factory, so the legacy message list stays identical
+const flatten = (error: ValidationError, parentPath?: string): FlatError[] => {
+  // Guard: a leaf reports its own constraints
+  if (!error.children?.length) {
+    return toFlatErrors(error, parentPath)
+  }
+
+  const path = parentPath ? `${parentPath}.${error.property}` : error.property
+
+  return error.children.flatMap(child =>
+    child.children?.length
+      ? [...flatten(child, path), ...toFlatErrors(child, path)]
+      : toFlatErrors(child, path)
+  )
+}
+
+// Thrown by the global ValidationPipe; HttpExceptionFilter lists the errors per field
+export class ValidationFailedException extends BadRequestException {
+  readonly errors: FieldError[]
+
+  constructor(validationErrors: ValidationError[]) {
+    const flatErrors = validationErrors.flatMap(error => flatten(error))
+
+    // The message list is what the legacy error format has always shown
+    super({
+      code: 'VALIDATION_FAILED' satisfies ErrorCode,
+      message: flatErrors.map(({ legacyMessage }) => legacyMessage)
+    })
+    this.errors = flatErrors.map(({ field, constraint, detail }) => ({ field, constraint, detail }))
+  }
+}
+
+export const validationExceptionFactory = (errors: ValidationError[]) =>
+  new ValidationFailedException(errors)
@@ -1,6 +1,42 @@
 import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus } from '@nestjs/common'
 import { Request, Response } from 'express'
+import {
+  ERROR_CATALOG,
+  errorCodeForStatus,
+  isErrorCode,
+  type ErrorCode
+} from '~/common/errors/errorCatalog'
+import { TooManyRequestsException } from '~/common/exceptions/tooManyRequests.exception'
+import {
+  ValidationFailedException,
+  type FieldError
+} from '~/common/exceptions/validationFailed.exception'
 import { LoggerService } from '~/common/logger.service'
+import { getRequestContext } from '~/common/requestContext'
+import { isPrismaError, translatePrismaError } from '~/database/prismaErrors'
+
+// problem is RFC 9457, legacy the body clients received before it
+export type ErrorFormat = 'problem' | 'legacy'
+
+const PROBLEM_TYPE_BASE = '/problems'
+
+/**
+ * RFC 9457 Problem Details sent as application/problem+json. code, requestId
+ * and errors are extension members: clients branch on code, which comes from
+ * ERROR_CATALOG, rather than on the title or detail.
+ */
+export interface ProblemDetails {
+  type: string
+  title: string
+  status: number
+  detail: string
+  instance: string
+  code: ErrorCode
+  requestId?: string
+  // Per field for validation errors; without a field when the pipe reported plain messages
+  errors?: (FieldError | { detail: string })[]
+  stack?: string
+}
 
 interface ErrorResponse {
   statusCode: number
@@ -9,6 +45,8 @@ interface ErrorResponse {
   method: string
   message: string | string[]
   error?: string
+  // Echoes the X-Request-Id header so clients can quote it when reporting a problem
+  requestId?: string
   stack?: string
 }
 
@@ -16,7 +54,7 @@ interface ErrorResponse {
 export class HttpExceptionFilter implements ExceptionFilter {
   private readonly logger: LoggerService
 
-  constructor() {
+  constructor(private readonly format: ErrorFormat = 'problem') {
     this.logger = new LoggerService(HttpExceptionFilter.name)
   }
 
@@ -25,11 +63,63 @@ export class HttpExceptionFilter implements ExceptionFilter {
     const response = ctx.getResponse<Response>()
     const request = ctx.getRequest<Request>()
 
-    const errorResponse = this.buildErrorResponse(exception, request)
+    // Database errors are answered as the HTTP error they stand for, the original is only logged
+    const handled = translatePrismaError(exception, request.method) ?? exception
+    const errorResponse = this.buildErrorResponse(handled, request)
 
     this.logError(errorResponse, exception)
 
-    response.status(errorResponse.statusCode).json(errorResponse)
+    if (exception instanceof TooManyRequestsException) {
+      response.setHeader('Retry-After', String(exception.retryAfterSeconds))
+    }
+
+    // Guard: the previous format, kept for clients that have not moved to problem details
+    if (this.format === 'legacy') {
+      response.status(errorResponse.statusCode).json(errorResponse)
+      return
+    }
+
+    response
+      .status(errorResponse.statusCode)
+      .type('application/problem+json')
+      .json(this.buildProblem(handled, errorResponse))
+  }
+
+  private buildProblem(exception: unknown, errorResponse: ErrorResponse): ProblemDetails {
+    const { statusCode, message, path, requestId, stack } = errorResponse
+    const code = this.resolveCode(exception, errorResponse)
+    const errors =
+      exception instanceof ValidationFailedException
+        ? exception.errors
+        : Array.isArray(message) && message.map(detail => ({ detail }))
+
+    return {
+      type: `${PROBLEM_TYPE_BASE}/${code.toLowerCase().replace(/_/g, '-')}`,
+      title: ERROR_CATALOG[code].title,
+      status: statusCode,
+      detail: Array.isArray(message) ? ERROR_CATALOG[code].title : message,
+      instance: path,
+      code,
+      ...(requestId && { requestId }),
+      ...(errors && { errors }),
+      ...(stack && { stack })
+    }
+  }
+
+  // The exception's own code when the catalog knows it, a generic one for its status otherwise
+  private resolveCode(exception: unknown, errorResponse: ErrorResponse): ErrorCode {
+    const body = exception instanceof HttpException ? exception.getResponse() : undefined
+    const code = typeof body === 'object' ? (body as { code?: unknown }).code : undefined
+
+    // Guard: coded at the throw site
+    if (isErrorCode(code)) {
+      return code
+    }
+
+    // Only ValidationPipe reports a list of messages
+    return Array.isArray(errorResponse.message)
+      ? 'VALIDATION_FAILED'
+      : errorCodeForStatus(errorResponse.statusCode)
   }
 
   private logError(errorResponse: ErrorResponse, exception: unknown): void {
@@ -42,6 +132,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
       path: errorResponse.path,
       method: errorResponse.method,
       message: errorResponse.message,
+      ...(isPrismaError(exception) && { databaseError: exception.message }),
       ...(isServerError && exception instanceof Error && { stack: exception.stack })
     }
 
@@ -52,7 +143,8 @@ export class HttpExceptionFilter implements ExceptionFilter {
     const baseResponse = {
       timestamp: new Date().toISOString(),
       path: request.url,
-      method: request.method
+      method: request.method,
+      requestId: getRequestContext()?.requestId
     }
 
     // Early return for HttpException
@@ -71,7 +163,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
 
   private buildHttpExceptionResponse(
     exception: HttpException,
-    baseResponse: Pick<ErrorResponse, 'timestamp' | 'path' | 'method'>
+    baseResponse: Pick<ErrorResponse, 'timestamp' | 'path' | 'method' | 'requestId'>
   ): ErrorResponse {
     const status = exception.getStatus()
     const exceptionResponse = exception.getResponse()
@@ -92,7 +184,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
 
   private buildStandardErrorResponse(
     exception: Error,
-    baseResponse: Pick<ErrorResponse, 'timestamp' | 'path' | 'method'>
+    baseResponse: Pick<ErrorResponse, 'timestamp' | 'path' | 'method' | 'requestId'>
   ): ErrorResponse {
     return {
       ...baseResponse,
@@ -105,7 +197,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
 
   private buildUnknownErrorResponse(
     exception: unknown,
-    baseResponse: Pick<ErrorResponse, 'timestamp' | 'path' | 'method'>
+    baseResponse: Pick<ErrorResponse, 'timestamp' | 'path' | 'method' | 'requestId'>
   ): ErrorResponse {
     return {
       ...baseResponse,
@@ -0,0 +1,83 @@
+import {
+  ValidatorConstraint,
+  type ValidationArguments,
+  type ValidatorConstraintInterface
+} from 'class-validator'
+
+// 'gte' and 'lte' are the two ends of a range, each one declared as its own query parameter
+export type FilterOperator = 'eq' | 'in' | 'contains' | 'gte' | 'lte'
+
+export interface FilterOptions {
+  // Model field the filter applies to, defaults to the property name
+  field?: string
+  // Builds the condition itself, for filters on relations
+  where?: (value: never) => object
+}
+
+export interface FilterDefinition extends FilterOptions {
+  property: string
+  operator: FilterOperator
+}
+
+export interface SortField {
+  field: string
+  direction: 'asc' | 'desc'
+}
+
+const FILTERS_KEY = 'list_query:filters'
+const SORTABLE_KEY = 'list_query:sortable'
+
+export const getFilters = (dto: object): FilterDefinition[] =>
+  (Reflect.getMetadata(FILTERS_KEY, dto.constructor) as FilterDefinition[] | undefined) ?? []
+
+export const getSortableFields = (dto: object): string[] =>
+  (Reflect.getMetadata(SORTABLE_KEY, dto.constructor) as string[] | undefined) ?? []
+
+/**
+ * Marks a query DTO property as a filter. Only decorated properties ever reach
+ * the where clause; validation of the value itself stays with class-validator.
+ */
+export const Filter =
+  (operator: FilterOperator, options: FilterOptions = {}): PropertyDecorator =>
+  (target, property) => {
+    const filters = getFilters(target)
+
+    Reflect.defineMetadata(
+      FILTERS_KEY,
+      [...filters, { ...options, property: String(property), operator }],
+      target.constructor
+    )
+  }
+
+// Fields a list can be sorted on; the id is always added last to break ties
+export const Sortable =
+  (...fields: string[]): ClassDecorator =>
+  target => {
+    Reflect.defineMetadata(SORTABLE_KEY, fields, target)
+  }
+
+// "-createdAt,email" sorts by createdAt descending, then email ascending
+export const parseSort = (sort: string): SortField[] =>
+  sort
+    .split(',')
+    .map(field => field.trim())
+    .filter(Boolean)
+    .map(field =>
+      field.startsWith('-')
+        ? { field: field.slice(1), direction: 'desc' }
+        : { field, direction: 'asc' }
+    )
+
+@ValidatorConstraint({ name: 'sortFields' })
+export class SortFieldsConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown, { object }: ValidationArguments): boolean {
+    const sortable = getSortableFields(object)
+    const fields = typeof value === 'string' ? parseSort(value) : []
+
+    return fields.length > 0 && fields.every(({ field }) => sortable.includes(field))
+  }
+
+  defaultMessage({ object }: ValidationArguments): string {
+    return `sort must be a comma separated list of ${getSortableFields(object).join(', ')}, each optionally prefixed with - for descending order`
+  }
+}
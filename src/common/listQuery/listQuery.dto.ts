@@ -0,0 +1,36 @@
+import { Type } from 'class-transformer'
+import { IsInt, IsOptional, IsString, Max, MaxLength, Min, Validate } from 'class-validator'
+import { SortFieldsConstraint } from './listQuery.decorators'
+
+// Base of every list query; subclasses add @Filter properties and a @Sortable whitelist
+export class ListQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number
+
+  // nextCursor of the previous response; takes precedence over page
+  @IsOptional()
+  @IsString()
+  cursor?: string
+
+  // e.g. "-createdAt,email"
+  @IsOptional()
+  @IsString()
+  @Validate(SortFieldsConstraint)
+  sort?: string
+
+  // Full-text search, every word must match the start of a word
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string
+}
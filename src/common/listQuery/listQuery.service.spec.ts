@@ -0,0 +1,185 @@
+import { BadRequestException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { plainToInstance, Transform } from 'class-transformer'
+import { IsInt, IsOptional, IsString, validate } from 'class-validator'
+import { PrismaService } from '~/database/prisma.service'
+import { toList } from '../transforms/toList.transform'
+import { Filter, Sortable } from './listQuery.decorators'
+import { ListQueryDto } from './listQuery.dto'
+import { ListQueryService, toMatchExpression } from './listQuery.service'
+
+@Sortable('name', 'price')
+class ListItemsQueryDto extends ListQueryDto {
+  @Filter('contains')
+  @IsOptional()
+  @IsString()
+  name?: string
+
+  @Filter('in', { field: 'status' })
+  @IsOptional()
+  @Transform(toList)
+  @IsString({ each: true })
+  statuses?: string[]
+
+  @Filter('gte', { field: 'price' })
+  @IsOptional()
+  @IsInt()
+  minPrice?: number
+
+  @Filter('lte', { field: 'price' })
+  @IsOptional()
+  @IsInt()
+  maxPrice?: number
+
+  // Not a filter, never reaches the where clause
+  @IsOptional()
+  @IsString()
+  format?: string
+}
+
+describe('ListQueryService', () => {
+  let service: ListQueryService
+  const mockPrismaService = {
+    $queryRaw: mock(() => Promise.resolve([{ id: 'item-2' }, { id: 'item-5' }]))
+  }
+
+  const buildQuery = (query: Record<string, unknown>) =>
+    plainToInstance(ListItemsQueryDto, query, { enableImplicitConversion: true })
+
+  const prepare = (query: Record<string, unknown>, searchTable?: string) =>
+    service.prepare(buildQuery(query), { defaultSort: '-price', searchTable })
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ListQueryService, { provide: PrismaService, useValue: mockPrismaService }]
+    }).compile()
+
+    service = module.get<ListQueryService>(ListQueryService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+  })
+
+  describe('validation', () => {
+    it('should accept sorts on whitelisted fields only', async () => {
+      const valid = await validate(buildQuery({ sort: '-price,name' }))
+      const invalid = await validate(buildQuery({ sort: 'name,-secret' }))
+
+      expect(valid).toEqual([])
+      expect(invalid[0].constraints).toEqual({
+        sortFields:
+          'sort must be a comma separated list of name, price, each optionally prefixed with - for descending order'
+      })
+    })
+
+    it('should split comma separated lists', () => {
+      expect(buildQuery({ statuses: 'NEW,SOLD' }).statuses).toEqual(['NEW', 'SOLD'])
+      expect(buildQuery({ statuses: ['NEW', 'SOLD,LOST'] }).statuses).toEqual([
+        'NEW',
+        'SOLD',
+        'LOST'
+      ])
+    })
+  })
+
+  describe('prepare', () => {
+    it('should only turn declared filters into conditions', async () => {
+      const list = await prepare({
+        name: 'lamp',
+        statuses: 'NEW,SOLD',
+        minPrice: 100,
+        maxPrice: 500,
+        format: 'csv'
+      })
+
+      expect(list.where).toEqual({
+        AND: [
+          { name: { contains: 'lamp' } },
+          { status: { in: ['NEW', 'SOLD'] } },
+          { price: { gte: 100 } },
+          { price: { lte: 500 } }
+        ]
+      })
+    })
+
+    it('should sort by the requested fields with the id as tie breaker', async () => {
+      const list = await prepare({ sort: 'name,-price', limit: 10, page: 3 })
+
+      expect(list.args).toEqual({
+        where: {},
+        orderBy: [{ name: 'asc' }, { price: 'desc' }, { id: 'desc' }],
+        take: 11,
+        skip: 20
+      })
+    })
+
+    it('should narrow the rows to full-text matches', async () => {
+      const list = await prepare({ q: 'desk "lamp' }, 'ItemSearch')
+
+      expect(list.where).toEqual({ AND: [{ id: { in: ['item-2', 'item-5'] } }] })
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(1)
+      expect(list.toPage([], 2).meta.searchTruncated).toBeUndefined()
+    })
+
+    it('should report a search that matched more rows than it keeps', async () => {
+      const matches = Array.from({ length: 1001 }, (_, index) => ({ id: `item-${index}` }))
+      mockPrismaService.$queryRaw.mockImplementationOnce(() => Promise.resolve(matches))
+
+      const list = await prepare({ q: 'lamp' }, 'ItemSearch')
+
+      expect(list.where).toEqual({
+        AND: [{ id: { in: matches.slice(0, 1000).map(({ id }) => id) } }]
+      })
+      expect(list.toPage([], 1000).meta).toMatchObject({ total: 1000, searchTruncated: true })
+    })
+
+    it('should reject search on lists without a full-text index', async () => {
+      const error = await prepare({ q: 'lamp' }).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+    })
+  })
+
+  describe('cursors', () => {
+    const rows = [{ id: 'item-1' }, { id: 'item-2' }, { id: 'item-3' }]
+
+    it('should resume after the last row of the previous page', async () => {
+      const first = await prepare({ limit: 2 })
+      const page = first.toPage(rows, 3)
+      const next = await prepare({ limit: 2, cursor: page.meta.nextCursor })
+
+      expect(page.data).toEqual(rows.slice(0, 2))
+      expect(page.meta).toMatchObject({ total: 3, limit: 2, page: 1 })
+      expect(next.args).toMatchObject({ cursor: { id: 'item-2' }, skip: 1 })
+      expect(next.toPage([{ id: 'item-3' }], 3).meta).toEqual({
+        total: 3,
+        limit: 2,
+        page: null,
+        nextCursor: null
+      })
+    })
+
+    it('should reject tampered cursors and cursors from another sort', async () => {
+      const first = await prepare({ limit: 2 })
+      const { nextCursor } = first.toPage(rows, 3).meta
+
+      const tampered = await prepare({ cursor: 'not-a-cursor' }).catch((e: unknown) => e)
+      const resorted = await prepare({ cursor: nextCursor, sort: 'name' }).catch((e: unknown) => e)
+
+      expect(tampered).toBeInstanceOf(BadRequestException)
+      expect(resorted).toBeInstanceOf(BadRequestException)
+    })
+  })
+
+  describe('toMatchExpression', () => {
+    it('should quote every word as a prefix query', () => {
+      expect(toMatchExpression('Zoé "admin* OR')).toBe('"zoé"* "admin"* "or"*')
+    })
+
+    it('should return null when there is no word to search', () => {
+      expect(toMatchExpression(' *"- ')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { Prisma } from '@generated'
+import { withCode } from '~/common/errors/errorCatalog'
+import { PrismaService } from '~/database/prisma.service'
+import { getFilters, parseSort, type SortField } from './listQuery.decorators'
+import { ListQueryDto } from './listQuery.dto'
+
+const DEFAULT_PAGE_SIZE = 20
+// Best ranked full-text matches fed to the where clause, so search never builds a huge IN list
+const MAX_SEARCH_MATCHES = 1000
+
+export interface ListQueryOptions<Where> {
+  // Applied when the query has no sort, e.g. '-createdAt'
+  defaultSort: string
+  // FTS5 table indexing the model (see the list_search migration); q is rejected without one
+  searchTable?: string
+  // Always applied on top of the requested filters
+  where?: Where
+}
+
+export interface Page<T> {
+  data: T[]
+  meta: {
+    total: number
+    limit: number
+    page: number | null
+    nextCursor: string | null
+    // Set when q matched more rows than the search keeps: total and pages only cover the best ranked
+    searchTruncated?: true
+  }
+}
+
+export interface PreparedListQuery<Where, OrderBy> {
+  // For count(), which takes no ordering or pagination
+  where: Where
+  // For findMany(); take is one more than the limit to tell whether another page exists
+  args: {
+    where: Where
+    orderBy: OrderBy[]
+    take: number
+    skip: number
+    cursor?: { id: string }
+  }
+  toPage<T extends { id: string }>(rows: T[], total: number): Page<T>
+}
+
+// What an opaque cursor carries: the last row and the sort it was taken from
+interface CursorPayload {
+  id: string
+  sort: string
+}
+
+const encodeCursor = (payload: CursorPayload): string =>
+  Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+const decodeCursor = (cursor: string): CursorPayload | null => {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString()
+    ) as Partial<CursorPayload>
+
+    return typeof payload.id === 'string' && typeof payload.sort === 'string'
+      ? { id: payload.id, sort: payload.sort }
+      : null
+  } catch {
+    return null
+  }
+}
+
+// Each word becomes a quoted prefix query, so user input never reaches the FTS5 syntax
+export const toMatchExpression = (text: string): string | null => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+  return words.length > 0 ? words.map(word => `"${word}"*`).join(' ') : null
+}
+
+/**
+ * Turns a list query DTO into Prisma arguments: @Filter properties become
+ * conditions, sort becomes orderBy (the id always breaks ties), q narrows the
+ * rows to full-text matches, and cursors resume after the last row returned.
+ */
+@Injectable()
+export class ListQueryService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async prepare<Where extends object, OrderBy extends object>(
+    query: ListQueryDto,
+    options: ListQueryOptions<Where>
+  ): Promise<PreparedListQuery<Where, OrderBy>> {
+    // Filters are read from the DTO class, a plain object would silently match everything
+    if (!(query instanceof ListQueryDto)) {
+      throw new TypeError('List queries must be DTO instances, enable transform on ValidationPipe')
+    }
+
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE
+    const sort = this.withTieBreaker(parseSort(query.sort ?? options.defaultSort))
+    const sortKey = sort
+      .map(({ field, direction }) => (direction === 'desc' ? `-${field}` : field))
+      .join(',')
+    const cursorId = query.cursor ? this.resolveCursor(query.cursor, sortKey) : undefined
+    const search = query.q ? await this.buildSearch(query.q, options.searchTable) : undefined
+    const conditions = [
+      ...(options.where ? [options.where] : []),
+      ...this.buildFilters(query),
+      ...(search ? [search.where] : [])
+    ]
+    const where = (conditions.length > 0 ? { AND: conditions } : {}) as Where
+    const page = cursorId ? null : (query.page ?? 1)
+
+    return {
+      where,
+      args: {
+        where,
+        orderBy: sort.map(({ field, direction }) => ({ [field]: direction }) as OrderBy),
+        take: limit + 1,
+        ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : { skip: ((page ?? 1) - 1) * limit })
+      },
+      toPage: (rows, total) => {
+        const data = rows.slice(0, limit)
+        const last = data.at(-1)
+
+        return {
+          data,
+          meta: {
+            total,
+            limit,
+            page,
+            nextCursor:
+              rows.length > limit && last ? encodeCursor({ id: last.id, sort: sortKey }) : null,
+            ...(search?.truncated ? { searchTruncated: true as const } : {})
+          }
+        }
+      }
+    }
+  }
+
+  private withTieBreaker(sort: SortField[]): SortField[] {
+    if (sort.some(({ field }) => field === 'id')) {
+      return sort
+    }
+
+    return [...sort, { field: 'id', direction: sort.at(-1)?.direction ?? 'asc' }]
+  }
+
+  // A cursor only makes sense with the sort it was produced for
+  private resolveCursor(cursor: string, sortKey: string): string {
+    const payload = decodeCursor(cursor)
+
+    if (!payload) {
+      throw new BadRequestException(withCode('LIST_INVALID_CURSOR', 'cursor is invalid'))
+    }
+
+    if (payload.sort !== sortKey) {
+      throw new BadRequestException(
+        withCode('LIST_INVALID_CURSOR', 'cursor was issued for a different sort')
+      )
+    }
+
+    return payload.id
+  }
+
+  private buildFilters(query: ListQueryDto): object[] {
+    return getFilters(query).flatMap(({ property, operator, field, where }) => {
+      const value = (query as unknown as Record<string, unknown>)[property]
+
+      // Guard: filters not present in the query string are not applied
+      if (value === undefined) {
+        return []
+      }
+
+      if (where) {
+        return [where(value as never)]
+      }
+
+      return [{ [field ?? property]: operator === 'eq' ? value : { [operator]: value } }]
+    })
+  }
+
+  private async buildSearch(
+    text: string,
+    table: string | undefined
+  ): Promise<{ where: object; truncated: boolean }> {
+    if (!table) {
+      throw new BadRequestException(
+        withCode('LIST_SEARCH_UNSUPPORTED', 'This list does not support full-text search')
+      )
+    }
+
+    const expression = toMatchExpression(text)
+
+    // Guard: text without any word (e.g. punctuation only) does not narrow the list
+    if (!expression) {
+      return { where: {}, truncated: false }
+    }
+
+    // One match past the cap tells whether any were left out
+    const matches = await this.prisma.$queryRaw<{ id: string }[]>(
+      Prisma.sql`SELECT "id" FROM ${Prisma.raw(`"${table}"`)} WHERE ${Prisma.raw(`"${table}"`)} MATCH ${expression} ORDER BY rank LIMIT ${MAX_SEARCH_MATCHES + 1}`
+    )
+
+    return {
+      where: { id: { in: matches.slice(0, MAX_SEARCH_MATCHES).map(({ id }) => id) } },
+      truncated: matches.length > MAX_SEARCH_MATCHES
+    }
+  }
+}
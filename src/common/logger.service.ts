@@ -1,19 +1,36 @@
 import { Injectable, Logger } from '@nestjs/common'
+import { getLogOutput, type LogOutput } from '~/logging/logOutput'
+import type { LogEntry, LogLevel } from '~/logging/logTransport.interface'
+import { getRequestContext } from './requestContext'
+import { sanitize } from './sanitize'
 
 interface LogContext {
   [key: string]: unknown
 }
 
+// Nest's Logger calls the info level 'log'
+const NEST_METHODS = {
+  error: 'error',
+  warn: 'warn',
+  info: 'log',
+  debug: 'debug',
+  verbose: 'verbose'
+} as const satisfies Record<LogLevel, keyof Logger>
+
+const ENTRY_KEYS = ['timestamp', 'level', 'context', 'message']
+
 @Injectable()
 export class LoggerService {
   private readonly logger: Logger
+  private readonly context: string
 
   constructor(context?: string) {
-    this.logger = new Logger(context ?? LoggerService.name)
+    this.context = context ?? LoggerService.name
+    this.logger = new Logger(this.context)
   }
 
   info(message: string, context?: LogContext): void {
-    this.log('log', message, context)
+    this.log('info', message, context)
   }
 
   warn(message: string, context?: LogContext): void {
@@ -32,59 +49,63 @@ export class LoggerService {
     this.log('verbose', message, context)
   }
 
-  private log(
-    level: 'log' | 'warn' | 'error' | 'debug' | 'verbose',
-    message: string,
-    context?: LogContext
-  ): void {
-    const formattedMessage = this.formatMessage(message, context)
-    this.logger[level](formattedMessage, context)
-  }
+  private log(level: LogLevel, message: string, context?: LogContext): void {
+    const output = getLogOutput()
+
+    // Guard: below the configured threshold
+    if (!output.isEnabled(level)) {
+      return
+    }
+
+    const entryContext = this.withRequestContext(context)
+    const sanitizedContext = entryContext && this.sanitizeContext(entryContext, output)
 
-  private sanitizeContext(context: LogContext): LogContext {
-    const sensitiveKeys = ['password', 'token', 'secret', 'key']
-
-    const sanitize = (obj: unknown): unknown => {
-      // Guard: primitive types and null
-      if (typeof obj !== 'object' || obj === null) {
-        return obj
-      }
-
-      // Guard: arrays
-      if (Array.isArray(obj)) {
-        return obj.map(sanitize)
-      }
-
-      // Process object entries
-      return Object.entries(obj).reduce<Record<string, unknown>>((sanitized, [key, value]) => {
-        sanitized[key] = this.sanitizeValue(key, value, sensitiveKeys, sanitize)
-        return sanitized
-      }, {})
+    // Guard: structured output goes to the transports instead of Nest's Logger
+    if (output.format === 'json') {
+      output.write(this.buildEntry(level, message, sanitizedContext))
+      return
     }
 
-    return sanitize(context) as LogContext
+    // Nest prints extra arguments as they are, so only the sanitized context may go there
+    this.logger[NEST_METHODS[level]](
+      this.formatMessage(message, sanitizedContext),
+      sanitizedContext
+    )
   }
 
-  private sanitizeValue(
-    key: string,
-    value: unknown,
-    sensitiveKeys: string[],
-    sanitize: (obj: unknown) => unknown
-  ): unknown {
-    const isSensitive = sensitiveKeys.some(s => key.toLowerCase().includes(s))
-
-    // Not sensitive: recursively sanitize nested objects
-    if (!isSensitive) {
-      return sanitize(value)
+  // Caller fields named like a fixed key (the filter's `message`) are kept under `fields`
+  private buildEntry(level: LogLevel, message: string, context: LogContext = {}): LogEntry {
+    const clashing = Object.entries(context).filter(([key]) => ENTRY_KEYS.includes(key))
+    const fields = Object.entries(context).filter(([key]) => !ENTRY_KEYS.includes(key))
+
+    return {
+      timestamp: new Date().toISOString(),
+      level,
+      context: this.context,
+      message,
+      ...Object.fromEntries(fields),
+      ...(clashing.length > 0 && { fields: Object.fromEntries(clashing) })
     }
+  }
+
+  // Fields passed by the caller win over the ambient request fields
+  private withRequestContext(context?: LogContext): LogContext | undefined {
+    const requestContext = getRequestContext()
 
-    // Sensitive string with content: partial redaction
-    if (typeof value === 'string' && value.length > 0) {
-      return `${value.substring(0, Math.min(4, value.length))}******`
+    // Guard: logged outside of a request
+    if (!requestContext) {
+      return context
     }
 
-    // Sensitive but not a valid string: full redaction
-    return 'REDACTED'
+    const fields = Object.fromEntries(
+      Object.entries(requestContext).filter(([, value]) => value !== undefined)
+    )
+
+    return { ...fields, ...context }
+  }
+
+  private sanitizeContext(context: LogContext, output: LogOutput): LogContext {
+    return sanitize(context, output.redaction) as LogContext
   }
 
   private formatMessage(message: string, context?: LogContext): string {
@@ -92,8 +113,6 @@ export class LoggerService {
       return message
     }
 
-    const sanitizedContext = this.sanitizeContext(context)
-
-    return `${message} ${JSON.stringify(sanitizedContext)}`
+    return `${message} ${JSON.stringify(context)}`
   }
 }
@@ -0,0 +1,14 @@
+import { Injectable, NestMiddleware } from '@nestjs/common'
+import type { NextFunction, Request, Response } from 'express'
+import { REQUEST_ID_HEADER, resolveRequestId, runWithRequestContext } from '~/common/requestContext'
+
+// Opens the request context everything downstream logs with, and echoes its id to the client
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  use(request: Request, response: Response, next: NextFunction): void {
+    const requestId = resolveRequestId(request.headers[REQUEST_ID_HEADER.toLowerCase()])
+
+    response.setHeader(REQUEST_ID_HEADER, requestId)
+    runWithRequestContext(request, requestId, next)
+  }
+}
@@ -0,0 +1,101 @@
+import { ConfigService } from '@nestjs/config'
+import {
+  DEFAULT_REDACTION_LIMITS,
+  DEFAULT_VALUE_RULES,
+  REDACTION_STRATEGIES,
+  SECRET_KEY_RULES,
+  VALUE_DETECTORS,
+  type KeyMatcher,
+  type KeyRule,
+  type RedactionPolicy,
+  type RedactionStrategy,
+  type ValueDetector,
+  type ValueRule
+} from './redactionPolicy'
+
+const isStrategy = (value: string): value is RedactionStrategy =>
+  REDACTION_STRATEGIES.includes(value as RedactionStrategy)
+
+const isDetector = (value: string): value is ValueDetector =>
+  VALUE_DETECTORS.includes(value as ValueDetector)
+
+const list = (value: string): string[] =>
+  value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+
+// Splits a trailing =strategy off an entry; a regex may itself contain '='
+const splitStrategy = (entry: string, fallback: RedactionStrategy): [string, RedactionStrategy] => {
+  const separator = entry.lastIndexOf('=')
+  const strategy = entry.substring(separator + 1)
+
+  return separator > 0 && isStrategy(strategy)
+    ? [entry.substring(0, separator), strategy]
+    : [entry, fallback]
+}
+
+const parseKeyRule = (entry: string): KeyRule => {
+  const [matcher, strategy] = splitStrategy(entry, 'mask')
+  const [type, ...rest] = matcher.split(':')
+  const value = rest.join(':')
+
+  // Guard: a bare name is a substring match
+  if (!value) {
+    return { match: { substring: type }, strategy }
+  }
+
+  const matchers: Record<string, () => KeyMatcher> = {
+    exact: () => ({ exact: value }),
+    substring: () => ({ substring: value }),
+    regex: () => ({ regex: new RegExp(value) })
+  }
+
+  if (!matchers[type]) {
+    throw new Error(`Unknown LOG_REDACT_KEYS matcher "${type}"`)
+  }
+
+  return { match: matchers[type](), strategy }
+}
+
+const parseValueRule = (entry: string): ValueRule => {
+  const [detector, strategy] = splitStrategy(entry, 'mask')
+
+  if (!isDetector(detector)) {
+    throw new Error(`Unknown LOG_REDACT_VALUES detector "${detector}"`)
+  }
+
+  return { detector, strategy }
+}
+
+const count = (config: ConfigService, key: string, fallback: number): number =>
+  Number(config.get<string>(key) ?? fallback)
+
+/**
+ * LOG_REDACT_KEYS adds key rules ahead of the built-in secret rules, as
+ * comma-separated `exact:name`, `substring:part` or `regex:pattern` entries
+ * with an optional `=drop|hash|mask|partial` (mask by default). Setting
+ * LOG_REDACT_VALUES replaces the default detectors, e.g. `email=partial,jwt`.
+ */
+export const loadRedactionPolicy = (config: ConfigService): RedactionPolicy => {
+  const values = config.get<string>('LOG_REDACT_VALUES')
+
+  return {
+    keys: [
+      ...list(config.get<string>('LOG_REDACT_KEYS') ?? '').map(parseKeyRule),
+      ...SECRET_KEY_RULES
+    ],
+    values: values === undefined ? DEFAULT_VALUE_RULES : list(values).map(parseValueRule),
+    limits: {
+      maxDepth: count(config, 'LOG_REDACT_MAX_DEPTH', DEFAULT_REDACTION_LIMITS.maxDepth),
+      maxItems: count(config, 'LOG_REDACT_MAX_ITEMS', DEFAULT_REDACTION_LIMITS.maxItems),
+      maxStringLength: count(
+        config,
+        'LOG_REDACT_MAX_STRING_LENGTH',
+        DEFAULT_REDACTION_LIMITS.maxStringLength
+      )
+    },
+    // Without a salt, hashed emails can be recovered by hashing a list of candidates
+    hashSalt: config.get<string>('LOG_REDACT_HASH_SALT') ?? ''
+  }
+}
@@ -0,0 +1,89 @@
+export const REDACTION_STRATEGIES = ['drop', 'hash', 'mask', 'partial'] as const
+
+// drop removes the property, hash keeps a salted digest that still correlates equal values,
+// mask replaces the value, partial keeps its first 4 characters
+export type RedactionStrategy = (typeof REDACTION_STRATEGIES)[number]
+
+// exact and substring compare keys case-insensitively, a regex is applied as written
+export type KeyMatcher = { exact: string } | { substring: string } | { regex: RegExp }
+
+export interface KeyRule {
+  match: KeyMatcher
+  strategy: RedactionStrategy
+}
+
+export const VALUE_DETECTORS = ['email', 'jwt', 'card', 'bearer'] as const
+
+export type ValueDetector = (typeof VALUE_DETECTORS)[number]
+
+// Applied to string values under any key; only the detected part is replaced unless dropped
+export interface ValueRule {
+  detector: ValueDetector
+  strategy: RedactionStrategy
+}
+
+export interface RedactionLimits {
+  // Nesting below this depth is replaced by a marker, which also bounds deep payloads
+  maxDepth: number
+  // Array items and object keys kept per level
+  maxItems: number
+  maxStringLength: number
+}
+
+export interface RedactionPolicy {
+  // First matching rule wins
+  keys: KeyRule[]
+  values: ValueRule[]
+  limits: RedactionLimits
+  hashSalt: string
+}
+
+/**
+ * Keys holding credentials. The key regex matches apiKey, api_key or
+ * X-Api-Key but not words merely ending in "key" such as monkey. The otp
+ * regex matches otp, totp and otpauth (whose URIs embed the secret) as whole
+ * words, as in totpCode or OTP_CODE, but not inside footprint.
+ */
+export const SECRET_KEY_RULES: KeyRule[] = [
+  ...['password', 'secret', 'token', 'backupcode'].map(
+    (substring): KeyRule => ({ match: { substring }, strategy: 'partial' })
+  ),
+  { match: { regex: /(^|[^a-zA-Z])(key|Key|KEY)s?$|[a-z]Keys?$/ }, strategy: 'partial' },
+  {
+    match: {
+      regex:
+        /(^|[^a-zA-Z])(t?otp|otpauth)s?(?![a-z])|(^|[^A-Z])(T?Otp|Otpauth|T?OTP|OTPAUTH)s?(?![a-z])/
+    },
+    strategy: 'partial'
+  },
+  ...['authorization', 'proxy-authorization', 'cookie', 'set-cookie'].map(
+    (exact): KeyRule => ({ match: { exact }, strategy: 'mask' })
+  )
+]
+
+export const DEFAULT_REDACTION_LIMITS: RedactionLimits = {
+  maxDepth: 10,
+  maxItems: 100,
+  maxStringLength: 2000
+}
+
+// Used by the audit log, whose snapshots must keep emails readable to be useful
+export const SECRETS_REDACTION_POLICY: RedactionPolicy = {
+  keys: SECRET_KEY_RULES,
+  values: [],
+  limits: DEFAULT_REDACTION_LIMITS,
+  hashSalt: ''
+}
+
+// Log output also hides personal data and credentials found in free-form values
+export const DEFAULT_VALUE_RULES: ValueRule[] = [
+  { detector: 'email', strategy: 'hash' },
+  { detector: 'jwt', strategy: 'mask' },
+  { detector: 'card', strategy: 'mask' },
+  { detector: 'bearer', strategy: 'mask' }
+]
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  ...SECRETS_REDACTION_POLICY,
+  values: DEFAULT_VALUE_RULES
+}
@@ -0,0 +1,51 @@
+import type { ValueDetector } from './redactionPolicy'
+
+// Luhn checksum, so order numbers and timestamps are not mistaken for cards
+const isCardNumber = (candidate: string): boolean => {
+  const digits = candidate.replace(/\D/g, '')
+  const sum = [...digits].reverse().reduce((total, digit, index) => {
+    const value = Number(digit) * (index % 2 === 1 ? 2 : 1)
+
+    return total + (value > 9 ? value - 9 : value)
+  }, 0)
+
+  return digits.length >= 13 && sum % 10 === 0
+}
+
+interface Detector {
+  pattern: RegExp
+  accept?: (match: string) => boolean
+}
+
+const detectors: Record<ValueDetector, Detector> = {
+  email: { pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  jwt: { pattern: /\beyJ[\w-]*\.eyJ[\w-]*\.[\w-]*/g },
+  card: { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: isCardNumber },
+  bearer: { pattern: /\bBearer\s+[\w~+/.-]+=*/gi }
+}
+
+/**
+ * Replaces every occurrence the detector recognises in a string. Returns null
+ * when nothing was found so callers can tell a match from an unchanged value.
+ */
+export const replaceDetected = (
+  value: string,
+  detector: ValueDetector,
+  replace: (match: string) => string
+): string | null => {
+  const { pattern, accept } = detectors[detector]
+  let found = false
+
+  const replaced = value.replace(new RegExp(pattern), match => {
+    // Guard: shape matched but the checksum did not
+    if (accept && !accept(match)) {
+      return match
+    }
+
+    found = true
+
+    return replace(match)
+  })
+
+  return found ? replaced : null
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test'
+import type { Request } from 'express'
+import { getRequestContext, resolveRequestId, runWithRequestContext } from './requestContext'
+
+describe('requestContext', () => {
+  describe('resolveRequestId', () => {
+    it('should keep a well-formed client id', () => {
+      expect(resolveRequestId('checkout-7f3a.1')).toBe('checkout-7f3a.1')
+      expect(resolveRequestId(['first', 'second'])).toBe('first')
+    })
+
+    it('should generate an id when the header is missing or unsafe', () => {
+      const uuid = /^[0-9a-f-]{36}$/
+
+      expect(resolveRequestId(undefined)).toMatch(uuid)
+      expect(resolveRequestId('line\nbreak')).toMatch(uuid)
+      expect(resolveRequestId('x'.repeat(129))).toMatch(uuid)
+    })
+  })
+
+  describe('getRequestContext', () => {
+    it('should be undefined outside of a request', () => {
+      expect(getRequestContext()).toBeUndefined()
+    })
+
+    it('should reflect the user and route resolved after the context opened', async () => {
+      const request = {
+        method: 'DELETE',
+        path: '/orders/42',
+        baseUrl: '',
+        ip: '203.0.113.7'
+      } as Request & { user?: { id: string } }
+
+      const context = await runWithRequestContext(request, 'req-1', async () => {
+        expect(getRequestContext()).toMatchObject({ route: '/orders/42' })
+        await Promise.resolve()
+        request.user = { id: 'user-1' }
+        request.route = { path: '/orders/:id' }
+
+        return getRequestContext()
+      })
+
+      expect(context).toEqual({
+        requestId: 'req-1',
+        userId: 'user-1',
+        ip: '203.0.113.7',
+        method: 'DELETE',
+        route: '/orders/:id'
+      })
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import type { Request } from 'express'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+// Client supplied ids end up in every log line, so only short plain tokens are trusted
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/
+
+export interface RequestContext {
+  requestId: string
+  userId?: string
+  ip?: string
+  method: string
+  route: string
+}
+
+interface RequestContextStore {
+  requestId: string
+  // Kept by reference: the session guard and the router fill in the user and route later on
+  request: Request & { user?: { id: string } | null }
+}
+
+const storage = new AsyncLocalStorage<RequestContextStore>()
+
+export const resolveRequestId = (header: string | string[] | undefined): string => {
+  const value = Array.isArray(header) ? header[0] : header
+
+  return value && VALID_REQUEST_ID.test(value) ? value : randomUUID()
+}
+
+export const runWithRequestContext = <T>(request: Request, requestId: string, callback: () => T) =>
+  storage.run({ requestId, request }, callback)
+
+/**
+ * Returns the context of the request being handled, or undefined outside of one
+ * (bootstrap, scheduled tasks). The route is the matched pattern such as
+ * /orders/:id once routing happened, the raw path before that.
+ */
+export const getRequestContext = (): RequestContext | undefined => {
+  const store = storage.getStore()
+
+  // Guard: not within a request
+  if (!store) {
+    return undefined
+  }
+
+  const { requestId, request } = store
+  const route = (request.route as { path?: string } | undefined)?.path
+
+  return {
+    requestId,
+    userId: request.user?.id,
+    ip: request.ip ?? request.socket?.remoteAddress,
+    method: request.method,
+    route: route ? `${request.baseUrl}${route}` : request.path
+  }
+}
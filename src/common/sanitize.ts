@@ -0,0 +1,175 @@
+import { createHash } from 'node:crypto'
+import {
+  SECRETS_REDACTION_POLICY,
+  type KeyMatcher,
+  type RedactionPolicy,
+  type RedactionStrategy
+} from './redaction/redactionPolicy'
+import { replaceDetected } from './redaction/valueDetectors'
+
+const CIRCULAR = '[Circular]'
+const TRUNCATED = '[Truncated]'
+
+// Marks a value a drop rule removed, so the parent leaves the property or item out
+const DROPPED = Symbol('DROPPED')
+
+const matchesKey = (key: string, match: KeyMatcher): boolean => {
+  if ('regex' in match) {
+    return match.regex.test(key)
+  }
+
+  if ('exact' in match) {
+    return key.toLowerCase() === match.exact.toLowerCase()
+  }
+
+  return key.toLowerCase().includes(match.substring.toLowerCase())
+}
+
+const redact = (value: unknown, strategy: RedactionStrategy, policy: RedactionPolicy): unknown => {
+  // Guard: drop rules remove the value altogether
+  if (strategy === 'drop') {
+    return DROPPED
+  }
+
+  // Guard: only strings with content and plain scalars can be kept in part or hashed
+  if (
+    !(typeof value === 'string' && value.length > 0) &&
+    !(strategy === 'hash' && (typeof value === 'number' || typeof value === 'boolean'))
+  ) {
+    return 'REDACTED'
+  }
+
+  const text = String(value)
+
+  switch (strategy) {
+    case 'partial':
+      return `${text.substring(0, Math.min(4, text.length))}******`
+    case 'hash':
+      return `hash:${createHash('sha256')
+        .update(policy.hashSalt + text)
+        .digest('hex')
+        .substring(0, 16)}`
+    case 'mask':
+      return 'REDACTED'
+  }
+}
+
+const sanitizeString = (value: string, policy: RedactionPolicy): string | typeof DROPPED => {
+  let sanitized = value
+
+  for (const { detector, strategy } of policy.values) {
+    const replaced = replaceDetected(sanitized, detector, match =>
+      strategy === 'drop' ? '' : (redact(match, strategy, policy) as string)
+    )
+
+    // Guard: a drop rule for a detected value removes the whole value
+    if (replaced !== null && strategy === 'drop') {
+      return DROPPED
+    }
+
+    sanitized = replaced ?? sanitized
+  }
+
+  const { maxStringLength } = policy.limits
+
+  return sanitized.length > maxStringLength
+    ? `${sanitized.substring(0, maxStringLength)}…[+${sanitized.length - maxStringLength} chars]`
+    : sanitized
+}
+
+// Errors keep nothing enumerable, so their useful fields are copied explicitly
+const entriesOf = (value: object): [string, unknown][] =>
+  value instanceof Error
+    ? [
+        ['name', value.name],
+        ['message', value.message],
+        ['stack', value.stack]
+      ]
+    : Object.entries(value)
+
+const sanitizeValue = (
+  value: unknown,
+  policy: RedactionPolicy,
+  depth: number,
+  ancestors: WeakSet<object>
+): unknown => {
+  // Guard: strings go through the value detectors
+  if (typeof value === 'string') {
+    return sanitizeString(value, policy)
+  }
+
+  // Guard: bigint would make JSON.stringify throw
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+
+  // Guard: other primitive types and null
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+
+  // Guard: dates are logged the way JSON.stringify prints them
+  if (value instanceof Date) {
+    return value.toJSON()
+  }
+
+  // Guard: a reference back to an object being copied
+  if (ancestors.has(value)) {
+    return CIRCULAR
+  }
+
+  // Guard: too deeply nested
+  if (depth >= policy.limits.maxDepth) {
+    return TRUNCATED
+  }
+
+  const { maxItems } = policy.limits
+  const sanitizeChild = (child: unknown) => sanitizeValue(child, policy, depth + 1, ancestors)
+
+  ancestors.add(value)
+
+  try {
+    if (Array.isArray(value)) {
+      const items = value
+        .slice(0, maxItems)
+        .map(sanitizeChild)
+        .filter(item => item !== DROPPED)
+
+      return value.length > maxItems ? [...items, `[+${value.length - maxItems} items]`] : items
+    }
+
+    const entries = entriesOf(value)
+    const sanitized: Record<string, unknown> = {}
+
+    for (const [key, entry] of entries.slice(0, maxItems)) {
+      const rule = policy.keys.find(({ match }) => matchesKey(key, match))
+      const copy = rule ? redact(entry, rule.strategy, policy) : sanitizeChild(entry)
+
+      if (copy !== DROPPED) {
+        sanitized[key] = copy
+      }
+    }
+
+    if (entries.length > maxItems) {
+      sanitized[TRUNCATED] = `+${entries.length - maxItems} keys`
+    }
+
+    return sanitized
+  } finally {
+    // Only ancestors count: the same object reached twice through siblings is not a cycle
+    ancestors.delete(value)
+  }
+}
+
+/**
+ * Copies a value with every property whose key matches a policy rule, and
+ * every string part a value detector recognises, redacted at any depth.
+ * Cycles, deep nesting, long arrays and long strings are cut so the copy stays
+ * small enough to log. Shared by LoggerService, which applies the configured
+ * policy, and the audit log, which only hides secrets.
+ */
+export const sanitize = (value: unknown, policy = SECRETS_REDACTION_POLICY): unknown => {
+  const sanitized = sanitizeValue(value, policy, 0, new WeakSet())
+
+  return sanitized === DROPPED ? undefined : sanitized
+}
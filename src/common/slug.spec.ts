@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'bun:test'
+import { SLUG_PATTERN, slugify } from './slug'
+
+describe('slugify', () => {
+  it('should turn a name into a valid slug', () => {
+    const slug = slugify('  Laptop Pro 15" — Space Gray ')
+
+    expect(slug).toBe('laptop-pro-15-space-gray')
+    expect(SLUG_PATTERN.test(slug)).toBe(true)
+  })
+
+  it('should strip accents instead of dropping the letters', () => {
+    expect(slugify('Café & Thé')).toBe('cafe-the')
+  })
+
+  it('should return an empty string when nothing is left', () => {
+    expect(slugify('!!!')).toBe('')
+  })
+})
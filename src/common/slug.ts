@@ -0,0 +1,11 @@
+// Lowercase words separated by single dashes, e.g. "laptop-pro-15"
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+// Accents are stripped rather than dropped so "Café" becomes "cafe"
+export const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
@@ -0,0 +1,9 @@
+import type { TransformFnParams } from 'class-transformer'
+
+// Query strings arrive as text and implicit conversion would turn "false" into true,
+// so booleans are parsed from the raw value; anything else is left for @IsBoolean to reject
+export const toBoolean = ({ obj, key }: TransformFnParams): unknown => {
+  const raw = (obj as Record<string, unknown>)[key]
+
+  return raw === 'true' ? true : raw === 'false' ? false : raw
+}
@@ -0,0 +1,10 @@
+import type { TransformFnParams } from 'class-transformer'
+
+// "a,b" and repeated parameters (?role=a&role=b) both become ['a', 'b']
+export const toList = ({ value }: TransformFnParams): unknown =>
+  typeof value === 'string' || Array.isArray(value)
+    ? [value]
+        .flat()
+        .flatMap((item: unknown) => (typeof item === 'string' ? item.split(',') : [item]))
+        .filter(item => item !== '')
+    : value
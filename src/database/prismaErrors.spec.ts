@@ -0,0 +1,112 @@
+import { Prisma } from '@generated'
+import { HttpStatus } from '@nestjs/common'
+import { describe, expect, it } from 'bun:test'
+import { translatePrismaError } from './prismaErrors'
+
+const knownError = (code: string, meta?: Record<string, unknown>) =>
+  new Prisma.PrismaClientKnownRequestError(`Invalid \`prisma.role.create()\` invocation: ${code}`, {
+    code,
+    clientVersion: '6.18.0',
+    meta
+  })
+
+const translate = (error: unknown, method = 'POST') => {
+  const exception = translatePrismaError(error, method)
+
+  return exception && { status: exception.getStatus(), body: exception.getResponse() }
+}
+
+describe('translatePrismaError', () => {
+  it('should leave other errors alone', () => {
+    expect(translatePrismaError(new Error('boom'), 'GET')).toBeUndefined()
+  })
+
+  it('should answer a unique violation with 409 naming the fields', () => {
+    expect(
+      translate(knownError('P2002', { modelName: 'ApiKey', target: ['name', 'userId'] }))
+    ).toEqual({
+      status: HttpStatus.CONFLICT,
+      body: {
+        code: 'RECORD_ALREADY_EXISTS',
+        message: 'Another api key already has this name and userId'
+      }
+    })
+  })
+
+  it('should not name a unique index reported instead of its fields', () => {
+    expect(translate(knownError('P2002', { target: 'Role_name_key' }))?.body).toEqual({
+      code: 'RECORD_ALREADY_EXISTS',
+      message: 'Another record already has this value'
+    })
+  })
+
+  it('should answer a missing record with 404', () => {
+    expect(translate(knownError('P2025', { modelName: 'Role' }), 'PATCH')).toEqual({
+      status: HttpStatus.NOT_FOUND,
+      body: { code: 'RECORD_NOT_FOUND', message: 'Role not found' }
+    })
+  })
+
+  it('should answer a foreign key violation with 409 on delete and 400 otherwise', () => {
+    const error = knownError('P2003', { modelName: 'Category', field_name: 'foreign key' })
+
+    expect(translate(error, 'DELETE')).toEqual({
+      status: HttpStatus.CONFLICT,
+      body: {
+        code: 'RECORD_IN_USE',
+        message: 'This category is still referenced by other records'
+      }
+    })
+    expect(translate(error, 'POST')).toEqual({
+      status: HttpStatus.BAD_REQUEST,
+      body: { code: 'RELATED_RECORD_NOT_FOUND', message: 'A referenced record does not exist' }
+    })
+  })
+
+  it('should answer values the database rejects with 400', () => {
+    expect(translate(knownError('P2000', { modelName: 'Product' }))?.status).toBe(
+      HttpStatus.BAD_REQUEST
+    )
+    expect(
+      translate(
+        new Prisma.PrismaClientValidationError('Argument `price` is missing.', {
+          clientVersion: '6.18.0'
+        })
+      )
+    ).toEqual({
+      status: HttpStatus.BAD_REQUEST,
+      body: {
+        code: 'RECORD_INVALID',
+        message: 'The request contains a value the database does not accept'
+      }
+    })
+  })
+
+  it('should answer an unreachable database with 503', () => {
+    const unavailable = {
+      status: HttpStatus.SERVICE_UNAVAILABLE,
+      body: { code: 'DATABASE_UNAVAILABLE', message: 'The database is temporarily unavailable' }
+    }
+
+    expect(
+      translate(
+        new Prisma.PrismaClientInitializationError("Can't reach database server", '6.18.0', 'P1001')
+      )
+    ).toEqual(unavailable)
+    expect(translate(knownError('P2024'))).toEqual(unavailable)
+  })
+
+  it('should hide the message of any other database error', () => {
+    expect(
+      translate(
+        new Prisma.PrismaClientUnknownRequestError(
+          'SQLITE_CORRUPT: database disk image is malformed',
+          { clientVersion: '6.18.0' }
+        )
+      )
+    ).toEqual({
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+      body: { code: 'INTERNAL_ERROR', message: 'An unexpected database error occurred' }
+    })
+  })
+})
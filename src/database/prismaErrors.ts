@@ -0,0 +1,122 @@
+import { Prisma } from '@generated'
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  InternalServerErrorException,
+  NotFoundException,
+  ServiceUnavailableException
+} from '@nestjs/common'
+import { withCode } from '~/common/errors/errorCatalog'
+
+// Prisma codes for a database that cannot be reached or answers too slowly
+const CONNECTION_ERROR_CODES = new Set(['P1001', 'P1002', 'P1008', 'P1017', 'P2024'])
+
+// Prisma codes for values the schema rejects: too long, wrong type, missing or null
+const INVALID_VALUE_CODES = new Set(['P2000', 'P2005', 'P2006', 'P2007', 'P2011', 'P2012'])
+
+type PrismaError =
+  | Prisma.PrismaClientKnownRequestError
+  | Prisma.PrismaClientUnknownRequestError
+  | Prisma.PrismaClientRustPanicError
+  | Prisma.PrismaClientInitializationError
+  | Prisma.PrismaClientValidationError
+
+export const isPrismaError = (error: unknown): error is PrismaError =>
+  error instanceof Prisma.PrismaClientKnownRequestError ||
+  error instanceof Prisma.PrismaClientUnknownRequestError ||
+  error instanceof Prisma.PrismaClientRustPanicError ||
+  error instanceof Prisma.PrismaClientInitializationError ||
+  error instanceof Prisma.PrismaClientValidationError
+
+// ApiKey becomes "api key", so the model reads naturally within a sentence
+const modelLabel = (meta: Record<string, unknown> | undefined): string =>
+  typeof meta?.modelName === 'string'
+    ? meta.modelName.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()
+    : 'record'
+
+// SQLite reports the fields of the violated unique index, other databases may report its name
+const uniqueFields = (meta: Record<string, unknown> | undefined): string =>
+  Array.isArray(meta?.target) && meta.target.length > 0 ? meta.target.join(' and ') : 'value'
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1)
+
+const translateKnownError = (
+  error: Prisma.PrismaClientKnownRequestError,
+  method: string
+): HttpException => {
+  const label = modelLabel(error.meta)
+
+  switch (error.code) {
+    case 'P2002':
+      return new ConflictException(
+        withCode(
+          'RECORD_ALREADY_EXISTS',
+          `Another ${label} already has this ${uniqueFields(error.meta)}`
+        )
+      )
+    case 'P2025':
+      return new NotFoundException(withCode('RECORD_NOT_FOUND', `${capitalize(label)} not found`))
+    case 'P2003':
+    case 'P2014':
+      // Still referenced on delete, or pointing to a record that does not exist
+      return method === 'DELETE'
+        ? new ConflictException(
+            withCode('RECORD_IN_USE', `This ${label} is still referenced by other records`)
+          )
+        : new BadRequestException(
+            withCode('RELATED_RECORD_NOT_FOUND', 'A referenced record does not exist')
+          )
+  }
+
+  if (CONNECTION_ERROR_CODES.has(error.code)) {
+    return new ServiceUnavailableException(
+      withCode('DATABASE_UNAVAILABLE', 'The database is temporarily unavailable')
+    )
+  }
+
+  if (INVALID_VALUE_CODES.has(error.code)) {
+    return new BadRequestException(
+      withCode('RECORD_INVALID', `The ${label} contains a value the database does not accept`)
+    )
+  }
+
+  return new InternalServerErrorException(
+    withCode('INTERNAL_ERROR', 'An unexpected database error occurred')
+  )
+}
+
+/**
+ * Maps a Prisma error to the HTTP exception a client should see, or returns
+ * undefined for anything else. Prisma messages name tables, columns and query
+ * arguments, so none of them reach the response: the original error is only
+ * logged. The request method tells a delete blocked by a foreign key apart
+ * from a write that points to a missing record.
+ */
+export const translatePrismaError = (error: unknown, method: string): HttpException | undefined => {
+  // Guard: not a database error
+  if (!isPrismaError(error)) {
+    return undefined
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    return translateKnownError(error, method)
+  }
+
+  if (error instanceof Prisma.PrismaClientInitializationError) {
+    return new ServiceUnavailableException(
+      withCode('DATABASE_UNAVAILABLE', 'The database is temporarily unavailable')
+    )
+  }
+
+  // A query Prisma refused to send, most often a value of the wrong type
+  if (error instanceof Prisma.PrismaClientValidationError) {
+    return new BadRequestException(
+      withCode('RECORD_INVALID', 'The request contains a value the database does not accept')
+    )
+  }
+
+  return new InternalServerErrorException(
+    withCode('INTERNAL_ERROR', 'An unexpected database error occurred')
+  )
+}
@@ -0,0 +1,58 @@
+import { Controller, Delete, HttpCode, HttpStatus, Param, Post, Req, Res } from '@nestjs/common'
+import { Session } from '@thallesp/nestjs-better-auth'
+import { fromNodeHeaders } from 'better-auth/node'
+import type { Request, Response } from 'express'
+import { Audit } from '~/auditLogs/decorators/audit.decorator'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import {
+  ImpersonationService,
+  type ImpersonationSession,
+  type ImpersonationStarted,
+  type ImpersonationStopped
+} from './impersonation.service'
+
+@Controller('admin/impersonate')
+export class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  @Post(':userId')
+  @HttpCode(HttpStatus.OK)
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('impersonate', 'User'))
+  @Audit('startImpersonation', 'User', 'userId')
+  async start(
+    @Session() session: ImpersonationSession,
+    @Param('userId') userId: string,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response
+  ): Promise<ImpersonationStarted> {
+    const { data, cookies } = await this.impersonationService.start(
+      session,
+      userId,
+      fromNodeHeaders(request.headers)
+    )
+
+    response.setHeader('Set-Cookie', cookies)
+
+    return data
+  }
+
+  // Called with the impersonation session, so it relies on no ability of the target user
+  @Delete()
+  @HttpCode(HttpStatus.OK)
+  async stop(
+    @Session() session: ImpersonationSession,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response
+  ): Promise<ImpersonationStopped> {
+    const { data, cookies } = await this.impersonationService.stop(
+      session,
+      fromNodeHeaders(request.headers)
+    )
+
+    response.setHeader('Set-Cookie', cookies)
+
+    return data
+  }
+}
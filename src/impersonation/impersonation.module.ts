@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common'
+import { APP_INTERCEPTOR } from '@nestjs/core'
+import { BetterAuthModule } from '~/auth/betterAuth.module'
+import { CommonModule } from '~/common/common.module'
+import { ImpersonationController } from './impersonation.controller'
+import { ImpersonationService } from './impersonation.service'
+import { ImpersonationInterceptor } from './interceptors/impersonation.interceptor'
+
+@Module({
+  imports: [BetterAuthModule, CommonModule],
+  controllers: [ImpersonationController],
+  providers: [
+    ImpersonationService,
+    { provide: APP_INTERCEPTOR, useClass: ImpersonationInterceptor }
+  ]
+})
+export class ImpersonationModule {}
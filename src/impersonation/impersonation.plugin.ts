@@ -0,0 +1,114 @@
+import type { BetterAuthPlugin } from 'better-auth'
+import { APIError, createAuthEndpoint, sessionMiddleware } from 'better-auth/api'
+import { deleteSessionCookie, setSessionCookie } from 'better-auth/cookies'
+import { z } from 'zod'
+
+const IMPERSONATION_TTL_MS = 60 * 60 * 1000
+
+// Signed cookie holding the administrator's own session token while impersonating
+const ADMIN_SESSION_COOKIE = 'impersonator_session'
+
+/**
+ * Swaps the caller's session for one of the target user, tagged with
+ * `impersonatedBy`, and back. The endpoints are server-only: ImpersonationService
+ * checks who may impersonate whom before calling them.
+ */
+export const impersonation = () =>
+  ({
+    id: 'impersonation',
+    schema: {
+      session: {
+        fields: {
+          impersonatedBy: { type: 'string', required: false, input: false }
+        }
+      }
+    },
+    endpoints: {
+      startImpersonation: createAuthEndpoint(
+        '/impersonation/start',
+        {
+          method: 'POST',
+          body: z.object({ userId: z.string() }),
+          use: [sessionMiddleware],
+          metadata: { SERVER_ONLY: true }
+        },
+        async context => {
+          const { session: adminSession, user: admin } = context.context.session
+          const { internalAdapter, authCookies, secret } = context.context
+
+          // Nested impersonation would lose track of the original administrator
+          if ((adminSession as { impersonatedBy?: string | null }).impersonatedBy) {
+            throw new APIError('BAD_REQUEST', {
+              message: 'Stop the current impersonation first',
+              code: 'ALREADY_IMPERSONATING'
+            })
+          }
+
+          const user = await internalAdapter.findUserById(context.body.userId)
+
+          if (!user) {
+            throw new APIError('NOT_FOUND', { message: 'User not found' })
+          }
+
+          const session = await internalAdapter.createSession(
+            user.id,
+            context,
+            true,
+            {
+              impersonatedBy: admin.id,
+              expiresAt: new Date(Date.now() + IMPERSONATION_TTL_MS)
+            },
+            true
+          )
+
+          await context.setSignedCookie(
+            context.context.createAuthCookie(ADMIN_SESSION_COOKIE).name,
+            adminSession.token,
+            secret,
+            authCookies.sessionToken.options
+          )
+          await setSessionCookie(context, { session, user }, true)
+
+          return context.json({ user, expiresAt: session.expiresAt })
+        }
+      ),
+      stopImpersonation: createAuthEndpoint(
+        '/impersonation/stop',
+        {
+          method: 'POST',
+          use: [sessionMiddleware],
+          metadata: { SERVER_ONLY: true }
+        },
+        async context => {
+          const { session } = context.context.session
+          const { internalAdapter, secret } = context.context
+          const impersonatedBy = (session as { impersonatedBy?: string | null }).impersonatedBy
+
+          if (!impersonatedBy) {
+            throw new APIError('BAD_REQUEST', {
+              message: 'This session is not impersonating anyone',
+              code: 'NOT_IMPERSONATING'
+            })
+          }
+
+          const adminCookieName = context.context.createAuthCookie(ADMIN_SESSION_COOKIE).name
+          const adminToken = await context.getSignedCookie(adminCookieName, secret)
+          const adminSession = adminToken ? await internalAdapter.findSession(adminToken) : null
+
+          await internalAdapter.deleteSession(session.token)
+          context.setCookie(adminCookieName, '', { path: '/', maxAge: 0 })
+
+          // Guard: the administrator's own session expired or was revoked meanwhile
+          if (!adminSession || adminSession.user.id !== impersonatedBy) {
+            deleteSessionCookie(context)
+
+            return context.json({ impersonatedBy, user: null })
+          }
+
+          await setSessionCookie(context, adminSession)
+
+          return context.json({ impersonatedBy, user: adminSession.user })
+        }
+      )
+    }
+  }) satisfies BetterAuthPlugin
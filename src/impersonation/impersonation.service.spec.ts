@@ -0,0 +1,105 @@
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { BETTER_AUTH } from '~/auth/auth.config'
+import { LoggerService } from '~/common/logger.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ImpersonationService, type ImpersonationSession } from './impersonation.service'
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService
+  const admin = { user: { id: 'admin-1' }, session: {} } as unknown as ImpersonationSession
+  const expiresAt = new Date('2026-01-05T10:00:00Z')
+  const mockAuth = {
+    api: {
+      startImpersonation: mock(() =>
+        Promise.resolve({
+          headers: new Headers({ 'set-cookie': 'session=impersonation' }),
+          response: { user: { id: 'user-1' }, expiresAt }
+        })
+      )
+    }
+  }
+  const mockPrismaService = {
+    user: {
+      findUnique: mock<() => Promise<unknown>>(() => Promise.resolve({ id: 'user-1' }))
+    },
+    userRole: {
+      count: mock(() => Promise.resolve(0))
+    }
+  }
+  const mockLoggerService = { warn: mock(() => {}), info: mock(() => {}) }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        { provide: BETTER_AUTH, useValue: mockAuth },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LoggerService, useValue: mockLoggerService }
+      ]
+    }).compile()
+
+    service = module.get<ImpersonationService>(ImpersonationService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve({ id: 'user-1' }))
+    mockPrismaService.userRole.count.mockImplementation(() => Promise.resolve(0))
+  })
+
+  describe('start', () => {
+    it('should sign in as the user and log who started it', async () => {
+      const result = await service.start(admin, 'user-1', new Headers())
+
+      expect(result).toMatchObject({
+        data: { user: { id: 'user-1' }, expiresAt },
+        cookies: ['session=impersonation']
+      })
+      expect(mockLoggerService.warn).toHaveBeenCalledWith('Impersonation started', {
+        action: 'startImpersonation',
+        userId: 'user-1',
+        by: 'admin-1',
+        expiresAt
+      })
+    })
+
+    it('should refuse sessions authenticated with an API key', async () => {
+      const apiKeySession = {
+        ...admin,
+        session: { apiKeyId: 'key-1' }
+      } as unknown as ImpersonationSession
+
+      const error = await service
+        .start(apiKeySession, 'user-1', new Headers())
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ForbiddenException)
+      expect(mockAuth.api.startImpersonation).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to impersonate yourself', async () => {
+      const error = await service.start(admin, 'admin-1', new Headers()).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+    })
+
+    it('should throw when the user does not exist', async () => {
+      mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve(null))
+
+      const error = await service.start(admin, 'missing', new Headers()).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(NotFoundException)
+    })
+
+    it('should refuse to impersonate an administrator', async () => {
+      mockPrismaService.userRole.count.mockImplementation(() => Promise.resolve(1))
+
+      const error = await service.start(admin, 'user-1', new Headers()).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ForbiddenException)
+      expect(mockAuth.api.startImpersonation).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException
+} from '@nestjs/common'
+import { BETTER_AUTH, type AuthUser, type BetterAuth } from '~/auth/auth.config'
+import type { AuthResult } from '~/auth/auth.service'
+import { callAuthApi } from '~/auth/callAuthApi'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { activeRoleAssignment } from '~/casl/permissions.service'
+import { RoleName } from '~/common/enums/role.enum'
+import { withCode } from '~/common/errors/errorCatalog'
+import { LoggerService } from '~/common/logger.service'
+import { PrismaService } from '~/database/prisma.service'
+
+export type ImpersonationSession = NonNullable<AuthenticatedRequest['session']>
+
+export interface ImpersonationStarted {
+  user: AuthUser
+  expiresAt: Date
+}
+
+export interface ImpersonationStopped {
+  impersonatedBy: string
+  // Null when the administrator's own session ended meanwhile: they are signed out
+  user: AuthUser | null
+}
+
+@Injectable()
+export class ImpersonationService {
+  constructor(
+    @Inject(BETTER_AUTH) private readonly auth: BetterAuth,
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService
+  ) {}
+
+  async start(
+    { user: admin, session }: ImpersonationSession,
+    userId: string,
+    requestHeaders: Headers
+  ): Promise<AuthResult<ImpersonationStarted>> {
+    // API keys are for automation, support staff sign in themselves
+    if (session.apiKeyId) {
+      throw new ForbiddenException(
+        withCode('IMPERSONATION_NOT_ALLOWED', 'Impersonation requires an interactive session')
+      )
+    }
+
+    if (userId === admin.id) {
+      throw new BadRequestException(
+        withCode('IMPERSONATION_NOT_ALLOWED', 'You cannot impersonate yourself')
+      )
+    }
+
+    await this.ensureCanBeImpersonated(userId)
+
+    const { headers, response } = await callAuthApi(() =>
+      this.auth.api.startImpersonation({
+        body: { userId },
+        headers: requestHeaders,
+        returnHeaders: true
+      })
+    )
+
+    this.logger.warn('Impersonation started', {
+      action: 'startImpersonation',
+      userId,
+      by: admin.id,
+      expiresAt: response.expiresAt
+    })
+
+    return {
+      data: { user: response.user as AuthUser, expiresAt: response.expiresAt },
+      cookies: headers.getSetCookie()
+    }
+  }
+
+  async stop(
+    { user }: ImpersonationSession,
+    requestHeaders: Headers
+  ): Promise<AuthResult<ImpersonationStopped>> {
+    const { headers, response } = await callAuthApi(() =>
+      this.auth.api.stopImpersonation({ headers: requestHeaders, returnHeaders: true })
+    )
+
+    this.logger.info('Impersonation stopped', {
+      action: 'stopImpersonation',
+      userId: user.id,
+      by: response.impersonatedBy
+    })
+
+    return {
+      data: { impersonatedBy: response.impersonatedBy, user: response.user as AuthUser | null },
+      cookies: headers.getSetCookie()
+    }
+  }
+
+  // Acting as another administrator would hand out their privileges
+  private async ensureCanBeImpersonated(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { id: true } })
+
+    if (!user) {
+      throw new NotFoundException(`User with ID "${userId}" not found`)
+    }
+
+    const adminRoles = await this.prisma.userRole.count({
+      where: { userId, role: { name: RoleName.ADMIN }, ...activeRoleAssignment() }
+    })
+
+    if (adminRoles > 0) {
+      throw new ForbiddenException(
+        withCode('IMPERSONATION_NOT_ALLOWED', 'Administrators cannot be impersonated')
+      )
+    }
+  }
+}
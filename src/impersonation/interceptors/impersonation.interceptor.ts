@@ -0,0 +1,27 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common'
+import type { Observable } from 'rxjs'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { LoggerService } from '~/common/logger.service'
+
+// Leaves a trace of every request an administrator makes in someone else's name
+@Injectable()
+export class ImpersonationInterceptor implements NestInterceptor {
+  constructor(private readonly logger: LoggerService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>()
+    const impersonatedBy = request.session?.session.impersonatedBy
+
+    if (impersonatedBy) {
+      this.logger.info('Request made while impersonating', {
+        action: 'impersonatedRequest',
+        method: request.method,
+        path: request.originalUrl,
+        userId: request.user?.id,
+        impersonatedBy
+      })
+    }
+
+    return next.handle()
+  }
+}
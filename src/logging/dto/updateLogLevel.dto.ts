@@ -0,0 +1,7 @@
+import { IsIn } from 'class-validator'
+import { LOG_LEVELS, type LogLevel } from '../logTransport.interface'
+
+export class UpdateLogLevelDto {
+  @IsIn(LOG_LEVELS)
+  level!: LogLevel
+}
@@ -0,0 +1,49 @@
+import { DEFAULT_REDACTION_POLICY, type RedactionPolicy } from '~/common/redaction/redactionPolicy'
+import {
+  LOG_LEVELS,
+  type LogEntry,
+  type LogLevel,
+  type LogTransport
+} from './logTransport.interface'
+
+export const LOG_OUTPUT = Symbol('LOG_OUTPUT')
+
+// text hands entries to Nest's Logger as before, json writes one object per line to the transports
+export type LogFormat = 'text' | 'json'
+
+export class LogOutput {
+  constructor(
+    readonly format: LogFormat,
+    private threshold: LogLevel,
+    private readonly transports: LogTransport[] = [],
+    readonly redaction: RedactionPolicy = DEFAULT_REDACTION_POLICY
+  ) {}
+
+  get level(): LogLevel {
+    return this.threshold
+  }
+
+  setLevel(level: LogLevel): void {
+    this.threshold = level
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.threshold)
+  }
+
+  write(entry: LogEntry): void {
+    this.transports.forEach(transport => transport.write(entry))
+  }
+}
+
+// LoggerService is also created with `new` outside of Nest (main.ts, the exception filter),
+// so the active output lives here rather than in the container
+let activeOutput = new LogOutput('text', 'verbose')
+
+export const getLogOutput = (): LogOutput => activeOutput
+
+export const useLogOutput = (output: LogOutput): LogOutput => {
+  activeOutput = output
+
+  return output
+}
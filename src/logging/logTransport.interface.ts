@@ -0,0 +1,16 @@
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug', 'verbose'] as const
+
+export type LogLevel = (typeof LOG_LEVELS)[number]
+
+// One line of JSON output; the sanitized caller fields sit next to the fixed keys
+export interface LogEntry {
+  timestamp: string
+  level: LogLevel
+  context: string
+  message: string
+  [field: string]: unknown
+}
+
+export interface LogTransport {
+  write(entry: LogEntry): void
+}
@@ -0,0 +1,50 @@
+import { ConfigService } from '@nestjs/config'
+import { loadRedactionPolicy } from '~/common/redaction/redaction.config'
+import { LogOutput } from './logOutput'
+import { LOG_LEVELS, type LogLevel, type LogTransport } from './logTransport.interface'
+import { MemoryLogTransport } from './transports/memory.transport'
+import { RotatingFileLogTransport } from './transports/rotatingFile.transport'
+import { StdoutLogTransport } from './transports/stdout.transport'
+
+const isLogLevel = (value: string): value is LogLevel => LOG_LEVELS.includes(value as LogLevel)
+
+// LOG_TRANSPORTS lists the json mode destinations: stdout (default), file and memory
+const createTransport = (config: ConfigService, name: string): LogTransport => {
+  switch (name) {
+    case 'stdout':
+      return new StdoutLogTransport()
+    case 'file':
+      return new RotatingFileLogTransport({
+        path: config.get<string>('LOG_FILE_PATH') ?? 'logs/app.log',
+        maxBytes: Number(config.get<string>('LOG_FILE_MAX_BYTES') ?? 10 * 1024 * 1024),
+        maxFiles: Number(config.get<string>('LOG_FILE_MAX_FILES') ?? 5)
+      })
+    case 'memory':
+      return new MemoryLogTransport()
+    default:
+      throw new Error(`Unknown LOG_TRANSPORTS entry "${name}"`)
+  }
+}
+
+// Debug and verbose entries are left out in production unless LOG_LEVEL asks for them
+export const loadLogOutput = (config: ConfigService): LogOutput => {
+  const format = config.get<string>('LOG_FORMAT') ?? 'text'
+  const isProduction = config.get<string>('NODE_ENV') === 'production'
+  const level = config.get<string>('LOG_LEVEL') ?? (isProduction ? 'info' : 'verbose')
+
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`Unknown LOG_FORMAT "${format}"`)
+  }
+
+  if (!isLogLevel(level)) {
+    throw new Error(`Unknown LOG_LEVEL "${level}"`)
+  }
+
+  const transports = (config.get<string>('LOG_TRANSPORTS') ?? 'stdout')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => createTransport(config, name))
+
+  return new LogOutput(format, level, transports, loadRedactionPolicy(config))
+}
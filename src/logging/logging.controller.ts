@@ -0,0 +1,33 @@
+import { Body, Controller, Get, Inject, Patch } from '@nestjs/common'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { UpdateLogLevelDto } from './dto/updateLogLevel.dto'
+import { LOG_OUTPUT, type LogOutput } from './logOutput'
+
+@Controller('logging')
+@RequireVerifiedEmail()
+export class LoggingController {
+  constructor(
+    @Inject(LOG_OUTPUT) private readonly output: LogOutput,
+    private readonly logger: LoggerService
+  ) {}
+
+  @Get('level')
+  @CheckPolicies(ability => ability.can('manage', 'all'))
+  getLevel() {
+    return { level: this.output.level, format: this.output.format }
+  }
+
+  // Lasts until the next restart, LOG_LEVEL sets the level the application boots with
+  @Patch('level')
+  @CheckPolicies(ability => ability.can('manage', 'all'))
+  setLevel(@Body() dto: UpdateLogLevelDto) {
+    const previousLevel = this.output.level
+
+    this.output.setLevel(dto.level)
+    this.logger.warn('Log level changed', { previousLevel, level: dto.level })
+
+    return this.getLevel()
+  }
+}
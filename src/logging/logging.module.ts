@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommonModule } from '~/common/common.module'
+import { LoggingController } from './logging.controller'
+import { LOG_OUTPUT, useLogOutput } from './logOutput'
+import { loadLogOutput } from './logging.config'
+
+@Module({
+  imports: [CommonModule],
+  controllers: [LoggingController],
+  providers: [
+    // Built from config at boot and made the output of every LoggerService
+    {
+      provide: LOG_OUTPUT,
+      useFactory: (config: ConfigService) => useLogOutput(loadLogOutput(config)),
+      inject: [ConfigService]
+    }
+  ],
+  exports: [LOG_OUTPUT]
+})
+export class LoggingModule {}
@@ -0,0 +1,41 @@
+import type { LoggerService as NestLoggerService } from '@nestjs/common'
+import { LoggerService } from '~/common/logger.service'
+import type { LogLevel } from './logTransport.interface'
+
+/**
+ * Sends Nest's own lines (route mapping, lifecycle, uncaught errors) through
+ * LoggerService so json mode output stays one object per line. Only installed
+ * in json mode: in text mode LoggerService itself writes through Nest's Logger.
+ */
+export class NestLogAdapter implements NestLoggerService {
+  log(message: unknown, ...params: unknown[]): void {
+    this.write('info', message, params)
+  }
+
+  error(message: unknown, ...params: unknown[]): void {
+    this.write('error', message, params)
+  }
+
+  warn(message: unknown, ...params: unknown[]): void {
+    this.write('warn', message, params)
+  }
+
+  debug(message: unknown, ...params: unknown[]): void {
+    this.write('debug', message, params)
+  }
+
+  verbose(message: unknown, ...params: unknown[]): void {
+    this.write('verbose', message, params)
+  }
+
+  // Nest passes the context name last, and a stack trace before it for errors
+  private write(level: LogLevel, message: unknown, params: unknown[]): void {
+    const context = typeof params.at(-1) === 'string' ? String(params.pop()) : 'Nest'
+    const details = params.filter(param => param !== undefined)
+
+    new LoggerService(context)[level](
+      typeof message === 'string' ? message : JSON.stringify(message),
+      details.length > 0 ? { details } : undefined
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import type { LogEntry, LogTransport } from '../logTransport.interface'
+
+// Test transport: keeps entries so assertions can read them instead of spying on Nest's Logger
+export class MemoryLogTransport implements LogTransport {
+  readonly entries: LogEntry[] = []
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry)
+  }
+
+  withMessage(message: string): LogEntry[] {
+    return this.entries.filter(entry => entry.message === message)
+  }
+
+  clear(): void {
+    this.entries.length = 0
+  }
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { LogEntry } from '../logTransport.interface'
+import { RotatingFileLogTransport } from './rotatingFile.transport'
+
+describe('RotatingFileLogTransport', () => {
+  let directory: string
+  let path: string
+
+  const entry = (message: string): LogEntry => ({
+    timestamp: '2025-01-01T00:00:00.000Z',
+    level: 'info',
+    context: 'Test',
+    message
+  })
+  const lineBytes = Buffer.byteLength(`${JSON.stringify(entry('entry-0'))}\n`)
+  const readLines = (file: string): string[] =>
+    readFileSync(file, 'utf8')
+      .trim()
+      .split('\n')
+      .map(line => (JSON.parse(line) as LogEntry).message)
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'logs-'))
+    path = join(directory, 'nested', 'app.log')
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should append one JSON line per entry, creating the directory', () => {
+    const transport = new RotatingFileLogTransport({ path, maxBytes: 1024, maxFiles: 2 })
+
+    transport.write(entry('entry-1'))
+    transport.write(entry('entry-2'))
+
+    expect(readLines(path)).toEqual(['entry-1', 'entry-2'])
+  })
+
+  it('should rotate once the file would exceed maxBytes and keep maxFiles old files', () => {
+    const transport = new RotatingFileLogTransport({ path, maxBytes: lineBytes * 2, maxFiles: 2 })
+
+    for (let index = 1; index <= 7; index++) {
+      transport.write(entry(`entry-${index}`))
+    }
+
+    expect(readLines(path)).toEqual(['entry-7'])
+    expect(readLines(`${path}.1`)).toEqual(['entry-5', 'entry-6'])
+    expect(readLines(`${path}.2`)).toEqual(['entry-3', 'entry-4'])
+    expect(existsSync(`${path}.3`)).toBe(false)
+  })
+
+  it('should count the size of a file left by a previous run', () => {
+    new RotatingFileLogTransport({ path, maxBytes: lineBytes * 2, maxFiles: 1 }).write(
+      entry('entry-1')
+    )
+    const transport = new RotatingFileLogTransport({ path, maxBytes: lineBytes * 2, maxFiles: 1 })
+
+    transport.write(entry('entry-2'))
+    transport.write(entry('entry-3'))
+
+    expect(readLines(`${path}.1`)).toEqual(['entry-1', 'entry-2'])
+    expect(readLines(path)).toEqual(['entry-3'])
+  })
+})
@@ -0,0 +1,62 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { LogEntry, LogTransport } from '../logTransport.interface'
+
+export interface RotatingFileOptions {
+  path: string
+  maxBytes: number
+  // Rotated files kept next to the active one, as path.1 (newest) to path.N
+  maxFiles: number
+}
+
+/**
+ * Appends entries to a file and rotates it once it would grow past maxBytes.
+ * Writes are synchronous so lines keep their order and are not lost when the
+ * process exits right after logging.
+ */
+export class RotatingFileLogTransport implements LogTransport {
+  private size?: number
+
+  constructor(private readonly options: RotatingFileOptions) {}
+
+  write(entry: LogEntry): void {
+    const line = `${JSON.stringify(entry)}\n`
+    const lineBytes = Buffer.byteLength(line)
+    const size = this.size ?? this.openFile()
+
+    if (size > 0 && size + lineBytes > this.options.maxBytes) {
+      this.rotate()
+    }
+
+    appendFileSync(this.options.path, line, 'utf8')
+    this.size = (this.size ?? 0) + lineBytes
+  }
+
+  private openFile(): number {
+    mkdirSync(dirname(this.options.path), { recursive: true })
+    this.size = existsSync(this.options.path) ? statSync(this.options.path).size : 0
+
+    return this.size
+  }
+
+  private rotate(): void {
+    const { path, maxFiles } = this.options
+
+    rmSync(`${path}.${maxFiles}`, { force: true })
+
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${path}.${index}`)) {
+        renameSync(`${path}.${index}`, `${path}.${index + 1}`)
+      }
+    }
+
+    // With no rotated files kept, the full file is simply dropped
+    if (maxFiles === 0) {
+      rmSync(path, { force: true })
+    } else {
+      renameSync(path, `${path}.1`)
+    }
+
+    this.size = 0
+  }
+}
@@ -0,0 +1,7 @@
+import type { LogEntry, LogTransport } from '../logTransport.interface'
+
+export class StdoutLogTransport implements LogTransport {
+  write(entry: LogEntry): void {
+    process.stdout.write(`${JSON.stringify(entry)}\n`)
+  }
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { MAILER, type Mailer } from './mailer.interface'
+import { FileMailer } from './transports/file.mailer'
+import { MemoryMailer } from './transports/memory.mailer'
+import { SmtpMailer } from './transports/smtp.mailer'
+
+// MAIL_TRANSPORT selects the implementation: smtp, file (default) or memory
+const createMailer = (config: ConfigService): Mailer => {
+  const transport = config.get<string>('MAIL_TRANSPORT') ?? 'file'
+
+  switch (transport) {
+    case 'smtp':
+      return new SmtpMailer({
+        host: config.getOrThrow<string>('SMTP_HOST'),
+        port: Number(config.get<string>('SMTP_PORT') ?? 587),
+        secure: config.get<string>('SMTP_SECURE') === 'true',
+        user: config.get<string>('SMTP_USER'),
+        password: config.get<string>('SMTP_PASSWORD'),
+        from: config.get<string>('MAIL_FROM') ?? 'no-reply@localhost'
+      })
+    case 'memory':
+      return new MemoryMailer()
+    case 'file':
+      return new FileMailer(config.get<string>('MAIL_FILE_DIR') ?? 'logs/mail')
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`)
+  }
+}
+
+@Module({
+  providers: [{ provide: MAILER, useFactory: createMailer, inject: [ConfigService] }],
+  exports: [MAILER]
+})
+export class MailModule {}
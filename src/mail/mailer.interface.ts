@@ -0,0 +1,12 @@
+export const MAILER = Symbol('MAILER')
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
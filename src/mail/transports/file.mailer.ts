@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { Mailer, MailMessage } from '../mailer.interface'
+
+// Development transport: every message becomes a JSON file that can be opened by hand
+export class FileMailer implements Mailer {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date()
+    const fileName = `${sentAt.getTime()}-${message.to.replace(/[^\w.@-]/g, '_')}.json`
+
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(
+      join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt }, null, 2),
+      'utf8'
+    )
+  }
+}
@@ -0,0 +1,20 @@
+import type { Mailer, MailMessage } from '../mailer.interface'
+
+// Test transport: keeps sent messages so assertions can read links and tokens back
+export class MemoryMailer implements Mailer {
+  readonly messages: MailMessage[] = []
+
+  send(message: MailMessage): Promise<void> {
+    this.messages.push(message)
+
+    return Promise.resolve()
+  }
+
+  lastMessageTo(email: string): MailMessage | undefined {
+    return this.messages.filter(message => message.to === email).at(-1)
+  }
+
+  clear(): void {
+    this.messages.length = 0
+  }
+}
@@ -0,0 +1,28 @@
+import { createTransport, type Transporter } from 'nodemailer'
+import type { Mailer, MailMessage } from '../mailer.interface'
+
+export interface SmtpMailerOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+  from: string
+}
+
+export class SmtpMailer implements Mailer {
+  private readonly transporter: Transporter
+
+  constructor(private readonly options: SmtpMailerOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.password } })
+    })
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.options.from, ...message })
+  }
+}
@@ -1,21 +1,37 @@
 import { ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
 import { NestFactory } from '@nestjs/core'
 import helmet from 'helmet'
 import { AppModule } from './app.module'
+import { validationExceptionFactory } from './common/exceptions/validationFailed.exception'
 import { HttpExceptionFilter } from './common/filters/httpException.filter'
 import { LoggerService } from './common/logger.service'
+import { REQUEST_ID_HEADER } from './common/requestContext'
+import { getLogOutput } from './logging/logOutput'
+import { NestLogAdapter } from './logging/nestLogAdapter'
 
 const bootstrap = async () => {
-  const app = await NestFactory.create(AppModule, { bufferLogs: true })
+  const app = await NestFactory.create(AppModule, {
+    bufferLogs: true,
+    // Better Auth parses its own request bodies, AuthModule re-enables parsing for other routes
+    bodyParser: false
+  })
   const logger = new LoggerService('Bootstrap')
 
+  // Buffered framework lines are flushed through the structured output too
+  if (getLogOutput().format === 'json') {
+    app.useLogger(new NestLogAdapter())
+  }
+
   // Security middleware
   app.use(helmet())
 
-  // Global exception filter
-  app.useGlobalFilters(new HttpExceptionFilter())
+  // Global exception filter; ERROR_FORMAT=legacy keeps the pre problem+json error body
+  const errorFormat = app.get(ConfigService).get<string>('ERROR_FORMAT')
+  app.useGlobalFilters(new HttpExceptionFilter(errorFormat === 'legacy' ? 'legacy' : 'problem'))
 
-  // Global validation pipe
+  // Global validation pipe; it also rejects unknown list filters and sort fields, and list
+  // queries rely on transform to reach services as DTO instances
   app.useGlobalPipes(
     new ValidationPipe({
       whitelist: true,
@@ -23,7 +39,9 @@ const bootstrap = async () => {
       transform: true,
       transformOptions: {
         enableImplicitConversion: true
-      }
+      },
+      // Reports each invalid field separately instead of a flat message list
+      exceptionFactory: validationExceptionFactory
     })
   )
 
@@ -32,7 +50,8 @@ const bootstrap = async () => {
     origin: process.env.ALLOWED_ORIGINS?.split(',') ?? ['http://localhost:3000'],
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', REQUEST_ID_HEADER],
+    exposedHeaders: [REQUEST_ID_HEADER]
   })
 
   const port = process.env.PORT ?? 3000
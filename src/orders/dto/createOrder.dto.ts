@@ -0,0 +1,45 @@
+import { Type } from 'class-transformer'
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateNested
+} from 'class-validator'
+
+export class OrderItemDto {
+  @IsString()
+  productId!: string
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  quantity!: number
+}
+
+export class CreateOrderDto {
+  // Lines for the same product are merged
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemDto)
+  items!: OrderItemDto[]
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  shippingAddress!: string
+
+  // Makes the fake payment decline the charge
+  @IsOptional()
+  @IsBoolean()
+  simulatePaymentFailure?: boolean
+}
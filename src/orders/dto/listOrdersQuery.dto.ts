@@ -0,0 +1,22 @@
+import { OrderStatus } from '@generated'
+import { Transform } from 'class-transformer'
+import { IsIn, IsOptional, IsString } from 'class-validator'
+import { Filter, Sortable } from '~/common/listQuery/listQuery.decorators'
+import { ListQueryDto } from '~/common/listQuery/listQuery.dto'
+import { toList } from '~/common/transforms/toList.transform'
+
+@Sortable('createdAt', 'total')
+export class ListOrdersQueryDto extends ListQueryDto {
+  // e.g. "PENDING,PROCESSING"
+  @Filter('in')
+  @IsOptional()
+  @Transform(toList)
+  @IsIn(Object.values(OrderStatus), { each: true })
+  status?: OrderStatus[]
+
+  // Customer who placed the order, only useful to those who can read every order
+  @Filter('eq')
+  @IsOptional()
+  @IsString()
+  userId?: string
+}
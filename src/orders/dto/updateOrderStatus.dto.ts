@@ -0,0 +1,7 @@
+import { OrderStatus } from '@generated'
+import { IsIn } from 'class-validator'
+
+export class UpdateOrderStatusDto {
+  @IsIn(Object.values(OrderStatus))
+  status!: OrderStatus
+}
@@ -0,0 +1,8 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+// The order is rolled back, stock included, when the payment is declined
+export class PaymentFailedException extends HttpException {
+  constructor(message = 'The payment was declined') {
+    super({ message, code: 'PAYMENT_DECLINED' }, HttpStatus.PAYMENT_REQUIRED)
+  }
+}
@@ -0,0 +1,31 @@
+import { ConflictException } from '@nestjs/common'
+import { describe, expect, it } from 'bun:test'
+import { OrderStatus } from '@generated'
+import { assertTransition, canTransition } from './orderStatus'
+
+describe('order status', () => {
+  it('should follow the fulfilment path', () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.PROCESSING)).toBe(true)
+    expect(canTransition(OrderStatus.PROCESSING, OrderStatus.SHIPPED)).toBe(true)
+    expect(canTransition(OrderStatus.SHIPPED, OrderStatus.DELIVERED)).toBe(true)
+  })
+
+  it('should only allow cancelling orders that have not shipped', () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.CANCELLED)).toBe(true)
+    expect(canTransition(OrderStatus.PROCESSING, OrderStatus.CANCELLED)).toBe(true)
+    expect(canTransition(OrderStatus.SHIPPED, OrderStatus.CANCELLED)).toBe(false)
+  })
+
+  it('should reject skipped, backward and final state transitions', () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.SHIPPED)).toBe(false)
+    expect(canTransition(OrderStatus.SHIPPED, OrderStatus.PROCESSING)).toBe(false)
+    expect(canTransition(OrderStatus.DELIVERED, OrderStatus.CANCELLED)).toBe(false)
+    expect(canTransition(OrderStatus.CANCELLED, OrderStatus.PENDING)).toBe(false)
+  })
+
+  it('should report illegal transitions as conflicts', () => {
+    expect(() => assertTransition(OrderStatus.DELIVERED, OrderStatus.PENDING)).toThrow(
+      ConflictException
+    )
+  })
+})
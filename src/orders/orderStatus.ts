@@ -0,0 +1,23 @@
+import { ConflictException } from '@nestjs/common'
+import { OrderStatus } from '@generated'
+import { withCode } from '~/common/errors/errorCatalog'
+
+// Statuses each status can move to; DELIVERED and CANCELLED are final
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+  PROCESSING: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  SHIPPED: [OrderStatus.DELIVERED],
+  DELIVERED: [],
+  CANCELLED: []
+}
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean =>
+  TRANSITIONS[from].includes(to)
+
+export const assertTransition = (from: OrderStatus, to: OrderStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new ConflictException(
+      withCode('ORDER_STATUS_TRANSITION_INVALID', `An order cannot go from ${from} to ${to}`)
+    )
+  }
+}
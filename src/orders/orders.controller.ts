@@ -0,0 +1,80 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query, Req } from '@nestjs/common'
+import { Session } from '@thallesp/nestjs-better-auth'
+import type { AuthSession } from '~/auth/auth.config'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { CaslAbilityFactory } from '~/casl/caslAbility.factory'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { CreateOrderDto } from './dto/createOrder.dto'
+import { ListOrdersQueryDto } from './dto/listOrdersQuery.dto'
+import { UpdateOrderStatusDto } from './dto/updateOrderStatus.dto'
+import { OrdersService } from './orders.service'
+
+@Controller('orders')
+export class OrdersController {
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly logger: LoggerService
+  ) {}
+
+  @Get()
+  @CheckPolicies(ability => ability.can('read', 'Order'))
+  async findAll(@Query() query: ListOrdersQueryDto, @Req() request: AuthenticatedRequest) {
+    return this.ordersService.findAll(
+      query,
+      await this.caslAbilityFactory.createForRequest(request)
+    )
+  }
+
+  @Get(':id')
+  @CheckPolicies(ability => ability.can('read', 'Order'))
+  async findOne(@Param('id') id: string, @Req() request: AuthenticatedRequest) {
+    return this.ordersService.findOne(id, await this.caslAbilityFactory.createForRequest(request))
+  }
+
+  @Post()
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('create', 'Order'))
+  async create(@Session() { user }: AuthSession, @Body() dto: CreateOrderDto) {
+    const order = await this.ordersService.create(user.id, dto)
+
+    this.logger.info('Order placed', {
+      action: 'createOrder',
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      total: order.total
+    })
+
+    return order
+  }
+
+  @Patch(':id/status')
+  @CheckPolicies(ability => ability.can('update', 'Order'))
+  async updateStatus(@Param('id') id: string, @Body() { status }: UpdateOrderStatusDto) {
+    const order = await this.ordersService.updateStatus(id, status)
+
+    this.logger.info('Order status changed', { action: 'updateOrderStatus', orderId: id, status })
+
+    return order
+  }
+
+  // Cancels the order and puts its items back in stock; orders are never deleted
+  @Delete(':id')
+  @CheckPolicies(ability => ability.can('delete', 'Order'))
+  async cancel(@Param('id') id: string, @Req() request: AuthenticatedRequest) {
+    const order = await this.ordersService.cancel(
+      id,
+      await this.caslAbilityFactory.createForRequest(request)
+    )
+
+    this.logger.warn('Order cancelled', {
+      action: 'cancelOrder',
+      orderId: id,
+      moderated: order.userId !== request.user?.id
+    })
+
+    return order
+  }
+}
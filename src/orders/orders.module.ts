@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { CaslModule } from '~/casl/casl.module'
+import { CommonModule } from '~/common/common.module'
+import { OrdersController } from './orders.controller'
+import { OrdersService } from './orders.service'
+import { PaymentService } from './payment.service'
+
+@Module({
+  imports: [CaslModule, CommonModule],
+  controllers: [OrdersController],
+  providers: [OrdersService, PaymentService],
+  exports: [OrdersService]
+})
+export class OrdersModule {}
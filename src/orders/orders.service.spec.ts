@@ -0,0 +1,190 @@
+import { createMongoAbility } from '@casl/ability'
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { OrderStatus } from '@generated'
+import type { AppAbility } from '~/casl/casl.types'
+import { ListQueryService } from '~/common/listQuery/listQuery.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ListOrdersQueryDto } from './dto/listOrdersQuery.dto'
+import { PaymentFailedException } from './exceptions/paymentFailed.exception'
+import { OrdersService } from './orders.service'
+import { PaymentService } from './payment.service'
+
+describe('OrdersService', () => {
+  let service: OrdersService
+  const products = [
+    { id: 'laptop', name: 'Laptop', price: 100000 },
+    { id: 'mouse', name: 'Mouse', price: 2500 }
+  ]
+  const buildOrder = (status: OrderStatus, userId = 'user-1') => ({
+    id: 'order-1',
+    userId,
+    status,
+    items: [
+      { id: 'item-1', productId: 'laptop', productName: 'Laptop', unitPrice: 100000, quantity: 2 }
+    ]
+  })
+  // Same rules as the seeded USER role, once interpolated for user-1
+  const userAbility = createMongoAbility<AppAbility>([
+    { action: ['create', 'read'], subject: 'Order', conditions: { userId: 'user-1' } },
+    { action: 'delete', subject: 'Order', conditions: { userId: 'user-1', status: 'PENDING' } }
+  ])
+  const mockPrismaService = {
+    product: {
+      findMany: mock(() => Promise.resolve(products)),
+      updateMany: mock(() => Promise.resolve({ count: 1 })),
+      update: mock(() => Promise.resolve({}))
+    },
+    order: {
+      count: mock(() => Promise.resolve(0)),
+      findMany: mock(() => Promise.resolve([])),
+      findUnique: mock(() => Promise.resolve(buildOrder(OrderStatus.PENDING))),
+      findUniqueOrThrow: mock(() => Promise.resolve(buildOrder(OrderStatus.CANCELLED))),
+      create: mock(({ data }: { data: object }) => Promise.resolve({ id: 'order-1', ...data })),
+      updateMany: mock(() => Promise.resolve({ count: 1 }))
+    },
+    // Interactive transactions run against the same delegates
+    $transaction: (operations: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)) =>
+      typeof operations === 'function' ? operations(mockPrismaService) : Promise.all(operations)
+  }
+  const mockPaymentService = {
+    charge: mock(() => Promise.resolve('PAY-1'))
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PaymentService, useValue: mockPaymentService },
+        ListQueryService
+      ]
+    }).compile()
+
+    service = module.get<OrdersService>(OrdersService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+  })
+
+  describe('findAll', () => {
+    it('should only list the orders the caller can read', async () => {
+      await service.findAll(new ListOrdersQueryDto(), userAbility)
+
+      expect(mockPrismaService.order.count).toHaveBeenCalledWith({
+        where: { AND: [{ OR: [{ userId: 'user-1' }] }] }
+      })
+    })
+  })
+
+  describe('create', () => {
+    const dto = {
+      items: [
+        { productId: 'laptop', quantity: 1 },
+        { productId: 'mouse', quantity: 2 },
+        { productId: 'laptop', quantity: 1 }
+      ],
+      shippingAddress: '1 Main Street'
+    }
+
+    it('should snapshot prices and decrement stock only while enough is left', async () => {
+      const order = await service.create('user-1', dto)
+
+      expect(mockPrismaService.product.updateMany).toHaveBeenCalledWith({
+        where: { id: 'laptop', stock: { gte: 2 } },
+        data: { stock: { decrement: 2 } }
+      })
+      expect(mockPaymentService.charge).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 205000 })
+      )
+      expect(order).toMatchObject({
+        userId: 'user-1',
+        total: 205000,
+        paymentReference: 'PAY-1',
+        items: {
+          create: [
+            { productId: 'laptop', productName: 'Laptop', unitPrice: 100000, quantity: 2 },
+            { productId: 'mouse', productName: 'Mouse', unitPrice: 2500, quantity: 2 }
+          ]
+        }
+      })
+    })
+
+    it('should reject products that are missing or inactive', async () => {
+      mockPrismaService.product.findMany.mockResolvedValueOnce([products[0]])
+
+      const error = await service.create('user-1', dto).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+      expect(mockPrismaService.product.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should not charge when a product runs out of stock', async () => {
+      mockPrismaService.product.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const error = await service.create('user-1', dto).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPaymentService.charge).not.toHaveBeenCalled()
+    })
+
+    it('should not create the order when the payment is declined', async () => {
+      mockPaymentService.charge.mockRejectedValueOnce(new PaymentFailedException())
+
+      const error = await service.create('user-1', dto).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(PaymentFailedException)
+      expect(mockPrismaService.order.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('status changes', () => {
+    it('should reject illegal transitions with a conflict', async () => {
+      const error = await service
+        .updateStatus('order-1', OrderStatus.DELIVERED)
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPrismaService.order.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should detect a concurrent status change', async () => {
+      mockPrismaService.order.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const error = await service
+        .updateStatus('order-1', OrderStatus.PROCESSING)
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+    })
+
+    it('should put the items back in stock when cancelling', async () => {
+      await service.cancel('order-1', userAbility)
+
+      expect(mockPrismaService.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', status: OrderStatus.PENDING },
+        data: { status: OrderStatus.CANCELLED }
+      })
+      expect(mockPrismaService.product.update).toHaveBeenCalledWith({
+        where: { id: 'laptop' },
+        data: { stock: { increment: 2 } }
+      })
+    })
+
+    it('should not let customers cancel an order being processed', () => {
+      mockPrismaService.order.findUnique.mockResolvedValueOnce(buildOrder(OrderStatus.PROCESSING))
+
+      expect(service.cancel('order-1', userAbility)).rejects.toThrow(ForbiddenException)
+    })
+
+    it("should not let customers cancel someone else's order", () => {
+      mockPrismaService.order.findUnique.mockResolvedValueOnce(
+        buildOrder(OrderStatus.PENDING, 'user-2')
+      )
+
+      expect(service.cancel('order-1', userAbility)).rejects.toThrow(ForbiddenException)
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import { subject } from '@casl/ability'
+import { randomBytes } from 'node:crypto'
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException
+} from '@nestjs/common'
+import { OrderStatus, type Prisma } from '@generated'
+import { accessibleWhere } from '~/casl/accessibleWhere'
+import type { AppAbility } from '~/casl/casl.types'
+import { withCode } from '~/common/errors/errorCatalog'
+import { ListQueryService, type Page } from '~/common/listQuery/listQuery.service'
+import { PrismaService } from '~/database/prisma.service'
+import { CreateOrderDto, OrderItemDto } from './dto/createOrder.dto'
+import { ListOrdersQueryDto } from './dto/listOrdersQuery.dto'
+import { assertTransition } from './orderStatus'
+import { PaymentService } from './payment.service'
+
+const orderInclude = {
+  items: {
+    select: { id: true, productId: true, productName: true, unitPrice: true, quantity: true }
+  }
+} satisfies Prisma.OrderInclude
+
+export type OrderWithItems = Prisma.OrderGetPayload<{ include: typeof orderInclude }>
+
+// e.g. ORD-20260202-4F9A1C
+const generateOrderNumber = (): string =>
+  `ORD-${new Date().toISOString().slice(0, 10).replaceAll('-', '')}-${randomBytes(3).toString('hex').toUpperCase()}`
+
+// Quantities per product, in the order the products were first listed
+const mergeItems = (items: OrderItemDto[]): Map<string, number> =>
+  items.reduce(
+    (quantities, { productId, quantity }) =>
+      quantities.set(productId, (quantities.get(productId) ?? 0) + quantity),
+    new Map<string, number>()
+  )
+
+@Injectable()
+export class OrdersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly listQueryService: ListQueryService,
+    private readonly paymentService: PaymentService
+  ) {}
+
+  // Newest first by default; customers only get their own orders through their rule conditions
+  async findAll(query: ListOrdersQueryDto, ability: AppAbility): Promise<Page<OrderWithItems>> {
+    const list = await this.listQueryService.prepare<
+      Prisma.OrderWhereInput,
+      Prisma.OrderOrderByWithRelationInput
+    >(query, {
+      defaultSort: '-createdAt',
+      where: accessibleWhere(ability, 'read', 'Order') as Prisma.OrderWhereInput
+    })
+
+    const [total, orders] = await this.prisma.$transaction([
+      this.prisma.order.count({ where: list.where }),
+      this.prisma.order.findMany({ ...list.args, include: orderInclude })
+    ])
+
+    return list.toPage(orders, total)
+  }
+
+  // Orders the ability cannot read are reported as missing, so their ids do not leak
+  async findOne(id: string, ability: AppAbility): Promise<OrderWithItems> {
+    const order = await this.prisma.order.findFirst({
+      where: { AND: [{ id }, accessibleWhere(ability, 'read', 'Order') as Prisma.OrderWhereInput] },
+      include: orderInclude
+    })
+
+    if (!order) {
+      throw new NotFoundException(`Order "${id}" not found`)
+    }
+
+    return order
+  }
+
+  /**
+   * Places the order in a single transaction: each stock decrement only applies
+   * while enough stock is left, so concurrent orders cannot oversell, and a
+   * declined payment rolls the decrements back with the rest.
+   */
+  async create(userId: string, dto: CreateOrderDto): Promise<OrderWithItems> {
+    const quantities = mergeItems(dto.items)
+
+    return this.prisma.$transaction(async tx => {
+      const products = await tx.product.findMany({
+        where: { id: { in: [...quantities.keys()] }, isActive: true }
+      })
+      // Name and price are copied, later catalog changes leave the order untouched
+      const items = [...quantities].map(([productId, quantity]) => {
+        const product = products.find(({ id }) => id === productId)
+
+        if (!product) {
+          throw new BadRequestException(
+            withCode('PRODUCT_UNAVAILABLE', `Product "${productId}" is not available`)
+          )
+        }
+
+        return { productId, productName: product.name, unitPrice: product.price, quantity }
+      })
+
+      for (const { productId, productName, quantity } of items) {
+        const { count } = await tx.product.updateMany({
+          where: { id: productId, stock: { gte: quantity } },
+          data: { stock: { decrement: quantity } }
+        })
+
+        if (count === 0) {
+          throw new ConflictException(
+            withCode('INSUFFICIENT_STOCK', `Not enough stock left for "${productName}"`)
+          )
+        }
+      }
+
+      const orderNumber = generateOrderNumber()
+      const total = items.reduce((sum, { unitPrice, quantity }) => sum + unitPrice * quantity, 0)
+      const paymentReference = await this.paymentService.charge({
+        orderNumber,
+        amount: total,
+        simulateFailure: dto.simulatePaymentFailure
+      })
+
+      return tx.order.create({
+        data: {
+          orderNumber,
+          userId,
+          total,
+          shippingAddress: dto.shippingAddress,
+          paymentReference,
+          items: { create: items }
+        },
+        include: orderInclude
+      })
+    })
+  }
+
+  async updateStatus(id: string, status: OrderStatus): Promise<OrderWithItems> {
+    return this.transition(await this.findOrderOrThrow(id), status)
+  }
+
+  // Customers may only cancel while their rule conditions match (their own pending orders)
+  async cancel(id: string, ability: AppAbility): Promise<OrderWithItems> {
+    const order = await this.findOrderOrThrow(id)
+
+    if (ability.cannot('delete', subject('Order', { ...order }))) {
+      throw new ForbiddenException(
+        withCode('PERMISSION_DENIED', 'You can only cancel your own pending orders')
+      )
+    }
+
+    return this.transition(order, OrderStatus.CANCELLED)
+  }
+
+  private async transition(order: OrderWithItems, status: OrderStatus): Promise<OrderWithItems> {
+    assertTransition(order.status, status)
+
+    return this.prisma.$transaction(async tx => {
+      // Only applies if nobody changed the status since the order was read
+      const { count } = await tx.order.updateMany({
+        where: { id: order.id, status: order.status },
+        data: { status }
+      })
+
+      if (count === 0) {
+        throw new ConflictException(
+          withCode('ORDER_CHANGED', 'The order status changed in the meantime, reload it')
+        )
+      }
+
+      if (status === OrderStatus.CANCELLED) {
+        for (const { productId, quantity } of order.items) {
+          await tx.product.update({
+            where: { id: productId },
+            data: { stock: { increment: quantity } }
+          })
+        }
+      }
+
+      return tx.order.findUniqueOrThrow({ where: { id: order.id }, include: orderInclude })
+    })
+  }
+
+  private async findOrderOrThrow(id: string): Promise<OrderWithItems> {
+    const order = await this.prisma.order.findUnique({ where: { id }, include: orderInclude })
+
+    if (!order) {
+      throw new NotFoundException(`Order "${id}" not found`)
+    }
+
+    return order
+  }
+}
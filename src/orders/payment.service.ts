@@ -0,0 +1,26 @@
+import { randomBytes } from 'node:crypto'
+import { Injectable } from '@nestjs/common'
+import { PaymentFailedException } from './exceptions/paymentFailed.exception'
+
+export interface PaymentRequest {
+  orderNumber: string
+  // In cents
+  amount: number
+  // Lets clients and tests exercise the declined payment path
+  simulateFailure?: boolean
+}
+
+/**
+ * Stand-in for a payment provider: every charge succeeds unless a failure is
+ * requested, and no money ever moves.
+ */
+@Injectable()
+export class PaymentService {
+  charge({ simulateFailure }: PaymentRequest): Promise<string> {
+    if (simulateFailure) {
+      return Promise.reject(new PaymentFailedException())
+    }
+
+    return Promise.resolve(`PAY-${randomBytes(8).toString('hex').toUpperCase()}`)
+  }
+}
@@ -0,0 +1,37 @@
+import { IsBoolean, IsInt, IsOptional, IsString, Matches, MaxLength, Min } from 'class-validator'
+import { SLUG_PATTERN } from '~/common/slug'
+
+export class CreateProductDto {
+  @IsString()
+  @MaxLength(200)
+  name!: string
+
+  // Derived from the name when omitted
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  @Matches(SLUG_PATTERN, { message: 'slug must be lowercase words separated by dashes' })
+  slug?: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  description?: string
+
+  // In cents, e.g. 1999 for 19.99
+  @IsInt()
+  @Min(0)
+  price!: number
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  stock?: number
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean
+
+  @IsString()
+  categoryId!: string
+}
@@ -0,0 +1,63 @@
+import { Transform, Type } from 'class-transformer'
+import { IsBoolean, IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator'
+import { toBoolean } from '~/common/transforms/toBoolean.transform'
+
+export class ListProductsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number
+
+  // Id of the last product of the previous page; takes precedence over page
+  @IsOptional()
+  @IsString()
+  cursor?: string
+
+  // Category id or slug, its subcategories included
+  @IsOptional()
+  @IsString()
+  category?: string
+
+  // Substring of the product name
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string
+
+  // Price bounds in cents, inclusive
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minPrice?: number
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxPrice?: number
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  inStock?: boolean
+
+  // Only honoured for catalog managers, everyone else only sees active products
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  isActive?: boolean
+
+  // Sort direction on createdAt
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc'
+}
@@ -0,0 +1,40 @@
+import { IsBoolean, IsInt, IsOptional, IsString, Matches, MaxLength, Min } from 'class-validator'
+import { SLUG_PATTERN } from '~/common/slug'
+
+export class UpdateProductDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string
+
+  // Not derived again when the name changes, so existing links keep working
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  @Matches(SLUG_PATTERN, { message: 'slug must be lowercase words separated by dashes' })
+  slug?: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  description?: string
+
+  // In cents
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  price?: number
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  stock?: number
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean
+
+  @IsOptional()
+  @IsString()
+  categoryId?: string
+}
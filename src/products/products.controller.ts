@@ -0,0 +1,80 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query, Req } from '@nestjs/common'
+import { AllowAnonymous } from '@thallesp/nestjs-better-auth'
+import { AllowApiKey } from '~/apiKeys/decorators/allowApiKey.decorator'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { CaslAbilityFactory } from '~/casl/caslAbility.factory'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { CreateProductDto } from './dto/createProduct.dto'
+import { ListProductsQueryDto } from './dto/listProductsQuery.dto'
+import { UpdateProductDto } from './dto/updateProduct.dto'
+import { type CatalogVisibility, ProductsService } from './products.service'
+
+@Controller('products')
+export class ProductsController {
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly logger: LoggerService
+  ) {}
+
+  @Get()
+  @AllowAnonymous()
+  @AllowApiKey()
+  async findAll(@Query() query: ListProductsQueryDto, @Req() request: AuthenticatedRequest) {
+    return this.productsService.findAll(query, await this.visibilityFor(request))
+  }
+
+  // Accepts the id or the slug
+  @Get(':idOrSlug')
+  @AllowAnonymous()
+  @AllowApiKey()
+  async findOne(@Param('idOrSlug') idOrSlug: string, @Req() request: AuthenticatedRequest) {
+    return this.productsService.findOne(idOrSlug, await this.visibilityFor(request))
+  }
+
+  @Post()
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('create', 'Product'))
+  async create(@Body() dto: CreateProductDto) {
+    const product = await this.productsService.create(dto)
+
+    this.logger.info('Product created', {
+      action: 'createProduct',
+      productId: product.id,
+      slug: product.slug
+    })
+
+    return product
+  }
+
+  @Patch(':id')
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('update', 'Product'))
+  async update(@Param('id') id: string, @Body() dto: UpdateProductDto) {
+    const product = await this.productsService.update(id, dto)
+
+    this.logger.info('Product updated', { action: 'updateProduct', productId: id })
+
+    return product
+  }
+
+  @Delete(':id')
+  @RequireVerifiedEmail()
+  @CheckPolicies(ability => ability.can('delete', 'Product'))
+  async remove(@Param('id') id: string) {
+    const product = await this.productsService.remove(id)
+
+    this.logger.warn('Product deleted', { action: 'deleteProduct', productId: id })
+
+    return product
+  }
+
+  // Public routes carry the session when there is one, so managers can review drafts
+  private async visibilityFor(request: AuthenticatedRequest): Promise<CatalogVisibility> {
+    const ability = await this.caslAbilityFactory.createForRequest(request)
+
+    return { includeInactive: ability.can('update', 'Product') }
+  }
+}
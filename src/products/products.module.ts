@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { CaslModule } from '~/casl/casl.module'
+import { CategoriesModule } from '~/categories/categories.module'
+import { CommonModule } from '~/common/common.module'
+import { ProductsController } from './products.controller'
+import { ProductsService } from './products.service'
+
+@Module({
+  imports: [CaslModule, CategoriesModule, CommonModule],
+  controllers: [ProductsController],
+  providers: [ProductsService],
+  exports: [ProductsService]
+})
+export class ProductsModule {}
@@ -0,0 +1,153 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { CategoriesService } from '~/categories/categories.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ProductsService } from './products.service'
+
+describe('ProductsService', () => {
+  let service: ProductsService
+  const mockPrismaService = {
+    product: {
+      count: mock(() => Promise.resolve(0)),
+      findMany: mock(() => Promise.resolve([])),
+      findFirst: mock<() => Promise<unknown>>(() => Promise.resolve(null)),
+      findUnique: mock<() => Promise<unknown>>(() => Promise.resolve(null)),
+      create: mock(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'product-1', ...data })
+      )
+    },
+    category: {
+      findUnique: mock<() => Promise<unknown>>(() => Promise.resolve({ id: 'audio' }))
+    },
+    orderItem: {
+      count: mock(() => Promise.resolve(0))
+    },
+    comment: {
+      groupBy: mock<() => Promise<unknown>>(() => Promise.resolve([]))
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const mockCategoriesService = {
+    findSubtreeIds: mock(() => Promise.resolve(['electronics', 'audio']))
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: CategoriesService, useValue: mockCategoriesService }
+      ]
+    }).compile()
+
+    service = module.get<ProductsService>(ProductsService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.category.findUnique.mockImplementation(() => Promise.resolve({ id: 'audio' }))
+  })
+
+  describe('findAll', () => {
+    it('should only list active products for the public, whatever the query says', async () => {
+      await service.findAll({ isActive: false }, { includeInactive: false })
+
+      expect(mockPrismaService.product.count).toHaveBeenCalledWith({ where: { isActive: true } })
+    })
+
+    it('should let catalog managers filter on the active flag', async () => {
+      await service.findAll({ isActive: false }, { includeInactive: true })
+
+      expect(mockPrismaService.product.count).toHaveBeenCalledWith({ where: { isActive: false } })
+    })
+
+    it('should combine category subtree, price range and stock filters', async () => {
+      await service.findAll(
+        { category: 'electronics', minPrice: 1000, maxPrice: 5000, inStock: true },
+        { includeInactive: true }
+      )
+
+      expect(mockCategoriesService.findSubtreeIds).toHaveBeenCalledWith('electronics')
+      expect(mockPrismaService.product.count).toHaveBeenCalledWith({
+        where: {
+          categoryId: { in: ['electronics', 'audio'] },
+          price: { gte: 1000, lte: 5000 },
+          stock: { gt: 0 }
+        }
+      })
+    })
+  })
+
+  describe('findOne', () => {
+    it('should report hidden products as missing', async () => {
+      const error = await service
+        .findOne('prototype', { includeInactive: false })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(NotFoundException)
+      expect(mockPrismaService.product.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { OR: [{ id: 'prototype' }, { slug: 'prototype' }], isActive: true }
+        }) as Record<string, unknown>
+      )
+    })
+
+    it('should expose the average rating and the number of ratings', async () => {
+      mockPrismaService.product.findFirst.mockResolvedValueOnce({ id: 'product-1' })
+      mockPrismaService.comment.groupBy.mockResolvedValueOnce([
+        { productId: 'product-1', _avg: { rating: 11 / 3 }, _count: { rating: 3 } }
+      ])
+
+      const product = await service.findOne('product-1', { includeInactive: false })
+
+      expect(product.rating).toEqual({ average: 3.67, count: 3 })
+      expect(mockPrismaService.comment.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { productId: { in: ['product-1'] }, rating: { not: null } }
+        }) as Record<string, unknown>
+      )
+    })
+
+    it('should report products without ratings with a null average', async () => {
+      mockPrismaService.product.findFirst.mockResolvedValueOnce({ id: 'product-1' })
+
+      const product = await service.findOne('product-1', { includeInactive: false })
+
+      expect(product.rating).toEqual({ average: null, count: 0 })
+    })
+  })
+
+  describe('create', () => {
+    it('should derive the slug from the name', async () => {
+      const product = await service.create({
+        name: 'Laptop Pro 15"',
+        price: 129999,
+        categoryId: 'audio'
+      })
+
+      expect(product).toMatchObject({ slug: 'laptop-pro-15', price: 129999 })
+    })
+
+    it('should reject an unknown category', async () => {
+      mockPrismaService.category.findUnique.mockImplementation(() => Promise.resolve(null))
+
+      const error = await service
+        .create({ name: 'Laptop', price: 100, categoryId: 'missing' })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+    })
+  })
+
+  describe('remove', () => {
+    it('should keep products that appear in orders', async () => {
+      mockPrismaService.product.findUnique.mockResolvedValueOnce({ id: 'laptop', name: 'Laptop' })
+      mockPrismaService.orderItem.count.mockResolvedValueOnce(3)
+
+      const error = await service.remove('laptop').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+    })
+  })
+})
@@ -0,0 +1,227 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException
+} from '@nestjs/common'
+import type { Prisma, Product } from '@generated'
+import { CategoriesService } from '~/categories/categories.service'
+import { withCode } from '~/common/errors/errorCatalog'
+import { slugify } from '~/common/slug'
+import { PrismaService } from '~/database/prisma.service'
+import { CreateProductDto } from './dto/createProduct.dto'
+import { ListProductsQueryDto } from './dto/listProductsQuery.dto'
+import { UpdateProductDto } from './dto/updateProduct.dto'
+
+const DEFAULT_PAGE_SIZE = 20
+
+const productInclude = {
+  category: { select: { id: true, name: true, slug: true } }
+} satisfies Prisma.ProductInclude
+
+export type ProductWithCategory = Prisma.ProductGetPayload<{ include: typeof productInclude }>
+
+// Aggregated from the rated comments; average is null until the first rating
+export interface ProductRating {
+  average: number | null
+  count: number
+}
+
+export type RatedProduct = ProductWithCategory & { rating: ProductRating }
+
+export interface PaginatedProducts {
+  data: RatedProduct[]
+  meta: {
+    total: number
+    limit: number
+    page: number | null
+    nextCursor: string | null
+  }
+}
+
+// Catalog managers also see inactive products
+export interface CatalogVisibility {
+  includeInactive: boolean
+}
+
+@Injectable()
+export class ProductsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly categoriesService: CategoriesService
+  ) {}
+
+  /**
+   * Lists products newest first by default, with the same offset and cursor
+   * pagination as the users list.
+   */
+  async findAll(
+    query: ListProductsQueryDto,
+    { includeInactive }: CatalogVisibility
+  ): Promise<PaginatedProducts> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE
+    const order = query.order ?? 'desc'
+    const categoryIds = query.category
+      ? await this.categoriesService.findSubtreeIds(query.category)
+      : undefined
+    const isActive = includeInactive ? query.isActive : true
+    const where: Prisma.ProductWhereInput = {
+      ...(isActive !== undefined && { isActive }),
+      ...(categoryIds && { categoryId: { in: categoryIds } }),
+      ...(query.search && { name: { contains: query.search } }),
+      ...((query.minPrice !== undefined || query.maxPrice !== undefined) && {
+        price: { gte: query.minPrice, lte: query.maxPrice }
+      }),
+      ...(query.inStock !== undefined && { stock: query.inStock ? { gt: 0 } : 0 })
+    }
+    const pagination: Pick<Prisma.ProductFindManyArgs, 'cursor' | 'skip'> = query.cursor
+      ? { cursor: { id: query.cursor }, skip: 1 }
+      : { skip: ((query.page ?? 1) - 1) * limit }
+
+    // One extra row tells whether another page exists; id breaks createdAt ties
+    const [total, products] = await this.prisma.$transaction([
+      this.prisma.product.count({ where }),
+      this.prisma.product.findMany({
+        where,
+        orderBy: [{ createdAt: order }, { id: order }],
+        take: limit + 1,
+        include: productInclude,
+        ...pagination
+      })
+    ])
+    const pageProducts = products.slice(0, limit)
+    const hasMore = products.length > limit
+
+    return {
+      data: await this.withRatings(pageProducts),
+      meta: {
+        total,
+        limit,
+        page: query.cursor ? null : (query.page ?? 1),
+        nextCursor: hasMore ? (pageProducts.at(-1)?.id ?? null) : null
+      }
+    }
+  }
+
+  // Inactive products are reported as missing to everyone who cannot manage them
+  async findOne(idOrSlug: string, { includeInactive }: CatalogVisibility): Promise<RatedProduct> {
+    const product = await this.prisma.product.findFirst({
+      where: {
+        OR: [{ id: idOrSlug }, { slug: idOrSlug }],
+        ...(!includeInactive && { isActive: true })
+      },
+      include: productInclude
+    })
+
+    if (!product) {
+      throw new NotFoundException(`Product "${idOrSlug}" not found`)
+    }
+
+    const [rated] = await this.withRatings([product])
+
+    return rated
+  }
+
+  async create(dto: CreateProductDto): Promise<ProductWithCategory> {
+    const slug = dto.slug ?? slugify(dto.name)
+
+    await this.ensureSlugIsAvailable(slug)
+    await this.ensureCategoryExists(dto.categoryId)
+
+    return this.prisma.product.create({ data: { ...dto, slug }, include: productInclude })
+  }
+
+  async update(id: string, dto: UpdateProductDto): Promise<ProductWithCategory> {
+    const product = await this.findProductOrThrow(id)
+
+    if (dto.slug && dto.slug !== product.slug) {
+      await this.ensureSlugIsAvailable(dto.slug)
+    }
+
+    if (dto.categoryId && dto.categoryId !== product.categoryId) {
+      await this.ensureCategoryExists(dto.categoryId)
+    }
+
+    return this.prisma.product.update({ where: { id }, data: dto, include: productInclude })
+  }
+
+  async remove(id: string): Promise<Product> {
+    const product = await this.findProductOrThrow(id)
+    const orderItems = await this.prisma.orderItem.count({ where: { productId: id } })
+
+    // Order items keep pointing at the product they snapshot
+    if (orderItems > 0) {
+      throw new ConflictException(
+        withCode(
+          'PRODUCT_IN_USE',
+          `Product "${product.name}" appears in ${orderItems} orders, deactivate it instead`
+        )
+      )
+    }
+
+    return this.prisma.product.delete({ where: { id } })
+  }
+
+  // One grouped query for the whole page rather than one per product
+  private async withRatings(products: ProductWithCategory[]): Promise<RatedProduct[]> {
+    const ratings = await this.prisma.comment.groupBy({
+      by: ['productId'],
+      where: { productId: { in: products.map(({ id }) => id) }, rating: { not: null } },
+      _avg: { rating: true },
+      _count: { rating: true }
+    })
+    const ratingsByProduct = new Map(
+      ratings.map(({ productId, _avg, _count }) => [
+        productId,
+        {
+          average: _avg.rating === null ? null : Math.round(_avg.rating * 100) / 100,
+          count: _count.rating
+        }
+      ])
+    )
+
+    return products.map(product => ({
+      ...product,
+      rating: ratingsByProduct.get(product.id) ?? { average: null, count: 0 }
+    }))
+  }
+
+  private async findProductOrThrow(id: string): Promise<Product> {
+    const product = await this.prisma.product.findUnique({ where: { id } })
+
+    if (!product) {
+      throw new NotFoundException(`Product "${id}" not found`)
+    }
+
+    return product
+  }
+
+  private async ensureSlugIsAvailable(slug: string): Promise<void> {
+    if (!slug) {
+      throw new BadRequestException(
+        withCode('SLUG_REQUIRED', 'A slug cannot be derived from this name, provide one')
+      )
+    }
+
+    const existing = await this.prisma.product.findUnique({ where: { slug } })
+
+    if (existing) {
+      throw new ConflictException(
+        withCode('PRODUCT_SLUG_TAKEN', `Product slug "${slug}" is already in use`)
+      )
+    }
+  }
+
+  private async ensureCategoryExists(categoryId: string): Promise<void> {
+    const category = await this.prisma.category.findUnique({
+      where: { id: categoryId },
+      select: { id: true }
+    })
+
+    if (!category) {
+      throw new BadRequestException(
+        withCode('PRODUCT_CATEGORY_INVALID', `Category "${categoryId}" not found`)
+      )
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common'
+
+export type RateLimitPolicy = 'default' | 'auth'
+
+export const RATE_LIMIT_POLICY_KEY = 'rate_limit_policy'
+
+// Routes without this decorator use the default per-IP policy
+export const RateLimit = (policy: RateLimitPolicy) => SetMetadata(RATE_LIMIT_POLICY_KEY, policy)
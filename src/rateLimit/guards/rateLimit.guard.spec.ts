@@ -0,0 +1,87 @@
+import { ExecutionContext } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Reflector } from '@nestjs/core'
+import { describe, expect, it } from 'bun:test'
+import { TooManyRequestsException } from '~/common/exceptions/tooManyRequests.exception'
+import type { RateLimitPolicy } from '../decorators/rateLimit.decorator'
+import { MemoryRateLimitStore } from '../stores/memory.store'
+import { RateLimitGuard } from './rateLimit.guard'
+
+describe('RateLimitGuard', () => {
+  const buildContext = (ip: string, body?: unknown): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ ip, body }) })
+    }) as unknown as ExecutionContext
+
+  const buildGuard = (policy?: RateLimitPolicy, enabled = true): RateLimitGuard => {
+    const reflector = { getAllAndOverride: () => policy } as unknown as Reflector
+
+    return new RateLimitGuard(
+      reflector,
+      new MemoryRateLimitStore(),
+      new ConfigService({
+        RATE_LIMIT_ENABLED: String(enabled),
+        RATE_LIMIT_MAX: '2',
+        AUTH_RATE_LIMIT_IP_MAX: '3',
+        AUTH_RATE_LIMIT_ACCOUNT_MAX: '1'
+      })
+    )
+  }
+
+  it('should throttle an IP past the default limit', async () => {
+    const guard = buildGuard()
+
+    expect(await guard.canActivate(buildContext('10.0.0.1'))).toBe(true)
+    expect(await guard.canActivate(buildContext('10.0.0.1'))).toBe(true)
+
+    const error = await guard.canActivate(buildContext('10.0.0.1')).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(TooManyRequestsException)
+    expect((error as TooManyRequestsException).retryAfterSeconds).toBeGreaterThan(0)
+  })
+
+  it('should count every IP separately', async () => {
+    const guard = buildGuard()
+
+    await guard.canActivate(buildContext('10.0.0.1'))
+    await guard.canActivate(buildContext('10.0.0.1'))
+
+    expect(await guard.canActivate(buildContext('10.0.0.2'))).toBe(true)
+  })
+
+  it('should throttle an account across IPs on auth routes', async () => {
+    const guard = buildGuard('auth')
+
+    expect(await guard.canActivate(buildContext('10.0.0.1', { email: 'a@example.com' }))).toBe(true)
+
+    const error = await guard
+      .canActivate(buildContext('10.0.0.2', { email: 'A@Example.com ' }))
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(TooManyRequestsException)
+  })
+
+  it('should apply the auth IP limit to requests without an email', async () => {
+    const guard = buildGuard('auth')
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect(await guard.canActivate(buildContext('10.0.0.1', { token: 'x' }))).toBe(true)
+    }
+
+    const error = await guard
+      .canActivate(buildContext('10.0.0.1', { token: 'x' }))
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(TooManyRequestsException)
+  })
+
+  it('should let everything through when disabled', async () => {
+    const guard = buildGuard(undefined, false)
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(await guard.canActivate(buildContext('10.0.0.1'))).toBe(true)
+    }
+  })
+})
@@ -0,0 +1,75 @@
+import { CanActivate, ExecutionContext, Inject, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Reflector } from '@nestjs/core'
+import type { Request } from 'express'
+import { TooManyRequestsException } from '~/common/exceptions/tooManyRequests.exception'
+import { RATE_LIMIT_POLICY_KEY, type RateLimitPolicy } from '../decorators/rateLimit.decorator'
+import {
+  loadRateLimitOptions,
+  type RateLimitOptions,
+  type RateLimitRule
+} from '../rateLimit.config'
+import { RATE_LIMIT_STORE, type RateLimitStore } from '../rateLimit.store'
+
+interface RateLimitCounter {
+  key: string
+  rule: RateLimitRule
+}
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly options: RateLimitOptions
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+    config: ConfigService
+  ) {
+    this.options = loadRateLimitOptions(config)
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    // Guard: throttling disabled
+    if (!this.options.enabled) {
+      return true
+    }
+
+    const policy =
+      this.reflector.getAllAndOverride<RateLimitPolicy | undefined>(RATE_LIMIT_POLICY_KEY, [
+        context.getHandler(),
+        context.getClass()
+      ]) ?? 'default'
+    const request = context.switchToHttp().getRequest<Request>()
+
+    for (const { key, rule } of this.countersFor(policy, request)) {
+      const { count, resetAt } = await this.store.increment(key, rule.windowMs)
+
+      if (count > rule.max) {
+        throw new TooManyRequestsException(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)))
+      }
+    }
+
+    return true
+  }
+
+  // The account counter stops credential stuffing spread over many IPs
+  private countersFor(policy: RateLimitPolicy, request: Request): RateLimitCounter[] {
+    const ip = request.ip ?? request.socket.remoteAddress ?? 'unknown'
+
+    if (policy === 'default') {
+      return [{ key: `default:ip:${ip}`, rule: this.options.default }]
+    }
+
+    const counters = [{ key: `${policy}:ip:${ip}`, rule: this.options.auth.ip }]
+    const email = (request.body as { email?: unknown } | undefined)?.email
+
+    if (typeof email === 'string' && email) {
+      counters.push({
+        key: `${policy}:account:${email.trim().toLowerCase()}`,
+        rule: this.options.auth.account
+      })
+    }
+
+    return counters
+  }
+}
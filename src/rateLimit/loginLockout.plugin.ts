@@ -0,0 +1,84 @@
+import type { BetterAuthPlugin } from 'better-auth'
+import { APIError, createAuthMiddleware } from 'better-auth/api'
+import { PrismaService } from '~/database/prisma.service'
+import {
+  clearFailedLogins,
+  findActiveLockout,
+  lockoutIdentifier,
+  recordFailedLogin
+} from './loginLockout'
+import type { LockoutPolicy } from './rateLimit.config'
+
+const isEmailSignIn = (context: { path: string }) => context.path === '/sign-in/email'
+
+const emailOf = (body: unknown): string | null => {
+  const email = (body as { email?: unknown } | undefined)?.email
+
+  return typeof email === 'string' && email ? lockoutIdentifier(email) : null
+}
+
+const accountLocked = (lockedUntil: Date) =>
+  new APIError(
+    'TOO_MANY_REQUESTS',
+    {
+      message: 'Too many failed sign-in attempts, please try again later',
+      code: 'ACCOUNT_LOCKED'
+    },
+    { 'Retry-After': String(Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))) }
+  )
+
+/**
+ * Progressive lockout for email sign-in, stored in LoginLockout. While an
+ * email is locked its attempts are refused before the password is checked,
+ * so they neither count nor reveal whether the password was right. Running
+ * as Better Auth hooks covers AuthController and the raw /api/auth/* routes.
+ */
+export const loginLockout = (prisma: PrismaService, policy: LockoutPolicy) =>
+  ({
+    id: 'login-lockout',
+    hooks: {
+      before: [
+        {
+          matcher: isEmailSignIn,
+          handler: createAuthMiddleware(async context => {
+            const identifier = emailOf(context.body)
+
+            // Guard: the endpoint rejects the malformed body itself
+            if (!identifier) {
+              return
+            }
+
+            const lockedUntil = await findActiveLockout(prisma, identifier)
+
+            if (lockedUntil) {
+              throw accountLocked(lockedUntil)
+            }
+          })
+        }
+      ],
+      after: [
+        {
+          matcher: isEmailSignIn,
+          handler: createAuthMiddleware(async context => {
+            const identifier = emailOf(context.body)
+            const returned = context.context.returned
+
+            // Guard: nothing to attribute the attempt to
+            if (!identifier) {
+              return
+            }
+
+            if (context.context.newSession) {
+              await clearFailedLogins(prisma, identifier)
+              return
+            }
+
+            // Only wrong credentials count, not deactivated or unverified accounts
+            if (returned instanceof APIError && returned.statusCode === 401) {
+              await recordFailedLogin(prisma, identifier, policy)
+            }
+          })
+        }
+      ]
+    }
+  }) satisfies BetterAuthPlugin
@@ -0,0 +1,99 @@
+import { describe, expect, it, mock } from 'bun:test'
+import type { PrismaService } from '~/database/prisma.service'
+import { findActiveLockout, lockoutDuration, recordFailedLogin } from './loginLockout'
+import type { LockoutPolicy } from './rateLimit.config'
+
+describe('loginLockout', () => {
+  const policy: LockoutPolicy = {
+    threshold: 3,
+    baseMs: 60_000,
+    maxMs: 300_000,
+    resetAfterMs: 3_600_000
+  }
+  const now = new Date('2025-01-01T12:00:00Z')
+
+  const buildPrisma = (existing: Record<string, unknown> | null) => {
+    const upsert = mock<(args: unknown) => Promise<unknown>>(() => Promise.resolve({}))
+    const prisma = {
+      loginLockout: { findUnique: () => Promise.resolve(existing), upsert }
+    } as unknown as PrismaService
+
+    return { prisma, upsert }
+  }
+
+  describe('lockoutDuration', () => {
+    it('should not lock below the threshold', () => {
+      expect(lockoutDuration(2, policy)).toBe(0)
+    })
+
+    it('should double the lockout on every further failure', () => {
+      expect(lockoutDuration(3, policy)).toBe(60_000)
+      expect(lockoutDuration(4, policy)).toBe(120_000)
+      expect(lockoutDuration(5, policy)).toBe(240_000)
+    })
+
+    it('should cap the lockout', () => {
+      expect(lockoutDuration(10, policy)).toBe(300_000)
+    })
+  })
+
+  describe('recordFailedLogin', () => {
+    it('should start counting on a first failure', async () => {
+      const { prisma, upsert } = buildPrisma(null)
+
+      const result = await recordFailedLogin(prisma, 'a@example.com', policy, now)
+
+      expect(result).toEqual({ failedAttempts: 1, lockedUntil: null })
+      expect(upsert).toHaveBeenCalledWith({
+        where: { identifier: 'a@example.com' },
+        create: {
+          identifier: 'a@example.com',
+          failedAttempts: 1,
+          lockedUntil: null,
+          lastFailedAt: now
+        },
+        update: { failedAttempts: 1, lockedUntil: null, lastFailedAt: now }
+      })
+    })
+
+    it('should lock once the threshold is reached', async () => {
+      const { prisma } = buildPrisma({
+        failedAttempts: 2,
+        lastFailedAt: new Date(now.getTime() - 1000)
+      })
+
+      const result = await recordFailedLogin(prisma, 'a@example.com', policy, now)
+
+      expect(result).toEqual({
+        failedAttempts: 3,
+        lockedUntil: new Date(now.getTime() + 60_000)
+      })
+    })
+
+    it('should forget failures older than the reset window', async () => {
+      const { prisma } = buildPrisma({
+        failedAttempts: 7,
+        lastFailedAt: new Date(now.getTime() - 2 * 3_600_000)
+      })
+
+      const result = await recordFailedLogin(prisma, 'a@example.com', policy, now)
+
+      expect(result.failedAttempts).toBe(1)
+    })
+  })
+
+  describe('findActiveLockout', () => {
+    it('should return a lockout that is still running', async () => {
+      const lockedUntil = new Date(now.getTime() + 1000)
+      const { prisma } = buildPrisma({ lockedUntil })
+
+      expect(await findActiveLockout(prisma, 'a@example.com', now)).toEqual(lockedUntil)
+    })
+
+    it('should ignore an expired lockout', async () => {
+      const { prisma } = buildPrisma({ lockedUntil: new Date(now.getTime() - 1000) })
+
+      expect(await findActiveLockout(prisma, 'a@example.com', now)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { PrismaService } from '~/database/prisma.service'
+import type { LockoutPolicy } from './rateLimit.config'
+
+export interface FailedLogin {
+  failedAttempts: number
+  lockedUntil: Date | null
+}
+
+// Attempts are tracked per email, so unknown addresses lock exactly like real accounts
+export const lockoutIdentifier = (email: string): string => email.trim().toLowerCase()
+
+// Each failure past the threshold doubles the lockout, up to policy.maxMs
+export const lockoutDuration = (failedAttempts: number, policy: LockoutPolicy): number => {
+  if (failedAttempts < policy.threshold) {
+    return 0
+  }
+
+  return Math.min(policy.baseMs * 2 ** (failedAttempts - policy.threshold), policy.maxMs)
+}
+
+export const findActiveLockout = async (
+  prisma: PrismaService,
+  identifier: string,
+  now = new Date()
+): Promise<Date | null> => {
+  const lockout = await prisma.loginLockout.findUnique({ where: { identifier } })
+
+  return lockout?.lockedUntil && lockout.lockedUntil > now ? lockout.lockedUntil : null
+}
+
+export const recordFailedLogin = async (
+  prisma: PrismaService,
+  identifier: string,
+  policy: LockoutPolicy,
+  now = new Date()
+): Promise<FailedLogin> => {
+  const previous = await prisma.loginLockout.findUnique({ where: { identifier } })
+  const isStale = !previous || now.getTime() - previous.lastFailedAt.getTime() > policy.resetAfterMs
+  const failedAttempts = isStale ? 1 : previous.failedAttempts + 1
+  const duration = lockoutDuration(failedAttempts, policy)
+  const data = {
+    failedAttempts,
+    lockedUntil: duration > 0 ? new Date(now.getTime() + duration) : null,
+    lastFailedAt: now
+  }
+
+  await prisma.loginLockout.upsert({
+    where: { identifier },
+    create: { identifier, ...data },
+    update: data
+  })
+
+  return { failedAttempts, lockedUntil: data.lockedUntil }
+}
+
+export const clearFailedLogins = async (prisma: PrismaService, identifier: string) => {
+  await prisma.loginLockout.deleteMany({ where: { identifier } })
+}
+
+// Rows whose failures no longer count and whose lockout is over carry no state
+export const purgeStaleLockouts = async (
+  prisma: PrismaService,
+  policy: LockoutPolicy,
+  now = new Date()
+): Promise<number> => {
+  const { count } = await prisma.loginLockout.deleteMany({
+    where: {
+      lastFailedAt: { lt: new Date(now.getTime() - policy.resetAfterMs) },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }]
+    }
+  })
+
+  return count
+}
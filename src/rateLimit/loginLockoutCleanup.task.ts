@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Cron, CronExpression } from '@nestjs/schedule'
+import { LoggerService } from '~/common/logger.service'
+import { PrismaService } from '~/database/prisma.service'
+import { purgeStaleLockouts } from './loginLockout'
+import { loadLockoutPolicy, type LockoutPolicy } from './rateLimit.config'
+
+@Injectable()
+export class LoginLockoutCleanupTask {
+  private readonly policy: LockoutPolicy
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    config: ConfigService
+  ) {
+    this.policy = loadLockoutPolicy(config)
+  }
+
+  // Failed attempts are recorded for any submitted email, including unknown ones
+  @Cron(CronExpression.EVERY_HOUR, { name: 'loginLockoutCleanup' })
+  async purgeStaleLockouts(): Promise<void> {
+    try {
+      const count = await purgeStaleLockouts(this.prisma, this.policy)
+
+      this.logger.info('Stale login lockouts purged', { action: 'purgeStaleLockouts', count })
+    } catch (error) {
+      this.logger.error('Login lockout cleanup failed', {
+        action: 'purgeStaleLockouts',
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { ConfigService } from '@nestjs/config'
+import type { BetterAuthOptions } from 'better-auth'
+
+export interface RateLimitRule {
+  max: number
+  windowMs: number
+}
+
+export interface RateLimitOptions {
+  enabled: boolean
+  // Every route, per client IP
+  default: RateLimitRule
+  // Routes marked @RateLimit('auth'), counted per IP and per submitted email
+  auth: { ip: RateLimitRule; account: RateLimitRule }
+}
+
+export interface LockoutPolicy {
+  // Consecutive failures before the first lockout
+  threshold: number
+  // First lockout duration, doubled on every further failure up to maxMs
+  baseMs: number
+  maxMs: number
+  // Failures older than this no longer count towards the threshold
+  resetAfterMs: number
+}
+
+const seconds = (config: ConfigService, key: string, fallback: number): number =>
+  Number(config.get<string>(key) ?? fallback) * 1000
+
+const count = (config: ConfigService, key: string, fallback: number): number =>
+  Number(config.get<string>(key) ?? fallback)
+
+const isProduction = (config: ConfigService): boolean =>
+  config.get<string>('NODE_ENV') === 'production'
+
+// Like Better Auth's own limiter, throttling is on by default in production only
+export const loadRateLimitOptions = (config: ConfigService): RateLimitOptions => {
+  const enabled = config.get<string>('RATE_LIMIT_ENABLED') ?? String(isProduction(config))
+  const authWindowMs = seconds(config, 'AUTH_RATE_LIMIT_WINDOW_SECONDS', 900)
+
+  return {
+    enabled: enabled === 'true',
+    default: {
+      max: count(config, 'RATE_LIMIT_MAX', 100),
+      windowMs: seconds(config, 'RATE_LIMIT_WINDOW_SECONDS', 60)
+    },
+    auth: {
+      ip: { max: count(config, 'AUTH_RATE_LIMIT_IP_MAX', 20), windowMs: authWindowMs },
+      account: { max: count(config, 'AUTH_RATE_LIMIT_ACCOUNT_MAX', 10), windowMs: authWindowMs }
+    }
+  }
+}
+
+export const loadLockoutPolicy = (config: ConfigService): LockoutPolicy => ({
+  threshold: count(config, 'LOGIN_LOCKOUT_THRESHOLD', 5),
+  baseMs: seconds(config, 'LOGIN_LOCKOUT_BASE_SECONDS', 60),
+  maxMs: seconds(config, 'LOGIN_LOCKOUT_MAX_SECONDS', 3600),
+  resetAfterMs: seconds(config, 'LOGIN_LOCKOUT_RESET_SECONDS', 86400)
+})
+
+/**
+ * The raw Better Auth endpoints under /api/auth/* never reach Nest guards, so
+ * they are throttled by Better Auth's own limiter with the same windows. It
+ * only sees the client IP through proxy headers such as X-Forwarded-For.
+ */
+export const toBetterAuthRateLimit = (
+  options: RateLimitOptions
+): BetterAuthOptions['rateLimit'] => {
+  const authRule = { window: options.auth.ip.windowMs / 1000, max: options.auth.ip.max }
+
+  return {
+    enabled: options.enabled,
+    window: options.default.windowMs / 1000,
+    max: options.default.max,
+    customRules: {
+      '/sign-in/*': authRule,
+      '/sign-up/*': authRule,
+      '/forget-password': authRule,
+      '/request-password-reset': authRule,
+      '/reset-password': authRule
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common'
+import { APP_GUARD } from '@nestjs/core'
+import { CommonModule } from '~/common/common.module'
+import { RateLimitGuard } from './guards/rateLimit.guard'
+import { LoginLockoutCleanupTask } from './loginLockoutCleanup.task'
+import { RATE_LIMIT_STORE } from './rateLimit.store'
+import { MemoryRateLimitStore } from './stores/memory.store'
+
+@Module({
+  imports: [CommonModule],
+  providers: [
+    // Swap for RedisRateLimitStore when several instances serve the API
+    { provide: RATE_LIMIT_STORE, useFactory: () => new MemoryRateLimitStore() },
+    // Imported before AuthModule so throttling runs ahead of the session guard
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+    LoginLockoutCleanupTask
+  ]
+})
+export class RateLimitModule {}
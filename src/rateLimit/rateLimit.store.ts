@@ -0,0 +1,17 @@
+export const RATE_LIMIT_STORE = Symbol('RATE_LIMIT_STORE')
+
+export interface RateLimitHit {
+  // Hits counted in the current window, this one included
+  count: number
+  // Epoch milliseconds at which the window ends and the count starts over
+  resetAt: number
+}
+
+/**
+ * Fixed-window counters. A window opens on the first hit of a key and lasts
+ * windowMs; implementations must increment atomically so that several app
+ * instances sharing one store cannot both let the last allowed request through.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>
+}
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, setSystemTime } from 'bun:test'
+import { MemoryRateLimitStore } from './memory.store'
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    setSystemTime()
+  })
+
+  it('should count hits within a window', async () => {
+    const store = new MemoryRateLimitStore()
+    setSystemTime(new Date('2025-01-01T00:00:00Z'))
+
+    await store.increment('key', 60_000)
+    const hit = await store.increment('key', 60_000)
+
+    expect(hit).toEqual({ count: 2, resetAt: Date.parse('2025-01-01T00:01:00Z') })
+  })
+
+  it('should start over once the window has ended', async () => {
+    const store = new MemoryRateLimitStore()
+    setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    await store.increment('key', 60_000)
+    await store.increment('key', 60_000)
+
+    setSystemTime(new Date('2025-01-01T00:01:00Z'))
+
+    expect((await store.increment('key', 60_000)).count).toBe(1)
+  })
+
+  it('should keep keys apart', async () => {
+    const store = new MemoryRateLimitStore()
+
+    await store.increment('a', 60_000)
+
+    expect((await store.increment('b', 60_000)).count).toBe(1)
+  })
+})
@@ -0,0 +1,40 @@
+import type { RateLimitHit, RateLimitStore } from '../rateLimit.store'
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+// Default store: counters live in the process, so each app instance limits on its own
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly hits = new Map<string, RateLimitHit>()
+  private nextSweepAt = 0
+
+  increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now()
+
+    this.sweep(now)
+
+    const current = this.hits.get(key)
+    const hit =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs }
+
+    this.hits.set(key, hit)
+
+    return Promise.resolve(hit)
+  }
+
+  // Drops expired windows now and then so keys that stop hitting do not pile up
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return
+    }
+
+    for (const [key, hit] of this.hits) {
+      if (hit.resetAt <= now) {
+        this.hits.delete(key)
+      }
+    }
+
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it, mock } from 'bun:test'
+import { RedisRateLimitStore, type RedisClientLike } from './redis.store'
+
+describe('RedisRateLimitStore', () => {
+  const buildClient = (reply: [number, number]) => ({
+    eval: mock<RedisClientLike['eval']>(() => Promise.resolve(reply))
+  })
+
+  it('should run the increment script on the prefixed key', async () => {
+    const client = buildClient([3, 42_000])
+    const store = new RedisRateLimitStore(client, 'test:')
+
+    const hit = await store.increment('default:ip:10.0.0.1', 60_000)
+
+    expect(client.eval).toHaveBeenCalledWith(
+      expect.stringContaining('INCR') as string,
+      1,
+      'test:default:ip:10.0.0.1',
+      60_000
+    )
+    expect(hit.count).toBe(3)
+    expect(hit.resetAt - Date.now()).toBeLessThanOrEqual(42_000)
+    expect(hit.resetAt - Date.now()).toBeGreaterThan(40_000)
+  })
+
+  it('should fall back to a full window when the key has no TTL', async () => {
+    const store = new RedisRateLimitStore(buildClient([1, -2]))
+
+    const hit = await store.increment('key', 60_000)
+
+    expect(hit.resetAt - Date.now()).toBeGreaterThan(58_000)
+  })
+})
@@ -0,0 +1,40 @@
+import type { RateLimitHit, RateLimitStore } from '../rateLimit.store'
+
+// The only command the store needs, as exposed by ioredis (`new Redis(url)`) and
+// by servers speaking the Redis protocol such as Valkey or Dragonfly
+export interface RedisClientLike {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>
+}
+
+// INCR and PEXPIRE run in one script so a window always gets its expiry
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return { count, redis.call('PTTL', KEYS[1]) }
+`
+
+/**
+ * Shares counters between app instances. Not wired by default since it needs
+ * a client: provide it as RATE_LIMIT_STORE in RateLimitModule, for instance
+ * `new RedisRateLimitStore(new Redis(process.env.REDIS_URL))`.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly client: RedisClientLike,
+    private readonly prefix = 'rate-limit:'
+  ) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const [count, ttl] = (await this.client.eval(
+      INCREMENT_SCRIPT,
+      1,
+      `${this.prefix}${key}`,
+      windowMs
+    )) as [number, number]
+
+    // A negative TTL means the key expired between the two calls
+    return { count, resetAt: Date.now() + (ttl > 0 ? ttl : windowMs) }
+  }
+}
@@ -0,0 +1,8 @@
+import { IsISO8601, IsOptional } from 'class-validator'
+
+export class AssignRoleDto {
+  // Omit for a permanent assignment
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  expiresAt?: string
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator'
+
+export class CreateRoleDto {
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: 'name must be upper snake case (e.g. SUPPORT_AGENT)'
+  })
+  name!: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string
+
+  // Role whose rules are inherited
+  @IsOptional()
+  @IsString()
+  parentRoleId?: string
+}
@@ -0,0 +1,19 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator'
+import { Filter, Sortable } from '~/common/listQuery/listQuery.decorators'
+import { ListQueryDto } from '~/common/listQuery/listQuery.dto'
+
+@Sortable('name', 'createdAt')
+export class ListRolesQueryDto extends ListQueryDto {
+  // Substring of the role name
+  @Filter('contains')
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  name?: string
+
+  // Direct children of this role
+  @Filter('eq')
+  @IsOptional()
+  @IsString()
+  parentRoleId?: string
+}
@@ -0,0 +1,21 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator'
+
+export class UpdateRoleDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[A-Z][A-Z0-9_]*$/, {
+    message: 'name must be upper snake case (e.g. SUPPORT_AGENT)'
+  })
+  name?: string
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string
+
+  // Role whose rules are inherited; null detaches the role from its parent
+  @IsOptional()
+  @IsString()
+  parentRoleId?: string | null
+}
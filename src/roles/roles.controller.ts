@@ -0,0 +1,113 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Put, Query } from '@nestjs/common'
+import { Audit } from '~/auditLogs/decorators/audit.decorator'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { AssignRoleDto } from './dto/assignRole.dto'
+import { CreateRoleDto } from './dto/createRole.dto'
+import { ListRolesQueryDto } from './dto/listRolesQuery.dto'
+import { UpdateRoleDto } from './dto/updateRole.dto'
+import { RolesService } from './roles.service'
+
+@Controller('roles')
+@RequireVerifiedEmail()
+export class RolesController {
+  constructor(
+    private readonly rolesService: RolesService,
+    private readonly logger: LoggerService
+  ) {}
+
+  @Get()
+  @CheckPolicies(ability => ability.can('read', 'Role'))
+  async findAll(@Query() query: ListRolesQueryDto) {
+    const roles = await this.rolesService.findAll(query)
+
+    this.logger.info('Roles retrieved', {
+      action: 'getRoles',
+      count: roles.data.length,
+      total: roles.meta.total
+    })
+
+    return roles
+  }
+
+  @Get(':id')
+  @CheckPolicies(ability => ability.can('read', 'Role'))
+  findOne(@Param('id') id: string) {
+    return this.rolesService.findOne(id)
+  }
+
+  @Get(':id/permissions')
+  @CheckPolicies(ability => ability.can('read', 'Role'))
+  findEffectivePermissions(@Param('id') id: string) {
+    return this.rolesService.findEffectivePermissions(id)
+  }
+
+  @Post()
+  @CheckPolicies(ability => ability.can('create', 'Role'))
+  @Audit('createRole', 'Role')
+  async create(@Body() dto: CreateRoleDto) {
+    const role = await this.rolesService.create(dto)
+
+    this.logger.info('Role created', { action: 'createRole', roleId: role.id, name: role.name })
+
+    return role
+  }
+
+  @Patch(':id')
+  @CheckPolicies(ability => ability.can('update', 'Role'))
+  @Audit('updateRole', 'Role', 'id')
+  async update(@Param('id') id: string, @Body() dto: UpdateRoleDto) {
+    const role = await this.rolesService.update(id, dto)
+
+    this.logger.info('Role updated', { action: 'updateRole', roleId: id })
+
+    return role
+  }
+
+  @Delete(':id')
+  @CheckPolicies(ability => ability.can('delete', 'Role'))
+  @Audit('deleteRole', 'Role', 'id')
+  async remove(@Param('id') id: string) {
+    const result = await this.rolesService.remove(id)
+
+    this.logger.warn('Role deleted', {
+      action: 'deleteRole',
+      roleId: id,
+      unassignedUsers: result.unassignedUsers
+    })
+
+    return result
+  }
+
+  @Put(':id/users/:userId')
+  @CheckPolicies(ability => ability.can('update', 'Role'), ability => ability.can('update', 'User'))
+  @Audit('assignRole', 'User', 'userId')
+  async assignUser(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() dto: AssignRoleDto
+  ) {
+    const assignment = await this.rolesService.assignUser(id, userId, dto)
+
+    this.logger.info('Role assigned', {
+      action: 'assignRole',
+      roleId: id,
+      userId,
+      expiresAt: assignment.expiresAt
+    })
+
+    return assignment
+  }
+
+  @Delete(':id/users/:userId')
+  @CheckPolicies(ability => ability.can('update', 'Role'), ability => ability.can('update', 'User'))
+  @Audit('unassignRole', 'User', 'userId')
+  async unassignUser(@Param('id') id: string, @Param('userId') userId: string) {
+    const assignment = await this.rolesService.unassignUser(id, userId)
+
+    this.logger.info('Role unassigned', { action: 'unassignRole', roleId: id, userId })
+
+    return assignment
+  }
+}
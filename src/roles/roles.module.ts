@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { CaslModule } from '~/casl/casl.module'
+import { CommonModule } from '~/common/common.module'
+import { RolesController } from './roles.controller'
+import { RolesService } from './roles.service'
+
+@Module({
+  imports: [CaslModule, CommonModule],
+  controllers: [RolesController],
+  providers: [RolesService]
+})
+export class RolesModule {}
@@ -0,0 +1,275 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { PermissionsService } from '~/casl/permissions.service'
+import { ListQueryService } from '~/common/listQuery/listQuery.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ListRolesQueryDto } from './dto/listRolesQuery.dto'
+import { RolesService } from './roles.service'
+
+describe('RolesService', () => {
+  let service: RolesService
+  const timestamps = { createdAt: new Date(), updatedAt: new Date() }
+  const userRole = {
+    id: 'role-user',
+    name: 'USER',
+    description: null,
+    parentRoleId: null,
+    ...timestamps
+  }
+  const managerRole = {
+    id: 'role-manager',
+    name: 'PRODUCT_MANAGER',
+    description: null,
+    parentRoleId: 'role-user',
+    ...timestamps
+  }
+  const adminRole = {
+    id: 'role-admin',
+    name: 'ADMIN',
+    description: null,
+    parentRoleId: 'role-manager',
+    ...timestamps
+  }
+  const rolesById: Record<string, object> = {
+    'role-user': userRole,
+    'role-manager': managerRole,
+    'role-admin': adminRole
+  }
+  const mockPrismaService = {
+    role: {
+      findMany: mock(() => Promise.resolve([{ ...adminRole, _count: { users: 2 } }] as object[])),
+      findUnique: mock<(args: { where: { id?: string; name?: string } }) => Promise<unknown>>(() =>
+        Promise.resolve(null)
+      ),
+      create: mock(({ data }: { data: object }) => Promise.resolve({ id: 'role-new', ...data })),
+      update: mock(({ data }: { data: object }) => Promise.resolve({ ...managerRole, ...data })),
+      delete: mock(() => Promise.resolve(managerRole)),
+      count: mock(() => Promise.resolve(1))
+    },
+    user: {
+      findUnique: mock(() => Promise.resolve(null as unknown))
+    },
+    userRole: {
+      count: mock(() => Promise.resolve(4)),
+      findUnique: mock(() => Promise.resolve(null as unknown)),
+      upsert: mock(() => Promise.resolve({ userId: 'user-1', roleId: 'role-manager' })),
+      delete: mock(() => Promise.resolve({ userId: 'user-1', roleId: 'role-manager' }))
+    },
+    $transaction: mock((operations: Promise<unknown>[]) => Promise.all(operations))
+  }
+  const mockPermissionsService = {
+    invalidate: mock(() => {}),
+    getRoleChain: mock(() => Promise.resolve(['role-admin', 'role-manager', 'role-user'])),
+    getRulesForRole: mock(() => Promise.resolve([{ action: 'manage', subject: 'all' }]))
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PermissionsService, useValue: mockPermissionsService },
+        ListQueryService
+      ]
+    }).compile()
+
+    service = module.get<RolesService>(RolesService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.role.findUnique.mockImplementation(() => Promise.resolve(null))
+    mockPrismaService.role.findMany.mockImplementation(() =>
+      Promise.resolve([{ ...adminRole, _count: { users: 2 } }])
+    )
+    mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve(null))
+    mockPrismaService.userRole.findUnique.mockImplementation(() => Promise.resolve(null))
+  })
+
+  describe('findAll', () => {
+    it('should flatten the user count in a page sorted by name', async () => {
+      const roles = await service.findAll(new ListRolesQueryDto())
+
+      expect(roles).toEqual({
+        data: [{ ...adminRole, userCount: 2 }],
+        meta: { total: 1, limit: 20, page: 1, nextCursor: null }
+      })
+      expect(mockPrismaService.role.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: [{ name: 'asc' }, { id: 'asc' }] })
+      )
+    })
+  })
+
+  describe('create', () => {
+    it('should create a role with an available name', async () => {
+      const role = await service.create({ name: 'SUPPORT' })
+
+      expect(role).toMatchObject({ id: 'role-new', name: 'SUPPORT' })
+    })
+
+    it('should reject an existing name', () => {
+      mockPrismaService.role.findUnique.mockImplementation(() => Promise.resolve(adminRole))
+
+      expect(service.create({ name: 'ADMIN' })).rejects.toThrow(ConflictException)
+    })
+  })
+
+  describe('role hierarchy', () => {
+    beforeEach(() => {
+      mockPrismaService.role.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(where.id ? (rolesById[where.id] ?? null) : null)
+      )
+    })
+
+    it('should reject an unknown parent', async () => {
+      const error = await service
+        .create({ name: 'SUPPORT', parentRoleId: 'missing' })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+      expect(mockPrismaService.role.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject a role inheriting from itself', () => {
+      expect(service.update('role-user', { parentRoleId: 'role-user' })).rejects.toThrow(
+        BadRequestException
+      )
+    })
+
+    it('should reject a parent that already inherits from the role', async () => {
+      const error = await service
+        .update('role-user', { parentRoleId: 'role-admin' })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+      expect(mockPrismaService.role.update).not.toHaveBeenCalled()
+    })
+
+    it('should detach a role and drop its cached rules', async () => {
+      await service.update('role-manager', { parentRoleId: null })
+
+      expect(mockPrismaService.role.update).toHaveBeenCalledWith({
+        where: { id: 'role-manager' },
+        data: { parentRoleId: null }
+      })
+      expect(mockPermissionsService.invalidate).toHaveBeenCalledWith('role-manager')
+    })
+
+    it('should return the effective permissions with the inheritance chain', async () => {
+      mockPrismaService.role.findMany.mockImplementation(() =>
+        Promise.resolve([
+          { id: 'role-user', name: 'USER' },
+          { id: 'role-manager', name: 'PRODUCT_MANAGER' }
+        ])
+      )
+
+      const result = await service.findEffectivePermissions('role-admin')
+
+      expect(result).toEqual({
+        role: { id: 'role-admin', name: 'ADMIN' },
+        inheritsFrom: [
+          { id: 'role-manager', name: 'PRODUCT_MANAGER' },
+          { id: 'role-user', name: 'USER' }
+        ],
+        rules: [{ action: 'manage', subject: 'all' }]
+      })
+    })
+  })
+
+  describe('remove', () => {
+    it('should delete the role, count unassigned users and drop cached rules', async () => {
+      mockPrismaService.role.findUnique.mockImplementation(() => Promise.resolve(managerRole))
+
+      const result = await service.remove('role-manager')
+
+      expect(result).toEqual({ role: managerRole, unassignedUsers: 4 })
+      expect(mockPrismaService.role.delete).toHaveBeenCalledWith({ where: { id: 'role-manager' } })
+      expect(mockPermissionsService.invalidate).toHaveBeenCalledWith('role-manager')
+    })
+
+    it('should refuse to delete a protected role', async () => {
+      mockPrismaService.role.findUnique.mockImplementation(() => Promise.resolve(adminRole))
+
+      const error = await service.remove('role-admin').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPrismaService.role.delete).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundException for unknown roles', () => {
+      expect(service.remove('missing')).rejects.toThrow(NotFoundException)
+    })
+  })
+
+  describe('assignUser', () => {
+    beforeEach(() => {
+      mockPrismaService.role.findUnique.mockImplementation(() => Promise.resolve(managerRole))
+    })
+
+    it('should add the role to the user', async () => {
+      mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve({ id: 'user-1' }))
+
+      await service.assignUser('role-manager', 'user-1')
+
+      expect(mockPrismaService.userRole.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_roleId: { userId: 'user-1', roleId: 'role-manager' } },
+          create: { userId: 'user-1', roleId: 'role-manager', expiresAt: null }
+        })
+      )
+    })
+
+    it('should store the expiry date of a temporary assignment', async () => {
+      mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve({ id: 'user-1' }))
+      const expiresAt = new Date(Date.now() + 60_000)
+
+      await service.assignUser('role-manager', 'user-1', { expiresAt: expiresAt.toISOString() })
+
+      expect(mockPrismaService.userRole.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { expiresAt } })
+      )
+    })
+
+    it('should reject an expiry date in the past', async () => {
+      const error = await service
+        .assignUser('role-manager', 'user-1', { expiresAt: '2020-01-01T00:00:00.000Z' })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+      expect(mockPrismaService.userRole.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundException for unknown users', () => {
+      expect(service.assignUser('role-manager', 'missing')).rejects.toThrow(NotFoundException)
+    })
+  })
+
+  describe('unassignUser', () => {
+    it('should only remove the given role', async () => {
+      mockPrismaService.role.findUnique.mockImplementation(() => Promise.resolve(managerRole))
+      mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve({ id: 'user-1' }))
+      mockPrismaService.userRole.findUnique.mockImplementation(() =>
+        Promise.resolve({ userId: 'user-1', roleId: 'role-manager' })
+      )
+
+      await service.unassignUser('role-manager', 'user-1')
+
+      expect(mockPrismaService.userRole.delete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_roleId: { userId: 'user-1', roleId: 'role-manager' } }
+        })
+      )
+    })
+
+    it('should throw NotFoundException when the user does not hold the role', async () => {
+      mockPrismaService.role.findUnique.mockImplementation(() => Promise.resolve(managerRole))
+      mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve({ id: 'user-1' }))
+
+      const error = await service.unassignUser('role-manager', 'user-1').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(NotFoundException)
+      expect(mockPrismaService.userRole.delete).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,291 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException
+} from '@nestjs/common'
+import type { Prisma, Role } from '@generated'
+import {
+  activeRoleAssignment,
+  type AppRawRule,
+  PermissionsService
+} from '~/casl/permissions.service'
+import { RoleName } from '~/common/enums/role.enum'
+import { withCode } from '~/common/errors/errorCatalog'
+import { ListQueryService, type Page } from '~/common/listQuery/listQuery.service'
+import { PrismaService } from '~/database/prisma.service'
+import { AssignRoleDto } from './dto/assignRole.dto'
+import { CreateRoleDto } from './dto/createRole.dto'
+import { ListRolesQueryDto } from './dto/listRolesQuery.dto'
+import { UpdateRoleDto } from './dto/updateRole.dto'
+
+// Built-in roles the application relies on (default sign-up role and full access)
+export const PROTECTED_ROLES: readonly string[] = [RoleName.ADMIN, RoleName.USER]
+
+const memberSelect = { id: true, name: true, email: true } as const
+const assignmentSelect = { userId: true, roleId: true, expiresAt: true, createdAt: true } as const
+
+export type RoleWithUserCount = Role & { userCount: number }
+
+export interface EffectivePermissions {
+  role: Pick<Role, 'id' | 'name'>
+  inheritsFrom: Pick<Role, 'id' | 'name'>[]
+  rules: AppRawRule[]
+}
+
+export interface RoleDeletionResult {
+  role: Role
+  unassignedUsers: number
+}
+
+@Injectable()
+export class RolesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionsService: PermissionsService,
+    private readonly listQueryService: ListQueryService
+  ) {}
+
+  // Alphabetical by default, searchable on name and description
+  async findAll(query: ListRolesQueryDto): Promise<Page<RoleWithUserCount>> {
+    const list = await this.listQueryService.prepare<
+      Prisma.RoleWhereInput,
+      Prisma.RoleOrderByWithRelationInput
+    >(query, { defaultSort: 'name', searchTable: 'RoleSearch' })
+
+    const [total, roles] = await this.prisma.$transaction([
+      this.prisma.role.count({ where: list.where }),
+      this.prisma.role.findMany({
+        ...list.args,
+        include: { _count: { select: { users: { where: activeRoleAssignment() } } } }
+      })
+    ])
+
+    return list.toPage(
+      roles.map(({ _count, ...role }) => ({ ...role, userCount: _count.users })),
+      total
+    )
+  }
+
+  async findOne(id: string) {
+    const role = await this.prisma.role.findUnique({
+      where: { id },
+      include: {
+        users: {
+          where: activeRoleAssignment(),
+          select: { expiresAt: true, user: { select: memberSelect } },
+          orderBy: { user: { email: 'asc' } }
+        }
+      }
+    })
+
+    if (!role) {
+      throw new NotFoundException(`Role with ID "${id}" not found`)
+    }
+
+    return {
+      ...role,
+      users: role.users.map(({ user, expiresAt }) => ({ ...user, expiresAt }))
+    }
+  }
+
+  /**
+   * Returns the rules a role actually grants, inherited ones included, as the
+   * ability factory sees them (placeholders such as ${user.id} are left as is).
+   */
+  async findEffectivePermissions(id: string): Promise<EffectivePermissions> {
+    const role = await this.findRoleOrThrow(id)
+    const [chain, rules] = await Promise.all([
+      this.permissionsService.getRoleChain(id),
+      this.permissionsService.getRulesForRole(id)
+    ])
+    const ancestorIds = chain.slice(1)
+    const ancestors = await this.prisma.role.findMany({
+      where: { id: { in: ancestorIds } },
+      select: { id: true, name: true }
+    })
+
+    return {
+      role: { id: role.id, name: role.name },
+      inheritsFrom: ancestorIds.flatMap(ancestorId =>
+        ancestors.filter(ancestor => ancestor.id === ancestorId)
+      ),
+      rules
+    }
+  }
+
+  async create(dto: CreateRoleDto): Promise<Role> {
+    await this.ensureNameIsAvailable(dto.name)
+    await this.ensureValidParent(null, dto.parentRoleId)
+
+    return this.prisma.role.create({ data: dto })
+  }
+
+  async update(id: string, dto: UpdateRoleDto): Promise<Role> {
+    const role = await this.findRoleOrThrow(id)
+
+    if (dto.name && dto.name !== role.name) {
+      this.ensureNotProtected(role, 'renamed')
+      await this.ensureNameIsAvailable(dto.name)
+    }
+
+    const parentChanged = dto.parentRoleId !== undefined && dto.parentRoleId !== role.parentRoleId
+
+    if (parentChanged) {
+      await this.ensureValidParent(id, dto.parentRoleId)
+    }
+
+    const updatedRole = await this.prisma.role.update({ where: { id }, data: dto })
+
+    if (parentChanged) {
+      this.permissionsService.invalidate(id)
+    }
+
+    return updatedRole
+  }
+
+  async remove(id: string): Promise<RoleDeletionResult> {
+    const role = await this.findRoleOrThrow(id)
+
+    this.ensureNotProtected(role, 'deleted')
+
+    // Users keep their account and other roles; their assignments cascade and child roles
+    // become roots (onDelete: SetNull)
+    const [unassignedUsers] = await this.prisma.$transaction([
+      this.prisma.userRole.count({ where: { roleId: id, ...activeRoleAssignment() } }),
+      this.prisma.role.delete({ where: { id } })
+    ])
+
+    this.permissionsService.invalidate(id)
+
+    return { role, unassignedUsers }
+  }
+
+  /**
+   * Grants a role to a user, alongside any roles they already hold.
+   * Re-assigning an existing role only replaces its expiry date.
+   */
+  async assignUser(id: string, userId: string, dto: AssignRoleDto = {}) {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null
+
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException(withCode('EXPIRY_IN_PAST', 'expiresAt must be in the future'))
+    }
+
+    await this.findRoleOrThrow(id)
+    await this.findUserOrThrow(userId)
+
+    return this.prisma.userRole.upsert({
+      where: { userId_roleId: { userId, roleId: id } },
+      create: { userId, roleId: id, expiresAt },
+      update: { expiresAt },
+      select: assignmentSelect
+    })
+  }
+
+  async unassignUser(id: string, userId: string) {
+    await this.findRoleOrThrow(id)
+    await this.findUserOrThrow(userId)
+
+    const assignment = await this.prisma.userRole.findUnique({
+      where: { userId_roleId: { userId, roleId: id } }
+    })
+
+    if (!assignment) {
+      throw new NotFoundException(`User with ID "${userId}" does not have role "${id}"`)
+    }
+
+    return this.prisma.userRole.delete({
+      where: { userId_roleId: { userId, roleId: id } },
+      select: assignmentSelect
+    })
+  }
+
+  private async findRoleOrThrow(id: string): Promise<Role> {
+    const role = await this.prisma.role.findUnique({ where: { id } })
+
+    if (!role) {
+      throw new NotFoundException(`Role with ID "${id}" not found`)
+    }
+
+    return role
+  }
+
+  private async findUserOrThrow(id: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!user) {
+      throw new NotFoundException(`User with ID "${id}" not found`)
+    }
+
+    return user
+  }
+
+  private async ensureNameIsAvailable(name: string): Promise<void> {
+    const existing = await this.prisma.role.findUnique({ where: { name } })
+
+    if (existing) {
+      throw new ConflictException(withCode('ROLE_NAME_TAKEN', `Role "${name}" already exists`))
+    }
+  }
+
+  /**
+   * Rejects unknown parents and parents that already inherit from the role,
+   * which would turn the hierarchy into a cycle.
+   */
+  private async ensureValidParent(
+    roleId: string | null,
+    parentRoleId: string | null | undefined
+  ): Promise<void> {
+    // Guard: roles without a parent are always valid
+    if (!parentRoleId) {
+      return
+    }
+
+    if (parentRoleId === roleId) {
+      throw new BadRequestException(
+        withCode('ROLE_PARENT_INVALID', 'A role cannot inherit from itself')
+      )
+    }
+
+    const parent = await this.prisma.role.findUnique({ where: { id: parentRoleId } })
+
+    if (!parent) {
+      throw new BadRequestException(
+        withCode('ROLE_PARENT_INVALID', `Parent role with ID "${parentRoleId}" not found`)
+      )
+    }
+
+    const visited = new Set<string>([parentRoleId])
+    let ancestorId = parent.parentRoleId
+
+    while (roleId && ancestorId && !visited.has(ancestorId)) {
+      if (ancestorId === roleId) {
+        throw new BadRequestException(
+          withCode(
+            'ROLE_PARENT_INVALID',
+            `Role "${parent.name}" already inherits from this role; the hierarchy cannot contain cycles`
+          )
+        )
+      }
+
+      visited.add(ancestorId)
+      const ancestor = await this.prisma.role.findUnique({
+        where: { id: ancestorId },
+        select: { parentRoleId: true }
+      })
+      ancestorId = ancestor?.parentRoleId ?? null
+    }
+  }
+
+  private ensureNotProtected(role: Role, operation: string): void {
+    if (PROTECTED_ROLES.includes(role.name)) {
+      throw new ConflictException(
+        withCode('ROLE_PROTECTED', `Built-in role "${role.name}" cannot be ${operation}`)
+      )
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Transform } from 'class-transformer'
+import { IsBoolean, IsOptional } from 'class-validator'
+import { toBoolean } from '~/common/transforms/toBoolean.transform'
+
+export class RevokeSessionsQueryDto {
+  // Keep the session making the request signed in
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  exceptCurrent?: boolean
+}
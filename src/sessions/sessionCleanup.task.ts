@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
+import { LoggerService } from '~/common/logger.service'
+import { SessionsService } from './sessions.service'
+
+@Injectable()
+export class SessionCleanupTask {
+  constructor(
+    private readonly sessionsService: SessionsService,
+    private readonly logger: LoggerService
+  ) {}
+
+  // Better Auth ignores expired sessions but never deletes them
+  @Cron(CronExpression.EVERY_HOUR, { name: 'sessionCleanup' })
+  async purgeExpiredSessions(): Promise<void> {
+    try {
+      const count = await this.sessionsService.removeExpired()
+
+      this.logger.info('Expired sessions purged', { action: 'purgeExpiredSessions', count })
+    } catch (error) {
+      this.logger.error('Expired session cleanup failed', {
+        action: 'purgeExpiredSessions',
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { Controller, Delete, Get, Param, Query } from '@nestjs/common'
+import { Session } from '@thallesp/nestjs-better-auth'
+import { Audit } from '~/auditLogs/decorators/audit.decorator'
+import type { AuthSession } from '~/auth/auth.config'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { RevokeSessionsQueryDto } from './dto/revokeSessionsQuery.dto'
+import { SessionsService } from './sessions.service'
+
+@Controller('sessions')
+export class SessionsController {
+  constructor(
+    private readonly sessionsService: SessionsService,
+    private readonly logger: LoggerService
+  ) {}
+
+  // Every signed-in user manages their own sessions, no policy needed
+
+  @Get('me')
+  findMine(@Session() { user, session }: AuthSession) {
+    return this.sessionsService.findForUser(user.id, session.id)
+  }
+
+  @Delete('me/:id')
+  @Audit('revokeSession', 'Session', 'id')
+  async revokeMine(@Session() { user }: AuthSession, @Param('id') id: string) {
+    const result = await this.sessionsService.revokeForUser(user.id, id)
+
+    this.logger.info('Session revoked', { action: 'revokeSession', userId: user.id, sessionId: id })
+
+    return result
+  }
+
+  @Delete('me')
+  @Audit('revokeAllSessions', 'Session')
+  async revokeAllMine(
+    @Session() { user, session }: AuthSession,
+    @Query() query: RevokeSessionsQueryDto
+  ) {
+    const result = await this.sessionsService.revokeAllForUser(
+      user.id,
+      query.exceptCurrent ? session.id : undefined
+    )
+
+    this.logger.info('Sessions revoked', {
+      action: 'revokeAllSessions',
+      userId: user.id,
+      exceptCurrent: query.exceptCurrent ?? false,
+      count: result.revokedSessions
+    })
+
+    return result
+  }
+
+  @Get('users/:userId')
+  @CheckPolicies(ability => ability.can('read', 'Session'))
+  findForUser(@Param('userId') userId: string) {
+    return this.sessionsService.findForUser(userId)
+  }
+
+  @Delete('users/:userId/:id')
+  @CheckPolicies(ability => ability.can('delete', 'Session'))
+  @Audit('revokeUserSession', 'Session', 'id')
+  async revokeForUser(
+    @Session() { user }: AuthSession,
+    @Param('userId') userId: string,
+    @Param('id') id: string
+  ) {
+    const result = await this.sessionsService.revokeForUser(userId, id)
+
+    this.logger.warn('Session revoked by admin', {
+      action: 'revokeUserSession',
+      userId,
+      sessionId: id,
+      by: user.id
+    })
+
+    return result
+  }
+
+  @Delete('users/:userId')
+  @CheckPolicies(ability => ability.can('delete', 'Session'))
+  @Audit('revokeAllUserSessions', 'User', 'userId')
+  async revokeAllForUser(@Session() { user }: AuthSession, @Param('userId') userId: string) {
+    const result = await this.sessionsService.revokeAllForUser(userId)
+
+    this.logger.warn('Sessions revoked by admin', {
+      action: 'revokeAllUserSessions',
+      userId,
+      by: user.id,
+      count: result.revokedSessions
+    })
+
+    return result
+  }
+}
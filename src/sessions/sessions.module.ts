@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { CommonModule } from '~/common/common.module'
+import { SessionCleanupTask } from './sessionCleanup.task'
+import { SessionsController } from './sessions.controller'
+import { SessionsService } from './sessions.service'
+
+@Module({
+  imports: [CommonModule],
+  controllers: [SessionsController],
+  providers: [SessionsService, SessionCleanupTask]
+})
+export class SessionsModule {}
@@ -0,0 +1,94 @@
+import { NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { PrismaService } from '~/database/prisma.service'
+import { SessionsService } from './sessions.service'
+
+describe('SessionsService', () => {
+  let service: SessionsService
+  const timestamps = { createdAt: new Date(), updatedAt: new Date(), expiresAt: new Date() }
+  const mockPrismaService = {
+    session: {
+      findMany: mock(() =>
+        Promise.resolve([
+          { id: 'session-1', ipAddress: '127.0.0.1', userAgent: 'curl/8.4.0', ...timestamps },
+          { id: 'session-2', ipAddress: null, userAgent: null, ...timestamps }
+        ])
+      ),
+      deleteMany: mock(() => Promise.resolve({ count: 1 }))
+    }
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SessionsService, { provide: PrismaService, useValue: mockPrismaService }]
+    }).compile()
+
+    service = module.get<SessionsService>(SessionsService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.session.deleteMany.mockImplementation(() => Promise.resolve({ count: 1 }))
+  })
+
+  describe('findForUser', () => {
+    it('should only list unexpired sessions and flag the current one', async () => {
+      const sessions = await service.findForUser('user-1', 'session-2')
+
+      expect(mockPrismaService.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1', expiresAt: { gt: expect.any(Date) as Date } }
+        })
+      )
+      expect(sessions.map(session => session.current)).toEqual([false, true])
+      expect(sessions[0].device.label).toBe('curl 8')
+      expect(sessions[0]).not.toHaveProperty('token')
+    })
+  })
+
+  describe('revokeForUser', () => {
+    it('should scope the deletion to the owner', async () => {
+      await service.revokeForUser('user-1', 'session-1')
+
+      expect(mockPrismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', userId: 'user-1' }
+      })
+    })
+
+    it('should throw NotFoundException when nothing was revoked', () => {
+      mockPrismaService.session.deleteMany.mockImplementation(() => Promise.resolve({ count: 0 }))
+
+      expect(service.revokeForUser('user-1', 'someone-else')).rejects.toThrow(NotFoundException)
+    })
+  })
+
+  describe('revokeAllForUser', () => {
+    it('should keep the excepted session', async () => {
+      await service.revokeAllForUser('user-1', 'session-2')
+
+      expect(mockPrismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', id: { not: 'session-2' } }
+      })
+    })
+
+    it('should revoke every session without exception', async () => {
+      await service.revokeAllForUser('user-1')
+
+      expect(mockPrismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' }
+      })
+    })
+  })
+
+  describe('removeExpired', () => {
+    it('should delete sessions past their expiry', async () => {
+      const count = await service.removeExpired()
+
+      expect(count).toBe(1)
+      expect(mockPrismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lte: expect.any(Date) as Date } }
+      })
+    })
+  })
+})
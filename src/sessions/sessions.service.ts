@@ -0,0 +1,78 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import { PrismaService } from '~/database/prisma.service'
+import { type DeviceSummary, parseUserAgent } from './userAgent.parser'
+
+// Session tokens are credentials and never leave the server
+const sessionSelect = {
+  id: true,
+  ipAddress: true,
+  userAgent: true,
+  createdAt: true,
+  updatedAt: true,
+  expiresAt: true
+} as const
+
+export interface SessionSummary {
+  id: string
+  ipAddress: string | null
+  userAgent: string | null
+  device: DeviceSummary
+  current: boolean
+  createdAt: Date
+  updatedAt: Date
+  expiresAt: Date
+}
+
+export interface RevokedSessions {
+  revokedSessions: number
+}
+
+@Injectable()
+export class SessionsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Lists the unexpired sessions of a user, most recently used first.
+   * `currentSessionId` flags the session making the request.
+   */
+  async findForUser(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, expiresAt: { gt: new Date() } },
+      select: sessionSelect,
+      orderBy: { updatedAt: 'desc' }
+    })
+
+    return sessions.map(session => ({
+      ...session,
+      device: parseUserAgent(session.userAgent),
+      current: session.id === currentSessionId
+    }))
+  }
+
+  // Scoped by user so nobody can revoke a session they do not own through this path
+  async revokeForUser(userId: string, sessionId: string): Promise<RevokedSessions> {
+    const { count } = await this.prisma.session.deleteMany({ where: { id: sessionId, userId } })
+
+    if (count === 0) {
+      throw new NotFoundException(`Session with ID "${sessionId}" not found`)
+    }
+
+    return { revokedSessions: count }
+  }
+
+  async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<RevokedSessions> {
+    const { count } = await this.prisma.session.deleteMany({
+      where: { userId, ...(exceptSessionId && { id: { not: exceptSessionId } }) }
+    })
+
+    return { revokedSessions: count }
+  }
+
+  async removeExpired(): Promise<number> {
+    const { count } = await this.prisma.session.deleteMany({
+      where: { expiresAt: { lte: new Date() } }
+    })
+
+    return count
+  }
+}
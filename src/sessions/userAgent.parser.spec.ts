@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'bun:test'
+import { parseUserAgent } from './userAgent.parser'
+
+describe('parseUserAgent', () => {
+  it('should recognise Chrome on macOS', () => {
+    const summary = parseUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    )
+
+    expect(summary).toEqual({
+      browser: 'Chrome 120',
+      os: 'macOS',
+      deviceType: 'desktop',
+      label: 'Chrome 120 on macOS'
+    })
+  })
+
+  it('should tell Edge apart from Chrome', () => {
+    const summary = parseUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91'
+    )
+
+    expect(summary.label).toBe('Edge 120 on Windows')
+  })
+
+  it('should recognise Safari on an iPhone as mobile', () => {
+    const summary = parseUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1'
+    )
+
+    expect(summary).toMatchObject({ browser: 'Safari 17', os: 'iOS', deviceType: 'mobile' })
+  })
+
+  it('should report Android devices without "Mobile" as tablets', () => {
+    const summary = parseUserAgent(
+      'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36'
+    )
+
+    expect(summary).toMatchObject({ os: 'Android', deviceType: 'tablet' })
+  })
+
+  it('should recognise Firefox on Linux', () => {
+    const summary = parseUserAgent(
+      'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0'
+    )
+
+    expect(summary.label).toBe('Firefox 121 on Linux')
+  })
+
+  it('should fall back to an unknown device', () => {
+    expect(parseUserAgent(null).label).toBe('Unknown device')
+    expect(parseUserAgent('SomeBot/1.0')).toEqual({
+      browser: null,
+      os: null,
+      deviceType: 'unknown',
+      label: 'Unknown browser'
+    })
+  })
+})
@@ -0,0 +1,74 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown'
+
+export interface DeviceSummary {
+  browser: string | null
+  os: string | null
+  deviceType: DeviceType
+  label: string
+}
+
+interface Matcher {
+  name: string
+  pattern: RegExp
+}
+
+// Order matters: Chromium-based browsers also advertise Chrome and Safari
+const BROWSERS: Matcher[] = [
+  { name: 'Edge', pattern: /Edg(?:e|A|iOS)?\/(\d+)/ },
+  { name: 'Opera', pattern: /(?:OPR|Opera)\/(\d+)/ },
+  { name: 'Samsung Internet', pattern: /SamsungBrowser\/(\d+)/ },
+  { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/(\d+)/ },
+  { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/(\d+)/ },
+  { name: 'Safari', pattern: /Version\/(\d+)[\d.]* .*Safari\// },
+  { name: 'curl', pattern: /^curl\/(\d+)/ }
+]
+
+const OPERATING_SYSTEMS: Matcher[] = [
+  { name: 'Windows', pattern: /Windows NT/ },
+  { name: 'iOS', pattern: /iPhone|iPad|iPod/ },
+  { name: 'Android', pattern: /Android/ },
+  { name: 'ChromeOS', pattern: /CrOS/ },
+  { name: 'macOS', pattern: /Macintosh|Mac OS X/ },
+  { name: 'Linux', pattern: /Linux/ }
+]
+
+const detectBrowser = (userAgent: string): string | null => {
+  for (const { name, pattern } of BROWSERS) {
+    const match = pattern.exec(userAgent)
+
+    if (match) {
+      return `${name} ${match[1]}`
+    }
+  }
+
+  return null
+}
+
+const detectDeviceType = (userAgent: string, os: string | null): DeviceType => {
+  if (/iPad|Tablet/.test(userAgent) || (os === 'Android' && !/Mobile/.test(userAgent))) {
+    return 'tablet'
+  }
+
+  if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    return 'mobile'
+  }
+
+  return os ? 'desktop' : 'unknown'
+}
+
+/**
+ * Builds a human readable summary ("Chrome 120 on macOS") from a User-Agent header.
+ * Only the major browsers are recognised; anything else is reported as unknown.
+ */
+export const parseUserAgent = (userAgent: string | null | undefined): DeviceSummary => {
+  // Guard: sessions created without a User-Agent header
+  if (!userAgent) {
+    return { browser: null, os: null, deviceType: 'unknown', label: 'Unknown device' }
+  }
+
+  const browser = detectBrowser(userAgent)
+  const os = OPERATING_SYSTEMS.find(({ pattern }) => pattern.test(userAgent))?.name ?? null
+  const label = [browser ?? 'Unknown browser', os && `on ${os}`].filter(Boolean).join(' ')
+
+  return { browser, os, deviceType: detectDeviceType(userAgent, os), label }
+}
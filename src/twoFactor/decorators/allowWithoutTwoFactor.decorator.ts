@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common'
+
+export const ALLOW_WITHOUT_TWO_FACTOR_KEY = 'allow_without_two_factor'
+
+// Routes an administrator still reaches before enrolling, when REQUIRE_ADMIN_TWO_FACTOR=true
+export const AllowWithoutTwoFactor = () => SetMetadata(ALLOW_WITHOUT_TWO_FACTOR_KEY, true)
@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+export class TwoFactorCodeDto {
+  // A 6-digit TOTP code, or a backup code where the route accepts one
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code!: string
+}
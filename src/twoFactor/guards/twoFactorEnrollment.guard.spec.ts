@@ -0,0 +1,66 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Reflector } from '@nestjs/core'
+import { describe, expect, it } from 'bun:test'
+import type { PrismaService } from '~/database/prisma.service'
+import { TwoFactorEnrollmentGuard } from './twoFactorEnrollment.guard'
+
+describe('TwoFactorEnrollmentGuard', () => {
+  const buildContext = (user: { id: string } | null): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) })
+    }) as unknown as ExecutionContext
+
+  const buildGuard = ({
+    enabled = true,
+    allowed = false,
+    isAdmin = true,
+    twoFactorEnabled = false
+  }): TwoFactorEnrollmentGuard => {
+    const reflector = { getAllAndOverride: () => allowed } as unknown as Reflector
+    const prisma = {
+      userRole: { count: () => Promise.resolve(isAdmin ? 1 : 0) },
+      twoFactor: {
+        findUnique: () => Promise.resolve(twoFactorEnabled ? { enabledAt: new Date() } : null)
+      }
+    } as unknown as PrismaService
+
+    return new TwoFactorEnrollmentGuard(
+      reflector,
+      prisma,
+      new ConfigService({ REQUIRE_ADMIN_TWO_FACTOR: String(enabled) })
+    )
+  }
+
+  it('should block administrators without 2FA when enabled', () => {
+    const guard = buildGuard({})
+
+    expect(guard.canActivate(buildContext({ id: 'admin-1' }))).rejects.toThrow(ForbiddenException)
+  })
+
+  it('should let administrators with 2FA through', async () => {
+    const guard = buildGuard({ twoFactorEnabled: true })
+
+    expect(await guard.canActivate(buildContext({ id: 'admin-1' }))).toBe(true)
+  })
+
+  it('should not concern other users', async () => {
+    const guard = buildGuard({ isAdmin: false })
+
+    expect(await guard.canActivate(buildContext({ id: 'user-1' }))).toBe(true)
+  })
+
+  it('should let administrators reach the enrollment routes', async () => {
+    const guard = buildGuard({ allowed: true })
+
+    expect(await guard.canActivate(buildContext({ id: 'admin-1' }))).toBe(true)
+  })
+
+  it('should let everyone through when the feature is disabled', async () => {
+    const guard = buildGuard({ enabled: false })
+
+    expect(await guard.canActivate(buildContext({ id: 'admin-1' }))).toBe(true)
+  })
+})
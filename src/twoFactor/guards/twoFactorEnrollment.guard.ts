@@ -0,0 +1,54 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Reflector } from '@nestjs/core'
+import type { AuthenticatedRequest } from '~/auth/interfaces/authenticatedRequest.interface'
+import { activeRoleAssignment } from '~/casl/permissions.service'
+import { RoleName } from '~/common/enums/role.enum'
+import { withCode } from '~/common/errors/errorCatalog'
+import { PrismaService } from '~/database/prisma.service'
+import { ALLOW_WITHOUT_TWO_FACTOR_KEY } from '../decorators/allowWithoutTwoFactor.decorator'
+import { isTwoFactorEnabled } from '../secondFactor'
+
+@Injectable()
+export class TwoFactorEnrollmentGuard implements CanActivate {
+  private readonly enabled: boolean
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+    config: ConfigService
+  ) {
+    this.enabled = config.get<string>('REQUIRE_ADMIN_TWO_FACTOR') === 'true'
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const allowed = this.reflector.getAllAndOverride<boolean | undefined>(
+      ALLOW_WITHOUT_TWO_FACTOR_KEY,
+      [context.getHandler(), context.getClass()]
+    )
+
+    // Guard: feature disabled or route needed to enroll
+    if (!this.enabled || allowed) {
+      return true
+    }
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>()
+
+    // Guard: anonymous access is the session guard's concern
+    if (!user) {
+      return true
+    }
+
+    const adminRoles = await this.prisma.userRole.count({
+      where: { userId: user.id, role: { name: RoleName.ADMIN }, ...activeRoleAssignment() }
+    })
+
+    if (adminRoles > 0 && !(await isTwoFactorEnabled(this.prisma, user.id))) {
+      throw new ForbiddenException(
+        withCode('AUTH_TWO_FACTOR_REQUIRED', 'Administrators must enable two-factor authentication')
+      )
+    }
+
+    return true
+  }
+}
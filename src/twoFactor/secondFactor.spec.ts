@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from 'bun:test'
+import type { PrismaService } from '~/database/prisma.service'
+import {
+  BACKUP_CODE_COUNT,
+  encryptTotpSecret,
+  generateBackupCodes,
+  hashBackupCode,
+  verifySecondFactor
+} from './secondFactor'
+import { generateTotp, generateTotpSecret, getTimeStep } from './totp'
+
+describe('secondFactor', () => {
+  const key = 'test-encryption-key'
+  const secret = generateTotpSecret()
+  let twoFactor: { id: string; secret: string; enabledAt: Date | null; lastUsedStep: number | null }
+  let backupCodes: { codeHash: string; usedAt: Date | null }[]
+
+  // Emulates the conditional updates the verification relies on
+  const prisma = {
+    twoFactor: {
+      findUnique: () => Promise.resolve(twoFactor),
+      updateMany: ({ data }: { data: { lastUsedStep: number } }) => {
+        const accepted =
+          twoFactor.lastUsedStep === null || twoFactor.lastUsedStep < data.lastUsedStep
+
+        if (accepted) {
+          twoFactor.lastUsedStep = data.lastUsedStep
+        }
+
+        return Promise.resolve({ count: accepted ? 1 : 0 })
+      }
+    },
+    twoFactorBackupCode: {
+      updateMany: ({ where }: { where: { codeHash: string } }) => {
+        const backupCode = backupCodes.find(
+          candidate => candidate.codeHash === where.codeHash && !candidate.usedAt
+        )
+
+        if (backupCode) {
+          backupCode.usedAt = new Date()
+        }
+
+        return Promise.resolve({ count: backupCode ? 1 : 0 })
+      }
+    }
+  } as unknown as PrismaService
+
+  beforeEach(async () => {
+    twoFactor = {
+      id: 'two-factor-1',
+      secret: await encryptTotpSecret(secret, key),
+      enabledAt: new Date(),
+      lastUsedStep: null
+    }
+    backupCodes = []
+  })
+
+  it('should generate distinct, readable backup codes', () => {
+    const codes = generateBackupCodes()
+
+    expect(codes).toHaveLength(BACKUP_CODE_COUNT)
+    expect(new Set(codes).size).toBe(BACKUP_CODE_COUNT)
+    expect(codes[0]).toMatch(/^[A-Z2-7]{4}-[A-Z2-7]{4}$/)
+  })
+
+  it('should hash backup codes regardless of case and dashes', () => {
+    expect(hashBackupCode('abcd-efgh')).toBe(hashBackupCode('ABCDEFGH'))
+    expect(hashBackupCode('ABCD-EFGH')).not.toContain('ABCD')
+  })
+
+  it('should accept a TOTP code only once', async () => {
+    const code = generateTotp(secret, getTimeStep())
+
+    expect(await verifySecondFactor(prisma, key, 'user-1', code)).toBe('totp')
+    expect(await verifySecondFactor(prisma, key, 'user-1', code)).toBeNull()
+  })
+
+  it('should consume a backup code only once', async () => {
+    const [code] = generateBackupCodes()
+    backupCodes.push({ codeHash: hashBackupCode(code), usedAt: null })
+
+    expect(await verifySecondFactor(prisma, key, 'user-1', code.toLowerCase())).toBe('backup-code')
+    expect(await verifySecondFactor(prisma, key, 'user-1', code)).toBeNull()
+  })
+
+  it('should reject every code until the enrollment is confirmed', async () => {
+    twoFactor.enabledAt = null
+
+    expect(
+      await verifySecondFactor(prisma, key, 'user-1', generateTotp(secret, getTimeStep()))
+    ).toBeNull()
+  })
+})
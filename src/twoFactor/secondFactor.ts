@@ -0,0 +1,78 @@
+import { symmetricDecrypt, symmetricEncrypt } from 'better-auth/crypto'
+import { createHash, randomBytes } from 'node:crypto'
+import { PrismaService } from '~/database/prisma.service'
+import { encodeBase32, matchTotp } from './totp'
+
+export const BACKUP_CODE_COUNT = 10
+
+export type SecondFactorMethod = 'totp' | 'backup-code'
+
+// Secrets must be readable again to check codes, so they are encrypted rather than hashed
+export const encryptTotpSecret = (secret: string, key: string): Promise<string> =>
+  symmetricEncrypt({ key, data: secret })
+
+export const decryptTotpSecret = (encrypted: string, key: string): Promise<string> =>
+  symmetricDecrypt({ key, data: encrypted })
+
+// Codes look like "ABCD-EFGH"; dashes, spaces and case are ignored when checking them
+export const generateBackupCodes = (): string[] =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () =>
+    encodeBase32(randomBytes(5)).replace(/^(.{4})/, '$1-')
+  )
+
+export const hashBackupCode = (code: string): string =>
+  createHash('sha256').update(code.toUpperCase().replace(/[\s-]/g, '')).digest('hex')
+
+export const isTwoFactorEnabled = async (prisma: PrismaService, userId: string) => {
+  const twoFactor = await prisma.twoFactor.findUnique({
+    where: { userId },
+    select: { enabledAt: true }
+  })
+
+  return Boolean(twoFactor?.enabledAt)
+}
+
+/**
+ * Checks a TOTP code or consumes a backup code for a user with 2FA enabled.
+ * Both are single-use: a TOTP time step is only accepted once, and only the
+ * request that marks a backup code as used may use it.
+ */
+export const verifySecondFactor = async (
+  prisma: PrismaService,
+  encryptionKey: string,
+  userId: string,
+  code: string
+): Promise<SecondFactorMethod | null> => {
+  const twoFactor = await prisma.twoFactor.findUnique({ where: { userId } })
+
+  // Guard: 2FA never confirmed
+  if (!twoFactor?.enabledAt) {
+    return null
+  }
+
+  if (/^\d{6}$/.test(code)) {
+    const secret = await decryptTotpSecret(twoFactor.secret, encryptionKey)
+    const step = matchTotp(secret, code)
+
+    if (step === null) {
+      return null
+    }
+
+    const { count } = await prisma.twoFactor.updateMany({
+      where: {
+        id: twoFactor.id,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }]
+      },
+      data: { lastUsedStep: step }
+    })
+
+    return count > 0 ? 'totp' : null
+  }
+
+  const { count } = await prisma.twoFactorBackupCode.updateMany({
+    where: { twoFactorId: twoFactor.id, codeHash: hashBackupCode(code), usedAt: null },
+    data: { usedAt: new Date() }
+  })
+
+  return count > 0 ? 'backup-code' : null
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateTotp,
+  generateTotpSecret,
+  getTimeStep,
+  matchTotp
+} from './totp'
+
+describe('totp', () => {
+  // Secret of the RFC 6238 SHA-1 test vectors
+  const rfcSecret = encodeBase32(Buffer.from('12345678901234567890'))
+
+  it('should round-trip base32', () => {
+    const secret = generateTotpSecret()
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(encodeBase32(decodeBase32(secret))).toBe(secret)
+  })
+
+  it('should reject invalid base32 characters', () => {
+    expect(() => decodeBase32('ABC1')).toThrow()
+  })
+
+  it('should match the RFC 6238 test vectors', () => {
+    // The RFC lists 8-digit codes, authenticator apps show their last 6 digits
+    expect(generateTotp(rfcSecret, getTimeStep(59_000))).toBe('287082')
+    expect(generateTotp(rfcSecret, getTimeStep(1_111_111_109_000))).toBe('081804')
+    expect(generateTotp(rfcSecret, getTimeStep(1_234_567_890_000))).toBe('005924')
+  })
+
+  it('should accept one step of clock drift and return the matched step', () => {
+    const now = 1_234_567_890_000
+    const step = getTimeStep(now)
+
+    expect(matchTotp(rfcSecret, generateTotp(rfcSecret, step), now)).toBe(step)
+    expect(matchTotp(rfcSecret, generateTotp(rfcSecret, step - 1), now)).toBe(step - 1)
+    expect(matchTotp(rfcSecret, generateTotp(rfcSecret, step + 1), now)).toBe(step + 1)
+    expect(matchTotp(rfcSecret, generateTotp(rfcSecret, step - 2), now)).toBeNull()
+  })
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = new URL(buildOtpauthUri('JBSWY3DPEHPK3PXP', 'Acme Shop', 'jane@example.com'))
+
+    expect(uri.protocol).toBe('otpauth:')
+    expect(uri.host).toBe('totp')
+    expect(decodeURIComponent(uri.pathname)).toBe('/Acme Shop:jane@example.com')
+    expect(uri.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP')
+    expect(uri.searchParams.get('issuer')).toBe('Acme Shop')
+    expect(uri.searchParams.get('digits')).toBe('6')
+  })
+})
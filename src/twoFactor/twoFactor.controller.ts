@@ -0,0 +1,40 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Post } from '@nestjs/common'
+import { Session } from '@thallesp/nestjs-better-auth'
+import type { AuthSession } from '~/auth/auth.config'
+import { AllowWithoutTwoFactor } from './decorators/allowWithoutTwoFactor.decorator'
+import { TwoFactorCodeDto } from './dto/twoFactorCode.dto'
+import { TwoFactorService } from './twoFactor.service'
+
+// Every signed-in user manages their own second factor, no policy needed
+@Controller('auth/2fa')
+@AllowWithoutTwoFactor()
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get()
+  status(@Session() { user }: AuthSession) {
+    return this.twoFactorService.getStatus(user.id)
+  }
+
+  @Post('enroll')
+  enroll(@Session() { user }: AuthSession) {
+    return this.twoFactorService.enroll(user)
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  confirm(@Session() { user }: AuthSession, @Body() dto: TwoFactorCodeDto) {
+    return this.twoFactorService.confirm(user.id, dto.code)
+  }
+
+  @Post('backup-codes')
+  regenerateBackupCodes(@Session() { user }: AuthSession, @Body() dto: TwoFactorCodeDto) {
+    return this.twoFactorService.regenerateBackupCodes(user.id, dto.code)
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  disable(@Session() { user }: AuthSession, @Body() dto: TwoFactorCodeDto) {
+    return this.twoFactorService.disable(user.id, dto.code)
+  }
+}
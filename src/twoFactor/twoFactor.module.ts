@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { APP_GUARD } from '@nestjs/core'
+import { BetterAuthModule } from '~/auth/betterAuth.module'
+import { CommonModule } from '~/common/common.module'
+import { TwoFactorEnrollmentGuard } from './guards/twoFactorEnrollment.guard'
+import { TwoFactorController } from './twoFactor.controller'
+import { TwoFactorService } from './twoFactor.service'
+
+@Module({
+  imports: [BetterAuthModule, CommonModule],
+  controllers: [TwoFactorController],
+  providers: [TwoFactorService, { provide: APP_GUARD, useClass: TwoFactorEnrollmentGuard }]
+})
+export class TwoFactorModule {}
@@ -0,0 +1,145 @@
+import type { BetterAuthPlugin } from 'better-auth'
+import { APIError, createAuthEndpoint, createAuthMiddleware } from 'better-auth/api'
+import { deleteSessionCookie, setSessionCookie } from 'better-auth/cookies'
+import { createHash, randomBytes } from 'node:crypto'
+import { z } from 'zod'
+import { PrismaService } from '~/database/prisma.service'
+import { isTwoFactorEnabled, verifySecondFactor } from './secondFactor'
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+const CHALLENGE_MAX_ATTEMPTS = 5
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true
+  challengeToken: string
+}
+
+interface ChallengeState {
+  userId: string
+  attempts: number
+}
+
+// Only a hash of the challenge token is stored, like every other token
+const challengeIdentifier = (token: string): string =>
+  `two-factor-challenge:${createHash('sha256').update(token).digest('hex')}`
+
+// Every endpoint that signs a user in: email/password, then the GitHub and OIDC (Google) callbacks
+const SIGN_IN_PATHS = new Set(['/sign-in/email', '/callback/:id', '/oauth2/callback/:providerId'])
+
+const invalidChallenge = () =>
+  new APIError('UNAUTHORIZED', {
+    message: 'Invalid or expired two-factor challenge',
+    code: 'INVALID_TWO_FACTOR_CHALLENGE'
+  })
+
+/**
+ * Turns sign-in into a two-step flow for users with 2FA enabled: the session
+ * created by the password check or the OAuth callback is discarded and a
+ * short-lived challenge is issued instead, which `verifyTwoFactor` exchanges
+ * for a session given a TOTP or backup code. Email sign-in returns the
+ * challenge in the body; OAuth callbacks redirect to the callback URL with
+ * `twoFactorRequired` and `challengeToken` query parameters. The endpoint is
+ * server-only, it is reached through AuthController so the body gets validated.
+ */
+export const twoFactorChallenge = (prisma: PrismaService) =>
+  ({
+    id: 'two-factor-challenge',
+    endpoints: {
+      verifyTwoFactor: createAuthEndpoint(
+        '/two-factor/verify',
+        {
+          method: 'POST',
+          body: z.object({ challengeToken: z.string(), code: z.string() }),
+          metadata: { SERVER_ONLY: true }
+        },
+        async context => {
+          const { challengeToken, code } = context.body
+          const { internalAdapter } = context.context
+          const challenge = await internalAdapter.findVerificationValue(
+            challengeIdentifier(challengeToken)
+          )
+
+          if (!challenge || challenge.expiresAt <= new Date()) {
+            throw invalidChallenge()
+          }
+
+          const state = JSON.parse(challenge.value) as ChallengeState
+          const method = await verifySecondFactor(
+            prisma,
+            context.context.secret,
+            state.userId,
+            code
+          )
+
+          if (!method) {
+            const attempts = state.attempts + 1
+
+            // Too many wrong codes: the password has to be entered again
+            if (attempts >= CHALLENGE_MAX_ATTEMPTS) {
+              await internalAdapter.deleteVerificationValue(challenge.id)
+            } else {
+              await internalAdapter.updateVerificationValue(challenge.id, {
+                value: JSON.stringify({ ...state, attempts })
+              })
+            }
+
+            throw new APIError('UNAUTHORIZED', {
+              message: 'Invalid two-factor code',
+              code: 'INVALID_TWO_FACTOR_CODE'
+            })
+          }
+
+          await internalAdapter.deleteVerificationValue(challenge.id)
+
+          const user = await internalAdapter.findUserById(state.userId)
+
+          if (!user) {
+            throw invalidChallenge()
+          }
+
+          const session = await internalAdapter.createSession(user.id, context)
+          await setSessionCookie(context, { session, user })
+
+          return context.json({ user, method })
+        }
+      )
+    },
+    hooks: {
+      after: [
+        {
+          matcher: context => SIGN_IN_PATHS.has(context.path),
+          handler: createAuthMiddleware(async context => {
+            const newSession = context.context.newSession
+
+            // Guard: failed sign-in or 2FA not enabled
+            if (!newSession || !(await isTwoFactorEnabled(prisma, newSession.user.id))) {
+              return
+            }
+
+            deleteSessionCookie(context)
+            await context.context.internalAdapter.deleteSession(newSession.session.token)
+
+            const challengeToken = randomBytes(32).toString('base64url')
+            await context.context.internalAdapter.createVerificationValue({
+              identifier: challengeIdentifier(challengeToken),
+              value: JSON.stringify({ userId: newSession.user.id, attempts: 0 }),
+              expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+            })
+
+            const location = context.context.responseHeaders?.get('location')
+
+            // Guard: email sign-in answers with JSON
+            if (!location) {
+              return context.json<TwoFactorChallenge>({ twoFactorRequired: true, challengeToken })
+            }
+
+            const redirectUrl = new URL(location, context.context.baseURL)
+            redirectUrl.searchParams.set('twoFactorRequired', 'true')
+            redirectUrl.searchParams.set('challengeToken', challengeToken)
+
+            throw context.redirect(redirectUrl.toString())
+          })
+        }
+      ]
+    }
+  }) satisfies BetterAuthPlugin
@@ -0,0 +1,147 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { BETTER_AUTH } from '~/auth/auth.config'
+import { LoggerService } from '~/common/logger.service'
+import { PrismaService } from '~/database/prisma.service'
+import { decryptTotpSecret, encryptTotpSecret, hashBackupCode } from './secondFactor'
+import { generateTotp, generateTotpSecret, getTimeStep } from './totp'
+import { TwoFactorService } from './twoFactor.service'
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService
+  const encryptionKey = 'test-encryption-key'
+  const user = { id: 'user-1', email: 'jane@example.com' }
+  const mockPrismaService = {
+    twoFactor: {
+      findUnique: mock<() => Promise<unknown>>(() => Promise.resolve(null)),
+      findUniqueOrThrow: mock(() => Promise.resolve({ id: 'two-factor-1' })),
+      upsert: mock<(args: { create: { secret: string } }) => Promise<unknown>>(() =>
+        Promise.resolve({})
+      ),
+      update: mock(() => Promise.resolve({})),
+      updateMany: mock(() => Promise.resolve({ count: 1 })),
+      delete: mock(() => Promise.resolve({}))
+    },
+    twoFactorBackupCode: {
+      createMany: mock<(args: { data: { codeHash: string }[] }) => Promise<unknown>>(() =>
+        Promise.resolve({ count: 10 })
+      ),
+      deleteMany: mock(() => Promise.resolve({ count: 10 })),
+      updateMany: mock(() => Promise.resolve({ count: 0 }))
+    },
+    $transaction: mock((operations: Promise<unknown>[]) => Promise.all(operations))
+  }
+  const mockLoggerService = { info: mock(() => {}), warn: mock(() => {}) }
+
+  const pendingTwoFactor = async (secret: string, enabledAt: Date | null = null) => ({
+    id: 'two-factor-1',
+    userId: user.id,
+    secret: await encryptTotpSecret(secret, encryptionKey),
+    enabledAt,
+    lastUsedStep: null
+  })
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: BETTER_AUTH,
+          useValue: { $context: Promise.resolve({ secret: encryptionKey }) }
+        },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: ConfigService, useValue: new ConfigService({ TWO_FACTOR_ISSUER: 'Acme' }) }
+      ]
+    }).compile()
+
+    service = module.get<TwoFactorService>(TwoFactorService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.twoFactor.findUnique.mockImplementation(() => Promise.resolve(null))
+  })
+
+  describe('enroll', () => {
+    it('should return an otpauth URI and store the secret encrypted', async () => {
+      const { secret, otpauthUri } = await service.enroll(user)
+      const stored = mockPrismaService.twoFactor.upsert.mock.calls[0][0].create.secret
+
+      expect(otpauthUri).toStartWith('otpauth://totp/Acme:jane%40example.com?secret=')
+      expect(otpauthUri).toContain(secret)
+      expect(stored).not.toContain(secret)
+      expect(await decryptTotpSecret(stored, encryptionKey)).toBe(secret)
+    })
+
+    it('should refuse to replace an enabled secret', async () => {
+      const twoFactor = await pendingTwoFactor(generateTotpSecret(), new Date())
+      mockPrismaService.twoFactor.findUnique.mockImplementation(() => Promise.resolve(twoFactor))
+
+      const error = await service.enroll(user).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+    })
+  })
+
+  describe('confirm', () => {
+    it('should enable 2FA and return backup codes stored as hashes', async () => {
+      const secret = generateTotpSecret()
+      const twoFactor = await pendingTwoFactor(secret)
+      mockPrismaService.twoFactor.findUnique.mockImplementation(() => Promise.resolve(twoFactor))
+
+      const { backupCodes } = await service.confirm(user.id, generateTotp(secret, getTimeStep()))
+      const { data } = mockPrismaService.twoFactorBackupCode.createMany.mock.calls[0][0]
+
+      expect(backupCodes).toHaveLength(10)
+      expect(data.map(row => row.codeHash)).toEqual(backupCodes.map(hashBackupCode))
+      expect(mockPrismaService.twoFactor.update).toHaveBeenCalledWith({
+        where: { id: 'two-factor-1' },
+        data: { enabledAt: expect.any(Date) as Date, lastUsedStep: getTimeStep() }
+      })
+    })
+
+    it('should reject a wrong code', async () => {
+      const twoFactor = await pendingTwoFactor(generateTotpSecret())
+      mockPrismaService.twoFactor.findUnique.mockImplementation(() => Promise.resolve(twoFactor))
+
+      const error = await service.confirm(user.id, '000000').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+      expect(mockPrismaService.twoFactor.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundException without a pending enrollment', async () => {
+      const error = await service.confirm(user.id, '123456').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(NotFoundException)
+    })
+  })
+
+  describe('disable', () => {
+    it('should require a valid second factor', async () => {
+      const twoFactor = await pendingTwoFactor(generateTotpSecret(), new Date())
+      mockPrismaService.twoFactor.findUnique.mockImplementation(() => Promise.resolve(twoFactor))
+
+      const error = await service.disable(user.id, 'ABCD-EFGH').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(BadRequestException)
+      expect(mockPrismaService.twoFactor.delete).not.toHaveBeenCalled()
+    })
+
+    it('should remove the secret with a valid code', async () => {
+      const secret = generateTotpSecret()
+      const twoFactor = await pendingTwoFactor(secret, new Date())
+      mockPrismaService.twoFactor.findUnique.mockImplementation(() => Promise.resolve(twoFactor))
+
+      const status = await service.disable(user.id, generateTotp(secret, getTimeStep()))
+
+      expect(status.enabled).toBe(false)
+      expect(mockPrismaService.twoFactor.delete).toHaveBeenCalledWith({
+        where: { userId: user.id }
+      })
+    })
+  })
+})
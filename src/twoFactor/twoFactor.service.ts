@@ -0,0 +1,190 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { BETTER_AUTH, type AuthUser, type BetterAuth } from '~/auth/auth.config'
+import { withCode } from '~/common/errors/errorCatalog'
+import { LoggerService } from '~/common/logger.service'
+import { PrismaService } from '~/database/prisma.service'
+import {
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateBackupCodes,
+  hashBackupCode,
+  verifySecondFactor
+} from './secondFactor'
+import { buildOtpauthUri, generateTotpSecret, matchTotp } from './totp'
+
+const DEFAULT_ISSUER = 'NestJS Auth'
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: Date | null
+  remainingBackupCodes: number
+}
+
+export interface TwoFactorEnrollment {
+  secret: string
+  otpauthUri: string
+}
+
+// Returned once: only hashes are stored afterwards
+export interface BackupCodes {
+  backupCodes: string[]
+}
+
+/**
+ * TOTP enrollment: `enroll` creates a pending secret, `confirm` enables it once
+ * the authenticator app produced a valid code and hands out the backup codes.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly issuer: string
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(BETTER_AUTH) private readonly auth: BetterAuth,
+    private readonly logger: LoggerService,
+    config: ConfigService
+  ) {
+    this.issuer = config.get<string>('TWO_FACTOR_ISSUER') ?? DEFAULT_ISSUER
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const twoFactor = await this.prisma.twoFactor.findUnique({
+      where: { userId },
+      select: {
+        enabledAt: true,
+        _count: { select: { backupCodes: { where: { usedAt: null } } } }
+      }
+    })
+
+    return {
+      enabled: Boolean(twoFactor?.enabledAt),
+      enabledAt: twoFactor?.enabledAt ?? null,
+      remainingBackupCodes: twoFactor?._count.backupCodes ?? 0
+    }
+  }
+
+  // Starting over replaces any pending secret
+  async enroll(user: Pick<AuthUser, 'id' | 'email'>): Promise<TwoFactorEnrollment> {
+    const existing = await this.prisma.twoFactor.findUnique({ where: { userId: user.id } })
+
+    if (existing?.enabledAt) {
+      throw new ConflictException(
+        withCode('AUTH_TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled')
+      )
+    }
+
+    const secret = generateTotpSecret()
+    const encrypted = await encryptTotpSecret(secret, await this.getEncryptionKey())
+
+    await this.prisma.twoFactor.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, secret: encrypted },
+      update: { secret: encrypted, lastUsedStep: null }
+    })
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, this.issuer, user.email) }
+  }
+
+  async confirm(userId: string, code: string): Promise<BackupCodes> {
+    const twoFactor = await this.prisma.twoFactor.findUnique({ where: { userId } })
+
+    if (!twoFactor) {
+      throw new NotFoundException('Start the two-factor enrollment first')
+    }
+
+    if (twoFactor.enabledAt) {
+      throw new ConflictException(
+        withCode('AUTH_TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled')
+      )
+    }
+
+    const secret = await decryptTotpSecret(twoFactor.secret, await this.getEncryptionKey())
+    const step = matchTotp(secret, code)
+
+    if (step === null) {
+      throw new BadRequestException(
+        withCode('AUTH_TWO_FACTOR_INVALID_CODE', 'Invalid two-factor code')
+      )
+    }
+
+    const backupCodes = generateBackupCodes()
+
+    await this.prisma.$transaction([
+      this.prisma.twoFactor.update({
+        where: { id: twoFactor.id },
+        data: { enabledAt: new Date(), lastUsedStep: step }
+      }),
+      this.prisma.twoFactorBackupCode.createMany({
+        data: backupCodes.map(backupCode => ({
+          twoFactorId: twoFactor.id,
+          codeHash: hashBackupCode(backupCode)
+        }))
+      })
+    ])
+
+    this.logger.info('Two-factor authentication enabled', { action: 'enableTwoFactor', userId })
+
+    return { backupCodes }
+  }
+
+  // Previous backup codes stop working
+  async regenerateBackupCodes(userId: string, code: string): Promise<BackupCodes> {
+    await this.ensureSecondFactor(userId, code)
+
+    const twoFactor = await this.prisma.twoFactor.findUniqueOrThrow({ where: { userId } })
+    const backupCodes = generateBackupCodes()
+
+    await this.prisma.$transaction([
+      this.prisma.twoFactorBackupCode.deleteMany({ where: { twoFactorId: twoFactor.id } }),
+      this.prisma.twoFactorBackupCode.createMany({
+        data: backupCodes.map(backupCode => ({
+          twoFactorId: twoFactor.id,
+          codeHash: hashBackupCode(backupCode)
+        }))
+      })
+    ])
+
+    this.logger.info('Backup codes regenerated', { action: 'regenerateBackupCodes', userId })
+
+    return { backupCodes }
+  }
+
+  async disable(userId: string, code: string): Promise<TwoFactorStatus> {
+    await this.ensureSecondFactor(userId, code)
+
+    // Backup codes go with it (cascade)
+    await this.prisma.twoFactor.delete({ where: { userId } })
+
+    this.logger.warn('Two-factor authentication disabled', { action: 'disableTwoFactor', userId })
+
+    return { enabled: false, enabledAt: null, remainingBackupCodes: 0 }
+  }
+
+  // Sensitive changes need a fresh second factor, not just the session
+  private async ensureSecondFactor(userId: string, code: string): Promise<void> {
+    const method = await verifySecondFactor(
+      this.prisma,
+      await this.getEncryptionKey(),
+      userId,
+      code
+    )
+
+    if (!method) {
+      throw new BadRequestException(
+        withCode('AUTH_TWO_FACTOR_INVALID_CODE', 'Invalid two-factor code')
+      )
+    }
+  }
+
+  // Same key as the sign-in challenge, which only has Better Auth's context
+  private async getEncryptionKey(): Promise<string> {
+    return (await this.auth.$context).secret
+  }
+}
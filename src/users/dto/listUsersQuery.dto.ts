@@ -0,0 +1,53 @@
+import { Transform, Type } from 'class-transformer'
+import { IsBoolean, IsDate, IsOptional, IsString, MaxLength } from 'class-validator'
+import { activeRoleAssignment } from '~/casl/permissions.service'
+import { Filter, Sortable } from '~/common/listQuery/listQuery.decorators'
+import { ListQueryDto } from '~/common/listQuery/listQuery.dto'
+import { toBoolean } from '~/common/transforms/toBoolean.transform'
+import { toList } from '~/common/transforms/toList.transform'
+
+@Sortable('createdAt', 'email')
+export class ListUsersQueryDto extends ListQueryDto {
+  // Role names, e.g. "ADMIN,PRODUCT_MANAGER"; only active assignments match
+  @Filter('in', {
+    where: (names: string[]) => ({
+      roles: { some: { role: { name: { in: names } }, ...activeRoleAssignment() } }
+    })
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsString({ each: true })
+  role?: string[]
+
+  // Substring of the email address
+  @Filter('contains')
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  email?: string
+
+  @Filter('eq')
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  emailVerified?: boolean
+
+  @Filter('eq')
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  isActive?: boolean
+
+  // Creation date range, inclusive
+  @Filter('gte', { field: 'createdAt' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date
+
+  @Filter('lte', { field: 'createdAt' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdTo?: Date
+}
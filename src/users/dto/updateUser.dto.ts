@@ -0,0 +1,20 @@
+import { IsBoolean, IsEmail, IsOptional, IsString, IsUrl, MaxLength } from 'class-validator'
+
+export class UpdateUserDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string
+
+  @IsOptional()
+  @IsEmail()
+  email?: string
+
+  @IsOptional()
+  @IsBoolean()
+  emailVerified?: boolean
+
+  @IsOptional()
+  @IsUrl()
+  image?: string
+}
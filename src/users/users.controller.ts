@@ -0,0 +1,93 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query
+} from '@nestjs/common'
+import { Audit } from '~/auditLogs/decorators/audit.decorator'
+import type { AuthUser } from '~/auth/auth.config'
+import { CurrentUser } from '~/auth/decorators/currentUser.decorator'
+import { RequireVerifiedEmail } from '~/auth/decorators/requireVerifiedEmail.decorator'
+import { CheckPolicies } from '~/casl/decorators/checkPolicies.decorator'
+import { LoggerService } from '~/common/logger.service'
+import { ListUsersQueryDto } from './dto/listUsersQuery.dto'
+import { UpdateUserDto } from './dto/updateUser.dto'
+import { UsersService } from './users.service'
+
+@Controller('users')
+@RequireVerifiedEmail()
+export class UsersController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly logger: LoggerService
+  ) {}
+
+  @Get()
+  @CheckPolicies(ability => ability.can('read', 'User'))
+  findAll(@Query() query: ListUsersQueryDto) {
+    return this.usersService.findAll(query)
+  }
+
+  @Get(':id')
+  @CheckPolicies(ability => ability.can('read', 'User'))
+  findOne(@Param('id') id: string) {
+    return this.usersService.findOne(id)
+  }
+
+  @Patch(':id')
+  @CheckPolicies(ability => ability.can('update', 'User'))
+  @Audit('updateUser', 'User', 'id')
+  async update(@Param('id') id: string, @Body() dto: UpdateUserDto) {
+    const user = await this.usersService.update(id, dto)
+
+    this.logger.info('User updated', { action: 'updateUser', userId: id })
+
+    return user
+  }
+
+  @Delete(':id')
+  @CheckPolicies(ability => ability.can('delete', 'User'))
+  @Audit('deleteUser', 'User', 'id')
+  async remove(@Param('id') id: string, @CurrentUser() currentUser: AuthUser) {
+    const user = await this.usersService.remove(id, currentUser.id)
+
+    this.logger.warn('User deleted', { action: 'deleteUser', userId: id, by: currentUser.id })
+
+    return user
+  }
+
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @CheckPolicies(ability => ability.can('update', 'User'))
+  @Audit('deactivateUser', 'User', 'id')
+  async deactivate(@Param('id') id: string, @CurrentUser() currentUser: AuthUser) {
+    const result = await this.usersService.deactivate(id, currentUser.id)
+
+    this.logger.warn('User deactivated', {
+      action: 'deactivateUser',
+      userId: id,
+      by: currentUser.id,
+      revokedSessions: result.revokedSessions
+    })
+
+    return result
+  }
+
+  @Post(':id/activate')
+  @HttpCode(HttpStatus.OK)
+  @CheckPolicies(ability => ability.can('update', 'User'))
+  @Audit('activateUser', 'User', 'id')
+  async activate(@Param('id') id: string, @CurrentUser() currentUser: AuthUser) {
+    const user = await this.usersService.activate(id)
+
+    this.logger.info('User activated', { action: 'activateUser', userId: id, by: currentUser.id })
+
+    return user
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+import { CommonModule } from '~/common/common.module'
+import { UsersController } from './users.controller'
+import { UsersService } from './users.service'
+
+@Module({
+  imports: [CommonModule],
+  controllers: [UsersController],
+  providers: [UsersService]
+})
+export class UsersModule {}
@@ -0,0 +1,180 @@
+import { ConflictException, NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { ListQueryService } from '~/common/listQuery/listQuery.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ListUsersQueryDto } from './dto/listUsersQuery.dto'
+import { UsersService } from './users.service'
+
+describe('UsersService', () => {
+  let service: UsersService
+  const buildUser = (id: string) => ({
+    id,
+    name: null,
+    email: `${id}@example.com`,
+    emailVerified: false,
+    image: null,
+    isActive: true,
+    bannedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    roles: [{ expiresAt: null, role: { id: 'role-user', name: 'USER' } }]
+  })
+  const mockPrismaService = {
+    user: {
+      count: mock(() => Promise.resolve(3)),
+      findMany: mock(() => Promise.resolve([buildUser('user-1'), buildUser('user-2')])),
+      findUnique: mock(() => Promise.resolve(buildUser('user-2') as unknown)),
+      update: mock(() => Promise.resolve(buildUser('user-2'))),
+      delete: mock(() => Promise.resolve(buildUser('user-2')))
+    },
+    session: {
+      deleteMany: mock(() => Promise.resolve({ count: 2 }))
+    },
+    order: {
+      count: mock(() => Promise.resolve(0))
+    },
+    $transaction: mock((operations: Promise<unknown>[]) => Promise.all(operations))
+  }
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        ListQueryService,
+        { provide: PrismaService, useValue: mockPrismaService }
+      ]
+    }).compile()
+
+    service = module.get<UsersService>(UsersService)
+  })
+
+  afterEach(() => {
+    mock.clearAllMocks()
+    mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve(buildUser('user-2')))
+  })
+
+  describe('findAll', () => {
+    const buildQuery = (query: Partial<ListUsersQueryDto>) =>
+      Object.assign(new ListUsersQueryDto(), query)
+
+    it('should translate filters into a Prisma where clause', async () => {
+      await service.findAll(buildQuery({ email: 'example', emailVerified: false, role: ['ADMIN'] }))
+
+      expect(mockPrismaService.user.count).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            {
+              roles: {
+                some: expect.objectContaining({ role: { name: { in: ['ADMIN'] } } }) as object
+              }
+            },
+            { email: { contains: 'example' } },
+            { emailVerified: false }
+          ]
+        }
+      })
+    })
+
+    it('should paginate by offset and flatten roles', async () => {
+      const result = await service.findAll(buildQuery({ page: 2, limit: 1 }))
+
+      expect(mockPrismaService.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          skip: 1,
+          take: 2,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+        })
+      )
+      expect(result.data).toHaveLength(1)
+      expect(result.data[0].roles).toEqual([{ id: 'role-user', name: 'USER', expiresAt: null }])
+      expect(result.meta).toMatchObject({ total: 3, limit: 1, page: 2 })
+      expect(result.meta.nextCursor).toEqual(expect.any(String) as string)
+    })
+
+    it('should paginate from the cursor of the previous page', async () => {
+      const first = await service.findAll(buildQuery({ limit: 1, sort: 'email' }))
+      const result = await service.findAll(
+        buildQuery({ cursor: first.meta.nextCursor!, limit: 5, sort: 'email' })
+      )
+
+      expect(mockPrismaService.user.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          cursor: { id: 'user-1' },
+          skip: 1,
+          orderBy: [{ email: 'asc' }, { id: 'asc' }]
+        })
+      )
+      expect(result.meta).toEqual({ total: 3, limit: 5, page: null, nextCursor: null })
+    })
+  })
+
+  describe('update', () => {
+    it('should reject an email used by another account', async () => {
+      const error = await service
+        .update('user-2', { email: 'user-1@example.com' })
+        .catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deactivate', () => {
+    it('should block the user and revoke their sessions', async () => {
+      const result = await service.deactivate('user-2', 'user-1')
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'user-2' },
+          data: { isActive: false, bannedAt: expect.any(Date) as Date }
+        })
+      )
+      expect(mockPrismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-2' }
+      })
+      expect(result.revokedSessions).toBe(2)
+    })
+
+    it('should refuse to deactivate the current user', async () => {
+      const error = await service.deactivate('user-1', 'user-1').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPrismaService.session.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundException for unknown users', () => {
+      mockPrismaService.user.findUnique.mockImplementation(() => Promise.resolve(null))
+
+      expect(service.deactivate('missing', 'user-1')).rejects.toThrow(NotFoundException)
+    })
+  })
+
+  describe('activate', () => {
+    it('should clear the ban', async () => {
+      await service.activate('user-2')
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { isActive: true, bannedAt: null } })
+      )
+    })
+  })
+
+  describe('remove', () => {
+    it('should refuse to delete the current user', async () => {
+      const error = await service.remove('user-1', 'user-1').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPrismaService.user.delete).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to delete a user who placed orders', async () => {
+      mockPrismaService.order.count.mockResolvedValueOnce(2)
+
+      const error = await service.remove('user-2', 'user-1').catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ConflictException)
+      expect(mockPrismaService.user.delete).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,167 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common'
+import type { Prisma } from '@generated'
+import { activeRoleAssignment } from '~/casl/permissions.service'
+import { withCode } from '~/common/errors/errorCatalog'
+import { ListQueryService, type Page } from '~/common/listQuery/listQuery.service'
+import { PrismaService } from '~/database/prisma.service'
+import { ListUsersQueryDto } from './dto/listUsersQuery.dto'
+import { UpdateUserDto } from './dto/updateUser.dto'
+
+// Built per call so the active-role filter uses the current time
+const userSelect = () =>
+  ({
+    id: true,
+    name: true,
+    email: true,
+    emailVerified: true,
+    image: true,
+    isActive: true,
+    bannedAt: true,
+    createdAt: true,
+    updatedAt: true,
+    roles: {
+      where: activeRoleAssignment(),
+      select: { expiresAt: true, role: { select: { id: true, name: true } } }
+    }
+  }) satisfies Prisma.UserSelect
+
+type UserRecord = Prisma.UserGetPayload<{ select: ReturnType<typeof userSelect> }>
+
+export type UserSummary = Omit<UserRecord, 'roles'> & {
+  roles: { id: string; name: string; expiresAt: Date | null }[]
+}
+
+export interface DeactivationResult {
+  user: UserSummary
+  revokedSessions: number
+}
+
+@Injectable()
+export class UsersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly listQueryService: ListQueryService
+  ) {}
+
+  // Newest first by default, searchable on name and email
+  async findAll(query: ListUsersQueryDto): Promise<Page<UserSummary>> {
+    const list = await this.listQueryService.prepare<
+      Prisma.UserWhereInput,
+      Prisma.UserOrderByWithRelationInput
+    >(query, { defaultSort: '-createdAt', searchTable: 'UserSearch' })
+
+    const [total, users] = await this.prisma.$transaction([
+      this.prisma.user.count({ where: list.where }),
+      this.prisma.user.findMany({ ...list.args, select: userSelect() })
+    ])
+
+    return list.toPage(
+      users.map(user => this.toSummary(user)),
+      total
+    )
+  }
+
+  async findOne(id: string): Promise<UserSummary> {
+    const user = await this.prisma.user.findUnique({ where: { id }, select: userSelect() })
+
+    if (!user) {
+      throw new NotFoundException(`User with ID "${id}" not found`)
+    }
+
+    return this.toSummary(user)
+  }
+
+  async update(id: string, dto: UpdateUserDto): Promise<UserSummary> {
+    const user = await this.findOne(id)
+
+    if (dto.email && dto.email !== user.email) {
+      await this.ensureEmailIsAvailable(dto.email)
+    }
+
+    const updatedUser = await this.prisma.user.update({
+      where: { id },
+      data: dto,
+      select: userSelect()
+    })
+
+    return this.toSummary(updatedUser)
+  }
+
+  async remove(id: string, actorId: string): Promise<UserSummary> {
+    this.ensureNotSelf(id, actorId, 'delete')
+    const user = await this.findOne(id)
+    const orders = await this.prisma.order.count({ where: { userId: id } })
+
+    // Orders are kept for bookkeeping, their customers can only be deactivated
+    if (orders > 0) {
+      throw new ConflictException(
+        withCode(
+          'USER_HAS_ORDERS',
+          `User "${user.email}" has ${orders} orders, deactivate it instead`
+        )
+      )
+    }
+
+    // Sessions, accounts, role assignments and comments cascade
+    await this.prisma.user.delete({ where: { id } })
+
+    return user
+  }
+
+  /**
+   * Blocks the account and revokes every session in the same transaction, so
+   * the user is signed out on their next request and cannot sign in again.
+   */
+  async deactivate(id: string, actorId: string): Promise<DeactivationResult> {
+    this.ensureNotSelf(id, actorId, 'deactivate')
+    const user = await this.findOne(id)
+
+    const [updatedUser, { count }] = await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id },
+        data: { isActive: false, bannedAt: user.bannedAt ?? new Date() },
+        select: userSelect()
+      }),
+      this.prisma.session.deleteMany({ where: { userId: id } })
+    ])
+
+    return { user: this.toSummary(updatedUser), revokedSessions: count }
+  }
+
+  async activate(id: string): Promise<UserSummary> {
+    await this.findOne(id)
+
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: { isActive: true, bannedAt: null },
+      select: userSelect()
+    })
+
+    return this.toSummary(user)
+  }
+
+  private async ensureEmailIsAvailable(email: string): Promise<void> {
+    const existing = await this.prisma.user.findUnique({ where: { email } })
+
+    if (existing) {
+      throw new ConflictException(
+        withCode('USER_EMAIL_TAKEN', `Email "${email}" is already in use`)
+      )
+    }
+  }
+
+  private ensureNotSelf(id: string, actorId: string, operation: string): void {
+    if (id === actorId) {
+      throw new ConflictException(
+        withCode('USER_SELF_ACTION', `You cannot ${operation} your own account`)
+      )
+    }
+  }
+
+  private toSummary({ roles, ...user }: UserRecord): UserSummary {
+    return {
+      ...user,
+      roles: roles.map(({ role, expiresAt }) => ({ ...role, expiresAt }))
+    }
+  }
+}
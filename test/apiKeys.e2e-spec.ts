@@ -0,0 +1,384 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { Server } from 'node:http'
+import { BETTER_AUTH, createBetterAuth } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import { MAILER } from 'src/mail/mailer.interface'
+import { MemoryMailer } from 'src/mail/transports/memory.mailer'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+type DbRecord = Record<string, unknown>
+
+interface ApiKeyRecord {
+  id: string
+  userId: string
+  name: string
+  prefix: string
+  secretHash: string
+  scopes: string[]
+  lastUsedAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface ApiKeyResponse {
+  id: string
+  key?: string
+  prefix: string
+  scopes: string[]
+  revokedAt: string | null
+}
+
+describe('API keys (e2e)', () => {
+  let app: INestApplication<Server>
+  let db: Record<string, DbRecord[]>
+  let apiKeys: ApiKeyRecord[]
+  let cookies: string[]
+  const credentials = { email: 'service@example.com', password: 'password123', name: 'Service' }
+
+  const pick = (record: ApiKeyRecord, select?: Record<string, boolean>) =>
+    select
+      ? Object.fromEntries(Object.keys(select).map(key => [key, record[key as keyof ApiKeyRecord]]))
+      : record
+
+  // Minimal in-memory stand-in for the Prisma delegates used by the API key flows
+  const mockPrismaService = {
+    role: {
+      findUnique: () => Promise.resolve({ id: 'role-user', name: 'USER', parentRoleId: null }),
+      findMany: () => Promise.resolve([]),
+      count: () => Promise.resolve(0)
+    },
+    user: {
+      findUnique: ({ where }: { where: { id?: string; email?: string } }) =>
+        Promise.resolve(
+          db.user.find(user => user.id === where.id || user.email === where.email) ?? null
+        )
+    },
+    userRole: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data),
+      findMany: () => Promise.resolve([{ roleId: 'role-user' }])
+    },
+    permission: {
+      findMany: () =>
+        Promise.resolve([
+          { action: 'read', subject: 'Role', conditions: null },
+          { action: 'read', subject: 'User', conditions: null }
+        ])
+    },
+    verification: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    twoFactor: {
+      findUnique: () => Promise.resolve(null)
+    },
+    loginLockout: {
+      findUnique: () => Promise.resolve(null),
+      upsert: () => Promise.resolve({}),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    apiKey: {
+      create: ({
+        data,
+        select
+      }: {
+        data: Omit<ApiKeyRecord, 'id' | 'lastUsedAt' | 'revokedAt' | 'createdAt' | 'updatedAt'>
+        select: Record<string, boolean>
+      }) => {
+        const apiKey: ApiKeyRecord = {
+          id: `key-${apiKeys.length + 1}`,
+          lastUsedAt: null,
+          revokedAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data
+        }
+        apiKeys.push(apiKey)
+        return Promise.resolve(pick(apiKey, select))
+      },
+      findMany: ({
+        where,
+        select
+      }: {
+        where: { userId: string }
+        select: Record<string, boolean>
+      }) =>
+        Promise.resolve(
+          apiKeys.filter(apiKey => apiKey.userId === where.userId).map(key => pick(key, select))
+        ),
+      findFirst: ({ where }: { where: { id: string; userId: string } }) =>
+        Promise.resolve(
+          apiKeys.find(
+            apiKey => apiKey.id === where.id && apiKey.userId === where.userId && !apiKey.revokedAt
+          ) ?? null
+        ),
+      findUnique: ({ where }: { where: { prefix: string } }) => {
+        const apiKey = apiKeys.find(key => key.prefix === where.prefix)
+        const user = db.user.find(record => record.id === apiKey?.userId)
+        return Promise.resolve(apiKey ? { ...apiKey, user: { isActive: true, ...user } } : null)
+      },
+      update: ({
+        where,
+        data,
+        select
+      }: {
+        where: { id: string }
+        data: Partial<ApiKeyRecord>
+        select?: Record<string, boolean>
+      }) => {
+        const apiKey = Object.assign(apiKeys.find(key => key.id === where.id)!, data)
+        return Promise.resolve(pick(apiKey, select))
+      }
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+
+  const createKey = async (scopes: string[]): Promise<ApiKeyResponse> => {
+    const response = await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Cookie', cookies)
+      .send({ name: 'CI', scopes })
+      .expect(HttpStatus.CREATED)
+
+    return response.body as ApiKeyResponse
+  }
+
+  beforeEach(async () => {
+    db = { user: [], session: [], account: [], verification: [] }
+    apiKeys = []
+    const config = new ConfigService({
+      BETTER_AUTH_SECRET: 'test-secret-that-is-long-enough-for-better-auth',
+      BETTER_AUTH_URL: 'http://localhost:3000'
+    })
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(
+        createBetterAuth(mockPrismaService as unknown as PrismaService, config, memoryAdapter(db))
+      )
+      .overrideProvider(MAILER)
+      .useValue(new MemoryMailer())
+      .compile()
+
+    app = moduleFixture.createNestApplication({ bodyParser: false })
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+
+    await app.init()
+
+    await request(app.getHttpServer())
+      .post('/auth/register')
+      .send(credentials)
+      .expect(HttpStatus.CREATED)
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: credentials.email, password: credentials.password })
+      .expect(HttpStatus.OK)
+    cookies = response.headers['set-cookie'] as unknown as string[]
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('POST /api-keys', () => {
+    it('should return the plaintext key once', async () => {
+      const apiKey = await createKey(['read:Role'])
+
+      expect(apiKey.key).toStartWith(`nak_${apiKey.prefix}_`)
+      expect(apiKey).not.toHaveProperty('secretHash')
+      // The secret itself may contain underscores, so it is everything after the prefix
+      const secret = apiKey.key!.slice(`nak_${apiKey.prefix}_`.length)
+      expect(apiKeys[0].secretHash).not.toContain(secret)
+    })
+
+    it('should reject unknown scopes', async () => {
+      await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('Cookie', cookies)
+        .send({ name: 'CI', scopes: ['launch:Rocket'] })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should require authentication', async () => {
+      await request(app.getHttpServer())
+        .post('/api-keys')
+        .send({ name: 'CI', scopes: ['read:Role'] })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('GET /api-keys', () => {
+    it('should list the keys without any secret', async () => {
+      await createKey(['read:Role'])
+
+      const response = await request(app.getHttpServer())
+        .get('/api-keys')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+      const [apiKey] = response.body as ApiKeyResponse[]
+
+      expect(apiKey.scopes).toEqual(['read:Role'])
+      expect(apiKey).not.toHaveProperty('key')
+      expect(apiKey).not.toHaveProperty('secretHash')
+    })
+  })
+
+  describe('Bearer authentication', () => {
+    it('should authenticate with the intersection of scopes and roles', async () => {
+      const { key } = await createKey(['read:Role', 'delete:Role'])
+
+      await request(app.getHttpServer())
+        .get('/roles')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(HttpStatus.OK)
+      // Granted by the role but not by the scopes
+      await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(HttpStatus.FORBIDDEN)
+      // Granted by the scopes but not by the role
+      await request(app.getHttpServer())
+        .delete('/roles/role-user')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(HttpStatus.FORBIDDEN)
+      expect(apiKeys[0].lastUsedAt).toBeInstanceOf(Date)
+    })
+
+    it('should reject unknown, tampered and revoked keys', async () => {
+      const { id, key } = await createKey(['read:Role'])
+      const tampered = `${key!.slice(0, -1)}${key!.endsWith('A') ? 'B' : 'A'}`
+
+      await request(app.getHttpServer())
+        .get('/roles')
+        .set('Authorization', `Bearer ${tampered}`)
+        .expect(HttpStatus.UNAUTHORIZED)
+
+      await request(app.getHttpServer())
+        .delete(`/api-keys/${id}`)
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+
+      await request(app.getHttpServer())
+        .get('/roles')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should reject expired keys', async () => {
+      const { key } = await createKey(['read:Role'])
+      apiKeys[0].expiresAt = new Date(Date.now() - 1000)
+
+      await request(app.getHttpServer())
+        .get('/roles')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should not let an API key manage API keys', async () => {
+      const { key } = await createKey(['manage:all'])
+
+      await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('Authorization', `Bearer ${key}`)
+        .send({ name: 'Escalation', scopes: ['manage:all'] })
+        .expect(HttpStatus.FORBIDDEN)
+    })
+
+    it('should refuse a scoped key on self-service routes', async () => {
+      const { key } = await createKey(['read:Product'])
+      const selfServiceRoutes = [
+        ['get', '/sessions/me'],
+        ['delete', '/sessions/me'],
+        ['delete', '/sessions/me/session-1'],
+        ['get', '/auth/accounts'],
+        ['delete', '/auth/accounts/github'],
+        ['post', '/auth/verify-email/send'],
+        ['post', '/auth/logout'],
+        ['get', '/auth/2fa'],
+        ['post', '/auth/2fa/enroll'],
+        ['post', '/auth/2fa/confirm'],
+        ['post', '/auth/2fa/backup-codes'],
+        ['post', '/auth/2fa/disable']
+      ] as const
+
+      for (const [method, path] of selfServiceRoutes) {
+        const response = await request(app.getHttpServer())
+          [method](path)
+          .set('Authorization', `Bearer ${key}`)
+          .send({})
+
+        expect({ path, status: response.status }).toEqual({ path, status: HttpStatus.FORBIDDEN })
+        expect(response.body).toMatchObject({ code: 'API_KEY_NOT_ALLOWED' })
+      }
+    })
+
+    it('should let a key read whose it is', async () => {
+      const { key } = await createKey(['read:Product'])
+
+      const response = await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({ user: { email: credentials.email } })
+    })
+  })
+
+  describe('POST /api-keys/:id/rotate', () => {
+    it('should invalidate the previous key', async () => {
+      const { id, key } = await createKey(['read:Role'])
+
+      const response = await request(app.getHttpServer())
+        .post(`/api-keys/${id}/rotate`)
+        .set('Cookie', cookies)
+        .expect(HttpStatus.CREATED)
+      const rotated = response.body as ApiKeyResponse
+
+      expect(rotated.key).not.toBe(key)
+      await request(app.getHttpServer())
+        .get('/roles')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(HttpStatus.UNAUTHORIZED)
+      await request(app.getHttpServer())
+        .get('/roles')
+        .set('Authorization', `Bearer ${rotated.key}`)
+        .expect(HttpStatus.OK)
+    })
+
+    it('should return 404 for a key owned by someone else', async () => {
+      const { id } = await createKey(['read:Role'])
+      apiKeys[0].userId = 'someone-else'
+
+      await request(app.getHttpServer())
+        .post(`/api-keys/${id}/rotate`)
+        .set('Cookie', cookies)
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+})
@@ -0,0 +1,201 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface AuditLogRecord {
+  id: string
+  actorId: string | null
+  action: string
+  subjectType: string
+  subjectId: string | null
+  createdAt: Date
+}
+
+interface AuditLogWhere {
+  actorId?: string
+  action?: string
+  subjectType?: string
+  createdAt?: { gte?: Date; lte?: Date }
+}
+
+interface AuditLogsResponse {
+  data: { id: string }[]
+  meta: { total: number; limit: number; page: number | null; nextCursor: string | null }
+}
+
+describe('Audit logs (e2e)', () => {
+  let app: INestApplication<Server>
+  let currentRoleIds: string[]
+
+  const auditLogs: AuditLogRecord[] = [
+    {
+      id: 'log-1',
+      actorId: 'admin-1',
+      action: 'updateRole',
+      subjectType: 'Role',
+      subjectId: 'role-1',
+      createdAt: new Date('2025-01-01T10:00:00Z')
+    },
+    {
+      id: 'log-2',
+      actorId: 'admin-1',
+      action: 'deleteUser',
+      subjectType: 'User',
+      subjectId: 'user-9',
+      createdAt: new Date('2025-01-02T10:00:00Z')
+    },
+    {
+      id: 'log-3',
+      actorId: 'user-1',
+      action: 'revokeSession',
+      subjectType: 'Session',
+      subjectId: 'session-1',
+      createdAt: new Date('2025-01-03T10:00:00Z')
+    }
+  ]
+
+  const matches = (log: AuditLogRecord, where: AuditLogWhere): boolean =>
+    (!where.actorId || log.actorId === where.actorId) &&
+    (!where.action || log.action === where.action) &&
+    (!where.subjectType || log.subjectType === where.subjectType) &&
+    (!where.createdAt?.gte || log.createdAt >= where.createdAt.gte) &&
+    (!where.createdAt?.lte || log.createdAt <= where.createdAt.lte)
+
+  // Minimal in-memory stand-in for the Prisma delegates used by AuditLogsService
+  const mockPrismaService = {
+    auditLog: {
+      count: ({ where }: { where: AuditLogWhere }) =>
+        Promise.resolve(auditLogs.filter(log => matches(log, where)).length),
+      findMany: ({
+        where,
+        take,
+        skip,
+        cursor
+      }: {
+        where: AuditLogWhere
+        take: number
+        skip: number
+        cursor?: { id: string }
+      }) => {
+        const sorted = auditLogs
+          .filter(log => matches(log, where))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        const start = cursor ? sorted.findIndex(log => log.id === cursor.id) : 0
+
+        return Promise.resolve(sorted.slice(start + skip, start + skip + take))
+      }
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+    userRole: {
+      findMany: () => Promise.resolve(currentRoleIds.map(roleId => ({ roleId })))
+    },
+    role: {
+      findUnique: () => Promise.resolve({ parentRoleId: null })
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(
+          where.roles.some.roleId === 'role-admin'
+            ? [{ action: 'manage', subject: 'all', conditions: null }]
+            : [{ action: 'read', subject: 'Product', conditions: null }]
+        )
+    }
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () =>
+        Promise.resolve(
+          currentRoleIds.length
+            ? {
+                user: { id: 'admin-1', email: 'admin@example.com', emailVerified: true },
+                session: { id: 'session-1', userId: 'admin-1' }
+              }
+            : null
+        )
+    }
+  }
+
+  const list = (query = '') => request(app.getHttpServer()).get(`/audit-logs${query}`)
+
+  beforeEach(async () => {
+    currentRoleIds = ['role-admin']
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  it('should list entries newest first', async () => {
+    const response = await list().expect(HttpStatus.OK)
+    const body = response.body as AuditLogsResponse
+
+    expect(body.data.map(log => log.id)).toEqual(['log-3', 'log-2', 'log-1'])
+    expect(body.meta).toEqual({ total: 3, limit: 20, page: 1, nextCursor: null })
+  })
+
+  it('should filter by actor, subject type and date range', async () => {
+    const byActor = await list('?actorId=admin-1&subjectType=User').expect(HttpStatus.OK)
+    const byDate = await list('?from=2025-01-02T00:00:00Z&to=2025-01-02T23:59:59Z').expect(
+      HttpStatus.OK
+    )
+
+    expect((byActor.body as AuditLogsResponse).data.map(log => log.id)).toEqual(['log-2'])
+    expect((byDate.body as AuditLogsResponse).data.map(log => log.id)).toEqual(['log-2'])
+  })
+
+  it('should page through entries with a cursor', async () => {
+    const first = (await list('?limit=2').expect(HttpStatus.OK)).body as AuditLogsResponse
+    const second = (await list(`?limit=2&cursor=${first.meta.nextCursor}`).expect(HttpStatus.OK))
+      .body as AuditLogsResponse
+
+    expect(first.data.map(log => log.id)).toEqual(['log-3', 'log-2'])
+    expect(first.meta.nextCursor).toBe('log-2')
+    expect(second.data.map(log => log.id)).toEqual(['log-1'])
+    expect(second.meta).toMatchObject({ page: null, nextCursor: null })
+  })
+
+  it('should reject an invalid date', async () => {
+    await list('?from=yesterday').expect(HttpStatus.BAD_REQUEST)
+  })
+
+  it('should be restricted to users allowed to read audit logs', async () => {
+    currentRoleIds = ['role-user']
+
+    await list().expect(HttpStatus.FORBIDDEN)
+  })
+})
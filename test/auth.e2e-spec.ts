@@ -0,0 +1,390 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { Server } from 'node:http'
+import { BETTER_AUTH, createBetterAuth } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import { MAILER } from 'src/mail/mailer.interface'
+import { MemoryMailer } from 'src/mail/transports/memory.mailer'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface UserResponse {
+  id: string
+  email: string
+  name: string
+}
+
+interface VerificationRecord {
+  id: string
+  identifier: string
+  value: string
+  expiresAt: Date
+}
+
+type DbRecord = Record<string, unknown>
+
+interface MeResponse {
+  user: UserResponse
+  session: { id: string; expiresAt: string }
+}
+
+describe('Auth (e2e)', () => {
+  let app: INestApplication<Server>
+  let db: Record<string, Record<string, unknown>[]>
+  let userRoles: { userId: string; roleId: string }[]
+  let verifications: VerificationRecord[]
+  const mailer = new MemoryMailer()
+  const credentials = { email: 'jane@example.com', password: 'password123', name: 'Jane' }
+  const mockPrismaService = {
+    role: {
+      findUnique: () => Promise.resolve({ id: 'role-user', name: 'USER' })
+    },
+    user: {
+      findUnique: ({ where }: { where: { id?: string; email?: string } }) =>
+        Promise.resolve(
+          db.user.find(user => user.id === where.id || user.email === where.email) ?? null
+        ),
+      update: ({ where, data }: { where: { id: string }; data: DbRecord }) =>
+        Promise.resolve(Object.assign(db.user.find(user => user.id === where.id)!, data))
+    },
+    account: {
+      findFirst: ({ where }: { where: { userId: string; providerId: string } }) =>
+        Promise.resolve(
+          db.account.find(
+            account => account.userId === where.userId && account.providerId === where.providerId
+          ) ?? null
+        ),
+      update: ({ where, data }: { where: { id: string }; data: DbRecord }) =>
+        Promise.resolve(Object.assign(db.account.find(account => account.id === where.id)!, data))
+    },
+    session: {
+      deleteMany: ({ where }: { where: { userId: string } }) => {
+        db.session = db.session.filter(session => session.userId !== where.userId)
+        return Promise.resolve({ count: 0 })
+      }
+    },
+    verification: {
+      create: ({ data }: { data: Omit<VerificationRecord, 'id'> }) => {
+        const verification = { id: `verification-${verifications.length + 1}`, ...data }
+        verifications.push(verification)
+        return Promise.resolve(verification)
+      },
+      findFirst: ({ where }: { where: { value: string; identifier: { startsWith: string } } }) =>
+        Promise.resolve(
+          verifications.find(
+            verification =>
+              verification.value === where.value &&
+              verification.identifier.startsWith(where.identifier.startsWith)
+          ) ?? null
+        ),
+      deleteMany: ({ where }: { where: { id?: string; identifier?: string } }) => {
+        const remaining = verifications.filter(
+          verification =>
+            verification.id !== where.id && verification.identifier !== where.identifier
+        )
+        const count = verifications.length - remaining.length
+        verifications = remaining
+        return Promise.resolve({ count })
+      }
+    },
+    twoFactor: {
+      findUnique: () => Promise.resolve(null)
+    },
+    loginLockout: {
+      findUnique: () => Promise.resolve(null),
+      upsert: () => Promise.resolve({}),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+    userRole: {
+      create: ({ data }: { data: { userId: string; roleId: string } }) => {
+        userRoles.push(data)
+        return Promise.resolve(data)
+      }
+    }
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+
+  const register = () => request(app.getHttpServer()).post('/auth/register').send(credentials)
+
+  const login = async (): Promise<string[]> => {
+    await register().expect(HttpStatus.CREATED)
+
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: credentials.email, password: credentials.password })
+      .expect(HttpStatus.OK)
+
+    return response.headers['set-cookie'] as unknown as string[]
+  }
+
+  beforeEach(async () => {
+    db = { user: [], session: [], account: [], verification: [] }
+    userRoles = []
+    verifications = []
+    mailer.clear()
+    const config = new ConfigService({
+      BETTER_AUTH_SECRET: 'test-secret-that-is-long-enough-for-better-auth',
+      BETTER_AUTH_URL: 'http://localhost:3000'
+    })
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(
+        createBetterAuth(mockPrismaService as unknown as PrismaService, config, memoryAdapter(db))
+      )
+      .overrideProvider(MAILER)
+      .useValue(mailer)
+      .compile()
+
+    app = moduleFixture.createNestApplication({ bodyParser: false })
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('POST /auth/register', () => {
+    it('should create a user with the default role', async () => {
+      const response = await register().expect(HttpStatus.CREATED)
+      const user = response.body as UserResponse
+
+      expect(user).toMatchObject({ email: credentials.email, name: credentials.name })
+      expect(user).not.toHaveProperty('password')
+      expect(userRoles).toEqual([{ userId: user.id, roleId: 'role-user' }])
+    })
+
+    it('should store an argon2 hash in the credential account', async () => {
+      await register().expect(HttpStatus.CREATED)
+
+      const account = db.account[0] as { providerId: string; password: string }
+      expect(account.providerId).toBe('credential')
+      expect(account.password).toStartWith('$argon2id$')
+      expect(account.password).not.toContain(credentials.password)
+    })
+
+    it('should reject an invalid payload', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email: 'not-an-email', password: 'short' })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should reject a duplicate email', async () => {
+      await register().expect(HttpStatus.CREATED)
+
+      await register().expect(HttpStatus.UNPROCESSABLE_ENTITY)
+    })
+  })
+
+  describe('POST /auth/login', () => {
+    it('should set a session cookie', async () => {
+      const cookies = await login()
+
+      expect(cookies.some(cookie => cookie.startsWith('better-auth.session_token='))).toBe(true)
+      expect(cookies.some(cookie => cookie.includes('HttpOnly'))).toBe(true)
+    })
+
+    it('should refuse to open a session for a deactivated user', async () => {
+      await register().expect(HttpStatus.CREATED)
+      db.user[0].isActive = false
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: credentials.password })
+        .expect(HttpStatus.FORBIDDEN)
+
+      expect(response.body).toMatchObject({
+        detail: 'This account has been deactivated',
+        code: 'AUTH_ACCOUNT_DEACTIVATED'
+      })
+      expect(db.session).toHaveLength(0)
+    })
+
+    it('should reject invalid credentials with 401', async () => {
+      await register().expect(HttpStatus.CREATED)
+
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: 'wrong-password' })
+        .expect(HttpStatus.UNAUTHORIZED)
+
+      expect(response.body).toMatchObject({ status: 401, code: 'AUTH_INVALID_CREDENTIALS' })
+    })
+  })
+
+  describe('GET /auth/me', () => {
+    it('should return the current user for a valid session', async () => {
+      const cookies = await login()
+
+      const response = await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+      const me = response.body as MeResponse
+
+      expect(me.user.email).toBe(credentials.email)
+      expect(me.session).toHaveProperty('expiresAt')
+      expect(me.session).not.toHaveProperty('token')
+    })
+
+    it('should return 401 without a session', async () => {
+      await request(app.getHttpServer()).get('/auth/me').expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('POST /auth/logout', () => {
+    it('should revoke the session', async () => {
+      const cookies = await login()
+
+      await request(app.getHttpServer())
+        .post('/auth/logout')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+
+      expect(db.session).toHaveLength(0)
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  // Extracts the token from the link of the last email sent to the test user
+  const tokenFromLastEmail = (): string => {
+    const message = mailer.lastMessageTo(credentials.email)
+
+    return /token=([\w-]+)/.exec(message?.text ?? '')?.[1] ?? ''
+  }
+
+  describe('email verification', () => {
+    it('should email a verification link on registration and verify once', async () => {
+      await register().expect(HttpStatus.CREATED)
+      const token = tokenFromLastEmail()
+
+      expect(token).not.toBe('')
+      expect(verifications[0].value).not.toBe(token)
+
+      await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token })
+        .expect(HttpStatus.OK)
+        .expect({ verified: true })
+
+      expect(db.user[0].emailVerified).toBe(true)
+      await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should reject unknown tokens', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token: 'not-a-real-token' })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should reject expired tokens', async () => {
+      await register().expect(HttpStatus.CREATED)
+      verifications[0].expiresAt = new Date(Date.now() - 1000)
+
+      await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token: tokenFromLastEmail() })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should resend the link to signed-in users and invalidate the previous one', async () => {
+      const cookies = await login()
+      const firstToken = tokenFromLastEmail()
+
+      await request(app.getHttpServer())
+        .post('/auth/verify-email/send')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+
+      expect(tokenFromLastEmail()).not.toBe(firstToken)
+      await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token: firstToken })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should require a session to resend the link', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/verify-email/send')
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('password reset', () => {
+    const newPassword = 'a-brand-new-password'
+
+    it('should answer the same way for unknown emails', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toHaveProperty('message')
+      expect(mailer.messages).toHaveLength(0)
+    })
+
+    it('should reset the password with the emailed token and sign out everywhere', async () => {
+      await login()
+
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: credentials.email })
+        .expect(HttpStatus.OK)
+      const token = tokenFromLastEmail()
+
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token, password: newPassword })
+        .expect(HttpStatus.OK)
+
+      expect(db.session).toHaveLength(0)
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: credentials.password })
+        .expect(HttpStatus.UNAUTHORIZED)
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: credentials.email, password: newPassword })
+        .expect(HttpStatus.OK)
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token, password: newPassword })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should not accept an email verification token', async () => {
+      await register().expect(HttpStatus.CREATED)
+
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token: tokenFromLastEmail(), password: newPassword })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+  })
+})
@@ -0,0 +1,427 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { Server } from 'node:http'
+import { BETTER_AUTH, createBetterAuth } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import { MAILER } from 'src/mail/mailer.interface'
+import { MemoryMailer } from 'src/mail/transports/memory.mailer'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+type DbRecord = Record<string, unknown>
+
+interface ProductRecord {
+  id: string
+  name: string
+  slug: string
+  price: number
+  stock: number
+  isActive: boolean
+}
+
+interface CartRecord {
+  id: string
+  userId: string | null
+}
+
+interface CartItemRecord {
+  id: string
+  cartId: string
+  productId: string
+  quantity: number
+  unitPrice: number
+  createdAt: Date
+}
+
+interface CartResponse {
+  id: string | null
+  items: {
+    id: string
+    product: { id: string }
+    quantity: number
+    unitPrice: number
+    issues: { code: string }[]
+  }[]
+  total: number
+  checkoutReady: boolean
+}
+
+describe('Carts (e2e)', () => {
+  let app: INestApplication<Server>
+  let db: Record<string, DbRecord[]>
+  let products: ProductRecord[]
+  let carts: CartRecord[]
+  let cartItems: CartItemRecord[]
+  let nextId: number
+
+  const newId = (prefix: string) => `${prefix}-${++nextId}`
+
+  const findProduct = (id: string) => products.find(product => product.id === id)!
+
+  const withItems = (cart: CartRecord | undefined) =>
+    cart
+      ? {
+          ...cart,
+          items: cartItems
+            .filter(item => item.cartId === cart.id)
+            .map(item => ({ ...item, product: findProduct(item.productId) }))
+        }
+      : null
+
+  const findCart = (where: Partial<CartRecord>) =>
+    carts.find(cart =>
+      Object.entries(where).every(([field, value]) => cart[field as keyof CartRecord] === value)
+    )
+
+  // Minimal in-memory stand-in for the Prisma delegates used around Better Auth, CASL and carts
+  const mockPrismaService = {
+    role: {
+      findUnique: () => Promise.resolve({ id: 'role-user', name: 'USER', parentRoleId: null })
+    },
+    user: {
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(db.user.find(user => user.id === where.id) ?? null)
+    },
+    userRole: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data),
+      findMany: () => Promise.resolve([{ roleId: 'role-user' }])
+    },
+    // Same rules as the seeded USER role
+    permission: {
+      findMany: () =>
+        Promise.resolve([
+          {
+            action: ['create', 'read', 'update', 'delete'],
+            subject: 'Cart',
+            conditions: { userId: '${user.id}' }
+          },
+          { action: ['create', 'read'], subject: 'Order', conditions: { userId: '${user.id}' } }
+        ])
+    },
+    twoFactor: {
+      findUnique: () => Promise.resolve(null)
+    },
+    loginLockout: {
+      findUnique: () => Promise.resolve(null),
+      upsert: () => Promise.resolve({}),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    product: {
+      findFirst: ({ where }: { where: { id: string; isActive: boolean } }) =>
+        Promise.resolve(
+          products.find(product => product.id === where.id && product.isActive) ?? null
+        ),
+      findMany: ({ where }: { where: { id: { in: string[] } } }) =>
+        Promise.resolve(
+          products.filter(product => where.id.in.includes(product.id) && product.isActive)
+        ),
+      updateMany: ({
+        where,
+        data
+      }: {
+        where: { id: string; stock: { gte: number } }
+        data: { stock: { decrement: number } }
+      }) => {
+        const product = findProduct(where.id)
+
+        if (product.stock < where.stock.gte) {
+          return Promise.resolve({ count: 0 })
+        }
+
+        product.stock -= data.stock.decrement
+
+        return Promise.resolve({ count: 1 })
+      }
+    },
+    cart: {
+      findFirst: ({ where }: { where: Partial<CartRecord> }) =>
+        Promise.resolve(withItems(findCart(where))),
+      findUnique: ({ where }: { where: Partial<CartRecord> }) =>
+        Promise.resolve(findCart(where) ?? null),
+      findUniqueOrThrow: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(withItems(findCart(where))),
+      create: ({ data }: { data: { userId: string | null } }) => {
+        const cart = { id: newId('cart'), userId: data.userId }
+        carts.push(cart)
+
+        return Promise.resolve(withItems(cart))
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<CartRecord> }) =>
+        Promise.resolve(Object.assign(findCart(where)!, data)),
+      delete: ({ where }: { where: { id: string } }) => {
+        carts = carts.filter(cart => cart.id !== where.id)
+        cartItems = cartItems.filter(item => item.cartId !== where.id)
+
+        return Promise.resolve({})
+      }
+    },
+    cartItem: {
+      findUnique: ({ where }: { where: { id: string } }) => {
+        const item = cartItems.find(existing => existing.id === where.id)
+
+        return Promise.resolve(
+          item
+            ? { ...item, cart: findCart({ id: item.cartId }), product: findProduct(item.productId) }
+            : null
+        )
+      },
+      upsert: ({
+        where,
+        create,
+        update
+      }: {
+        where: { cartId_productId: { cartId: string; productId: string } }
+        create: Omit<CartItemRecord, 'id' | 'createdAt'>
+        update: { quantity: { increment: number }; unitPrice?: number }
+      }) => {
+        const { cartId, productId } = where.cartId_productId
+        const item = cartItems.find(
+          existing => existing.cartId === cartId && existing.productId === productId
+        )
+
+        if (item) {
+          item.quantity += update.quantity.increment
+          item.unitPrice = update.unitPrice ?? item.unitPrice
+        } else {
+          cartItems.push({ ...create, id: newId('item'), createdAt: new Date() })
+        }
+
+        return Promise.resolve({})
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<CartItemRecord> }) =>
+        Promise.resolve(Object.assign(cartItems.find(item => item.id === where.id)!, data)),
+      delete: ({ where }: { where: { id: string } }) => {
+        cartItems = cartItems.filter(item => item.id !== where.id)
+
+        return Promise.resolve({})
+      },
+      deleteMany: ({ where }: { where: { cartId: string } }) => {
+        cartItems = cartItems.filter(item => item.cartId !== where.cartId)
+
+        return Promise.resolve({ count: 0 })
+      }
+    },
+    order: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve({ ...data, id: newId('order') })
+    },
+    $transaction: (operations: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)) =>
+      typeof operations === 'function' ? operations(mockPrismaService) : Promise.all(operations)
+  }
+  const mockLoggerService = { info: () => {}, warn: () => {}, error: () => {} }
+
+  // Keeps the latest value of each cookie, like a browser would
+  const mergeCookies = (...responses: string[][]): string =>
+    [
+      ...new Map(
+        responses
+          .flat()
+          .filter(cookie => !/max-age=0/i.test(cookie))
+          .map(cookie => cookie.split(';')[0].split('=') as [string, string])
+      )
+    ]
+      .map(([name, value]) => `${name}=${value}`)
+      .join('; ')
+
+  const setCookies = (response: request.Response): string[] =>
+    (response.headers['set-cookie'] as unknown as string[] | undefined) ?? []
+
+  const register = async (email: string): Promise<void> => {
+    await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, password: 'password123', name: email })
+      .expect(HttpStatus.CREATED)
+  }
+
+  const login = async (email: string, cookies = ''): Promise<request.Response> =>
+    request(app.getHttpServer())
+      .post('/auth/login')
+      .set('Cookie', cookies)
+      .send({ email, password: 'password123' })
+      .expect(HttpStatus.OK)
+
+  const addItem = (cookies: string, productId: string, quantity: number) =>
+    request(app.getHttpServer())
+      .post('/cart/items')
+      .set('Cookie', cookies)
+      .send({ productId, quantity })
+
+  const getCart = async (cookies: string): Promise<CartResponse> =>
+    (await request(app.getHttpServer()).get('/cart').set('Cookie', cookies).expect(HttpStatus.OK))
+      .body as CartResponse
+
+  beforeEach(async () => {
+    db = { user: [], session: [], account: [], verification: [] }
+    products = [
+      { id: 'laptop', name: 'Laptop', slug: 'laptop', price: 100000, stock: 5, isActive: true },
+      { id: 'mouse', name: 'Mouse', slug: 'mouse', price: 2500, stock: 10, isActive: true }
+    ]
+    carts = []
+    cartItems = []
+    nextId = 0
+    const config = new ConfigService({
+      BETTER_AUTH_SECRET: 'test-secret-that-is-long-enough-for-better-auth',
+      BETTER_AUTH_URL: 'http://localhost:3000'
+    })
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(ConfigService)
+      .useValue(config)
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(
+        createBetterAuth(mockPrismaService as unknown as PrismaService, config, memoryAdapter(db))
+      )
+      .overrideProvider(MAILER)
+      .useValue(new MemoryMailer())
+      .compile()
+
+    app = moduleFixture.createNestApplication({ bodyParser: false })
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('anonymous visitors', () => {
+    it('should keep the cart behind a signed cookie', async () => {
+      const response = await addItem('', 'laptop', 2).expect(HttpStatus.CREATED)
+      const cookies = mergeCookies(setCookies(response))
+
+      expect(cookies).toStartWith('cart_id=')
+      expect(await getCart(cookies)).toMatchObject({
+        items: [{ product: { id: 'laptop' }, quantity: 2 }],
+        total: 200000,
+        checkoutReady: true
+      })
+      expect((await getCart('')).items).toHaveLength(0)
+    })
+
+    it('should ignore a tampered cookie', async () => {
+      const response = await addItem('', 'laptop', 1).expect(HttpStatus.CREATED)
+      const [cartId] = mergeCookies(setCookies(response)).replace('cart_id=', '').split('.')
+
+      expect((await getCart(`cart_id=${cartId}.forged`)).items).toHaveLength(0)
+    })
+
+    it('should not let visitors check out', async () => {
+      await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .send({ shippingAddress: '1 Main Street' })
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('signing in', () => {
+    it('should merge the anonymous cart into the user cart and drop the cookie', async () => {
+      await register('customer@example.com')
+      const session = mergeCookies(setCookies(await login('customer@example.com')))
+      await addItem(session, 'laptop', 1).expect(HttpStatus.CREATED)
+
+      const anonymous = await addItem('', 'laptop', 2).expect(HttpStatus.CREATED)
+      const anonymousCookies = mergeCookies(setCookies(anonymous))
+      await addItem(anonymousCookies, 'mouse', 3).expect(HttpStatus.CREATED)
+
+      const response = await login('customer@example.com', anonymousCookies)
+      const cleared = setCookies(response).find(cookie => cookie.startsWith('cart_id='))
+
+      expect(cleared).toMatch(/max-age=0/i)
+      expect(
+        (await getCart(mergeCookies(setCookies(response)))).items.map(({ product, quantity }) => [
+          product.id,
+          quantity
+        ])
+      ).toEqual([
+        ['laptop', 3],
+        ['mouse', 3]
+      ])
+      expect(carts).toHaveLength(1)
+    })
+  })
+
+  describe('signed-in customers', () => {
+    let cookies: string
+
+    beforeEach(async () => {
+      await register('customer@example.com')
+      cookies = mergeCookies(setCookies(await login('customer@example.com')))
+    })
+
+    it('should report price changes once and missing stock until fixed', async () => {
+      await addItem(cookies, 'laptop', 4).expect(HttpStatus.CREATED)
+      findProduct('laptop').price = 90000
+      findProduct('laptop').stock = 3
+
+      const changed = await getCart(cookies)
+
+      expect(changed.items[0].issues.map(({ code }) => code)).toEqual([
+        'INSUFFICIENT_STOCK',
+        'PRICE_CHANGED'
+      ])
+      expect(changed).toMatchObject({ total: 360000, checkoutReady: false })
+      expect((await getCart(cookies)).items[0].issues.map(({ code }) => code)).toEqual([
+        'INSUFFICIENT_STOCK'
+      ])
+
+      await request(app.getHttpServer())
+        .patch(`/cart/items/${changed.items[0].id}`)
+        .set('Cookie', cookies)
+        .send({ quantity: 3 })
+        .expect(HttpStatus.OK)
+
+      expect((await getCart(cookies)).checkoutReady).toBe(true)
+    })
+
+    it("should forbid touching someone else's cart", async () => {
+      await register('other@example.com')
+      const otherCookies = mergeCookies(setCookies(await login('other@example.com')))
+      const response = await addItem(otherCookies, 'mouse', 1).expect(HttpStatus.CREATED)
+      const [item] = (response.body as CartResponse).items
+
+      await request(app.getHttpServer())
+        .delete(`/cart/items/${item.id}`)
+        .set('Cookie', cookies)
+        .expect(HttpStatus.FORBIDDEN)
+    })
+
+    it('should check out the cart into an order with frozen prices', async () => {
+      await addItem(cookies, 'laptop', 2).expect(HttpStatus.CREATED)
+
+      const response = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('Cookie', cookies)
+        .send({ shippingAddress: '1 Main Street' })
+        .expect(HttpStatus.CREATED)
+
+      expect(response.body).toMatchObject({
+        total: 200000,
+        items: { create: [{ productId: 'laptop', unitPrice: 100000, quantity: 2 }] }
+      })
+      expect(findProduct('laptop').stock).toBe(3)
+      expect((await getCart(cookies)).items).toHaveLength(0)
+    })
+
+    it('should refuse to check out a cart whose prices changed unseen', async () => {
+      await addItem(cookies, 'laptop', 1).expect(HttpStatus.CREATED)
+      findProduct('laptop').price = 120000
+
+      await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('Cookie', cookies)
+        .send({ shippingAddress: '1 Main Street' })
+        .expect(HttpStatus.CONFLICT)
+    })
+  })
+})
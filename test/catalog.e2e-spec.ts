@@ -0,0 +1,395 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface CategoryRecord {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  parentId: string | null
+}
+
+interface ProductRecord {
+  id: string
+  name: string
+  slug: string
+  price: number
+  stock: number
+  isActive: boolean
+  categoryId: string
+  createdAt: Date
+}
+
+interface ProductWhere {
+  OR?: { id?: string; slug?: string }[]
+  isActive?: boolean
+  categoryId?: string | { in: string[] }
+  name?: { contains: string }
+  price?: { gte?: number; lte?: number }
+  stock?: number | { gt: number }
+}
+
+interface MockSession {
+  user: { id: string; email: string }
+  session: { id: string; userId: string }
+}
+
+interface ProductList {
+  data: { slug: string; category: { slug: string } }[]
+  meta: { total: number }
+}
+
+describe('Catalog (e2e)', () => {
+  let app: INestApplication<Server>
+  let currentSession: MockSession | null
+  let currentRoleIds: string[]
+  let categories: CategoryRecord[]
+  let products: ProductRecord[]
+
+  const matchesProduct = (product: ProductRecord, where: ProductWhere = {}): boolean => {
+    const { OR, isActive, categoryId, name, price, stock } = where
+
+    return (
+      (!OR || OR.some(key => key.id === product.id || key.slug === product.slug)) &&
+      (isActive === undefined || product.isActive === isActive) &&
+      (categoryId === undefined ||
+        (typeof categoryId === 'string'
+          ? product.categoryId === categoryId
+          : categoryId.in.includes(product.categoryId))) &&
+      (!name || product.name.includes(name.contains)) &&
+      (!price ||
+        ((price.gte === undefined || product.price >= price.gte) &&
+          (price.lte === undefined || product.price <= price.lte))) &&
+      (stock === undefined ||
+        (typeof stock === 'number' ? product.stock === stock : product.stock > stock.gt))
+    )
+  }
+
+  const withCategory = (product: ProductRecord) => ({
+    ...product,
+    category: categories.find(category => category.id === product.categoryId)
+  })
+
+  const findCategory = ({ id, slug }: { id?: string; slug?: string }) =>
+    categories.find(category => category.id === id || category.slug === slug) ?? null
+
+  // Minimal in-memory stand-in for the Prisma delegates used by the catalog services
+  const mockPrismaService = {
+    category: {
+      findMany: () =>
+        Promise.resolve(
+          categories.map(category => ({
+            ...category,
+            _count: {
+              products: products.filter(p => p.categoryId === category.id && p.isActive).length
+            }
+          }))
+        ),
+      findFirst: ({ where }: { where: { OR: { id?: string; slug?: string }[] } }) => {
+        const category = where.OR.map(findCategory).find(Boolean)
+
+        return Promise.resolve(
+          category
+            ? {
+                ...category,
+                parent: categories.find(parent => parent.id === category.parentId) ?? null,
+                children: categories.filter(child => child.parentId === category.id)
+              }
+            : null
+        )
+      },
+      findUnique: ({ where }: { where: { id?: string; slug?: string } }) =>
+        Promise.resolve(findCategory(where)),
+      count: ({ where }: { where: { parentId: string } }) =>
+        Promise.resolve(categories.filter(category => category.parentId === where.parentId).length),
+      create: ({
+        data
+      }: {
+        data: Pick<CategoryRecord, 'name' | 'slug'> & Partial<CategoryRecord>
+      }) => {
+        const category = {
+          description: null,
+          parentId: null,
+          ...data,
+          id: `category-${categories.length + 1}`
+        }
+        categories.push(category)
+
+        return Promise.resolve(category)
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<CategoryRecord> }) =>
+        Promise.resolve(Object.assign(findCategory(where)!, data)),
+      delete: ({ where }: { where: { id: string } }) => {
+        const category = findCategory(where)
+        categories = categories.filter(existing => existing !== category)
+
+        return Promise.resolve(category)
+      }
+    },
+    product: {
+      count: ({ where }: { where: ProductWhere }) =>
+        Promise.resolve(products.filter(product => matchesProduct(product, where)).length),
+      findMany: ({ where, take }: { where: ProductWhere; take: number }) =>
+        Promise.resolve(
+          products
+            .filter(product => matchesProduct(product, where))
+            .slice(0, take)
+            .map(withCategory)
+        ),
+      findFirst: ({ where }: { where: ProductWhere }) => {
+        const product = products.find(existing => matchesProduct(existing, where))
+
+        return Promise.resolve(product ? withCategory(product) : null)
+      },
+      findUnique: ({ where }: { where: { id?: string; slug?: string } }) =>
+        Promise.resolve(
+          products.find(product => product.id === where.id || product.slug === where.slug) ?? null
+        ),
+      create: ({
+        data
+      }: {
+        data: Omit<ProductRecord, 'id' | 'createdAt' | 'stock' | 'isActive'> &
+          Partial<ProductRecord>
+      }) => {
+        const product = {
+          stock: 0,
+          isActive: true,
+          ...data,
+          id: `product-${products.length + 1}`,
+          createdAt: new Date()
+        }
+        products.push(product)
+
+        return Promise.resolve(withCategory(product))
+      }
+    },
+    comment: {
+      groupBy: () => Promise.resolve([])
+    },
+    userRole: {
+      findMany: () => Promise.resolve(currentRoleIds.map(roleId => ({ roleId })))
+    },
+    role: {
+      findUnique: () => Promise.resolve({ parentRoleId: null })
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(permissionsByRole[where.roles.some.roleId] ?? [])
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const permissionsByRole: Record<string, object[]> = {
+    'role-manager': [
+      { action: ['create', 'read', 'update', 'delete'], subject: ['Category', 'Product'] }
+    ],
+    'role-user': [{ action: 'read', subject: ['Category', 'Product'], conditions: null }]
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () => Promise.resolve(currentSession)
+    }
+  }
+
+  const signInAs = (...roleIds: string[]): void => {
+    currentRoleIds = roleIds
+    currentSession = {
+      user: { id: 'user-1', email: 'someone@example.com' },
+      session: { id: 'session-1', userId: 'user-1' }
+    }
+  }
+
+  const buildProduct = (
+    id: string,
+    categoryId: string,
+    overrides: Partial<ProductRecord> = {}
+  ): ProductRecord => ({
+    id,
+    name: id,
+    slug: id,
+    price: 1999,
+    stock: 10,
+    isActive: true,
+    categoryId,
+    createdAt: new Date(),
+    ...overrides
+  })
+
+  beforeEach(async () => {
+    currentSession = null
+    currentRoleIds = []
+    categories = [
+      {
+        id: 'electronics',
+        name: 'Electronics',
+        slug: 'electronics',
+        description: null,
+        parentId: null
+      },
+      { id: 'audio', name: 'Audio', slug: 'audio', description: null, parentId: 'electronics' },
+      { id: 'books', name: 'Books', slug: 'books', description: null, parentId: null }
+    ]
+    products = [
+      buildProduct('laptop', 'electronics'),
+      buildProduct('headphones', 'audio', { price: 19999 }),
+      buildProduct('prototype-speaker', 'audio', { isActive: false }),
+      buildProduct('clean-code', 'books', { stock: 0 })
+    ]
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('public catalog', () => {
+    it('should list active products without a session', async () => {
+      const response = await request(app.getHttpServer()).get('/products').expect(HttpStatus.OK)
+      const { data, meta } = response.body as ProductList
+
+      expect(data.map(product => product.slug)).toEqual(['laptop', 'headphones', 'clean-code'])
+      expect(meta.total).toBe(3)
+    })
+
+    it('should include subcategories when filtering by category slug', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/products?category=electronics&minPrice=5000')
+        .expect(HttpStatus.OK)
+
+      expect((response.body as ProductList).data).toMatchObject([
+        { slug: 'headphones', category: { slug: 'audio' } }
+      ])
+      expect((response.body as ProductList).meta.total).toBe(1)
+    })
+
+    it('should hide inactive products from everyone but catalog managers', async () => {
+      await request(app.getHttpServer())
+        .get('/products/prototype-speaker')
+        .expect(HttpStatus.NOT_FOUND)
+
+      signInAs('role-user')
+      await request(app.getHttpServer())
+        .get('/products/prototype-speaker')
+        .expect(HttpStatus.NOT_FOUND)
+
+      signInAs('role-manager')
+      const response = await request(app.getHttpServer())
+        .get('/products?isActive=false')
+        .expect(HttpStatus.OK)
+
+      expect((response.body as ProductList).data.map(product => product.slug)).toEqual([
+        'prototype-speaker'
+      ])
+    })
+
+    it('should return a category with its parent and children', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/categories/electronics')
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({
+        id: 'electronics',
+        parent: null,
+        children: [{ id: 'audio', slug: 'audio' }]
+      })
+    })
+  })
+
+  describe('catalog management', () => {
+    it('should require a session and the right permission to create a product', async () => {
+      const product = { name: 'Smart Watch', price: 29999, categoryId: 'electronics' }
+
+      await request(app.getHttpServer())
+        .post('/products')
+        .send(product)
+        .expect(HttpStatus.UNAUTHORIZED)
+
+      signInAs('role-user')
+      await request(app.getHttpServer())
+        .post('/products')
+        .send(product)
+        .expect(HttpStatus.FORBIDDEN)
+
+      signInAs('role-manager')
+      const response = await request(app.getHttpServer())
+        .post('/products')
+        .send(product)
+        .expect(HttpStatus.CREATED)
+
+      expect(response.body).toMatchObject({
+        slug: 'smart-watch',
+        price: 29999,
+        stock: 0,
+        isActive: true,
+        category: { slug: 'electronics' }
+      })
+    })
+
+    it('should reject prices that are not integer cents', async () => {
+      signInAs('role-manager')
+
+      await request(app.getHttpServer())
+        .post('/products')
+        .send({ name: 'Smart Watch', price: 299.99, categoryId: 'electronics' })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should reject a slug that is already taken', async () => {
+      signInAs('role-manager')
+
+      await request(app.getHttpServer())
+        .post('/products')
+        .send({ name: 'Laptop', price: 99900, categoryId: 'electronics' })
+        .expect(HttpStatus.CONFLICT)
+    })
+
+    it('should refuse to delete a category that still has products', async () => {
+      signInAs('role-manager')
+
+      await request(app.getHttpServer()).delete('/categories/books').expect(HttpStatus.CONFLICT)
+    })
+
+    it('should refuse to move a category below one of its subcategories', async () => {
+      signInAs('role-manager')
+
+      await request(app.getHttpServer())
+        .patch('/categories/electronics')
+        .send({ parentId: 'audio' })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+  })
+})
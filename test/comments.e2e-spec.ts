@@ -0,0 +1,336 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface CommentRecord {
+  id: string
+  content: string
+  rating: number | null
+  productId: string
+  userId: string
+  createdAt: Date
+}
+
+// Prisma where clauses the comments service builds: nested AND/OR/NOT and plain fields
+type CommentWhere = {
+  AND?: CommentWhere[]
+  OR?: CommentWhere[]
+  NOT?: CommentWhere
+  rating?: { gte?: number; lte?: number }
+} & Partial<Record<'id' | 'productId' | 'userId', string>>
+
+interface MockSession {
+  user: { id: string; email: string }
+  session: { id: string; userId: string }
+}
+
+interface CommentList {
+  data: { id: string; user: { id: string }; permissions: { update: boolean; delete: boolean } }[]
+  meta: { total: number }
+}
+
+describe('Comments (e2e)', () => {
+  let app: INestApplication<Server>
+  let currentSession: MockSession | null
+  let comments: CommentRecord[]
+
+  const products = [
+    { id: 'headphones', slug: 'headphones', isActive: true },
+    { id: 'prototype-speaker', slug: 'prototype-speaker', isActive: false }
+  ]
+  const users = [
+    { id: 'user-1', name: 'Alice' },
+    { id: 'user-2', name: 'Bob' },
+    { id: 'admin-1', name: 'Admin' }
+  ]
+  const roleIdsByUser: Record<string, string[]> = {
+    'user-1': ['role-user'],
+    'user-2': ['role-user'],
+    'admin-1': ['role-admin']
+  }
+  // Same rules as the seed
+  const permissionsByRole: Record<string, object[]> = {
+    'role-admin': [{ action: 'manage', subject: 'all', conditions: null }],
+    'role-user': [
+      { action: ['read', 'create'], subject: 'Comment', conditions: null },
+      { action: 'read', subject: 'Product', conditions: null },
+      {
+        action: ['update', 'delete'],
+        subject: 'Comment',
+        conditions: { userId: '${user.id}' }
+      }
+    ]
+  }
+
+  const matchesComment = (comment: CommentRecord, where: CommentWhere = {}): boolean => {
+    const { AND, OR, NOT, rating, ...fields } = where
+
+    return (
+      (!AND || AND.every(condition => matchesComment(comment, condition))) &&
+      (!OR || OR.some(condition => matchesComment(comment, condition))) &&
+      (!NOT || !matchesComment(comment, NOT)) &&
+      (!rating ||
+        (comment.rating !== null &&
+          (rating.gte === undefined || comment.rating >= rating.gte) &&
+          (rating.lte === undefined || comment.rating <= rating.lte))) &&
+      Object.entries(fields).every(
+        ([field, value]) => comment[field as keyof CommentRecord] === value
+      )
+    )
+  }
+
+  const withAuthor = (comment: CommentRecord) => ({
+    ...comment,
+    user: users.find(user => user.id === comment.userId)
+  })
+
+  // Minimal in-memory stand-in for the Prisma delegates used by the comments service
+  const mockPrismaService = {
+    product: {
+      findFirst: ({
+        where
+      }: {
+        where: { OR: { id?: string; slug?: string }[]; isActive?: boolean }
+      }) =>
+        Promise.resolve(
+          products.find(
+            product =>
+              where.OR.some(key => key.id === product.id || key.slug === product.slug) &&
+              (where.isActive === undefined || product.isActive === where.isActive)
+          ) ?? null
+        )
+    },
+    comment: {
+      count: ({ where }: { where: CommentWhere }) =>
+        Promise.resolve(comments.filter(comment => matchesComment(comment, where)).length),
+      findMany: ({ where, take }: { where: CommentWhere; take: number }) =>
+        Promise.resolve(
+          comments
+            .filter(comment => matchesComment(comment, where))
+            .slice(0, take)
+            .map(withAuthor)
+        ),
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(comments.find(comment => comment.id === where.id) ?? null),
+      create: ({ data }: { data: Omit<CommentRecord, 'id' | 'createdAt' | 'rating'> }) => {
+        const comment = {
+          rating: null,
+          ...data,
+          id: `comment-${comments.length + 1}`,
+          createdAt: new Date()
+        }
+        comments.push(comment)
+
+        return Promise.resolve(withAuthor(comment))
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<CommentRecord> }) =>
+        Promise.resolve(
+          withAuthor(Object.assign(comments.find(comment => comment.id === where.id)!, data))
+        ),
+      delete: ({ where }: { where: { id: string } }) => {
+        const comment = comments.find(existing => existing.id === where.id)
+        comments = comments.filter(existing => existing !== comment)
+
+        return Promise.resolve(comment)
+      },
+      groupBy: () => Promise.resolve([])
+    },
+    userRole: {
+      findMany: ({ where }: { where: { userId: string } }) =>
+        Promise.resolve((roleIdsByUser[where.userId] ?? []).map(roleId => ({ roleId })))
+    },
+    role: {
+      findUnique: () => Promise.resolve({ parentRoleId: null })
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(permissionsByRole[where.roles.some.roleId] ?? [])
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () => Promise.resolve(currentSession)
+    }
+  }
+
+  const signInAs = (userId: string): void => {
+    currentSession = {
+      user: { id: userId, email: `${userId}@example.com` },
+      session: { id: `session-${userId}`, userId }
+    }
+  }
+
+  const buildComment = (id: string, userId: string, rating: number | null): CommentRecord => ({
+    id,
+    content: `Comment ${id}`,
+    rating,
+    productId: 'headphones',
+    userId,
+    createdAt: new Date()
+  })
+
+  beforeEach(async () => {
+    currentSession = null
+    comments = [
+      buildComment('comment-1', 'user-1', 5),
+      buildComment('comment-2', 'user-2', 2),
+      buildComment('comment-3', 'user-2', null)
+    ]
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('reading', () => {
+    it('should list the comments of a product without a session', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/comments/product/headphones')
+        .expect(HttpStatus.OK)
+      const { data, meta } = response.body as CommentList
+
+      expect(meta.total).toBe(3)
+      expect(data.every(({ permissions }) => !permissions.update && !permissions.delete)).toBe(true)
+    })
+
+    it('should not list the comments of an inactive product', async () => {
+      await request(app.getHttpServer())
+        .get('/comments/product/prototype-speaker')
+        .expect(HttpStatus.NOT_FOUND)
+    })
+
+    it('should only offer edit actions on the caller own comments', async () => {
+      signInAs('user-1')
+
+      const response = await request(app.getHttpServer())
+        .get('/comments/product/headphones')
+        .expect(HttpStatus.OK)
+
+      expect(
+        (response.body as CommentList).data.map(({ id, permissions }) => [id, permissions.update])
+      ).toEqual([
+        ['comment-1', true],
+        ['comment-2', false],
+        ['comment-3', false]
+      ])
+    })
+
+    it('should filter editable comments with the permission conditions', async () => {
+      signInAs('user-2')
+
+      const response = await request(app.getHttpServer())
+        .get('/comments?editable=true&minRating=1')
+        .expect(HttpStatus.OK)
+
+      expect((response.body as CommentList).data.map(({ id }) => id)).toEqual(['comment-2'])
+
+      signInAs('admin-1')
+
+      const moderation = await request(app.getHttpServer())
+        .get('/comments?editable=true')
+        .expect(HttpStatus.OK)
+
+      expect((moderation.body as CommentList).meta.total).toBe(3)
+    })
+
+    it('should require a session to list every comment', async () => {
+      await request(app.getHttpServer()).get('/comments').expect(HttpStatus.UNAUTHORIZED)
+    })
+  })
+
+  describe('writing', () => {
+    it('should create a rated comment for the signed-in user', async () => {
+      signInAs('user-1')
+
+      const response = await request(app.getHttpServer())
+        .post('/comments')
+        .send({ productId: 'headphones', content: 'Comfortable', rating: 4 })
+        .expect(HttpStatus.CREATED)
+
+      expect(response.body).toMatchObject({
+        content: 'Comfortable',
+        rating: 4,
+        user: { id: 'user-1', name: 'Alice' },
+        permissions: { update: true, delete: true }
+      })
+    })
+
+    it('should reject ratings outside 1 to 5', async () => {
+      signInAs('user-1')
+
+      await request(app.getHttpServer())
+        .post('/comments')
+        .send({ productId: 'headphones', content: 'Too good', rating: 6 })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it("should forbid editing or deleting someone else's comment", async () => {
+      signInAs('user-1')
+
+      await request(app.getHttpServer())
+        .patch('/comments/comment-2')
+        .send({ content: 'Edited' })
+        .expect(HttpStatus.FORBIDDEN)
+      await request(app.getHttpServer()).delete('/comments/comment-2').expect(HttpStatus.FORBIDDEN)
+
+      expect(comments.find(comment => comment.id === 'comment-2')?.content).toBe(
+        'Comment comment-2'
+      )
+    })
+
+    it('should let authors edit their own comment and clear its rating', async () => {
+      signInAs('user-1')
+
+      const response = await request(app.getHttpServer())
+        .patch('/comments/comment-1')
+        .send({ rating: null })
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({ id: 'comment-1', rating: null })
+    })
+
+    it('should let administrators moderate any comment', async () => {
+      signInAs('admin-1')
+
+      await request(app.getHttpServer()).delete('/comments/comment-2').expect(HttpStatus.OK)
+
+      expect(comments.map(comment => comment.id)).toEqual(['comment-1', 'comment-3'])
+    })
+  })
+})
@@ -1,4 +1,5 @@
-import { HttpStatus, INestApplication } from '@nestjs/common'
+import { HttpStatus, INestApplication, Logger } from '@nestjs/common'
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
 import { Test, TestingModule } from '@nestjs/testing'
 import { Server } from 'node:http'
 import { LoggerService } from 'src/common/logger.service'
@@ -19,7 +20,7 @@ describe('Error Handling (e2e)', () => {
     error: () => {}
   }
 
-  beforeEach(async () => {
+  const createApp = async (format?: 'problem' | 'legacy') => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule]
     })
@@ -29,24 +30,34 @@ describe('Error Handling (e2e)', () => {
       .useValue(mockLoggerService)
       .compile()
 
-    app = moduleFixture.createNestApplication()
+    const nestApp = moduleFixture.createNestApplication<INestApplication<Server>>()
 
     // Apply same configuration as main.ts
     const { ValidationPipe } = await import('@nestjs/common')
     const helmet = await import('helmet')
     const { HttpExceptionFilter } = await import('../src/common/filters/httpException.filter')
+    const { validationExceptionFactory } = await import(
+      '../src/common/exceptions/validationFailed.exception'
+    )
 
-    app.use(helmet.default())
-    app.useGlobalFilters(new HttpExceptionFilter())
-    app.useGlobalPipes(
+    nestApp.use(helmet.default())
+    nestApp.useGlobalFilters(new HttpExceptionFilter(format))
+    nestApp.useGlobalPipes(
       new ValidationPipe({
         whitelist: true,
         forbidNonWhitelisted: true,
-        transform: true
+        transform: true,
+        exceptionFactory: validationExceptionFactory
       })
     )
 
-    await app.init()
+    await nestApp.init()
+
+    return nestApp
+  }
+
+  beforeEach(async () => {
+    app = await createApp()
   })
 
   afterEach(async () => {
@@ -54,17 +65,21 @@ describe('Error Handling (e2e)', () => {
   })
 
   describe('404 Not Found', () => {
-    it('should return structured 404 error response', async () => {
+    it('should return a problem details response', async () => {
       const response = await request(app.getHttpServer())
         .get('/demo/not-found')
         .expect(HttpStatus.NOT_FOUND)
 
-      expect(response.body).toHaveProperty('statusCode', 404)
-      expect(response.body).toHaveProperty('timestamp')
-      expect(response.body).toHaveProperty('path', '/demo/not-found')
-      expect(response.body).toHaveProperty('method', 'GET')
-      expect(response.body).toHaveProperty('message', 'This resource does not exist')
-      expect(response.body).toHaveProperty('error', 'NotFoundException')
+      expect(response.headers['content-type']).toContain('application/problem+json')
+      expect(response.body).toEqual({
+        type: '/problems/not-found',
+        title: 'Resource not found',
+        status: 404,
+        detail: 'This resource does not exist',
+        instance: '/demo/not-found',
+        code: 'NOT_FOUND',
+        requestId: response.headers['x-request-id']
+      })
     })
 
     it('should return 404 for user not found', async () => {
@@ -73,40 +88,70 @@ describe('Error Handling (e2e)', () => {
         .expect(HttpStatus.NOT_FOUND)
 
       expect(response.body).toMatchObject({
-        statusCode: 404,
-        path: '/demo/user/999',
-        message: 'User with ID "999" not found'
+        status: 404,
+        instance: '/demo/user/999',
+        detail: 'User with ID "999" not found'
       })
     })
   })
 
   describe('400 Bad Request', () => {
-    it('should return structured 400 error response', async () => {
+    it('should return a problem details response', async () => {
       const response = await request(app.getHttpServer())
         .get('/demo/bad-request')
         .expect(HttpStatus.BAD_REQUEST)
 
       expect(response.body).toMatchObject({
-        statusCode: 400,
-        path: '/demo/bad-request',
-        method: 'GET',
-        message: 'Invalid input parameters',
-        error: 'BadRequestException'
+        type: '/problems/bad-request',
+        status: 400,
+        instance: '/demo/bad-request',
+        detail: 'Invalid input parameters',
+        code: 'BAD_REQUEST'
+      })
+    })
+
+    it('should list validation errors per field', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email: 'not-an-email', password: 'short', role: 'admin' })
+        .expect(HttpStatus.BAD_REQUEST)
+
+      expect(response.body).toMatchObject({
+        type: '/problems/validation-failed',
+        status: 400,
+        code: 'VALIDATION_FAILED',
+        instance: '/auth/register'
+      })
+      const { errors } = response.body as { errors: unknown[] }
+      expect(errors).toContainEqual({
+        field: 'role',
+        constraint: 'whitelistValidation',
+        detail: 'property role should not exist'
+      })
+      expect(errors).toContainEqual({
+        field: 'email',
+        constraint: 'isEmail',
+        detail: 'email must be an email'
+      })
+      expect(errors).toContainEqual({
+        field: 'password',
+        constraint: 'minLength',
+        detail: 'password must be longer than or equal to 8 characters'
       })
     })
   })
 
   describe('500 Internal Server Error', () => {
-    it('should return structured 500 error response', async () => {
+    it('should return a problem details response', async () => {
       const response = await request(app.getHttpServer())
         .get('/demo/server-error')
         .expect(HttpStatus.INTERNAL_SERVER_ERROR)
 
       expect(response.body).toMatchObject({
-        statusCode: 500,
-        path: '/demo/server-error',
-        method: 'GET',
-        message: 'Something went wrong on the server'
+        status: 500,
+        instance: '/demo/server-error',
+        detail: 'Something went wrong on the server',
+        code: 'INTERNAL_ERROR'
       })
     })
 
@@ -116,10 +161,10 @@ describe('Error Handling (e2e)', () => {
         .expect(HttpStatus.INTERNAL_SERVER_ERROR)
 
       expect(response.body).toMatchObject({
-        statusCode: 500,
-        path: '/demo/unexpected-error',
-        message: 'Unexpected error occurred',
-        error: 'Error'
+        status: 500,
+        instance: '/demo/unexpected-error',
+        detail: 'Unexpected error occurred',
+        code: 'INTERNAL_ERROR'
       })
     })
 
@@ -129,46 +174,100 @@ describe('Error Handling (e2e)', () => {
         .expect(HttpStatus.INTERNAL_SERVER_ERROR)
 
       expect(response.body).toMatchObject({
-        statusCode: 500,
-        path: '/demo/throw-string',
-        message: 'An unexpected error occurred',
-        error: 'UnknownError'
+        status: 500,
+        instance: '/demo/throw-string',
+        detail: 'An unexpected error occurred'
       })
     })
   })
 
   describe('Error Response Structure', () => {
-    it('should always include timestamp in ISO format', async () => {
+    it('should not expose stack traces in production', async () => {
+      const originalEnv = process.env.NODE_ENV
+      process.env.NODE_ENV = 'production'
+
+      const response = await request(app.getHttpServer())
+        .get('/demo/unexpected-error')
+        .expect(HttpStatus.INTERNAL_SERVER_ERROR)
+
+      expect(response.body).not.toHaveProperty('stack')
+
+      process.env.NODE_ENV = originalEnv
+    })
+  })
+
+  describe('Legacy format', () => {
+    beforeEach(async () => {
+      await app.close()
+      app = await createApp('legacy')
+    })
+
+    it('should return the previous error shape as plain JSON', async () => {
       const response = await request(app.getHttpServer())
         .get('/demo/not-found')
         .expect(HttpStatus.NOT_FOUND)
 
+      expect(response.headers['content-type']).toContain('application/json')
+      expect(response.body).toMatchObject({
+        statusCode: 404,
+        path: '/demo/not-found',
+        method: 'GET',
+        message: 'This resource does not exist',
+        error: 'NotFoundException'
+      })
+
       const errorBody = response.body as { timestamp: string }
       expect(errorBody.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/)
     })
 
-    it('should include request path and method', async () => {
+    it('should keep validation errors as a list of messages', async () => {
       const response = await request(app.getHttpServer())
-        .get('/demo/bad-request')
+        .post('/auth/register')
+        .send({ email: 'not-an-email', password: 'long-enough-password' })
         .expect(HttpStatus.BAD_REQUEST)
 
       expect(response.body).toMatchObject({
-        path: '/demo/bad-request',
-        method: 'GET'
+        statusCode: 400,
+        message: ['email must be an email'],
+        error: 'ValidationFailedException'
       })
     })
+  })
 
-    it('should not expose stack traces in production', async () => {
-      const originalEnv = process.env.NODE_ENV
-      process.env.NODE_ENV = 'production'
+  describe('Request correlation', () => {
+    it('should generate a request id and return it in the header and the body', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/demo/not-found')
+        .expect(HttpStatus.NOT_FOUND)
+
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/)
+      expect(response.body).toHaveProperty('requestId', response.headers['x-request-id'])
+    })
 
+    it('should echo the request id sent by the client', async () => {
       const response = await request(app.getHttpServer())
-        .get('/demo/unexpected-error')
-        .expect(HttpStatus.INTERNAL_SERVER_ERROR)
+        .get('/demo/user/123')
+        .set('X-Request-Id', 'client-trace-42')
+        .expect(HttpStatus.OK)
 
-      expect(response.body).not.toHaveProperty('stack')
+      expect(response.headers['x-request-id']).toBe('client-trace-42')
+    })
 
-      process.env.NODE_ENV = originalEnv
+    it('should tag the error log with the request fields', async () => {
+      const warnSpy = spyOn(Logger.prototype, 'warn').mockImplementation(() => {})
+
+      await request(app.getHttpServer())
+        .post('/demo/missing')
+        .set('X-Request-Id', 'client-trace-43')
+        .send({ name: 'body parsed before the error' })
+        .expect(HttpStatus.NOT_FOUND)
+
+      expect(warnSpy.mock.calls[0][1]).toMatchObject({
+        requestId: 'client-trace-43',
+        method: 'POST',
+        route: '/demo/missing'
+      })
+      warnSpy.mockRestore()
     })
   })
 
@@ -0,0 +1,276 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { Server } from 'node:http'
+import { BETTER_AUTH, createBetterAuth } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import { MAILER } from 'src/mail/mailer.interface'
+import { MemoryMailer } from 'src/mail/transports/memory.mailer'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+type DbRecord = Record<string, unknown>
+
+interface LogEntry {
+  message: string
+  context?: DbRecord
+}
+
+interface MeResponse {
+  user: { id: string; email: string }
+  session: { impersonatedBy: string | null }
+}
+
+describe('Impersonation (e2e)', () => {
+  let app: INestApplication<Server>
+  let db: Record<string, DbRecord[]>
+  let roleIds: Map<string, string[]>
+  let logs: LogEntry[]
+
+  const roleOf = (userId: string) => roleIds.get(userId) ?? []
+
+  // Minimal in-memory stand-in for the Prisma delegates used around Better Auth and CASL
+  const mockPrismaService = {
+    role: {
+      findUnique: () => Promise.resolve({ id: 'role-user', name: 'USER', parentRoleId: null })
+    },
+    user: {
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(db.user.find(user => user.id === where.id) ?? null)
+    },
+    userRole: {
+      create: ({ data }: { data: { userId: string; roleId: string } }) => {
+        roleIds.set(data.userId, [data.roleId])
+        return Promise.resolve(data)
+      },
+      findMany: ({ where }: { where: { userId: string } }) =>
+        Promise.resolve(roleOf(where.userId).map(roleId => ({ roleId }))),
+      count: ({ where }: { where: { userId: string } }) =>
+        Promise.resolve(roleOf(where.userId).filter(roleId => roleId === 'role-admin').length)
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(
+          where.roles.some.roleId === 'role-admin'
+            ? [{ action: 'manage', subject: 'all', conditions: null }]
+            : [{ action: 'read', subject: 'Product', conditions: null }]
+        )
+    },
+    auditLog: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data),
+      count: () => Promise.resolve(0),
+      findMany: () => Promise.resolve([])
+    },
+    twoFactor: {
+      findUnique: () => Promise.resolve(null)
+    },
+    loginLockout: {
+      findUnique: () => Promise.resolve(null),
+      upsert: () => Promise.resolve({}),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const record = (message: string, context?: DbRecord) => {
+    logs.push({ message, context })
+  }
+  const mockLoggerService = { info: record, warn: record, error: record }
+
+  // Keeps the latest value of each cookie, like a browser would
+  const mergeCookies = (...responses: string[][]): string =>
+    [
+      ...new Map(
+        responses
+          .flat()
+          .filter(cookie => !/max-age=0/i.test(cookie))
+          .map(cookie => cookie.split(';')[0].split('=') as [string, string])
+      )
+    ]
+      .map(([name, value]) => `${name}=${value}`)
+      .join('; ')
+
+  const signUp = async (email: string): Promise<{ id: string; cookies: string[] }> => {
+    const credentials = { email, password: 'password123', name: email }
+    const registered = await request(app.getHttpServer())
+      .post('/auth/register')
+      .send(credentials)
+      .expect(HttpStatus.CREATED)
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: credentials.password })
+      .expect(HttpStatus.OK)
+
+    return {
+      id: (registered.body as { id: string }).id,
+      cookies: response.headers['set-cookie'] as unknown as string[]
+    }
+  }
+
+  const impersonate = (cookies: string, userId: string) =>
+    request(app.getHttpServer()).post(`/admin/impersonate/${userId}`).set('Cookie', cookies)
+
+  const me = async (cookies: string): Promise<MeResponse> =>
+    (
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+    ).body as MeResponse
+
+  let admin: { id: string; cookies: string[] }
+  let customer: { id: string; cookies: string[] }
+  let adminCookies: string
+
+  beforeEach(async () => {
+    db = { user: [], session: [], account: [], verification: [] }
+    roleIds = new Map()
+    logs = []
+    const config = new ConfigService({
+      BETTER_AUTH_SECRET: 'test-secret-that-is-long-enough-for-better-auth',
+      BETTER_AUTH_URL: 'http://localhost:3000'
+    })
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(
+        createBetterAuth(mockPrismaService as unknown as PrismaService, config, memoryAdapter(db))
+      )
+      .overrideProvider(MAILER)
+      .useValue(new MemoryMailer())
+      .compile()
+
+    app = moduleFixture.createNestApplication({ bodyParser: false })
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+
+    await app.init()
+
+    admin = await signUp('admin@example.com')
+    customer = await signUp('customer@example.com')
+    roleIds.set(admin.id, ['role-admin'])
+    adminCookies = mergeCookies(admin.cookies)
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  it('should sign the administrator in as the user with a marked session', async () => {
+    const response = await impersonate(adminCookies, customer.id).expect(HttpStatus.OK)
+    const cookies = mergeCookies(
+      admin.cookies,
+      response.headers['set-cookie'] as unknown as string[]
+    )
+
+    expect((response.body as { user: { id: string } }).user.id).toBe(customer.id)
+    expect(await me(cookies)).toMatchObject({
+      user: { id: customer.id },
+      session: { impersonatedBy: admin.id }
+    })
+  })
+
+  it("should only grant the user's own abilities", async () => {
+    const response = await impersonate(adminCookies, customer.id).expect(HttpStatus.OK)
+    const cookies = mergeCookies(
+      admin.cookies,
+      response.headers['set-cookie'] as unknown as string[]
+    )
+
+    await request(app.getHttpServer())
+      .get('/audit-logs')
+      .set('Cookie', adminCookies)
+      .expect(HttpStatus.OK)
+    await request(app.getHttpServer())
+      .get('/audit-logs')
+      .set('Cookie', cookies)
+      .expect(HttpStatus.FORBIDDEN)
+  })
+
+  it("should restore the administrator's session when stopping", async () => {
+    const started = await impersonate(adminCookies, customer.id).expect(HttpStatus.OK)
+    const cookies = mergeCookies(
+      admin.cookies,
+      started.headers['set-cookie'] as unknown as string[]
+    )
+
+    const stopped = await request(app.getHttpServer())
+      .delete('/admin/impersonate')
+      .set('Cookie', cookies)
+      .expect(HttpStatus.OK)
+    const restored = mergeCookies(
+      admin.cookies,
+      started.headers['set-cookie'] as unknown as string[],
+      stopped.headers['set-cookie'] as unknown as string[]
+    )
+
+    expect(stopped.body).toMatchObject({ impersonatedBy: admin.id, user: { id: admin.id } })
+    expect(await me(restored)).toMatchObject({
+      user: { id: admin.id },
+      session: { impersonatedBy: null }
+    })
+    expect(db.session.filter(session => session.impersonatedBy)).toEqual([])
+  })
+
+  it('should tag impersonation and every request made during it in logs', async () => {
+    const response = await impersonate(adminCookies, customer.id).expect(HttpStatus.OK)
+    const cookies = mergeCookies(
+      admin.cookies,
+      response.headers['set-cookie'] as unknown as string[]
+    )
+
+    await me(cookies)
+    await request(app.getHttpServer())
+      .delete('/admin/impersonate')
+      .set('Cookie', cookies)
+      .expect(HttpStatus.OK)
+
+    expect(logs).toContainEqual({
+      message: 'Impersonation started',
+      context: expect.objectContaining({ userId: customer.id, by: admin.id }) as DbRecord
+    })
+    expect(logs).toContainEqual({
+      message: 'Request made while impersonating',
+      context: expect.objectContaining({
+        path: '/auth/me',
+        userId: customer.id,
+        impersonatedBy: admin.id
+      }) as DbRecord
+    })
+    expect(logs).toContainEqual({
+      message: 'Impersonation stopped',
+      context: expect.objectContaining({ userId: customer.id, by: admin.id }) as DbRecord
+    })
+  })
+
+  it('should forbid impersonating another administrator', async () => {
+    const otherAdmin = await signUp('other-admin@example.com')
+    roleIds.set(otherAdmin.id, ['role-admin'])
+
+    await impersonate(adminCookies, otherAdmin.id).expect(HttpStatus.FORBIDDEN)
+  })
+
+  it('should reject unknown users and the administrator themselves', async () => {
+    await impersonate(adminCookies, 'missing-user').expect(HttpStatus.NOT_FOUND)
+    await impersonate(adminCookies, admin.id).expect(HttpStatus.BAD_REQUEST)
+  })
+
+  it('should be reserved to users allowed to impersonate', async () => {
+    await impersonate(mergeCookies(customer.cookies), admin.id).expect(HttpStatus.FORBIDDEN)
+  })
+
+  it('should refuse to stop a session that is not impersonating', async () => {
+    await request(app.getHttpServer())
+      .delete('/admin/impersonate')
+      .set('Cookie', adminCookies)
+      .expect(HttpStatus.BAD_REQUEST)
+  })
+})
@@ -0,0 +1,134 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { PrismaService } from 'src/database/prisma.service'
+import { LOG_OUTPUT, LogOutput, useLogOutput } from 'src/logging/logOutput'
+import { MemoryLogTransport } from 'src/logging/transports/memory.transport'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+describe('Logging (e2e)', () => {
+  let app: INestApplication<Server>
+  let transport: MemoryLogTransport
+  let output: LogOutput
+  let currentRoleId: string
+
+  const mockPrismaService = {
+    userRole: {
+      findMany: () => Promise.resolve([{ roleId: currentRoleId }])
+    },
+    role: {
+      findUnique: () => Promise.resolve({ parentRoleId: null })
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(
+          where.roles.some.roleId === 'role-admin'
+            ? [{ action: 'manage', subject: 'all', conditions: null }]
+            : [{ action: 'read', subject: 'Product', conditions: null }]
+        )
+    }
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () =>
+        Promise.resolve({
+          user: { id: 'admin-1', email: 'admin@example.com', emailVerified: true },
+          session: { id: 'session-1', userId: 'admin-1' }
+        })
+    }
+  }
+
+  beforeEach(async () => {
+    currentRoleId = 'role-admin'
+    transport = new MemoryLogTransport()
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .overrideProvider(LOG_OUTPUT)
+      .useFactory({ factory: () => useLogOutput(new LogOutput('json', 'info', [transport])) })
+      .compile()
+
+    output = moduleFixture.get(LOG_OUTPUT)
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    useLogOutput(new LogOutput('text', 'verbose'))
+  })
+
+  it('should report the current level and format', async () => {
+    const response = await request(app.getHttpServer()).get('/logging/level').expect(HttpStatus.OK)
+
+    expect(response.body).toEqual({ level: 'info', format: 'json' })
+  })
+
+  it('should change the level at runtime', async () => {
+    const response = await request(app.getHttpServer())
+      .patch('/logging/level')
+      .send({ level: 'error' })
+      .expect(HttpStatus.OK)
+
+    expect(response.body).toEqual({ level: 'error', format: 'json' })
+    expect(output.level).toBe('error')
+
+    transport.clear()
+    await request(app.getHttpServer()).get('/demo/not-found').expect(HttpStatus.NOT_FOUND)
+
+    expect(transport.withMessage('Client error occurred')).toHaveLength(0)
+  })
+
+  it('should reject unknown levels', async () => {
+    await request(app.getHttpServer())
+      .patch('/logging/level')
+      .send({ level: 'trace' })
+      .expect(HttpStatus.BAD_REQUEST)
+
+    expect(output.level).toBe('info')
+  })
+
+  it('should be restricted to administrators', async () => {
+    currentRoleId = 'role-user'
+
+    await request(app.getHttpServer()).get('/logging/level').expect(HttpStatus.FORBIDDEN)
+    await request(app.getHttpServer())
+      .patch('/logging/level')
+      .send({ level: 'debug' })
+      .expect(HttpStatus.FORBIDDEN)
+  })
+
+  it('should write structured entries tied to the request', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/demo/not-found')
+      .expect(HttpStatus.NOT_FOUND)
+
+    expect(transport.withMessage('Client error occurred')).toEqual([
+      {
+        timestamp: expect.any(String) as string,
+        level: 'warn',
+        context: 'HttpExceptionFilter',
+        message: 'Client error occurred',
+        requestId: response.headers['x-request-id'],
+        userId: 'admin-1',
+        ip: expect.any(String) as string,
+        method: 'GET',
+        route: '/demo/not-found',
+        statusCode: 404,
+        path: '/demo/not-found',
+        fields: { message: 'This resource does not exist' }
+      }
+    ])
+  })
+})
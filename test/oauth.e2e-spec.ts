@@ -0,0 +1,388 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { createServer, Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { BETTER_AUTH, createBetterAuth } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import { MAILER } from 'src/mail/mailer.interface'
+import { MemoryMailer } from 'src/mail/transports/memory.mailer'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+type DbRecord = Record<string, unknown>
+
+interface OidcProfile {
+  sub: string
+  email: string
+  email_verified: boolean
+  name: string
+}
+
+interface ConnectedAccountResponse {
+  providerId: string
+}
+
+const APP_URL = 'http://localhost:3000'
+
+// Unsigned ID token: Better Auth reads the claims of tokens it got from the token endpoint
+const encodeIdToken = (profile: OidcProfile): string =>
+  [
+    { alg: 'none', typ: 'JWT' },
+    { ...profile, iss: 'mock-oidc', aud: 'google-client' }
+  ]
+    .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+    .concat('')
+    .join('.')
+
+describe('OAuth (e2e)', () => {
+  let app: INestApplication<Server>
+  let oidcServer: Server
+  let oidcUrl: string
+  let profile: OidcProfile
+  let db: Record<string, DbRecord[]>
+  let twoFactorUserIds: string[]
+  const credentials = { email: 'jane@example.com', password: 'password123', name: 'Jane' }
+
+  // Minimal in-memory stand-in for the Prisma delegates used around Better Auth
+  const mockPrismaService = {
+    role: {
+      findUnique: () => Promise.resolve({ id: 'role-user', name: 'USER' })
+    },
+    user: {
+      findUnique: ({ where }: { where: { id: string } }) => {
+        const user = db.user.find(record => record.id === where.id)
+        const accounts = db.account.filter(account => account.userId === where.id)
+
+        return Promise.resolve(user ? { ...user, _count: { accounts: accounts.length } } : null)
+      }
+    },
+    userRole: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data)
+    },
+    verification: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    twoFactor: {
+      findUnique: ({ where }: { where: { userId: string } }) =>
+        Promise.resolve(
+          twoFactorUserIds.includes(where.userId)
+            ? { id: 'two-factor-1', userId: where.userId, enabledAt: new Date() }
+            : null
+        )
+    },
+    // Any backup code is accepted, the TOTP checks have their own tests
+    twoFactorBackupCode: {
+      updateMany: () => Promise.resolve({ count: 1 })
+    },
+    loginLockout: {
+      findUnique: () => Promise.resolve(null),
+      upsert: () => Promise.resolve({}),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    account: {
+      findMany: ({ where }: { where: { userId: string } }) =>
+        Promise.resolve(db.account.filter(account => account.userId === where.userId)),
+      deleteMany: ({ where }: { where: { id: string } }) => {
+        db.account = db.account.filter(account => account.id !== where.id)
+        return Promise.resolve({ count: 1 })
+      }
+    }
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+
+  /**
+   * Runs the whole authorization code flow against the mock OIDC server and
+   * returns where Better Auth redirected the browser, with the cookies it set.
+   */
+  const signInWithGoogle = async (cookies: string[] = []) => {
+    const start = await request(app.getHttpServer())
+      .post('/auth/oauth/google')
+      .set('Cookie', cookies)
+      .send({ callbackURL: `${APP_URL}/dashboard`, errorCallbackURL: `${APP_URL}/login` })
+      .expect(HttpStatus.OK)
+    const { url } = start.body as { url: string }
+    const state = new URL(url).searchParams.get('state')
+
+    const callback = await request(app.getHttpServer())
+      .get('/api/auth/oauth2/callback/google')
+      .query({ code: 'mock-code', state })
+      .set('Cookie', start.headers['set-cookie'] as unknown as string[])
+      .expect(HttpStatus.FOUND)
+
+    return {
+      location: callback.headers.location,
+      cookies: (callback.headers['set-cookie'] as unknown as string[] | undefined) ?? []
+    }
+  }
+
+  const register = async (): Promise<string[]> => {
+    await request(app.getHttpServer())
+      .post('/auth/register')
+      .send(credentials)
+      .expect(HttpStatus.CREATED)
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: credentials.email, password: credentials.password })
+      .expect(HttpStatus.OK)
+
+    return response.headers['set-cookie'] as unknown as string[]
+  }
+
+  beforeAll(async () => {
+    oidcServer = createServer((req, res) => {
+      res.setHeader('Content-Type', 'application/json')
+
+      if (req.url === '/.well-known/openid-configuration') {
+        res.end(
+          JSON.stringify({
+            issuer: oidcUrl,
+            authorization_endpoint: `${oidcUrl}/authorize`,
+            token_endpoint: `${oidcUrl}/token`,
+            userinfo_endpoint: `${oidcUrl}/userinfo`
+          })
+        )
+        return
+      }
+
+      if (req.url === '/token' && req.method === 'POST') {
+        res.end(
+          JSON.stringify({
+            access_token: 'mock-access-token',
+            token_type: 'Bearer',
+            expires_in: 3600,
+            id_token: encodeIdToken(profile)
+          })
+        )
+        return
+      }
+
+      res.statusCode = 404
+      res.end('{}')
+    })
+    await new Promise<void>(resolve => oidcServer.listen(0, '127.0.0.1', resolve))
+    oidcUrl = `http://127.0.0.1:${(oidcServer.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => oidcServer.close(resolve))
+  })
+
+  beforeEach(async () => {
+    db = { user: [], session: [], account: [], verification: [] }
+    twoFactorUserIds = []
+    profile = {
+      sub: 'google-user-1',
+      email: credentials.email,
+      email_verified: true,
+      name: 'Jane from Google'
+    }
+    const config = new ConfigService({
+      BETTER_AUTH_SECRET: 'test-secret-that-is-long-enough-for-better-auth',
+      BETTER_AUTH_URL: APP_URL,
+      GITHUB_CLIENT_ID: 'github-client',
+      GITHUB_CLIENT_SECRET: 'github-secret',
+      GOOGLE_CLIENT_ID: 'google-client',
+      GOOGLE_CLIENT_SECRET: 'google-secret',
+      GOOGLE_DISCOVERY_URL: `${oidcUrl}/.well-known/openid-configuration`
+    })
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(
+        createBetterAuth(mockPrismaService as unknown as PrismaService, config, memoryAdapter(db))
+      )
+      .overrideProvider(MAILER)
+      .useValue(new MemoryMailer())
+      .compile()
+
+    app = moduleFixture.createNestApplication({ bodyParser: false })
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('GET /auth/providers', () => {
+    it('should list the configured providers', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/auth/providers')
+        .expect(HttpStatus.OK)
+
+      expect((response.body as { providers: string[] }).providers.sort()).toEqual([
+        'github',
+        'google'
+      ])
+    })
+  })
+
+  describe('POST /auth/oauth/:providerId', () => {
+    it('should return the GitHub authorization URL', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/oauth/github')
+        .send({})
+        .expect(HttpStatus.OK)
+
+      expect((response.body as { url: string }).url).toStartWith(
+        'https://github.com/login/oauth/authorize'
+      )
+      expect(response.headers['set-cookie']).toBeDefined()
+    })
+
+    it('should resolve the Google endpoints through discovery', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/oauth/google')
+        .send({})
+        .expect(HttpStatus.OK)
+      const url = new URL((response.body as { url: string }).url)
+
+      expect(url.origin + url.pathname).toBe(`${oidcUrl}/authorize`)
+      expect(url.searchParams.get('redirect_uri')).toBe(
+        `${APP_URL}/api/auth/oauth2/callback/google`
+      )
+      expect(url.searchParams.get('code_challenge')).toBeTruthy()
+    })
+
+    it('should reject unknown providers', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/oauth/myspace')
+        .send({})
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+  })
+
+  describe('OAuth callback', () => {
+    it('should sign up a new user with a verified email', async () => {
+      const { location, cookies } = await signInWithGoogle()
+
+      expect(location).toBe(`${APP_URL}/dashboard`)
+      expect(cookies.some(cookie => cookie.startsWith('better-auth.session_token='))).toBe(true)
+      expect(db.user).toHaveLength(1)
+      expect(db.user[0]).toMatchObject({ email: credentials.email, emailVerified: true })
+      expect(db.account).toEqual([
+        expect.objectContaining({ providerId: 'google', accountId: 'google-user-1' }) as DbRecord
+      ])
+    })
+
+    it('should link the provider to an existing user with a verified email', async () => {
+      await register()
+      db.user[0].emailVerified = true
+
+      const { location } = await signInWithGoogle()
+
+      expect(location).toBe(`${APP_URL}/dashboard`)
+      expect(db.user).toHaveLength(1)
+      expect(db.account.map(account => account.providerId).sort()).toEqual(['credential', 'google'])
+    })
+
+    it('should not link to a user whose own email is unverified', async () => {
+      await register()
+
+      const { location } = await signInWithGoogle()
+
+      expect(location).toStartWith(`${APP_URL}/login?error=`)
+      expect(db.account.map(account => account.providerId)).toEqual(['credential'])
+    })
+
+    it('should not link when the provider did not verify the email', async () => {
+      await register()
+      db.user[0].emailVerified = true
+      profile.email_verified = false
+
+      const { location } = await signInWithGoogle()
+
+      expect(location).toStartWith(`${APP_URL}/login?error=`)
+      expect(db.account.map(account => account.providerId)).toEqual(['credential'])
+    })
+
+    it('should ask users with two-factor enabled for their second factor', async () => {
+      await register()
+      db.user[0].emailVerified = true
+      twoFactorUserIds = [db.user[0].id as string]
+
+      const { location, cookies } = await signInWithGoogle()
+      const redirect = new URL(location)
+      const challengeToken = redirect.searchParams.get('challengeToken')
+
+      expect(`${redirect.origin}${redirect.pathname}`).toBe(`${APP_URL}/dashboard`)
+      expect(redirect.searchParams.get('twoFactorRequired')).toBe('true')
+      expect(challengeToken).toBeTruthy()
+      // Only the session of the password sign-in in register() remains
+      expect(db.session).toHaveLength(1)
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.UNAUTHORIZED)
+
+      const verified = await request(app.getHttpServer())
+        .post('/auth/2fa/verify')
+        .send({ challengeToken, code: 'ABCD-EFGH' })
+        .expect(HttpStatus.OK)
+
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Cookie', verified.headers['set-cookie'] as unknown as string[])
+        .expect(HttpStatus.OK)
+    })
+  })
+
+  describe('Connected accounts', () => {
+    it('should list the sign-in methods without their secrets', async () => {
+      const cookies = await register()
+      db.user[0].emailVerified = true
+      await signInWithGoogle()
+
+      const response = await request(app.getHttpServer())
+        .get('/auth/accounts')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+      const accounts = response.body as ConnectedAccountResponse[]
+
+      expect(accounts.map(account => account.providerId).sort()).toEqual(['credential', 'google'])
+    })
+
+    it('should unlink a provider but never the last sign-in method', async () => {
+      const cookies = await register()
+      db.user[0].emailVerified = true
+      await signInWithGoogle()
+
+      await request(app.getHttpServer())
+        .delete('/auth/accounts/google')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+      await request(app.getHttpServer())
+        .delete('/auth/accounts/credential')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.CONFLICT)
+
+      expect(db.account.map(account => account.providerId)).toEqual(['credential'])
+    })
+
+    it('should return 404 for a provider that is not linked', async () => {
+      const cookies = await register()
+
+      await request(app.getHttpServer())
+        .delete('/auth/accounts/github')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+})
@@ -0,0 +1,407 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface ProductRecord {
+  id: string
+  name: string
+  price: number
+  stock: number
+  isActive: boolean
+}
+
+interface OrderItemRecord {
+  productId: string
+  productName: string
+  unitPrice: number
+  quantity: number
+}
+
+interface OrderRecord {
+  id: string
+  orderNumber: string
+  userId: string
+  status: string
+  total: number
+  shippingAddress: string
+  paymentReference: string
+  createdAt: Date
+  items: OrderItemRecord[]
+}
+
+// Prisma where clauses the orders service builds: nested AND/OR and plain fields
+type OrderWhere = {
+  AND?: OrderWhere[]
+  OR?: OrderWhere[]
+  status?: string | { in: string[] }
+} & Partial<Record<'id' | 'userId', string>>
+
+interface MockSession {
+  user: { id: string; email: string }
+  session: { id: string; userId: string }
+}
+
+interface OrderResponse {
+  id: string
+  status: string
+  total: number
+  items: OrderItemRecord[]
+}
+
+describe('Orders (e2e)', () => {
+  let app: INestApplication<Server>
+  let currentSession: MockSession | null
+  let products: ProductRecord[]
+  let orders: OrderRecord[]
+
+  const roleIdsByUser: Record<string, string[]> = {
+    'user-1': ['role-user'],
+    'user-2': ['role-user'],
+    'admin-1': ['role-admin']
+  }
+  // Same rules as the seed
+  const permissionsByRole: Record<string, object[]> = {
+    'role-admin': [{ action: 'manage', subject: 'all', conditions: null }],
+    'role-user': [
+      { action: ['create', 'read'], subject: 'Order', conditions: { userId: '${user.id}' } },
+      {
+        action: 'delete',
+        subject: 'Order',
+        conditions: { userId: '${user.id}', status: 'PENDING' }
+      }
+    ]
+  }
+
+  const matchesOrder = (order: OrderRecord, where: OrderWhere = {}): boolean => {
+    const { AND, OR, status, ...fields } = where
+
+    return (
+      (!AND || AND.every(condition => matchesOrder(order, condition))) &&
+      (!OR || OR.some(condition => matchesOrder(order, condition))) &&
+      (status === undefined ||
+        (typeof status === 'string'
+          ? order.status === status
+          : status.in.includes(order.status))) &&
+      Object.entries(fields).every(([field, value]) => order[field as keyof OrderRecord] === value)
+    )
+  }
+
+  const findProduct = (id: string) => products.find(product => product.id === id)!
+
+  const findOrder = (id: string) => orders.find(order => order.id === id) ?? null
+
+  // Minimal in-memory stand-in for the Prisma delegates used by the orders service
+  const mockPrismaService = {
+    product: {
+      findMany: ({ where }: { where: { id: { in: string[] }; isActive: boolean } }) =>
+        Promise.resolve(
+          products.filter(
+            product => where.id.in.includes(product.id) && product.isActive === where.isActive
+          )
+        ),
+      updateMany: ({
+        where,
+        data
+      }: {
+        where: { id: string; stock: { gte: number } }
+        data: { stock: { decrement: number } }
+      }) => {
+        const product = findProduct(where.id)
+
+        if (product.stock < where.stock.gte) {
+          return Promise.resolve({ count: 0 })
+        }
+
+        product.stock -= data.stock.decrement
+
+        return Promise.resolve({ count: 1 })
+      },
+      update: ({
+        where,
+        data
+      }: {
+        where: { id: string }
+        data: { stock: { increment: number } }
+      }) => {
+        const product = findProduct(where.id)
+        product.stock += data.stock.increment
+
+        return Promise.resolve(product)
+      }
+    },
+    order: {
+      count: ({ where }: { where: OrderWhere }) =>
+        Promise.resolve(orders.filter(order => matchesOrder(order, where)).length),
+      findMany: ({ where, take }: { where: OrderWhere; take: number }) =>
+        Promise.resolve(orders.filter(order => matchesOrder(order, where)).slice(0, take)),
+      findFirst: ({ where }: { where: OrderWhere }) =>
+        Promise.resolve(orders.find(order => matchesOrder(order, where)) ?? null),
+      findUnique: ({ where }: { where: { id: string } }) => Promise.resolve(findOrder(where.id)),
+      findUniqueOrThrow: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(findOrder(where.id)),
+      create: ({
+        data
+      }: {
+        data: Omit<OrderRecord, 'id' | 'status' | 'createdAt' | 'items'> & {
+          items: { create: OrderItemRecord[] }
+        }
+      }) => {
+        const order = {
+          ...data,
+          id: `order-${orders.length + 1}`,
+          status: 'PENDING',
+          createdAt: new Date(),
+          items: data.items.create
+        }
+        orders.push(order)
+
+        return Promise.resolve(order)
+      },
+      updateMany: ({
+        where,
+        data
+      }: {
+        where: { id: string; status: string }
+        data: { status: string }
+      }) => {
+        const order = findOrder(where.id)
+
+        if (order?.status !== where.status) {
+          return Promise.resolve({ count: 0 })
+        }
+
+        order.status = data.status
+
+        return Promise.resolve({ count: 1 })
+      }
+    },
+    userRole: {
+      findMany: ({ where }: { where: { userId: string } }) =>
+        Promise.resolve((roleIdsByUser[where.userId] ?? []).map(roleId => ({ roleId })))
+    },
+    role: {
+      findUnique: () => Promise.resolve({ parentRoleId: null })
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(permissionsByRole[where.roles.some.roleId] ?? [])
+    },
+    // Interactive transactions restore the stock they changed when the callback throws
+    $transaction: async (
+      operations: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)
+    ): Promise<unknown> => {
+      if (typeof operations !== 'function') {
+        return Promise.all(operations)
+      }
+
+      const stock = products.map(product => product.stock)
+
+      try {
+        return await operations(mockPrismaService)
+      } catch (error) {
+        products.forEach((product, index) => (product.stock = stock[index]))
+        throw error
+      }
+    }
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () => Promise.resolve(currentSession)
+    }
+  }
+
+  const signInAs = (userId: string): void => {
+    currentSession = {
+      user: { id: userId, email: `${userId}@example.com` },
+      session: { id: `session-${userId}`, userId }
+    }
+  }
+
+  const placeOrder = (body: object) =>
+    request(app.getHttpServer())
+      .post('/orders')
+      .send({ shippingAddress: '1 Main Street', ...body })
+
+  beforeEach(async () => {
+    currentSession = null
+    products = [
+      { id: 'laptop', name: 'Laptop', price: 100000, stock: 3, isActive: true },
+      { id: 'mouse', name: 'Mouse', price: 2500, stock: 10, isActive: true },
+      { id: 'prototype', name: 'Prototype', price: 5000, stock: 10, isActive: false }
+    ]
+    orders = []
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('placing orders', () => {
+    it('should snapshot prices and reserve stock', async () => {
+      signInAs('user-1')
+
+      const response = await placeOrder({
+        items: [
+          { productId: 'laptop', quantity: 2 },
+          { productId: 'mouse', quantity: 1 }
+        ]
+      }).expect(HttpStatus.CREATED)
+      const order = response.body as OrderResponse
+
+      expect(order).toMatchObject({ status: 'PENDING', total: 202500 })
+      expect(products.map(product => product.stock)).toEqual([1, 9, 10])
+
+      findProduct('laptop').price = 150000
+
+      const stored = await request(app.getHttpServer())
+        .get(`/orders/${order.id}`)
+        .expect(HttpStatus.OK)
+
+      expect((stored.body as OrderResponse).items[0]).toMatchObject({ unitPrice: 100000 })
+    })
+
+    it('should refuse to oversell', async () => {
+      signInAs('user-1')
+
+      await placeOrder({
+        items: [
+          { productId: 'mouse', quantity: 1 },
+          { productId: 'laptop', quantity: 4 }
+        ]
+      }).expect(HttpStatus.CONFLICT)
+
+      expect(products.map(product => product.stock)).toEqual([3, 10, 10])
+    })
+
+    it('should roll the stock back when the payment is declined', async () => {
+      signInAs('user-1')
+
+      await placeOrder({
+        items: [{ productId: 'laptop', quantity: 1 }],
+        simulatePaymentFailure: true
+      }).expect(HttpStatus.PAYMENT_REQUIRED)
+
+      expect(findProduct('laptop').stock).toBe(3)
+      expect(orders).toHaveLength(0)
+    })
+
+    it('should reject inactive products and empty orders', async () => {
+      signInAs('user-1')
+
+      await placeOrder({ items: [{ productId: 'prototype', quantity: 1 }] }).expect(
+        HttpStatus.BAD_REQUEST
+      )
+      await placeOrder({ items: [] }).expect(HttpStatus.BAD_REQUEST)
+    })
+  })
+
+  describe('reading orders', () => {
+    beforeEach(async () => {
+      signInAs('user-1')
+      await placeOrder({ items: [{ productId: 'mouse', quantity: 1 }] })
+      signInAs('user-2')
+      await placeOrder({ items: [{ productId: 'mouse', quantity: 2 }] })
+    })
+
+    it('should only list the customer own orders', async () => {
+      const response = await request(app.getHttpServer()).get('/orders').expect(HttpStatus.OK)
+      const { data } = response.body as { data: { userId: string }[] }
+
+      expect(data.map(order => order.userId)).toEqual(['user-2'])
+
+      await request(app.getHttpServer()).get('/orders/order-1').expect(HttpStatus.NOT_FOUND)
+    })
+
+    it('should list every order for administrators', async () => {
+      signInAs('admin-1')
+
+      const response = await request(app.getHttpServer())
+        .get('/orders?status=PENDING')
+        .expect(HttpStatus.OK)
+
+      expect((response.body as { meta: { total: number } }).meta.total).toBe(2)
+    })
+  })
+
+  describe('status changes', () => {
+    beforeEach(async () => {
+      signInAs('user-1')
+      await placeOrder({ items: [{ productId: 'laptop', quantity: 2 }] })
+    })
+
+    it('should move orders along the fulfilment path and reject illegal transitions', async () => {
+      await request(app.getHttpServer())
+        .patch('/orders/order-1/status')
+        .send({ status: 'PROCESSING' })
+        .expect(HttpStatus.FORBIDDEN)
+
+      signInAs('admin-1')
+
+      for (const status of ['PROCESSING', 'SHIPPED']) {
+        await request(app.getHttpServer())
+          .patch('/orders/order-1/status')
+          .send({ status })
+          .expect(HttpStatus.OK)
+      }
+
+      await request(app.getHttpServer())
+        .patch('/orders/order-1/status')
+        .send({ status: 'CANCELLED' })
+        .expect(HttpStatus.CONFLICT)
+      await request(app.getHttpServer())
+        .patch('/orders/order-1/status')
+        .send({ status: 'LOST' })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('should let customers cancel their pending orders and restore the stock', async () => {
+      const response = await request(app.getHttpServer())
+        .delete('/orders/order-1')
+        .expect(HttpStatus.OK)
+
+      expect((response.body as OrderResponse).status).toBe('CANCELLED')
+      expect(findProduct('laptop').stock).toBe(3)
+
+      await request(app.getHttpServer()).delete('/orders/order-1').expect(HttpStatus.FORBIDDEN)
+
+      signInAs('admin-1')
+      await request(app.getHttpServer()).delete('/orders/order-1').expect(HttpStatus.CONFLICT)
+      expect(findProduct('laptop').stock).toBe(3)
+    })
+  })
+})
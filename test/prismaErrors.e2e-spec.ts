@@ -0,0 +1,217 @@
+import { Prisma } from '@generated'
+import { HttpStatus, INestApplication, Logger, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface ProblemResponse {
+  status: number
+  detail: string
+  code: string
+}
+
+const CLIENT_VERSION = '6.18.0'
+
+const knownError = (code: string, meta: Record<string, unknown>) =>
+  new Prisma.PrismaClientKnownRequestError(
+    `Invalid \`prisma.role.create()\` invocation:\n\n${code} on table "main"."Role"`,
+    { code, clientVersion: CLIENT_VERSION, meta }
+  )
+
+describe('Prisma errors (e2e)', () => {
+  let app: INestApplication<Server>
+  // Thrown by the next role write or transaction, as the database would
+  let failure: Error | null
+
+  const editorRole = {
+    id: 'role-editor',
+    name: 'EDITOR',
+    description: null,
+    parentRoleId: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }
+
+  const failOr = <T>(value: T): Promise<T> =>
+    failure ? Promise.reject(failure) : Promise.resolve(value)
+
+  const mockPrismaService = {
+    role: {
+      // Parent lookups while building the ability, role lookups by id, name availability checks
+      findUnique: ({ where }: { where: { id?: string; name?: string } }) =>
+        Promise.resolve(
+          where.id === 'role-admin'
+            ? { parentRoleId: null }
+            : where.id === editorRole.id
+              ? editorRole
+              : null
+        ),
+      // Only run within $transaction, which fails on their behalf
+      findMany: () => Promise.resolve([]),
+      count: () => Promise.resolve(0),
+      delete: () => Promise.resolve(editorRole),
+      create: () => failOr(editorRole),
+      update: () => failOr(editorRole)
+    },
+    userRole: {
+      findMany: () => Promise.resolve([{ roleId: 'role-admin' }]),
+      count: () => Promise.resolve(0)
+    },
+    permission: {
+      findMany: () => Promise.resolve([{ action: 'manage', subject: 'all', conditions: null }])
+    },
+    $transaction: (operations: Promise<unknown>[]) =>
+      failOr(null).then(() => Promise.all(operations))
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () =>
+        Promise.resolve({
+          user: { id: 'user-1', email: 'admin@example.com' },
+          session: { id: 'session-1', userId: 'user-1' }
+        })
+    }
+  }
+
+  beforeEach(async () => {
+    failure = null
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  it('should answer a unique violation with 409 naming the field', async () => {
+    // Another request created the same role between the availability check and the insert
+    failure = knownError('P2002', { modelName: 'Role', target: ['name'] })
+
+    const response = await request(app.getHttpServer())
+      .post('/roles')
+      .send({ name: 'EDITOR' })
+      .expect(HttpStatus.CONFLICT)
+
+    expect(response.body).toMatchObject({
+      status: 409,
+      code: 'RECORD_ALREADY_EXISTS',
+      detail: 'Another role already has this name'
+    })
+    expect(response.text).not.toContain('prisma')
+    expect(response.text).not.toContain('P2002')
+  })
+
+  it('should answer a record that disappeared with 404', async () => {
+    failure = knownError('P2025', { modelName: 'Role', cause: 'Record to update not found.' })
+
+    const response = await request(app.getHttpServer())
+      .patch(`/roles/${editorRole.id}`)
+      .send({ description: 'Edits content' })
+      .expect(HttpStatus.NOT_FOUND)
+
+    expect(response.body).toMatchObject({ code: 'RECORD_NOT_FOUND', detail: 'Role not found' })
+  })
+
+  it('should answer a delete blocked by a foreign key with 409', async () => {
+    failure = knownError('P2003', { modelName: 'Role', field_name: 'foreign key' })
+
+    const response = await request(app.getHttpServer())
+      .delete(`/roles/${editorRole.id}`)
+      .expect(HttpStatus.CONFLICT)
+
+    expect(response.body as ProblemResponse).toMatchObject({
+      code: 'RECORD_IN_USE',
+      detail: 'This role is still referenced by other records'
+    })
+  })
+
+  it('should answer a write to a missing related record with 400', async () => {
+    failure = knownError('P2003', { modelName: 'Role', field_name: 'foreign key' })
+
+    const response = await request(app.getHttpServer())
+      .post('/roles')
+      .send({ name: 'EDITOR' })
+      .expect(HttpStatus.BAD_REQUEST)
+
+    expect(response.body as ProblemResponse).toMatchObject({
+      code: 'RELATED_RECORD_NOT_FOUND',
+      detail: 'A referenced record does not exist'
+    })
+  })
+
+  it('should answer a query Prisma rejects with 400 without its message', async () => {
+    failure = new Prisma.PrismaClientValidationError(
+      'Invalid `prisma.role.create()` invocation: Argument `name` is missing.',
+      { clientVersion: CLIENT_VERSION }
+    )
+
+    const response = await request(app.getHttpServer())
+      .post('/roles')
+      .send({ name: 'EDITOR' })
+      .expect(HttpStatus.BAD_REQUEST)
+
+    expect(response.body as ProblemResponse).toMatchObject({
+      code: 'RECORD_INVALID',
+      detail: 'The request contains a value the database does not accept'
+    })
+    expect(response.text).not.toContain('Argument')
+  })
+
+  it('should answer an unreachable database with 503 and log the original error', async () => {
+    const errorSpy = spyOn(Logger.prototype, 'error').mockImplementation(() => {})
+    failure = new Prisma.PrismaClientInitializationError(
+      "Can't reach database server at `db.internal:5432`",
+      CLIENT_VERSION,
+      'P1001'
+    )
+
+    const response = await request(app.getHttpServer())
+      .get('/roles')
+      .expect(HttpStatus.SERVICE_UNAVAILABLE)
+
+    expect(response.body).toMatchObject({
+      status: 503,
+      code: 'DATABASE_UNAVAILABLE',
+      detail: 'The database is temporarily unavailable'
+    })
+    expect(response.text).not.toContain('db.internal')
+    expect(errorSpy.mock.calls[0][1]).toMatchObject({
+      statusCode: 503,
+      databaseError: "Can't reach database server at `db.internal:5432`"
+    })
+    errorSpy.mockRestore()
+  })
+})
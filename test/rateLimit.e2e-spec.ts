@@ -0,0 +1,231 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { Server } from 'node:http'
+import { BETTER_AUTH, createBetterAuth } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import { MAILER } from 'src/mail/mailer.interface'
+import { MemoryMailer } from 'src/mail/transports/memory.mailer'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+type DbRecord = Record<string, unknown>
+
+interface LockoutRecord {
+  identifier: string
+  failedAttempts: number
+  lockedUntil: Date | null
+  lastFailedAt: Date
+}
+
+interface ProblemResponse {
+  status: number
+  instance: string
+  code: string
+  detail: string
+}
+
+describe('Rate limiting (e2e)', () => {
+  let app: INestApplication<Server>
+  let db: Record<string, DbRecord[]>
+  let lockouts: LockoutRecord[]
+  const credentials = { email: 'jane@example.com', password: 'password123', name: 'Jane' }
+  const settings = {
+    RATE_LIMIT_ENABLED: 'true',
+    RATE_LIMIT_MAX: '5',
+    AUTH_RATE_LIMIT_IP_MAX: '10',
+    AUTH_RATE_LIMIT_ACCOUNT_MAX: '5',
+    LOGIN_LOCKOUT_THRESHOLD: '3'
+  }
+
+  const findLockout = (identifier: string) =>
+    lockouts.find(lockout => lockout.identifier === identifier)
+
+  const mockPrismaService = {
+    role: {
+      findUnique: () => Promise.resolve({ id: 'role-user', name: 'USER' })
+    },
+    user: {
+      findUnique: ({ where }: { where: { id?: string; email?: string } }) =>
+        Promise.resolve(
+          db.user.find(user => user.id === where.id || user.email === where.email) ?? null
+        )
+    },
+    userRole: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data)
+    },
+    twoFactor: {
+      findUnique: () => Promise.resolve(null)
+    },
+    loginLockout: {
+      findUnique: ({ where }: { where: { identifier: string } }) =>
+        Promise.resolve(findLockout(where.identifier) ?? null),
+      upsert: ({
+        where,
+        create,
+        update
+      }: {
+        where: { identifier: string }
+        create: LockoutRecord
+        update: Omit<LockoutRecord, 'identifier'>
+      }) => {
+        const existing = findLockout(where.identifier)
+
+        if (existing) {
+          return Promise.resolve(Object.assign(existing, update))
+        }
+
+        lockouts.push(create)
+        return Promise.resolve(create)
+      },
+      deleteMany: ({ where }: { where: { identifier: string } }) => {
+        lockouts = lockouts.filter(lockout => lockout.identifier !== where.identifier)
+        return Promise.resolve({ count: 0 })
+      }
+    }
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+
+  const register = () =>
+    request(app.getHttpServer()).post('/auth/register').send(credentials).expect(HttpStatus.CREATED)
+
+  const login = (password: string) =>
+    request(app.getHttpServer()).post('/auth/login').send({ email: credentials.email, password })
+
+  beforeAll(() => {
+    Object.assign(process.env, settings)
+  })
+
+  afterAll(() => {
+    for (const key of Object.keys(settings)) {
+      delete process.env[key]
+    }
+  })
+
+  beforeEach(async () => {
+    db = { user: [], session: [], account: [], verification: [] }
+    lockouts = []
+    const config = new ConfigService({
+      BETTER_AUTH_SECRET: 'test-secret-that-is-long-enough-for-better-auth',
+      BETTER_AUTH_URL: 'http://localhost:3000',
+      ...settings
+    })
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(
+        createBetterAuth(mockPrismaService as unknown as PrismaService, config, memoryAdapter(db))
+      )
+      .overrideProvider(MAILER)
+      .useValue(new MemoryMailer())
+      .compile()
+
+    app = moduleFixture.createNestApplication({ bodyParser: false })
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('per-IP limit', () => {
+    it('should answer 429 with Retry-After as problem details', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await request(app.getHttpServer()).get('/').expect(HttpStatus.OK)
+      }
+
+      const response = await request(app.getHttpServer())
+        .get('/')
+        .expect(HttpStatus.TOO_MANY_REQUESTS)
+
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0)
+      expect(response.body as ProblemResponse).toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        instance: '/',
+        code: 'RATE_LIMITED'
+      })
+    })
+
+    it('should throttle before the session guard rejects anonymous requests', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await request(app.getHttpServer()).get('/auth/me').expect(HttpStatus.UNAUTHORIZED)
+      }
+
+      await request(app.getHttpServer()).get('/auth/me').expect(HttpStatus.TOO_MANY_REQUESTS)
+    })
+  })
+
+  describe('per-account limit', () => {
+    it('should throttle one email without blocking others from the same IP', async () => {
+      const forgotPassword = (email: string) =>
+        request(app.getHttpServer()).post('/auth/forgot-password').send({ email })
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await forgotPassword('jane@example.com').expect(HttpStatus.OK)
+      }
+
+      await forgotPassword('JANE@example.com').expect(HttpStatus.TOO_MANY_REQUESTS)
+      await forgotPassword('john@example.com').expect(HttpStatus.OK)
+    })
+  })
+
+  describe('login lockout', () => {
+    it('should lock the account after repeated failures, even for the right password', async () => {
+      await register()
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await login('wrong-password').expect(HttpStatus.UNAUTHORIZED)
+      }
+
+      const response = await login(credentials.password).expect(HttpStatus.TOO_MANY_REQUESTS)
+
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0)
+      expect(response.headers['set-cookie']).toBeUndefined()
+      expect((response.body as ProblemResponse).detail).toContain('Too many failed sign-in')
+      expect(findLockout(credentials.email)).toMatchObject({ failedAttempts: 3 })
+    })
+
+    it('should reset the failure count on a successful sign-in', async () => {
+      await register()
+      await login('wrong-password').expect(HttpStatus.UNAUTHORIZED)
+      await login('wrong-password').expect(HttpStatus.UNAUTHORIZED)
+
+      await login(credentials.password).expect(HttpStatus.OK)
+
+      expect(findLockout(credentials.email)).toBeUndefined()
+    })
+
+    it('should apply to the Better Auth sign-in endpoint as well', async () => {
+      await register()
+      const signIn = (password: string) =>
+        request(app.getHttpServer())
+          .post('/api/auth/sign-in/email')
+          .send({ email: credentials.email, password })
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await signIn('wrong-password').expect(HttpStatus.UNAUTHORIZED)
+      }
+
+      const response = await signIn(credentials.password).expect(HttpStatus.TOO_MANY_REQUESTS)
+
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0)
+      expect(response.headers['set-cookie']).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,493 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface RoleRecord {
+  id: string
+  name: string
+  description: string | null
+  parentRoleId: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface UserRecord {
+  id: string
+  name: string
+  email: string
+}
+
+interface UserRoleRecord {
+  userId: string
+  roleId: string
+  expiresAt: Date | null
+}
+
+interface UserRoleKey {
+  userId_roleId: { userId: string; roleId: string }
+}
+
+interface RoleResponse extends RoleRecord {
+  userCount: number
+}
+
+interface RoleListResponse {
+  data: RoleResponse[]
+  meta: { total: number; nextCursor: string | null }
+}
+
+interface RoleWhere {
+  id?: { in: string[] }
+  AND?: { name?: { contains: string } }[]
+}
+
+interface RoleOrderBy {
+  name?: 'asc' | 'desc'
+}
+
+interface MockSession {
+  user: { id: string; email: string }
+  session: { id: string; userId: string }
+}
+
+describe('Roles (e2e)', () => {
+  let app: INestApplication<Server>
+  let currentSession: MockSession | null
+  let currentRoleIds: string[]
+  let roles: RoleRecord[]
+  let users: UserRecord[]
+  let userRoles: UserRoleRecord[]
+
+  const buildRole = (id: string, name: string, parentRoleId: string | null = null): RoleRecord => ({
+    id,
+    name,
+    description: null,
+    parentRoleId,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  })
+
+  const isActive = (assignment: UserRoleRecord): boolean =>
+    assignment.expiresAt === null || assignment.expiresAt > new Date()
+
+  const membersOf = (roleId: string): UserRoleRecord[] =>
+    userRoles.filter(assignment => assignment.roleId === roleId && isActive(assignment))
+
+  const matchesRole = (role: RoleRecord, where: RoleWhere = {}): boolean =>
+    (!where.id || where.id.in.includes(role.id)) &&
+    (where.AND ?? []).every(({ name }) => !name || role.name.includes(name.contains))
+
+  const findAssignment = ({ userId_roleId: key }: UserRoleKey) =>
+    userRoles.find(
+      assignment => assignment.userId === key.userId && assignment.roleId === key.roleId
+    )
+
+  // Minimal in-memory stand-in for the Prisma delegates used by RolesService
+  const mockPrismaService = {
+    role: {
+      // Ancestor lookups filter on ids, the list filters on a name substring
+      findMany: ({ where, orderBy }: { where?: RoleWhere; orderBy?: RoleOrderBy[] }) =>
+        Promise.resolve(
+          roles
+            .filter(role => matchesRole(role, where))
+            .sort((a, b) => (orderBy?.[0].name === 'desc' ? -1 : 1) * a.name.localeCompare(b.name))
+            .map(role => ({ ...role, _count: { users: membersOf(role.id).length } }))
+        ),
+      count: ({ where }: { where?: RoleWhere }) =>
+        Promise.resolve(roles.filter(role => matchesRole(role, where)).length),
+      findUnique: ({ where }: { where: { id?: string; name?: string } }) => {
+        const role = roles.find(r => r.id === where.id || r.name === where.name)
+
+        return Promise.resolve(
+          role
+            ? {
+                ...role,
+                users: membersOf(role.id).map(assignment => ({
+                  expiresAt: assignment.expiresAt,
+                  user: users.find(user => user.id === assignment.userId)
+                }))
+              }
+            : null
+        )
+      },
+      create: ({ data }: { data: Pick<RoleRecord, 'name'> & Partial<RoleRecord> }) => {
+        const role = { ...buildRole(`role-${roles.length + 1}`, data.name), ...data }
+        roles.push(role)
+
+        return Promise.resolve(role)
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<RoleRecord> }) => {
+        const role = roles.find(r => r.id === where.id)!
+        Object.assign(role, data)
+
+        return Promise.resolve(role)
+      },
+      delete: ({ where }: { where: { id: string } }) => {
+        roles = roles
+          .filter(r => r.id !== where.id)
+          .map(r => (r.parentRoleId === where.id ? { ...r, parentRoleId: null } : r))
+        userRoles = userRoles.filter(assignment => assignment.roleId !== where.id)
+
+        return Promise.resolve()
+      }
+    },
+    user: {
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(users.find(user => user.id === where.id) ?? null)
+    },
+    userRole: {
+      // Role lookup for the signed-in user when building their ability
+      findMany: () => Promise.resolve(currentRoleIds.map(roleId => ({ roleId }))),
+      count: ({ where }: { where: { roleId: string } }) =>
+        Promise.resolve(membersOf(where.roleId).length),
+      findUnique: ({ where }: { where: UserRoleKey }) =>
+        Promise.resolve(findAssignment(where) ?? null),
+      upsert: ({
+        where,
+        create,
+        update
+      }: {
+        where: UserRoleKey
+        create: UserRoleRecord
+        update: Pick<UserRoleRecord, 'expiresAt'>
+      }) => {
+        const existing = findAssignment(where)
+
+        if (existing) {
+          return Promise.resolve(Object.assign(existing, update))
+        }
+
+        userRoles.push(create)
+        return Promise.resolve(create)
+      },
+      delete: ({ where }: { where: UserRoleKey }) => {
+        const assignment = findAssignment(where)!
+        userRoles = userRoles.filter(existing => existing !== assignment)
+
+        return Promise.resolve(assignment)
+      }
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(permissionsByRole[where.roles.some.roleId] ?? [])
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const permissionsByRole: Record<string, object[]> = {
+    'role-admin': [{ action: 'manage', subject: 'all', conditions: null }],
+    'role-manager': [{ action: 'update', subject: 'Product', conditions: null }],
+    'role-user': [{ action: 'read', subject: 'Product', conditions: null }]
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () => Promise.resolve(currentSession)
+    }
+  }
+
+  const signInAs = (...roleIds: string[]): void => {
+    currentRoleIds = roleIds
+    currentSession = {
+      user: { id: 'user-1', email: 'someone@example.com' },
+      session: { id: 'session-1', userId: 'user-1' }
+    }
+  }
+
+  beforeEach(async () => {
+    currentSession = null
+    currentRoleIds = []
+    roles = [
+      buildRole('role-admin', 'ADMIN', 'role-manager'),
+      buildRole('role-manager', 'PRODUCT_MANAGER', 'role-user'),
+      buildRole('role-user', 'USER')
+    ]
+    users = [
+      { id: 'user-1', name: 'Admin', email: 'admin@example.com' },
+      { id: 'user-2', name: 'Manager', email: 'manager@example.com' },
+      { id: 'user-3', name: 'Regular', email: 'user@example.com' }
+    ]
+    userRoles = [
+      { userId: 'user-1', roleId: 'role-admin', expiresAt: null },
+      { userId: 'user-2', roleId: 'role-manager', expiresAt: null },
+      { userId: 'user-2', roleId: 'role-user', expiresAt: null },
+      { userId: 'user-3', roleId: 'role-user', expiresAt: null }
+    ]
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('authorization', () => {
+    it('should require authentication', async () => {
+      await request(app.getHttpServer()).get('/roles').expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should be forbidden for regular users', async () => {
+      signInAs('role-user')
+
+      const response = await request(app.getHttpServer()).get('/roles').expect(HttpStatus.FORBIDDEN)
+
+      expect(response.body).toMatchObject({
+        status: 403,
+        instance: '/roles',
+        code: 'PERMISSION_DENIED'
+      })
+    })
+
+    it('should be forbidden for users without a role', async () => {
+      signInAs()
+
+      await request(app.getHttpServer()).get('/roles').expect(HttpStatus.FORBIDDEN)
+    })
+
+    it('should combine the permissions of every role the user holds', async () => {
+      signInAs('role-user', 'role-admin')
+
+      await request(app.getHttpServer()).get('/roles').expect(HttpStatus.OK)
+    })
+  })
+
+  describe('as ADMIN', () => {
+    beforeEach(() => {
+      signInAs('role-admin')
+    })
+
+    it('GET /roles should list roles with user counts', async () => {
+      const response = await request(app.getHttpServer()).get('/roles').expect(HttpStatus.OK)
+      const { data, meta } = response.body as RoleListResponse
+
+      expect(data).toHaveLength(3)
+      expect(meta).toMatchObject({ total: 3, nextCursor: null })
+      expect(data[0]).toMatchObject({ name: 'ADMIN', userCount: 1 })
+      expect(data[0]).not.toHaveProperty('_count')
+      expect(data[0]).not.toHaveProperty('email')
+    })
+
+    it('GET /roles should filter, sort and paginate', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/roles?name=R&sort=-name&limit=1')
+        .expect(HttpStatus.OK)
+      const { data, meta } = response.body as RoleListResponse
+
+      expect(data.map(role => role.name)).toEqual(['USER'])
+      expect(meta.total).toBe(2)
+      expect(meta.nextCursor).toEqual(expect.any(String) as string)
+      await request(app.getHttpServer()).get('/roles?sort=userCount').expect(HttpStatus.BAD_REQUEST)
+      await request(app.getHttpServer()).get('/roles?description=x').expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('GET /roles/:id should return the role with its members', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/roles/role-user')
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({
+        name: 'USER',
+        users: [
+          { id: 'user-2', email: 'manager@example.com', expiresAt: null },
+          { id: 'user-3', email: 'user@example.com', expiresAt: null }
+        ]
+      })
+    })
+
+    it('GET /roles/:id should return 404 for unknown roles', async () => {
+      await request(app.getHttpServer()).get('/roles/missing').expect(HttpStatus.NOT_FOUND)
+    })
+
+    it('GET /roles/:id/permissions should flatten inherited rules', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/roles/role-manager/permissions')
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({
+        role: { id: 'role-manager', name: 'PRODUCT_MANAGER' },
+        inheritsFrom: [{ id: 'role-user', name: 'USER' }],
+        rules: [
+          { action: 'read', subject: 'Product' },
+          { action: 'update', subject: 'Product' }
+        ]
+      })
+    })
+
+    it('POST /roles should create a role inheriting from a parent', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/roles')
+        .send({ name: 'SUPPORT_AGENT', parentRoleId: 'role-user' })
+        .expect(HttpStatus.CREATED)
+
+      expect(response.body).toMatchObject({ name: 'SUPPORT_AGENT', parentRoleId: 'role-user' })
+    })
+
+    it('PATCH /roles/:id should reject inheritance cycles with 400', async () => {
+      await request(app.getHttpServer())
+        .patch('/roles/role-user')
+        .send({ parentRoleId: 'role-admin' })
+        .expect(HttpStatus.BAD_REQUEST)
+
+      await request(app.getHttpServer())
+        .patch('/roles/role-user')
+        .send({ parentRoleId: 'role-user' })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('POST /roles should create a role', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/roles')
+        .send({ name: 'SUPPORT_AGENT', description: 'Customer support' })
+        .expect(HttpStatus.CREATED)
+
+      expect(response.body).toMatchObject({
+        name: 'SUPPORT_AGENT',
+        description: 'Customer support'
+      })
+    })
+
+    it('POST /roles should validate the payload', async () => {
+      await request(app.getHttpServer())
+        .post('/roles')
+        .send({ name: 'support agent' })
+        .expect(HttpStatus.BAD_REQUEST)
+
+      await request(app.getHttpServer())
+        .post('/roles')
+        .send({ name: 'SUPPORT', permissions: ['all'] })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('POST /roles should reject duplicate names', async () => {
+      await request(app.getHttpServer())
+        .post('/roles')
+        .send({ name: 'USER' })
+        .expect(HttpStatus.CONFLICT)
+    })
+
+    it('PATCH /roles/:id should rename and describe a role', async () => {
+      const response = await request(app.getHttpServer())
+        .patch('/roles/role-manager')
+        .send({ name: 'CATALOG_MANAGER', description: 'Manages the catalog' })
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({
+        name: 'CATALOG_MANAGER',
+        description: 'Manages the catalog'
+      })
+    })
+
+    it('PATCH /roles/:id should not rename built-in roles', async () => {
+      await request(app.getHttpServer())
+        .patch('/roles/role-admin')
+        .send({ name: 'SUPERUSER' })
+        .expect(HttpStatus.CONFLICT)
+    })
+
+    it('DELETE /roles/:id should report how many users lost the role', async () => {
+      const response = await request(app.getHttpServer())
+        .delete('/roles/role-manager')
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({
+        role: { id: 'role-manager' },
+        unassignedUsers: 1
+      })
+      expect(userRoles).toContainEqual({ userId: 'user-2', roleId: 'role-user', expiresAt: null })
+      expect(userRoles.some(assignment => assignment.roleId === 'role-manager')).toBe(false)
+    })
+
+    it('DELETE /roles/:id should protect ADMIN and USER', async () => {
+      await request(app.getHttpServer()).delete('/roles/role-admin').expect(HttpStatus.CONFLICT)
+      await request(app.getHttpServer()).delete('/roles/role-user').expect(HttpStatus.CONFLICT)
+    })
+
+    it('PUT /roles/:id/users/:userId should add the role to existing ones', async () => {
+      const response = await request(app.getHttpServer())
+        .put('/roles/role-manager/users/user-3')
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({
+        userId: 'user-3',
+        roleId: 'role-manager',
+        expiresAt: null
+      })
+      expect(membersOf('role-user').map(assignment => assignment.userId)).toContain('user-3')
+    })
+
+    it('PUT /roles/:id/users/:userId should accept an expiry date', async () => {
+      const expiresAt = new Date(Date.now() + 3_600_000).toISOString()
+
+      const response = await request(app.getHttpServer())
+        .put('/roles/role-manager/users/user-3')
+        .send({ expiresAt })
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({ userId: 'user-3', expiresAt })
+    })
+
+    it('PUT /roles/:id/users/:userId should validate the expiry date', async () => {
+      await request(app.getHttpServer())
+        .put('/roles/role-manager/users/user-3')
+        .send({ expiresAt: 'tomorrow' })
+        .expect(HttpStatus.BAD_REQUEST)
+
+      await request(app.getHttpServer())
+        .put('/roles/role-manager/users/user-3')
+        .send({ expiresAt: '2020-01-01T00:00:00.000Z' })
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('PUT /roles/:id/users/:userId should return 404 for unknown users', async () => {
+      await request(app.getHttpServer())
+        .put('/roles/role-manager/users/missing')
+        .expect(HttpStatus.NOT_FOUND)
+    })
+
+    it('DELETE /roles/:id/users/:userId should unassign the role', async () => {
+      const response = await request(app.getHttpServer())
+        .delete('/roles/role-user/users/user-3')
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({ userId: 'user-3', roleId: 'role-user' })
+      expect(membersOf('role-user').map(assignment => assignment.userId)).not.toContain('user-3')
+    })
+
+    it('DELETE /roles/:id/users/:userId should reject users without that role', async () => {
+      await request(app.getHttpServer())
+        .delete('/roles/role-manager/users/user-3')
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+})
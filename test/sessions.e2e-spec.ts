@@ -0,0 +1,288 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface SessionRecord {
+  id: string
+  userId: string
+  token: string
+  userAgent: string | null
+  ipAddress: string | null
+  expiresAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface SessionWhere {
+  id?: string | { not: string }
+  userId: string
+  expiresAt?: { gt: Date }
+}
+
+interface SessionResponse {
+  id: string
+  current: boolean
+  device: { label: string }
+}
+
+describe('Sessions (e2e)', () => {
+  let app: INestApplication<Server>
+  let currentRoleIds: string[]
+  let sessions: SessionRecord[]
+  let auditLogs: Record<string, unknown>[]
+
+  const chromeOnMac =
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+  const buildSession = (id: string, userId: string, expiresInMs = 3_600_000): SessionRecord => ({
+    id,
+    userId,
+    token: `token-${id}`,
+    userAgent: chromeOnMac,
+    ipAddress: '127.0.0.1',
+    expiresAt: new Date(Date.now() + expiresInMs),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  })
+
+  const pick = (session: SessionRecord, select: Record<string, boolean>) =>
+    Object.fromEntries(Object.keys(select).map(key => [key, session[key as keyof SessionRecord]]))
+
+  const matches = (session: SessionRecord, where: SessionWhere): boolean =>
+    session.userId === where.userId &&
+    (where.id === undefined ||
+      (typeof where.id === 'string' ? session.id === where.id : session.id !== where.id.not)) &&
+    (!where.expiresAt || session.expiresAt > where.expiresAt.gt)
+
+  // Minimal in-memory stand-in for the Prisma delegates used by SessionsService
+  const mockPrismaService = {
+    session: {
+      findMany: ({ where, select }: { where: SessionWhere; select: Record<string, boolean> }) =>
+        Promise.resolve(
+          sessions.filter(session => matches(session, where)).map(session => pick(session, select))
+        ),
+      findUnique: ({
+        where,
+        select
+      }: {
+        where: { id: string }
+        select: Record<string, boolean>
+      }) => {
+        const session = sessions.find(record => record.id === where.id)
+
+        return Promise.resolve(session ? pick(session, select) : null)
+      },
+      deleteMany: ({ where }: { where: SessionWhere }) => {
+        const count = sessions.filter(session => matches(session, where)).length
+        sessions = sessions.filter(session => !matches(session, where))
+
+        return Promise.resolve({ count })
+      }
+    },
+    user: {
+      findUnique: () => Promise.resolve({ email: 'user@example.com', roles: [] })
+    },
+    auditLog: {
+      create: ({ data }: { data: Record<string, unknown> }) => {
+        auditLogs.push(data)
+        return Promise.resolve(data)
+      }
+    },
+    userRole: {
+      findMany: () => Promise.resolve(currentRoleIds.map(roleId => ({ roleId })))
+    },
+    role: {
+      findUnique: () => Promise.resolve({ parentRoleId: null })
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(
+          where.roles.some.roleId === 'role-admin'
+            ? [{ action: 'manage', subject: 'all', conditions: null }]
+            : [{ action: 'read', subject: 'Product', conditions: null }]
+        )
+    }
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () =>
+        Promise.resolve(
+          currentRoleIds.length
+            ? {
+                user: { id: 'user-1', email: 'user@example.com' },
+                session: buildSession('session-1', 'user-1')
+              }
+            : null
+        )
+    }
+  }
+
+  const signInAs = (roleId: string): void => {
+    currentRoleIds = [roleId]
+  }
+
+  beforeEach(async () => {
+    currentRoleIds = []
+    auditLogs = []
+    sessions = [
+      buildSession('session-1', 'user-1'),
+      buildSession('session-2', 'user-1'),
+      buildSession('session-old', 'user-1', -1000),
+      buildSession('session-3', 'user-2')
+    ]
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('own sessions', () => {
+    beforeEach(() => {
+      signInAs('role-user')
+    })
+
+    it('should require authentication', async () => {
+      currentRoleIds = []
+
+      await request(app.getHttpServer()).get('/sessions/me').expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('GET /sessions/me should list active sessions with a device summary', async () => {
+      const response = await request(app.getHttpServer()).get('/sessions/me').expect(HttpStatus.OK)
+      const body = response.body as SessionResponse[]
+
+      expect(body.map(session => session.id)).toEqual(['session-1', 'session-2'])
+      expect(body[0]).toMatchObject({ current: true, device: { label: 'Chrome 120 on macOS' } })
+      expect(body[1].current).toBe(false)
+      expect(body[0]).not.toHaveProperty('token')
+    })
+
+    it('DELETE /sessions/me/:id should revoke one session', async () => {
+      await request(app.getHttpServer())
+        .delete('/sessions/me/session-2')
+        .expect(HttpStatus.OK)
+        .expect({ revokedSessions: 1 })
+
+      expect(sessions.map(session => session.id)).not.toContain('session-2')
+      expect(auditLogs).toEqual([
+        expect.objectContaining({
+          actorId: 'user-1',
+          action: 'revokeSession',
+          subjectType: 'Session',
+          subjectId: 'session-2',
+          before: expect.objectContaining({ userId: 'user-1', userAgent: chromeOnMac }) as unknown,
+          after: undefined
+        }) as Record<string, unknown>
+      ])
+    })
+
+    it("DELETE /sessions/me/:id should not revoke another user's session", async () => {
+      await request(app.getHttpServer())
+        .delete('/sessions/me/session-3')
+        .expect(HttpStatus.NOT_FOUND)
+
+      expect(sessions.map(session => session.id)).toContain('session-3')
+      expect(auditLogs).toEqual([])
+    })
+
+    it('DELETE /sessions/me?exceptCurrent=true should keep the current session', async () => {
+      await request(app.getHttpServer())
+        .delete('/sessions/me?exceptCurrent=true')
+        .expect(HttpStatus.OK)
+        .expect({ revokedSessions: 2 })
+
+      expect(sessions.map(session => session.id)).toEqual(['session-1', 'session-3'])
+    })
+
+    it('DELETE /sessions/me should revoke every session, the current one included', async () => {
+      await request(app.getHttpServer())
+        .delete('/sessions/me?exceptCurrent=false')
+        .expect(HttpStatus.OK)
+        .expect({ revokedSessions: 3 })
+
+      expect(sessions.map(session => session.id)).toEqual(['session-3'])
+    })
+
+    it("should forbid access to other users' sessions", async () => {
+      await request(app.getHttpServer()).get('/sessions/users/user-2').expect(HttpStatus.FORBIDDEN)
+      await request(app.getHttpServer())
+        .delete('/sessions/users/user-2')
+        .expect(HttpStatus.FORBIDDEN)
+    })
+  })
+
+  describe('as ADMIN', () => {
+    beforeEach(() => {
+      signInAs('role-admin')
+    })
+
+    it("GET /sessions/users/:userId should list any user's sessions", async () => {
+      const response = await request(app.getHttpServer())
+        .get('/sessions/users/user-2')
+        .expect(HttpStatus.OK)
+
+      expect((response.body as SessionResponse[]).map(session => session.id)).toEqual(['session-3'])
+    })
+
+    it('DELETE /sessions/users/:userId/:id should revoke a session of that user', async () => {
+      await request(app.getHttpServer())
+        .delete('/sessions/users/user-2/session-3')
+        .expect(HttpStatus.OK)
+
+      await request(app.getHttpServer())
+        .delete('/sessions/users/user-2/session-1')
+        .expect(HttpStatus.NOT_FOUND)
+    })
+
+    it('DELETE /sessions/users/:userId should revoke all sessions of that user', async () => {
+      await request(app.getHttpServer())
+        .delete('/sessions/users/user-1')
+        .expect(HttpStatus.OK)
+        .expect({ revokedSessions: 3 })
+
+      expect(auditLogs).toEqual([
+        expect.objectContaining({
+          actorId: 'user-1',
+          action: 'revokeAllUserSessions',
+          subjectType: 'User',
+          subjectId: 'user-1'
+        }) as Record<string, unknown>
+      ])
+    })
+  })
+})
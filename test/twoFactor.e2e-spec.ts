@@ -0,0 +1,395 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test, TestingModule } from '@nestjs/testing'
+import { memoryAdapter } from 'better-auth/adapters/memory'
+import { Server } from 'node:http'
+import { BETTER_AUTH, createBetterAuth } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import { MAILER } from 'src/mail/mailer.interface'
+import { MemoryMailer } from 'src/mail/transports/memory.mailer'
+import { generateTotp, getTimeStep } from 'src/twoFactor/totp'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+type DbRecord = Record<string, unknown>
+
+interface TwoFactorRecord {
+  id: string
+  userId: string
+  secret: string
+  enabledAt: Date | null
+  lastUsedStep: number | null
+}
+
+interface BackupCodeRecord {
+  twoFactorId: string
+  codeHash: string
+  usedAt: Date | null
+}
+
+interface ChallengeResponse {
+  twoFactorRequired: boolean
+  challengeToken: string
+}
+
+describe('Two-factor authentication (e2e)', () => {
+  let app: INestApplication<Server>
+  let db: Record<string, DbRecord[]>
+  let twoFactors: TwoFactorRecord[]
+  let backupCodes: BackupCodeRecord[]
+  let isAdmin: boolean
+  const credentials = { email: 'admin@example.com', password: 'password123', name: 'Admin' }
+
+  const findTwoFactor = (where: { id?: string; userId?: string }) =>
+    twoFactors.find(record => record.id === where.id || record.userId === where.userId)
+
+  // Minimal in-memory stand-in for the Prisma delegates used around Better Auth and 2FA
+  const mockPrismaService = {
+    role: {
+      findUnique: () => Promise.resolve({ id: 'role-user', name: 'USER' })
+    },
+    user: {
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(db.user.find(user => user.id === where.id) ?? null)
+    },
+    userRole: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data),
+      count: () => Promise.resolve(isAdmin ? 1 : 0)
+    },
+    verification: {
+      create: ({ data }: { data: DbRecord }) => Promise.resolve(data),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    session: {
+      findMany: () => Promise.resolve([])
+    },
+    twoFactor: {
+      findUnique: ({ where }: { where: { userId: string } }) => {
+        const twoFactor = findTwoFactor(where)
+        const unused = backupCodes.filter(
+          code => code.twoFactorId === twoFactor?.id && !code.usedAt
+        )
+
+        return Promise.resolve(
+          twoFactor ? { ...twoFactor, _count: { backupCodes: unused.length } } : null
+        )
+      },
+      findUniqueOrThrow: ({ where }: { where: { userId: string } }) =>
+        Promise.resolve(findTwoFactor(where)),
+      upsert: ({
+        where,
+        create,
+        update
+      }: {
+        where: { userId: string }
+        create: { userId: string; secret: string }
+        update: Partial<TwoFactorRecord>
+      }) => {
+        const existing = findTwoFactor(where)
+
+        if (existing) {
+          return Promise.resolve(Object.assign(existing, update))
+        }
+
+        const twoFactor = {
+          id: `two-factor-${twoFactors.length + 1}`,
+          enabledAt: null,
+          lastUsedStep: null,
+          ...create
+        }
+        twoFactors.push(twoFactor)
+        return Promise.resolve(twoFactor)
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<TwoFactorRecord> }) =>
+        Promise.resolve(Object.assign(findTwoFactor(where)!, data)),
+      updateMany: ({ where, data }: { where: { id: string }; data: { lastUsedStep: number } }) => {
+        const twoFactor = findTwoFactor(where)!
+        const accepted =
+          twoFactor.lastUsedStep === null || twoFactor.lastUsedStep < data.lastUsedStep
+
+        if (accepted) {
+          twoFactor.lastUsedStep = data.lastUsedStep
+        }
+
+        return Promise.resolve({ count: accepted ? 1 : 0 })
+      },
+      delete: ({ where }: { where: { userId: string } }) => {
+        const twoFactor = findTwoFactor(where)
+        twoFactors = twoFactors.filter(record => record !== twoFactor)
+        backupCodes = backupCodes.filter(code => code.twoFactorId !== twoFactor?.id)
+        return Promise.resolve(twoFactor)
+      }
+    },
+    loginLockout: {
+      findUnique: () => Promise.resolve(null),
+      upsert: () => Promise.resolve({}),
+      deleteMany: () => Promise.resolve({ count: 0 })
+    },
+    twoFactorBackupCode: {
+      createMany: ({ data }: { data: Omit<BackupCodeRecord, 'usedAt'>[] }) => {
+        backupCodes.push(...data.map(code => ({ ...code, usedAt: null })))
+        return Promise.resolve({ count: data.length })
+      },
+      deleteMany: ({ where }: { where: { twoFactorId: string } }) => {
+        backupCodes = backupCodes.filter(code => code.twoFactorId !== where.twoFactorId)
+        return Promise.resolve({ count: 0 })
+      },
+      updateMany: ({ where }: { where: { twoFactorId: string; codeHash: string } }) => {
+        const backupCode = backupCodes.find(
+          code =>
+            code.twoFactorId === where.twoFactorId &&
+            code.codeHash === where.codeHash &&
+            !code.usedAt
+        )
+
+        if (backupCode) {
+          backupCode.usedAt = new Date()
+        }
+
+        return Promise.resolve({ count: backupCode ? 1 : 0 })
+      }
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+
+  const login = () =>
+    request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: credentials.email, password: credentials.password })
+      .expect(HttpStatus.OK)
+
+  const cookiesOf = (response: request.Response): string[] =>
+    (response.headers['set-cookie'] as unknown as string[] | undefined) ?? []
+
+  // Registers, signs in and enables 2FA; the enrollment used the current TOTP step
+  const enableTwoFactor = async () => {
+    await request(app.getHttpServer())
+      .post('/auth/register')
+      .send(credentials)
+      .expect(HttpStatus.CREATED)
+    const cookies = cookiesOf(await login())
+
+    const enrollment = await request(app.getHttpServer())
+      .post('/auth/2fa/enroll')
+      .set('Cookie', cookies)
+      .expect(HttpStatus.CREATED)
+    const { secret } = enrollment.body as { secret: string }
+
+    const confirmation = await request(app.getHttpServer())
+      .post('/auth/2fa/confirm')
+      .set('Cookie', cookies)
+      .send({ code: generateTotp(secret, getTimeStep()) })
+      .expect(HttpStatus.OK)
+
+    return {
+      cookies,
+      secret,
+      backupCodes: (confirmation.body as { backupCodes: string[] }).backupCodes
+    }
+  }
+
+  const verify = (challengeToken: string, code: string) =>
+    request(app.getHttpServer()).post('/auth/2fa/verify').send({ challengeToken, code })
+
+  const createApp = async () => {
+    const config = new ConfigService({
+      BETTER_AUTH_SECRET: 'test-secret-that-is-long-enough-for-better-auth',
+      BETTER_AUTH_URL: 'http://localhost:3000'
+    })
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(
+        createBetterAuth(mockPrismaService as unknown as PrismaService, config, memoryAdapter(db))
+      )
+      .overrideProvider(MAILER)
+      .useValue(new MemoryMailer())
+      .compile()
+
+    app = moduleFixture.createNestApplication({ bodyParser: false })
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+
+    await app.init()
+  }
+
+  beforeEach(async () => {
+    db = { user: [], session: [], account: [], verification: [] }
+    twoFactors = []
+    backupCodes = []
+    isAdmin = false
+
+    await createApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('enrollment', () => {
+    it('should return an otpauth URI and only enable 2FA once confirmed', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/register')
+        .send(credentials)
+        .expect(HttpStatus.CREATED)
+      const cookies = cookiesOf(await login())
+
+      const enrollment = await request(app.getHttpServer())
+        .post('/auth/2fa/enroll')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.CREATED)
+      const { secret, otpauthUri } = enrollment.body as { secret: string; otpauthUri: string }
+
+      expect(otpauthUri).toStartWith('otpauth://totp/')
+      expect(twoFactors[0].secret).not.toContain(secret)
+
+      await request(app.getHttpServer())
+        .post('/auth/2fa/confirm')
+        .set('Cookie', cookies)
+        .send({ code: '000000' })
+        .expect(HttpStatus.BAD_REQUEST)
+      expect(twoFactors[0].enabledAt).toBeNull()
+    })
+
+    it('should report the status with the remaining backup codes', async () => {
+      const { cookies } = await enableTwoFactor()
+
+      const response = await request(app.getHttpServer())
+        .get('/auth/2fa')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({ enabled: true, remainingBackupCodes: 10 })
+    })
+  })
+
+  describe('two-step sign-in', () => {
+    it('should return a challenge instead of a session', async () => {
+      await enableTwoFactor()
+
+      const response = await login()
+      const body = response.body as ChallengeResponse
+
+      expect(body.twoFactorRequired).toBe(true)
+      expect(body.challengeToken).toBeString()
+      expect(body).not.toHaveProperty('id')
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Cookie', cookiesOf(response))
+        .expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should open a session once a TOTP code is verified', async () => {
+      const { secret } = await enableTwoFactor()
+      const { challengeToken } = (await login()).body as ChallengeResponse
+
+      // The current step was spent on the confirmation, the next one is within the drift window
+      const response = await verify(challengeToken, generateTotp(secret, getTimeStep() + 1)).expect(
+        HttpStatus.OK
+      )
+
+      expect(response.body).toMatchObject({ email: credentials.email })
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Cookie', cookiesOf(response))
+        .expect(HttpStatus.OK)
+    })
+
+    it('should accept each backup code once', async () => {
+      const { backupCodes: codes } = await enableTwoFactor()
+
+      const first = (await login()).body as ChallengeResponse
+      await verify(first.challengeToken, codes[0]).expect(HttpStatus.OK)
+
+      const second = (await login()).body as ChallengeResponse
+      await verify(second.challengeToken, codes[0]).expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should drop the challenge after too many wrong codes', async () => {
+      const { secret } = await enableTwoFactor()
+      const { challengeToken } = (await login()).body as ChallengeResponse
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await verify(challengeToken, '000000').expect(HttpStatus.UNAUTHORIZED)
+      }
+
+      await verify(challengeToken, generateTotp(secret, getTimeStep() + 1)).expect(
+        HttpStatus.UNAUTHORIZED
+      )
+    })
+
+    it('should not expose the verification endpoint of Better Auth', async () => {
+      await request(app.getHttpServer())
+        .post('/api/auth/two-factor/verify')
+        .send({ challengeToken: 'token', code: '000000' })
+        .expect(HttpStatus.NOT_FOUND)
+    })
+  })
+
+  describe('disable', () => {
+    it('should turn sign-in back into a single step', async () => {
+      const { cookies, backupCodes: codes } = await enableTwoFactor()
+
+      await request(app.getHttpServer())
+        .post('/auth/2fa/disable')
+        .set('Cookie', cookies)
+        .send({ code: codes[0] })
+        .expect(HttpStatus.OK)
+
+      const response = await login()
+      expect(response.body).toMatchObject({ email: credentials.email })
+    })
+  })
+
+  describe('forced enrollment for administrators', () => {
+    beforeEach(async () => {
+      await app.close()
+      process.env.REQUIRE_ADMIN_TWO_FACTOR = 'true'
+      isAdmin = true
+      await createApp()
+    })
+
+    afterEach(() => {
+      delete process.env.REQUIRE_ADMIN_TWO_FACTOR
+    })
+
+    it('should block administrators until they enroll', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/register')
+        .send(credentials)
+        .expect(HttpStatus.CREATED)
+      const cookies = cookiesOf(await login())
+
+      await request(app.getHttpServer())
+        .get('/sessions/me')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.FORBIDDEN)
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+    })
+
+    it('should let enrolled administrators through', async () => {
+      const { cookies } = await enableTwoFactor()
+
+      await request(app.getHttpServer())
+        .get('/sessions/me')
+        .set('Cookie', cookies)
+        .expect(HttpStatus.OK)
+    })
+  })
+})
@@ -0,0 +1,414 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { Server } from 'node:http'
+import { BETTER_AUTH } from 'src/auth/auth.config'
+import { HttpExceptionFilter } from 'src/common/filters/httpException.filter'
+import { LoggerService } from 'src/common/logger.service'
+import { PrismaService } from 'src/database/prisma.service'
+import request from 'supertest'
+import { AppModule } from '../src/app.module'
+
+interface UserRecord {
+  id: string
+  name: string | null
+  email: string
+  emailVerified: boolean
+  isActive: boolean
+  bannedAt: Date | null
+  createdAt: Date
+  roleName: string
+}
+
+interface FieldCondition {
+  contains?: string
+  in?: unknown[]
+  gte?: Date
+  lte?: Date
+}
+
+// Conditions built by the list query layer, one per filter
+interface UserCondition {
+  roles?: { some: { role: { name: { in: string[] } } } }
+  [field: string]: unknown
+}
+
+interface UserWhere {
+  AND?: UserCondition[]
+}
+
+interface FindManyArgs {
+  where: UserWhere
+  orderBy: Record<string, 'asc' | 'desc'>[]
+  take: number
+  skip: number
+  cursor?: { id: string }
+}
+
+interface UserResponse {
+  id: string
+  email: string
+  isActive: boolean
+  roles: { name: string }[]
+}
+
+interface UserListResponse {
+  data: UserResponse[]
+  meta: { total: number; limit: number; page: number | null; nextCursor: string | null }
+}
+
+describe('Users (e2e)', () => {
+  let app: INestApplication<Server>
+  let currentRoleIds: string[]
+  let users: UserRecord[]
+  let sessions: { id: string; userId: string }[]
+
+  const buildUser = (index: number, roleName: string, emailVerified = true): UserRecord => ({
+    id: `user-${index}`,
+    name: `User ${index}`,
+    email: `user${index}@${roleName === 'ADMIN' ? 'admin.test' : 'example.com'}`,
+    emailVerified,
+    isActive: true,
+    bannedAt: null,
+    createdAt: new Date(Date.UTC(2025, 0, index)),
+    roleName
+  })
+
+  const toSelected = ({ roleName, ...user }: UserRecord) => ({
+    ...user,
+    roles: [{ expiresAt: null, role: { id: `role-${roleName.toLowerCase()}`, name: roleName } }]
+  })
+
+  const matchesField = (actual: unknown, expected: unknown): boolean => {
+    if (typeof expected !== 'object' || expected === null || expected instanceof Date) {
+      return actual === expected
+    }
+
+    const condition = expected as FieldCondition
+
+    return (
+      (condition.contains === undefined || String(actual).includes(condition.contains)) &&
+      (condition.in === undefined || condition.in.includes(actual)) &&
+      (condition.gte === undefined || (actual as Date) >= condition.gte) &&
+      (condition.lte === undefined || (actual as Date) <= condition.lte)
+    )
+  }
+
+  const matches = (user: UserRecord, where: UserWhere): boolean =>
+    (where.AND ?? []).every(({ roles, ...fields }) =>
+      roles
+        ? roles.some.role.name.in.includes(user.roleName)
+        : Object.entries(fields).every(([field, expected]) =>
+            matchesField(user[field as keyof UserRecord], expected)
+          )
+    )
+
+  const compareBy =
+    (orderBy: FindManyArgs['orderBy']) =>
+    (a: UserRecord, b: UserRecord): number => {
+      for (const [field, direction] of orderBy.flatMap(order => Object.entries(order))) {
+        const left = a[field as keyof UserRecord] as string | Date
+        const right = b[field as keyof UserRecord] as string | Date
+
+        if (left < right || left > right) {
+          return (left < right ? -1 : 1) * (direction === 'asc' ? 1 : -1)
+        }
+      }
+
+      return 0
+    }
+
+  // Minimal in-memory stand-in for the Prisma delegates used by UsersService
+  const mockPrismaService = {
+    user: {
+      count: ({ where }: { where: UserWhere }) =>
+        Promise.resolve(users.filter(user => matches(user, where)).length),
+      findMany: ({ where, orderBy, take, skip, cursor }: FindManyArgs) => {
+        const sorted = users.filter(user => matches(user, where)).sort(compareBy(orderBy))
+        const start = cursor ? sorted.findIndex(user => user.id === cursor.id) : 0
+
+        return Promise.resolve(sorted.slice(start + skip, start + skip + take).map(toSelected))
+      },
+      findUnique: ({ where }: { where: { id?: string; email?: string } }) => {
+        const user = users.find(u => u.id === where.id || u.email === where.email)
+
+        return Promise.resolve(user ? toSelected(user) : null)
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<UserRecord> }) => {
+        const user = users.find(u => u.id === where.id)!
+        Object.assign(user, data)
+
+        return Promise.resolve(toSelected(user))
+      },
+      delete: ({ where }: { where: { id: string } }) => {
+        users = users.filter(user => user.id !== where.id)
+        sessions = sessions.filter(session => session.userId !== where.id)
+
+        return Promise.resolve()
+      }
+    },
+    session: {
+      deleteMany: ({ where }: { where: { userId: string } }) => {
+        const count = sessions.filter(session => session.userId === where.userId).length
+        sessions = sessions.filter(session => session.userId !== where.userId)
+
+        return Promise.resolve({ count })
+      }
+    },
+    order: {
+      count: () => Promise.resolve(0)
+    },
+    userRole: {
+      findMany: () => Promise.resolve(currentRoleIds.map(roleId => ({ roleId })))
+    },
+    role: {
+      findUnique: () => Promise.resolve({ parentRoleId: null })
+    },
+    permission: {
+      findMany: ({ where }: { where: { roles: { some: { roleId: string } } } }) =>
+        Promise.resolve(
+          where.roles.some.roleId === 'role-admin'
+            ? [{ action: 'manage', subject: 'all', conditions: null }]
+            : [{ action: 'read', subject: 'User', conditions: null }]
+        )
+    },
+    // Stands in for the UserSearch FTS5 table: every quoted word must prefix a word
+    $queryRaw: ({ values }: { values: unknown[] }) => {
+      const words = [...String(values[0]).matchAll(/"([^"]+)"\*/g)].map(([, word]) => word)
+
+      return Promise.resolve(
+        users
+          .filter(user => {
+            const indexed = `${user.name} ${user.email}`.toLowerCase().split(/[^a-z0-9]+/)
+
+            return words.every(word => indexed.some(token => token.startsWith(word)))
+          })
+          .map(({ id }) => ({ id }))
+      )
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  }
+  const mockLoggerService = {
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+  }
+  const mockBetterAuth = {
+    options: {},
+    api: {
+      getSession: () =>
+        Promise.resolve(
+          currentRoleIds.length
+            ? {
+                user: { id: 'user-1', email: 'user1@admin.test' },
+                session: { id: 'session-1', userId: 'user-1' }
+              }
+            : null
+        )
+    }
+  }
+
+  const signInAs = (roleId: string): void => {
+    currentRoleIds = [roleId]
+  }
+
+  beforeEach(async () => {
+    currentRoleIds = []
+    users = [
+      buildUser(1, 'ADMIN'),
+      buildUser(2, 'PRODUCT_MANAGER'),
+      buildUser(3, 'USER'),
+      buildUser(4, 'USER', false),
+      buildUser(5, 'USER')
+    ]
+    sessions = [
+      { id: 'session-1', userId: 'user-1' },
+      { id: 'session-3a', userId: 'user-3' },
+      { id: 'session-3b', userId: 'user-3' }
+    ]
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule]
+    })
+      .overrideProvider(PrismaService)
+      .useValue(mockPrismaService)
+      .overrideProvider(LoggerService)
+      .useValue(mockLoggerService)
+      .overrideProvider(BETTER_AUTH)
+      .useValue(mockBetterAuth)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    app.useGlobalFilters(new HttpExceptionFilter())
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true }
+      })
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('authorization', () => {
+    it('should require authentication', async () => {
+      await request(app.getHttpServer()).get('/users').expect(HttpStatus.UNAUTHORIZED)
+    })
+
+    it('should let read-only roles list users but not deactivate them', async () => {
+      signInAs('role-manager')
+
+      await request(app.getHttpServer()).get('/users').expect(HttpStatus.OK)
+      await request(app.getHttpServer())
+        .post('/users/user-3/deactivate')
+        .expect(HttpStatus.FORBIDDEN)
+    })
+  })
+
+  describe('as ADMIN', () => {
+    beforeEach(() => {
+      signInAs('role-admin')
+    })
+
+    it('GET /users should paginate by offset, newest first', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/users?limit=2&page=2')
+        .expect(HttpStatus.OK)
+      const body = response.body as UserListResponse
+
+      expect(body.data.map(user => user.id)).toEqual(['user-3', 'user-2'])
+      expect(body.meta).toMatchObject({ total: 5, limit: 2, page: 2 })
+      expect(body.meta.nextCursor).toEqual(expect.any(String) as string)
+      expect(body.data[0].roles).toMatchObject([{ name: 'USER' }])
+    })
+
+    it('GET /users should follow cursors until the last page', async () => {
+      const first = await request(app.getHttpServer())
+        .get('/users?limit=3&sort=createdAt')
+        .expect(HttpStatus.OK)
+      const firstBody = first.body as UserListResponse
+
+      const second = await request(app.getHttpServer())
+        .get(`/users?limit=3&sort=createdAt&cursor=${firstBody.meta.nextCursor}`)
+        .expect(HttpStatus.OK)
+      const secondBody = second.body as UserListResponse
+
+      expect(firstBody.data.map(user => user.id)).toEqual(['user-1', 'user-2', 'user-3'])
+      expect(secondBody.data.map(user => user.id)).toEqual(['user-4', 'user-5'])
+      expect(secondBody.meta.nextCursor).toBeNull()
+    })
+
+    it('GET /users should filter by role, email and emailVerified', async () => {
+      const byRole = await request(app.getHttpServer())
+        .get('/users?role=USER&emailVerified=false')
+        .expect(HttpStatus.OK)
+      const byEmail = await request(app.getHttpServer())
+        .get('/users?email=admin.test')
+        .expect(HttpStatus.OK)
+
+      expect((byRole.body as UserListResponse).data.map(user => user.id)).toEqual(['user-4'])
+      expect((byEmail.body as UserListResponse).data.map(user => user.id)).toEqual(['user-1'])
+    })
+
+    it('GET /users should sort on several fields and accept lists of roles', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/users?role=USER,PRODUCT_MANAGER&emailVerified=true&sort=-email')
+        .expect(HttpStatus.OK)
+
+      expect((response.body as UserListResponse).data.map(user => user.id)).toEqual([
+        'user-5',
+        'user-3',
+        'user-2'
+      ])
+    })
+
+    it('GET /users should search names and emails', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/users?q=user4')
+        .expect(HttpStatus.OK)
+      const body = response.body as UserListResponse
+
+      expect(body.data.map(user => user.id)).toEqual(['user-4'])
+      expect(body.meta.total).toBe(1)
+    })
+
+    it('GET /users should reject unknown filters, sort fields and foreign cursors', async () => {
+      const first = await request(app.getHttpServer()).get('/users?limit=2').expect(HttpStatus.OK)
+      const { nextCursor } = (first.body as UserListResponse).meta
+
+      await request(app.getHttpServer()).get('/users?password=x').expect(HttpStatus.BAD_REQUEST)
+      await request(app.getHttpServer()).get('/users?sort=-password').expect(HttpStatus.BAD_REQUEST)
+      await request(app.getHttpServer())
+        .get(`/users?sort=email&cursor=${nextCursor}`)
+        .expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('GET /users should validate the query', async () => {
+      await request(app.getHttpServer()).get('/users?limit=0').expect(HttpStatus.BAD_REQUEST)
+      await request(app.getHttpServer())
+        .get('/users?emailVerified=maybe')
+        .expect(HttpStatus.BAD_REQUEST)
+      await request(app.getHttpServer()).get('/users?sort=name').expect(HttpStatus.BAD_REQUEST)
+    })
+
+    it('GET /users/:id should return 404 for unknown users', async () => {
+      await request(app.getHttpServer()).get('/users/missing').expect(HttpStatus.NOT_FOUND)
+    })
+
+    it('PATCH /users/:id should update the profile', async () => {
+      const response = await request(app.getHttpServer())
+        .patch('/users/user-3')
+        .send({ name: 'Renamed', emailVerified: true })
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({ id: 'user-3', name: 'Renamed', emailVerified: true })
+    })
+
+    it('PATCH /users/:id should reject an email already in use', async () => {
+      await request(app.getHttpServer())
+        .patch('/users/user-3')
+        .send({ email: 'user5@example.com' })
+        .expect(HttpStatus.CONFLICT)
+    })
+
+    it('POST /users/:id/deactivate should revoke every session of the user', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/users/user-3/deactivate')
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({
+        user: { id: 'user-3', isActive: false },
+        revokedSessions: 2
+      })
+      expect(sessions.some(session => session.userId === 'user-3')).toBe(false)
+      expect(users.find(user => user.id === 'user-3')?.bannedAt).toBeInstanceOf(Date)
+    })
+
+    it('POST /users/:id/deactivate should refuse to deactivate yourself', async () => {
+      await request(app.getHttpServer())
+        .post('/users/user-1/deactivate')
+        .expect(HttpStatus.CONFLICT)
+    })
+
+    it('POST /users/:id/activate should restore access', async () => {
+      await request(app.getHttpServer()).post('/users/user-3/deactivate').expect(HttpStatus.OK)
+
+      const response = await request(app.getHttpServer())
+        .post('/users/user-3/activate')
+        .expect(HttpStatus.OK)
+
+      expect(response.body).toMatchObject({ id: 'user-3', isActive: true, bannedAt: null })
+    })
+
+    it('DELETE /users/:id should delete the user', async () => {
+      await request(app.getHttpServer()).delete('/users/user-5').expect(HttpStatus.OK)
+
+      expect(users.map(user => user.id)).not.toContain('user-5')
+      await request(app.getHttpServer()).get('/users/user-5').expect(HttpStatus.NOT_FOUND)
+    })
+  })
+})